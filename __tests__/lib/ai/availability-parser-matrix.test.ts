@@ -4,9 +4,11 @@
  * Tests the convertToRules function which transforms AI-parsed availability
  * into database rules. Does NOT test the actual AI parsing (which requires
  * an API call), but tests all the normalization and conversion logic.
+ * The rule-based fallback parser is run against the same fixtures at the end.
  */
 
 import { convertToRules, ParseResult } from '../../../lib/ai/availability-parser';
+import { parseAvailabilityTextLocally } from '../../../lib/ai/rule-based-parser';
 import { createRange, timeToMinutes } from '../../../lib/availability/range-math';
 
 describe('AI Availability Parser: convertToRules', () => {
@@ -276,6 +278,62 @@ describe('AI Availability Parser: convertToRules', () => {
     });
   });
 
+  describe('date bounds on recurring rules', () => {
+    it('passes validFrom / validUntil through to pattern and removal rules', () => {
+      const parseResult: ParseResult = {
+        patterns: [{ dayOfWeek: 2, startTime: '18:00', endTime: '22:00', validUntil: '2026-03-01' }],
+        additions: [],
+        exclusions: [],
+        routineRemovals: [{ dayOfWeek: 6, validFrom: '2026-04-01' }],
+        interpretation: 'Tuesdays 6-10pm until March 1st, no Saturdays starting April',
+        mode: 'adjust',
+      };
+
+      const rules = convertToRules(parseResult, 'America/Los_Angeles', participantId);
+
+      expect(rules[0]).toMatchObject({ ruleType: 'available_pattern', validFrom: null, validUntil: '2026-03-01' });
+      expect(rules[1]).toMatchObject({ ruleType: 'blocked_pattern', validFrom: '2026-04-01', validUntil: null });
+    });
+
+    it('leaves unbounded patterns unbounded', () => {
+      const rules = convertToRules(
+        {
+          patterns: [{ dayOfWeek: 1, startTime: '09:00', endTime: '17:00' }],
+          additions: [],
+          exclusions: [],
+          routineRemovals: [],
+          interpretation: 'Mondays 9-5',
+          mode: 'adjust',
+        },
+        'UTC',
+        participantId
+      );
+
+      expect(rules[0].validFrom).toBeNull();
+      expect(rules[0].validUntil).toBeNull();
+    });
+  });
+
+  describe('recurrence other than weekly', () => {
+    it('passes every-N-weeks and nth-weekday fields through', () => {
+      const rules = convertToRules(
+        {
+          patterns: [{ dayOfWeek: 6, startTime: '14:00', endTime: '18:00', weekInterval: 2, anchorDate: '2026-01-10' }],
+          additions: [],
+          exclusions: [],
+          routineRemovals: [{ dayOfWeek: 5, weeksOfMonth: [-1] }],
+          interpretation: 'Every other Saturday 2-6pm, never the last Friday',
+          mode: 'adjust',
+        },
+        'UTC',
+        participantId
+      );
+
+      expect(rules[0]).toMatchObject({ weekInterval: 2, anchorDate: '2026-01-10', weeksOfMonth: null });
+      expect(rules[1]).toMatchObject({ ruleType: 'blocked_pattern', weekInterval: null, weeksOfMonth: [-1] });
+    });
+  });
+
   describe('complex mixed scenarios', () => {
     it('handles mixed patterns, additions, exclusions, and removals', () => {
       const parseResult: ParseResult = {
@@ -509,3 +567,108 @@ describe('AI Availability Parser: Edge Case Inputs', () => {
     );
   });
 });
+
+describe('Rule-based parser: matrix fixtures from text', () => {
+  const participantId = 'test-participant';
+  // Fixture dates are relative to these days
+  const jan2025 = '2025-01-01';
+  const jan2026 = '2026-01-06';
+
+  const emptyResult = { patterns: [], additions: [], exclusions: [], routineRemovals: [] };
+
+  const fixtureCases: [string, string, Omit<ParseResult, 'interpretation' | 'mode'>][] = [
+    // [text (the fixture's interpretation), today, expected result]
+    ['Monday 9-5', jan2025, { ...emptyResult, patterns: [{ dayOfWeek: 1, startTime: '09:00', endTime: '17:00' }] }],
+    [
+      'Weekday evenings 5-10pm',
+      jan2025,
+      {
+        ...emptyResult,
+        patterns: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, startTime: '17:00', endTime: '22:00' })),
+      },
+    ],
+    [
+      'Weekends all day',
+      jan2025,
+      {
+        ...emptyResult,
+        patterns: [
+          { dayOfWeek: 0, startTime: '00:00', endTime: '24:00' },
+          { dayOfWeek: 6, startTime: '00:00', endTime: '24:00' },
+        ],
+      },
+    ],
+    ['Friday night 10pm-2am', jan2025, { ...emptyResult, patterns: [{ dayOfWeek: 5, startTime: '22:00', endTime: '02:00' }] }],
+    ['Monday all day', jan2025, { ...emptyResult, patterns: [{ dayOfWeek: 1, startTime: '00:00', endTime: '24:00' }] }],
+    [
+      'Available Jan 15 10am-2pm, Jan 16 5pm-9pm',
+      jan2025,
+      {
+        ...emptyResult,
+        additions: [
+          { date: '2025-01-15', startTime: '10:00', endTime: '14:00' },
+          { date: '2025-01-16', startTime: '17:00', endTime: '21:00' },
+        ],
+      },
+    ],
+    ['Not available Jan 15', jan2025, { ...emptyResult, exclusions: [{ date: '2025-01-15' }] }],
+    [
+      'Not available Mondays, busy Tuesdays 9-5',
+      jan2025,
+      {
+        ...emptyResult,
+        routineRemovals: [{ dayOfWeek: 1 }, { dayOfWeek: 2, startTime: '09:00', endTime: '17:00' }],
+      },
+    ],
+    [
+      'Tuesdays 6-10pm until March 1st, no Saturdays starting April',
+      jan2026,
+      {
+        ...emptyResult,
+        patterns: [{ dayOfWeek: 2, startTime: '18:00', endTime: '22:00', validUntil: '2026-03-01' }],
+        routineRemovals: [{ dayOfWeek: 6, validFrom: '2026-04-01' }],
+      },
+    ],
+    [
+      'Every other Saturday 2-6pm, never the last Friday',
+      jan2026,
+      {
+        ...emptyResult,
+        patterns: [{ dayOfWeek: 6, startTime: '14:00', endTime: '18:00', weekInterval: 2, anchorDate: '2026-01-10' }],
+        routineRemovals: [{ dayOfWeek: 5, weeksOfMonth: [-1] }],
+      },
+    ],
+  ];
+
+  it.each(fixtureCases)('parses "%s" like the fixture', (text, today, expected) => {
+    const result = parseAvailabilityTextLocally(text, today);
+    expect(result).toMatchObject({ ...expected, mode: 'adjust' });
+
+    const rules = convertToRules(result, 'America/Los_Angeles', participantId);
+    const total =
+      expected.patterns.length + expected.additions.length + expected.exclusions.length + expected.routineRemovals.length;
+    expect(rules.length).toBe(total);
+  });
+
+  const durationCases: [string, string, number][] = [
+    // [text, timezone, expectedDuration]
+    ['mondays 9am-5pm', 'America/Los_Angeles', 480],
+    ['mondays 9-5', 'Asia/Kathmandu', 480],
+    ['mondays all day', 'Pacific/Auckland', 1440],
+    ['mondays 00:00-24:00', 'Asia/Manila', 1440],
+    ['mondays 10pm-2am', 'UTC', 240],
+    ['mondays 11pm to 6am', 'UTC', 420],
+    ['mondays 12:00-12:30', 'America/Los_Angeles', 30],
+    ['monday evenings', 'America/Los_Angeles', 300],
+    ['mondays 6-10pm', 'Europe/London', 240],
+    ['mondays 7-11pm', 'Asia/Tokyo', 240],
+  ];
+
+  it.each(durationCases)('"%s" in %s preserves duration of %d minutes', (text, timezone, expectedDuration) => {
+    const rules = convertToRules(parseAvailabilityTextLocally(text, jan2025), timezone, participantId);
+
+    expect(rules.length).toBe(1);
+    const range = createRange(rules[0].startTime, rules[0].endTime, rules[0].crossesMidnight);
+    expect(range.endMinutes - range.startMinutes).toBe(expectedDuration);
+  });
+});
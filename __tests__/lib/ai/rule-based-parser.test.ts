@@ -0,0 +1,182 @@
+import { parseAvailabilityTextLocally } from "../../../lib/ai/rule-based-parser";
+
+// A Tuesday
+const TODAY = "2026-01-06";
+
+function parse(text: string) {
+  return parseAvailabilityTextLocally(text, TODAY);
+}
+
+describe("parseAvailabilityTextLocally", () => {
+  describe("recurring availability", () => {
+    it("reads weekday evenings as Mon-Fri 17:00-22:00", () => {
+      const result = parse("weekday evenings");
+      expect(result.patterns).toEqual(
+        [1, 2, 3, 4, 5].map((dayOfWeek) => ({ dayOfWeek, startTime: "17:00", endTime: "22:00" }))
+      );
+      expect(result.mode).toBe("adjust");
+    });
+
+    it("applies times without days to every day", () => {
+      expect(parse("free 6-10pm").patterns).toHaveLength(7);
+    });
+
+    it("keeps overnight ranges as end before start", () => {
+      expect(parse("10pm-2am on fridays").patterns).toEqual([
+        { dayOfWeek: 5, startTime: "22:00", endTime: "02:00" },
+      ]);
+    });
+
+    it("prefers an explicit time over a named part of the day", () => {
+      expect(parse("friday night 10pm-2am").patterns).toEqual([
+        { dayOfWeek: 5, startTime: "22:00", endTime: "02:00" },
+      ]);
+    });
+
+    it("only reads anytime as all day when no other time goes with it", () => {
+      expect(parse("anytime after 6pm weekdays").patterns).toEqual(
+        [1, 2, 3, 4, 5].map((dayOfWeek) => ({ dayOfWeek, startTime: "18:00", endTime: "24:00" }))
+      );
+      expect(parse("saturdays anytime").patterns).toEqual([{ dayOfWeek: 6, startTime: "00:00", endTime: "24:00" }]);
+    });
+
+    it("pairs each day with the time next to it", () => {
+      expect(parse("mondays 6-10pm and saturdays all day").patterns).toEqual([
+        { dayOfWeek: 1, startTime: "18:00", endTime: "22:00" },
+        { dayOfWeek: 6, startTime: "00:00", endTime: "24:00" },
+      ]);
+      expect(parse("after 7pm on fri-sun").patterns).toEqual(
+        [5, 6, 0].map((dayOfWeek) => ({ dayOfWeek, startTime: "19:00", endTime: "24:00" }))
+      );
+    });
+
+    it("switches to replace mode for a complete schedule", () => {
+      const result = parse("My availability is weekends all day");
+      expect(result.mode).toBe("replace");
+      expect(result.patterns.map((p) => p.dayOfWeek)).toEqual([0, 6]);
+    });
+  });
+
+  describe("unavailability", () => {
+    it("removes whole days from the routine", () => {
+      expect(parse("not mondays").routineRemovals).toEqual([{ dayOfWeek: 1 }]);
+    });
+
+    it("treats working hours as unavailable", () => {
+      expect(parse("I work 9-5 weekdays").routineRemovals).toEqual(
+        [1, 2, 3, 4, 5].map((dayOfWeek) => ({ dayOfWeek, startTime: "09:00", endTime: "17:00" }))
+      );
+    });
+
+    it("carries negation through a comma-separated list", () => {
+      const result = parse("can't do mondays, tuesdays or wednesdays");
+      expect(result.routineRemovals.map((r) => r.dayOfWeek)).toEqual([1, 2, 3]);
+      expect(result.patterns).toEqual([]);
+    });
+
+    it("splits availability from exceptions", () => {
+      const result = parse("weekdays after 7pm, but not mondays");
+      expect(result.patterns.map((p) => p.dayOfWeek)).toEqual([1, 2, 3, 4, 5]);
+      expect(result.routineRemovals).toEqual([{ dayOfWeek: 1 }]);
+
+      const exceptResult = parse("weekends except sunday mornings");
+      expect(exceptResult.patterns.map((p) => p.dayOfWeek)).toEqual([0, 6]);
+      expect(exceptResult.routineRemovals).toEqual([{ dayOfWeek: 0, startTime: "06:00", endTime: "12:00" }]);
+    });
+  });
+
+  describe("specific dates", () => {
+    it("excludes a whole day", () => {
+      expect(parse("busy the 15th").exclusions).toEqual([{ date: "2026-01-15" }]);
+    });
+
+    it("rolls day-of-month and month-day dates forward", () => {
+      expect(parse("busy the 3rd").exclusions).toEqual([{ date: "2026-02-03" }]);
+      expect(parse("busy jan 2").exclusions).toEqual([{ date: "2027-01-02" }]);
+    });
+
+    it("resolves this/next day names and relative days", () => {
+      expect(parse("busy this thursday afternoon").exclusions).toEqual([
+        { date: "2026-01-08", startTime: "12:00", endTime: "17:00" },
+      ]);
+      expect(parse("can't make next tuesday").exclusions).toEqual([{ date: "2026-01-13" }]);
+      expect(parse("free tonight").additions).toEqual([
+        { date: TODAY, startTime: "17:00", endTime: "22:00" },
+      ]);
+    });
+
+    it("adds availability on dates", () => {
+      expect(parse("also free January 12th 5-7pm and 1/20").additions).toEqual([
+        { date: "2026-01-12", startTime: "17:00", endTime: "19:00" },
+        { date: "2026-01-20", startTime: "00:00", endTime: "24:00" },
+      ]);
+    });
+  });
+
+  describe("bounds and recurrence", () => {
+    it("reads every other / nth weekday recurrence", () => {
+      expect(parse("every other saturday 2-6pm").patterns).toEqual([
+        { dayOfWeek: 6, startTime: "14:00", endTime: "18:00", weekInterval: 2, anchorDate: "2026-01-10" },
+      ]);
+      expect(parse("first and third fridays after 7pm").patterns).toEqual([
+        { dayOfWeek: 5, startTime: "19:00", endTime: "24:00", weeksOfMonth: [1, 3] },
+      ]);
+      expect(parse("busy the last sunday of every month").routineRemovals).toEqual([
+        { dayOfWeek: 0, weeksOfMonth: [-1] },
+      ]);
+    });
+
+    it("anchors every-N-weeks on the start date when given", () => {
+      expect(parse("every other saturday starting the 17th").patterns[0]).toMatchObject({
+        weekInterval: 2,
+        anchorDate: "2026-01-17",
+        validFrom: "2026-01-17",
+      });
+    });
+
+    it("reads until / starting bounds", () => {
+      expect(parse("tuesdays 6-10pm until march 1st").patterns).toEqual([
+        { dayOfWeek: 2, startTime: "18:00", endTime: "22:00", validUntil: "2026-03-01" },
+      ]);
+      expect(parse("can't do mondays before the 20th").routineRemovals).toEqual([
+        { dayOfWeek: 1, validUntil: "2026-01-19" },
+      ]);
+      expect(parse("no saturdays starting april").routineRemovals).toEqual([
+        { dayOfWeek: 6, validFrom: "2026-04-01" },
+      ]);
+      expect(parse("weekends until next month").patterns[0]).toMatchObject({ validUntil: "2026-01-31" });
+    });
+  });
+
+  describe("time ranges", () => {
+    const cases: [string, string, string][] = [
+      ["6-10pm", "18:00", "22:00"],
+      ["10-2pm", "10:00", "14:00"],
+      ["9-5", "09:00", "17:00"],
+      ["6-10", "18:00", "22:00"],
+      ["10pm-2", "22:00", "02:00"],
+      ["11-1am", "23:00", "01:00"],
+      ["noon to midnight", "12:00", "24:00"],
+      ["18:00-22:30", "18:00", "22:30"],
+      ["between 9:45am and noon", "10:00", "12:00"],
+      ["from 7 p.m. until 11", "19:00", "23:00"],
+      ["before 3pm", "00:00", "15:00"],
+    ];
+
+    it.each(cases)("reads %s as %s-%s", (text, startTime, endTime) => {
+      expect(parse(`mondays ${text}`).patterns).toEqual([{ dayOfWeek: 1, startTime, endTime }]);
+    });
+  });
+
+  describe("interpretation", () => {
+    it("summarizes what was understood and what was skipped", () => {
+      const result = parse("weekday evenings; the dog needs walks");
+      expect(result.interpretation).toContain("Available Mon, Tue, Wed, Thu, Fri 17:00-22:00");
+      expect(result.interpretation).toContain('Ignored: "the dog needs walks"');
+    });
+
+    it("throws when nothing is understood", () => {
+      expect(() => parse("whenever works for everyone")).toThrow(/Couldn't understand/);
+    });
+  });
+});
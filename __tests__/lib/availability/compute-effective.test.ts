@@ -26,6 +26,14 @@ function createRule(
     endTime: overrides.endTime,
     originalTimezone: overrides.originalTimezone || "UTC",
     originalDayOfWeek: overrides.originalDayOfWeek ?? null,
+    originalStartTime: overrides.originalStartTime,
+    originalEndTime: overrides.originalEndTime,
+    validFrom: overrides.validFrom,
+    validUntil: overrides.validUntil,
+    weekInterval: overrides.weekInterval,
+    anchorDate: overrides.anchorDate,
+    weeksOfMonth: overrides.weeksOfMonth,
+    preference: overrides.preference,
     reason: overrides.reason ?? null,
     source: overrides.source || "manual",
     createdAt: new Date(),
@@ -250,6 +258,226 @@ describe("compute-effective", () => {
     });
   });
 
+  describe("pattern date bounds", () => {
+    it("applies patterns only between validFrom and validUntil (inclusive)", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "18:00",
+          endTime: "22:00",
+          validFrom: "2024-01-08",
+          validUntil: "2024-01-15",
+        }),
+      ];
+
+      // Mondays: Jan 1, 8, 15, 22
+      expect(computeEffectiveForDate(rules, "2024-01-01").availableRanges).toEqual([]);
+      expect(computeEffectiveForDate(rules, "2024-01-08").availableRanges).toHaveLength(1);
+      expect(computeEffectiveForDate(rules, "2024-01-15").availableRanges).toHaveLength(1);
+      expect(computeEffectiveForDate(rules, "2024-01-22").availableRanges).toEqual([]);
+    });
+
+    it("bounds blocked patterns too", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "17:00",
+        }),
+        createRule({
+          ruleType: "blocked_pattern",
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "17:00",
+          validUntil: "2024-01-08",
+        }),
+      ];
+
+      expect(computeEffectiveForDate(rules, "2024-01-08").availableRanges).toEqual([]);
+      expect(computeEffectiveForDate(rules, "2024-01-15").availableRanges).toEqual([
+        { startMinutes: 540, endMinutes: 1020 },
+      ]);
+    });
+
+    it("compares bounds with the local date of wall-clock patterns", () => {
+      // Monday 19:00-23:00 in New York is Tuesday 00:00-04:00 UTC (EST)
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 2,
+          startTime: "00:00",
+          endTime: "04:00",
+          originalTimezone: "America/New_York",
+          originalDayOfWeek: 1,
+          originalStartTime: "19:00",
+          originalEndTime: "23:00",
+          validUntil: "2024-01-15",
+        }),
+      ];
+
+      // Monday Jan 15 local is inside the bound, even though it lands on Jan 16 UTC
+      expect(computeEffectiveForDate(rules, "2024-01-16").availableRanges).toEqual([
+        { startMinutes: 0, endMinutes: 240 },
+      ]);
+      expect(computeEffectiveForDate(rules, "2024-01-23").availableRanges).toEqual([]);
+    });
+  });
+
+  describe("pattern recurrence", () => {
+    it("applies every-other-week patterns only on anchor weeks", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 6,
+          startTime: "14:00",
+          endTime: "18:00",
+          weekInterval: 2,
+          anchorDate: "2024-01-13",
+        }),
+      ];
+
+      // Saturdays: Jan 6, 13, 20, 27
+      expect(computeEffectiveForDate(rules, "2024-01-06").availableRanges).toEqual([]);
+      expect(computeEffectiveForDate(rules, "2024-01-13").availableRanges).toHaveLength(1);
+      expect(computeEffectiveForDate(rules, "2024-01-20").availableRanges).toEqual([]);
+      expect(computeEffectiveForDate(rules, "2024-01-27").availableRanges).toHaveLength(1);
+    });
+
+    it("blocks only the nth weekday of the month", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 5,
+          startTime: "18:00",
+          endTime: "22:00",
+        }),
+        createRule({
+          ruleType: "blocked_pattern",
+          dayOfWeek: 5,
+          startTime: "00:00",
+          endTime: "24:00",
+          weeksOfMonth: [-1],
+        }),
+      ];
+
+      // Fridays in Feb 2024: 2, 9, 16, 23 (last)
+      expect(computeEffectiveForDate(rules, "2024-02-16").availableRanges).toHaveLength(1);
+      expect(computeEffectiveForDate(rules, "2024-02-23").availableRanges).toEqual([]);
+    });
+
+    it("counts weeks on the local date of wall-clock patterns", () => {
+      // Saturday 20:00-23:00 in New York is Sunday 01:00-04:00 UTC (EST)
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 0,
+          startTime: "01:00",
+          endTime: "04:00",
+          originalTimezone: "America/New_York",
+          originalDayOfWeek: 6,
+          originalStartTime: "20:00",
+          originalEndTime: "23:00",
+          weekInterval: 2,
+          anchorDate: "2024-01-13",
+        }),
+      ];
+
+      expect(computeEffectiveForDate(rules, "2024-01-14").availableRanges).toEqual([
+        { startMinutes: 60, endMinutes: 240 },
+      ]);
+      expect(computeEffectiveForDate(rules, "2024-01-21").availableRanges).toEqual([]);
+    });
+  });
+
+  describe("if needed preference", () => {
+    it("reports if-needed time as a subset of available ranges", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "18:00",
+          endTime: "22:00",
+        }),
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "12:00",
+          preference: "if_needed",
+        }),
+      ];
+
+      const result = computeEffectiveForDate(rules, "2024-01-15");
+      expect(result.availableRanges).toEqual([
+        { startMinutes: 540, endMinutes: 720 },
+        { startMinutes: 1080, endMinutes: 1320 },
+      ]);
+      expect(result.ifNeededRanges).toEqual([{ startMinutes: 540, endMinutes: 720 }]);
+    });
+
+    it("lets an if-needed override downgrade part of a preferred pattern", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "18:00",
+          endTime: "22:00",
+        }),
+        createRule({
+          ruleType: "available_override",
+          specificDate: "2024-01-15",
+          startTime: "20:00",
+          endTime: "23:00",
+          preference: "if_needed",
+        }),
+      ];
+
+      const result = computeEffectiveForDate(rules, "2024-01-15");
+      expect(result.availableRanges).toEqual([{ startMinutes: 1080, endMinutes: 1380 }]);
+      expect(result.ifNeededRanges).toEqual([{ startMinutes: 1200, endMinutes: 1380 }]);
+    });
+
+    it("removes blocked time from if-needed ranges", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "12:00",
+          preference: "if_needed",
+        }),
+        createRule({
+          ruleType: "blocked_override",
+          specificDate: "2024-01-15",
+          startTime: "10:00",
+          endTime: "11:00",
+        }),
+      ];
+
+      const result = computeEffectiveForDate(rules, "2024-01-15");
+      expect(result.ifNeededRanges).toEqual(result.availableRanges);
+      expect(result.ifNeededRanges).toEqual([
+        { startMinutes: 540, endMinutes: 600 },
+        { startMinutes: 660, endMinutes: 720 },
+      ]);
+    });
+
+    it("has no if-needed time for legacy rules without a preference", () => {
+      const rules: AvailabilityRule[] = [
+        createRule({
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "17:00",
+        }),
+      ];
+
+      expect(computeEffectiveForDate(rules, "2024-01-15").ifNeededRanges).toEqual([]);
+    });
+  });
+
   describe("computeEffectiveRanges", () => {
     it("computes for date range", () => {
       const rules: AvailabilityRule[] = [
@@ -451,6 +679,41 @@ describe("compute-effective", () => {
       expect(withMin1.some((s) => s.time === "09:00")).toBe(true);
       expect(withMin1.some((s) => s.time === "13:00")).toBe(true);
     });
+    it("only returns slots where every required participant is available", () => {
+      const participantRules = new Map<string, AvailabilityRule[]>();
+
+      participantRules.set("p1", [
+        createRule({
+          participantId: "p1",
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "12:00",
+        }),
+      ]);
+
+      participantRules.set("p2", [
+        createRule({
+          participantId: "p2",
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "10:00",
+          endTime: "14:00",
+        }),
+      ]);
+
+      const overlapping = findOverlappingSlots(
+        participantRules,
+        { startDate: "2024-01-15", endDate: "2024-01-15" },
+        1,
+        ["p1"]
+      );
+
+      const times = overlapping.map((s) => s.time);
+      expect(times[0]).toBe("09:00");
+      expect(times[times.length - 1]).toBe("11:30");
+      expect(overlapping.every((s) => s.participantIds.includes("p1"))).toBe(true);
+    });
   });
 
   describe("findSessionSlots", () => {
@@ -521,6 +784,40 @@ describe("compute-effective", () => {
 
       expect(sessions.length).toBe(0);
     });
+    it("requires required participants for the whole session", () => {
+      const participantRules = new Map<string, AvailabilityRule[]>();
+
+      participantRules.set("p1", [
+        createRule({
+          participantId: "p1",
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "13:00",
+        }),
+      ]);
+
+      participantRules.set("p2", [
+        createRule({
+          participantId: "p2",
+          ruleType: "available_pattern",
+          dayOfWeek: 1,
+          startTime: "11:00",
+          endTime: "14:00",
+        }),
+      ]);
+
+      const sessions = findSessionSlots(
+        participantRules,
+        { startDate: "2024-01-15", endDate: "2024-01-15" },
+        120,
+        1,
+        ["p2"]
+      );
+
+      expect(sessions.map((s) => s.startTime)).toEqual(["11:00", "11:30", "12:00"]);
+      expect(sessions.every((s) => s.participantIds.includes("p2"))).toBe(true);
+    });
   });
 
   describe("overnight availability", () => {
@@ -0,0 +1,139 @@
+import { diffAvailabilityRules, describeRule } from "../../../lib/availability/diff";
+import { prepareRuleForStorage } from "../../../lib/availability/timezone";
+import type {
+  AvailabilityRule,
+  CreateAvailabilityRuleInput,
+} from "../../../lib/types/availability";
+
+// Monday to Sunday
+const WEEK = { startDate: "2026-01-05", endDate: "2026-01-11" };
+
+function pattern(
+  dayOfWeek: number,
+  startTime: string,
+  endTime: string,
+  overrides: Partial<CreateAvailabilityRuleInput> = {}
+): CreateAvailabilityRuleInput {
+  return {
+    participantId: "p1",
+    ruleType: "available_pattern",
+    dayOfWeek,
+    specificDate: null,
+    startTime,
+    endTime,
+    originalTimezone: "UTC",
+    originalDayOfWeek: dayOfWeek,
+    originalStartTime: startTime,
+    originalEndTime: endTime,
+    source: "manual",
+    ...overrides,
+  };
+}
+
+function saved(input: CreateAvailabilityRuleInput, id: string): AvailabilityRule {
+  return {
+    ...input,
+    id,
+    reason: input.reason ?? null,
+    source: input.source ?? "manual",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("diffAvailabilityRules", () => {
+  it("adds without removing in adjust mode", () => {
+    const current = [saved(pattern(1, "18:00", "22:00"), "r1")];
+    const diff = diffAvailabilityRules(current, [pattern(3, "18:00", "22:00")], "adjust", WEEK, "UTC");
+
+    expect(diff.add).toHaveLength(1);
+    expect(diff.remove).toEqual([]);
+    expect(diff.days).toEqual([
+      {
+        date: "2026-01-07",
+        before: [],
+        after: [{ startMinutes: 1080, endMinutes: 1320 }],
+        gained: [{ startMinutes: 1080, endMinutes: 1320 }],
+        lost: [],
+      },
+    ]);
+  });
+
+  it("removes everything but imports in replace mode", () => {
+    const current = [
+      saved(pattern(1, "18:00", "22:00"), "r1"),
+      saved(pattern(2, "09:00", "12:00"), "r2"),
+      saved(
+        { ...pattern(0, "00:00", "00:00"), ruleType: "blocked_override", dayOfWeek: null, specificDate: "2026-01-09", endTime: "12:00", source: "import" },
+        "imported"
+      ),
+    ];
+    const diff = diffAvailabilityRules(current, [pattern(1, "19:00", "22:00")], "replace", WEEK, "UTC");
+
+    expect(diff.remove).toEqual(["r1", "r2"]);
+    expect(diff.days.map((d) => d.date)).toEqual(["2026-01-05", "2026-01-06"]);
+    expect(diff.days[0].lost).toEqual([{ startMinutes: 1080, endMinutes: 1140 }]);
+    expect(diff.days[0].gained).toEqual([]);
+    expect(diff.days[1].lost).toEqual([{ startMinutes: 540, endMinutes: 720 }]);
+  });
+
+  it("keeps rules the proposal recreates and doesn't add duplicates", () => {
+    const current = [saved(pattern(1, "18:00", "22:00"), "r1")];
+    const proposed = [pattern(1, "18:00", "22:00", { source: "ai" })];
+
+    for (const mode of ["replace", "adjust"] as const) {
+      const diff = diffAvailabilityRules(current, proposed, mode, WEEK, "UTC");
+      expect(diff.add).toEqual([]);
+      expect(diff.remove).toEqual([]);
+      expect(diff.days).toEqual([]);
+    }
+  });
+
+  it("shows blocked dates as lost time", () => {
+    const current = [saved(pattern(5, "18:00", "22:00"), "r1")];
+    const exclusion = { ...pattern(5, "00:00", "24:00"), ruleType: "blocked_override" as const, dayOfWeek: null, specificDate: "2026-01-09" };
+    const diff = diffAvailabilityRules(current, [exclusion], "adjust", WEEK, "UTC");
+
+    expect(diff.days).toHaveLength(1);
+    expect(diff.days[0]).toMatchObject({
+      date: "2026-01-09",
+      after: [],
+      lost: [{ startMinutes: 1080, endMinutes: 1320 }],
+    });
+  });
+
+  it("reports days in the viewer's timezone", () => {
+    // Monday 20:00-23:00 in New York is Tuesday 01:00-04:00 UTC
+    const prepared = prepareRuleForStorage(
+      { ruleType: "available_pattern", dayOfWeek: 1, startTime: "20:00", endTime: "23:00" },
+      "America/New_York"
+    );
+    const rule = pattern(prepared.dayOfWeek!, prepared.startTime, prepared.endTime, {
+      originalTimezone: prepared.originalTimezone,
+      originalDayOfWeek: prepared.originalDayOfWeek,
+      originalStartTime: prepared.originalStartTime,
+      originalEndTime: prepared.originalEndTime,
+    });
+    const diff = diffAvailabilityRules([], [rule], "adjust", WEEK, "America/New_York");
+
+    expect(diff.days.map((d) => d.date)).toEqual(["2026-01-05"]);
+    expect(diff.days[0].gained).toEqual([{ startMinutes: 1200, endMinutes: 1380 }]);
+    expect(diff.summary.added).toEqual(["Available Mondays 20:00-23:00"]);
+  });
+});
+
+describe("describeRule", () => {
+  it("describes patterns with their recurrence and bounds", () => {
+    expect(describeRule(pattern(6, "14:00", "18:00", { weekInterval: 2, anchorDate: "2026-01-10", validUntil: "2026-03-01" }), "UTC")).toBe(
+      "Available Saturdays 14:00-18:00 (every other week, until 2026-03-01)"
+    );
+    expect(describeRule(pattern(2, "18:00", "22:00", { preference: "if_needed" }), "UTC")).toBe(
+      "If needed Tuesdays 18:00-22:00"
+    );
+  });
+
+  it("describes date blocks and whole days", () => {
+    const block = { ...pattern(0, "00:00", "24:00"), ruleType: "blocked_override" as const, dayOfWeek: null, specificDate: "2026-01-15" };
+    expect(describeRule(block, "UTC")).toBe("Busy Thu, Jan 15 all day");
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  buildSlotExportRows,
+  escapeCsvField,
+  heatmapExportUrl,
+  slotRowsToCsv,
+  localSlotsToRanges,
+  toLocalSlots,
+} from "../../../lib/availability/export";
+import type { DayAvailability } from "../../../lib/types/availability";
+
+function day(
+  date: string,
+  availableRanges: DayAvailability["availableRanges"],
+  ifNeededRanges: DayAvailability["ifNeededRanges"] = []
+): [string, DayAvailability] {
+  return [date, { date, availableRanges, ifNeededRanges, blockedRanges: [] }];
+}
+
+describe("toLocalSlots", () => {
+  it("expands ranges into 30-minute slots", () => {
+    const effective = new Map([day("2024-01-16", [{ startMinutes: 18 * 60, endMinutes: 19 * 60 + 30 }])]);
+
+    expect(toLocalSlots(effective, "UTC")).toEqual([
+      { date: "2024-01-16", time: "18:00", ifNeeded: false },
+      { date: "2024-01-16", time: "18:30", ifNeeded: false },
+      { date: "2024-01-16", time: "19:00", ifNeeded: false },
+    ]);
+  });
+
+  it("moves slots onto the export timezone's dates", () => {
+    // 02:00-03:00 UTC on the 17th is 21:00-22:00 on the 16th in New York (EST)
+    const effective = new Map([day("2024-01-17", [{ startMinutes: 120, endMinutes: 180 }])]);
+
+    expect(toLocalSlots(effective, "America/New_York")).toEqual([
+      { date: "2024-01-16", time: "21:00", ifNeeded: false },
+      { date: "2024-01-16", time: "21:30", ifNeeded: false },
+    ]);
+  });
+
+  it("continues overnight ranges on the next date and flags if-needed time", () => {
+    const effective = new Map([
+      day("2024-01-16", [{ startMinutes: 23 * 60, endMinutes: 25 * 60 }], [{ startMinutes: 24 * 60, endMinutes: 25 * 60 }]),
+    ]);
+
+    expect(toLocalSlots(effective, "UTC")).toEqual([
+      { date: "2024-01-16", time: "23:00", ifNeeded: false },
+      { date: "2024-01-16", time: "23:30", ifNeeded: false },
+      { date: "2024-01-17", time: "00:00", ifNeeded: true },
+      { date: "2024-01-17", time: "00:30", ifNeeded: true },
+    ]);
+  });
+});
+
+describe("localSlotsToRanges", () => {
+  it("merges contiguous slots and ends at 24:00", () => {
+    expect(
+      localSlotsToRanges([
+        { date: "2024-01-16", time: "23:00", ifNeeded: false },
+        { date: "2024-01-16", time: "23:30", ifNeeded: false },
+        { date: "2024-01-17", time: "00:00", ifNeeded: true },
+      ])
+    ).toEqual([
+      { date: "2024-01-16", startTime: "23:00", endTime: "24:00", ifNeeded: false },
+      { date: "2024-01-17", startTime: "00:00", endTime: "00:30", ifNeeded: true },
+    ]);
+  });
+});
+
+describe("buildSlotExportRows", () => {
+  it("counts players, marks GM availability and skips empty slots", () => {
+    const rows = buildSlotExportRows(
+      [
+        { id: "gm", name: "GM", isGm: true, slots: [{ date: "2024-01-16", time: "18:00", ifNeeded: false }] },
+        {
+          id: "alice",
+          name: "Alice",
+          isGm: false,
+          slots: [
+            { date: "2024-01-16", time: "18:00", ifNeeded: false },
+            { date: "2024-01-16", time: "18:30", ifNeeded: false },
+          ],
+        },
+        { id: "bob", name: "Bob", isGm: false, slots: [{ date: "2024-01-16", time: "18:00", ifNeeded: true }] },
+        { id: "cara", name: "Cara", isGm: false, slots: [{ date: "2024-01-20", time: "18:00", ifNeeded: false }] },
+      ],
+      ["2024-01-16"]
+    );
+
+    expect(rows).toEqual([
+      { date: "2024-01-16", time: "18:00", count: 2, participants: ["Alice", "Bob (if needed)"], gmAvailable: true },
+      { date: "2024-01-16", time: "18:30", count: 1, participants: ["Alice"], gmAvailable: false },
+    ]);
+  });
+});
+
+describe("slotRowsToCsv", () => {
+  it("writes a header and quotes fields that need it", () => {
+    const csv = slotRowsToCsv([
+      { date: "2024-01-16", time: "18:00", count: 2, participants: ["Alice", "Bob, Jr."], gmAvailable: true },
+    ]);
+
+    expect(csv).toBe(
+      "date,time,count,participants,gm_available\r\n" +
+        '2024-01-16,18:00,2,"Alice; Bob, Jr.",yes\r\n'
+    );
+  });
+
+  it("escapes embedded quotes", () => {
+    expect(escapeCsvField('The "Bard"')).toBe('"The ""Bard"""');
+    expect(escapeCsvField("Alice")).toBe("Alice");
+  });
+
+  it("keeps names that start like a formula from running", () => {
+    expect(escapeCsvField('=HYPERLINK("http://evil.example","x")')).toBe(
+      '"\'=HYPERLINK(""http://evil.example"",""x"")"'
+    );
+    expect(escapeCsvField("+cmd|' /C calc'!A0")).toBe("'+cmd|' /C calc'!A0");
+    expect(escapeCsvField("-1+1")).toBe("'-1+1");
+    expect(escapeCsvField("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(escapeCsvField("\t=1")).toBe("'\t=1");
+    expect(escapeCsvField("\r=1")).toBe("\"'\r=1\"");
+    expect(escapeCsvField("Bob = Alice")).toBe("Bob = Alice");
+
+    const csv = slotRowsToCsv([
+      { date: "2024-01-16", time: "18:00", count: 1, participants: ["@SUM(A1)"], gmAvailable: false },
+    ]);
+    expect(csv.split("\r\n")[1]).toBe("2024-01-16,18:00,1,'@SUM(A1),no");
+  });
+});
+
+describe("heatmapExportUrl", () => {
+  it("passes the format and display timezone", () => {
+    expect(heatmapExportUrl("my-campaign", "csv", "America/New_York")).toBe(
+      "/api/events/my-campaign/heatmap/export?format=csv&timezone=America%2FNew_York"
+    );
+  });
+
+  it("includes the waitlist only when asked", () => {
+    expect(heatmapExportUrl("my-campaign", "json", "UTC", true)).toBe(
+      "/api/events/my-campaign/heatmap/export?format=json&timezone=UTC&includeWaitlist=true"
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  buildLocalHeatmap,
+  heatmapWindowDates,
+  resolveHeatmapWindow,
+  validateHeatmapWindowQuery,
+  validateMinCount,
+} from "../../../lib/availability/heatmap-window";
+
+const campaign = { startDate: "2024-01-03", endDate: "2024-01-31" };
+
+describe("validateHeatmapWindowQuery", () => {
+  it("accepts no window and each window style", () => {
+    expect(validateHeatmapWindowQuery({})).toBeNull();
+    expect(validateHeatmapWindowQuery({ week: "2024-01-07" })).toBeNull();
+    expect(validateHeatmapWindowQuery({ start: "2024-01-05", end: "2024-01-09" })).toBeNull();
+    expect(validateHeatmapWindowQuery({ page: "2", pageSize: "14" })).toBeNull();
+  });
+
+  it("rejects bad dates and mixed window styles", () => {
+    expect(validateHeatmapWindowQuery({ week: "Jan 7" })).toBe("week, start and end must be YYYY-MM-DD dates");
+    expect(validateHeatmapWindowQuery({ week: "2024-01-07", page: "1" })).toBe(
+      "Use week, start/end or page, not several"
+    );
+    expect(validateHeatmapWindowQuery({ start: "2024-01-09", end: "2024-01-05" })).toBe(
+      "start must be on or before end"
+    );
+  });
+
+  it("rejects bad pages", () => {
+    expect(validateHeatmapWindowQuery({ page: "-1" })).toBe("page must be a whole number from 0");
+    expect(validateHeatmapWindowQuery({ pageSize: "0" })).toBe("pageSize must be from 1 to 62 days");
+    expect(validateHeatmapWindowQuery({ pageSize: "100" })).toBe("pageSize must be from 1 to 62 days");
+  });
+});
+
+describe("validateMinCount", () => {
+  it("accepts a whole number with a timezone, or no minCount", () => {
+    expect(validateMinCount("2", "Europe/London")).toBeNull();
+    expect(validateMinCount("0", "Europe/London")).toBeNull();
+    expect(validateMinCount(null, null)).toBeNull();
+  });
+
+  it("rejects bad numbers and a minCount without a timezone", () => {
+    expect(validateMinCount("-1", "Europe/London")).toMatch(/whole number/);
+    expect(validateMinCount("1.5", "Europe/London")).toMatch(/whole number/);
+    expect(validateMinCount("2", null)).toBe("minCount needs a timezone");
+  });
+});
+
+describe("resolveHeatmapWindow", () => {
+  it("covers the whole campaign by default", () => {
+    expect(resolveHeatmapWindow(campaign, {})).toEqual({
+      ...campaign,
+      page: null,
+      pageCount: null,
+      hasPrev: false,
+      hasNext: false,
+    });
+  });
+
+  it("clamps a week to the campaign", () => {
+    // The week of Sunday Dec 31 starts before the campaign does
+    expect(resolveHeatmapWindow(campaign, { week: "2023-12-31" })).toMatchObject({
+      startDate: "2024-01-03",
+      endDate: "2024-01-06",
+      hasPrev: false,
+      hasNext: true,
+    });
+    expect(resolveHeatmapWindow(campaign, { week: "2024-01-28" })).toMatchObject({
+      startDate: "2024-01-28",
+      endDate: "2024-01-31",
+      hasPrev: true,
+      hasNext: false,
+    });
+  });
+
+  it("pages from the campaign's first day", () => {
+    expect(resolveHeatmapWindow(campaign, { page: "1", pageSize: "10" })).toEqual({
+      startDate: "2024-01-13",
+      endDate: "2024-01-22",
+      page: 1,
+      pageCount: 3,
+      hasPrev: true,
+      hasNext: true,
+    });
+    expect(resolveHeatmapWindow(campaign, { page: "4" })).toMatchObject({ page: 4, pageCount: 5, endDate: "2024-01-31" });
+  });
+
+  it("is empty outside the campaign", () => {
+    const window = resolveHeatmapWindow(campaign, { week: "2024-03-03" });
+    expect(heatmapWindowDates(window)).toEqual([]);
+  });
+});
+
+describe("heatmapWindowDates", () => {
+  it("lists every date across a month boundary", () => {
+    expect(heatmapWindowDates({ startDate: "2024-01-30", endDate: "2024-02-02" })).toEqual([
+      "2024-01-30",
+      "2024-01-31",
+      "2024-02-01",
+      "2024-02-02",
+    ]);
+  });
+});
+
+describe("buildLocalHeatmap", () => {
+  const participants = [
+    { id: "gm", isGm: true, slots: [{ date: "2024-01-10", time: "19:00", ifNeeded: false }] },
+    {
+      id: "alice",
+      isGm: false,
+      slots: [
+        { date: "2024-01-10", time: "18:30", ifNeeded: false },
+        { date: "2024-01-10", time: "19:00", ifNeeded: false },
+        { date: "2024-01-11", time: "19:00", ifNeeded: false },
+      ],
+    },
+    { id: "bob", isGm: false, slots: [{ date: "2024-01-10", time: "19:00", ifNeeded: true }] },
+  ];
+
+  it("counts players per slot on the window's dates", () => {
+    expect(buildLocalHeatmap(participants, ["2024-01-10"])).toEqual([
+      { date: "2024-01-10", time: "18:30", count: 1, participantIds: ["alice"], ifNeededIds: [], gmAvailable: false },
+      {
+        date: "2024-01-10",
+        time: "19:00",
+        count: 2,
+        participantIds: ["alice", "bob"],
+        ifNeededIds: ["bob"],
+        gmAvailable: true,
+      },
+    ]);
+  });
+
+  it("drops cells below the minimum count", () => {
+    const cells = buildLocalHeatmap(participants, ["2024-01-10", "2024-01-11"], 2);
+    expect(cells.map((c) => `${c.date} ${c.time}`)).toEqual(["2024-01-10 19:00"]);
+  });
+});
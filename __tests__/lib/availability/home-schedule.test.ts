@@ -0,0 +1,146 @@
+import {
+  applyHomeSchedule,
+  homeRuleToInput,
+  toHomeScheduleRules,
+  validateHomeScheduleRules,
+} from "../../../lib/availability/home-schedule";
+import { computeEffectiveForDate } from "../../../lib/availability/compute-effective";
+import type {
+  AvailabilityRule,
+  HomeScheduleRule,
+  HomeScheduleRuleInput,
+} from "../../../lib/types/availability";
+
+function homeRule(overrides: Partial<HomeScheduleRule> = {}): HomeScheduleRule {
+  return {
+    id: "h1",
+    ruleType: "available_pattern",
+    dayOfWeek: 2, // Tuesday
+    startTime: "18:00",
+    endTime: "22:00",
+    originalTimezone: "UTC",
+    originalDayOfWeek: 2,
+    originalStartTime: null,
+    originalEndTime: null,
+    crossesMidnight: null,
+    preference: "preferred",
+    ...overrides,
+  };
+}
+
+function homeRuleInput(overrides: Partial<HomeScheduleRuleInput> = {}): HomeScheduleRuleInput {
+  return {
+    ruleType: "available_pattern",
+    dayOfWeek: 2,
+    startTime: "18:00",
+    endTime: "22:00",
+    originalTimezone: "UTC",
+    originalDayOfWeek: 2,
+    originalStartTime: null,
+    originalEndTime: null,
+    crossesMidnight: null,
+    preference: "preferred",
+    ...overrides,
+  };
+}
+
+function campaignRule(overrides: Partial<AvailabilityRule> & Pick<AvailabilityRule, "ruleType">): AvailabilityRule {
+  return {
+    id: "c1",
+    participantId: "p1",
+    dayOfWeek: null,
+    specificDate: null,
+    startTime: "00:00",
+    endTime: "24:00",
+    originalTimezone: "UTC",
+    originalDayOfWeek: null,
+    reason: null,
+    source: "manual",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Jan 16, 2024 is a Tuesday
+const TUESDAY = "2024-01-16";
+
+describe("applyHomeSchedule", () => {
+  it("returns the campaign rules untouched without a home schedule", () => {
+    const rules = [campaignRule({ ruleType: "blocked_override", specificDate: TUESDAY })];
+    expect(applyHomeSchedule("p1", rules, [])).toBe(rules);
+  });
+
+  it("inherits the home schedule as the participant's patterns", () => {
+    const rules = applyHomeSchedule("p1", [], [homeRule()]);
+
+    expect(rules[0]).toMatchObject({ id: "home-h1", participantId: "p1", specificDate: null });
+    expect(computeEffectiveForDate(rules, TUESDAY).availableRanges).toEqual([
+      { startMinutes: 18 * 60, endMinutes: 22 * 60 },
+    ]);
+  });
+
+  it("lets campaign blocks and extra time win over the home schedule", () => {
+    const rules = applyHomeSchedule(
+      "p1",
+      [
+        campaignRule({ ruleType: "blocked_override", specificDate: TUESDAY, startTime: "20:00", endTime: "22:00" }),
+        campaignRule({ ruleType: "available_override", specificDate: TUESDAY, startTime: "16:00", endTime: "18:00" }),
+      ],
+      [homeRule()]
+    );
+
+    expect(computeEffectiveForDate(rules, TUESDAY).availableRanges).toEqual([
+      { startMinutes: 16 * 60, endMinutes: 20 * 60 },
+    ]);
+  });
+});
+
+describe("homeRuleToInput", () => {
+  it("copies a home rule into the participant's campaign rules", () => {
+    expect(homeRuleToInput("p1", homeRule({ preference: "if_needed", crossesMidnight: null }))).toEqual({
+      participantId: "p1",
+      ruleType: "available_pattern",
+      dayOfWeek: 2,
+      specificDate: null,
+      startTime: "18:00",
+      endTime: "22:00",
+      originalTimezone: "UTC",
+      originalDayOfWeek: homeRule().originalDayOfWeek,
+      originalStartTime: homeRule().originalStartTime,
+      originalEndTime: homeRule().originalEndTime,
+      crossesMidnight: undefined,
+      preference: "if_needed",
+      source: "manual",
+    });
+  });
+});
+
+describe("toHomeScheduleRules", () => {
+  it("keeps only plain weekly patterns", () => {
+    const rules = [
+      campaignRule({ ruleType: "available_pattern", dayOfWeek: 2, startTime: "18:00", endTime: "22:00" }),
+      campaignRule({ ruleType: "blocked_pattern", dayOfWeek: 5, preference: "if_needed" }),
+      campaignRule({ ruleType: "available_pattern", dayOfWeek: 6, weekInterval: 2, anchorDate: "2024-01-06" }),
+      campaignRule({ ruleType: "blocked_override", specificDate: TUESDAY }),
+    ];
+
+    expect(toHomeScheduleRules(rules)).toEqual([
+      expect.objectContaining({ ruleType: "available_pattern", dayOfWeek: 2, preference: "preferred" }),
+      expect.objectContaining({ ruleType: "blocked_pattern", dayOfWeek: 5, crossesMidnight: null }),
+    ]);
+  });
+});
+
+describe("validateHomeScheduleRules", () => {
+  it("accepts weekly patterns", () => {
+    expect(validateHomeScheduleRules([homeRuleInput()])).toBeNull();
+  });
+
+  it("rejects one-off rules and bad times", () => {
+    expect(
+      validateHomeScheduleRules([homeRuleInput({ ruleType: "blocked_override" as HomeScheduleRule["ruleType"] })])
+    ).toBe("A home schedule only holds weekly patterns");
+    expect(validateHomeScheduleRules([homeRuleInput({ startTime: "7pm" })])).toBe("Invalid time format. Use HH:MM");
+  });
+});
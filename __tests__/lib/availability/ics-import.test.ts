@@ -0,0 +1,298 @@
+import {
+  parseIcsEvents,
+  parseRecurrenceRule,
+  expandRecurrenceDates,
+  expandIcsBusyIntervals,
+  busyIntervalsToRules,
+  importIcsAsBlockedRules,
+} from "../../../lib/availability/ics-import";
+import { computeEffectiveForDate } from "../../../lib/availability/compute-effective";
+import type { AvailabilityRule } from "../../../lib/types/availability";
+
+function calendar(...events: string[]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...events, "END:VCALENDAR"].join("\r\n");
+}
+
+function vevent(...lines: string[]): string {
+  return ["BEGIN:VEVENT", ...lines, "END:VEVENT"].join("\r\n");
+}
+
+const window = {
+  start: new Date("2026-03-01T00:00:00Z"),
+  end: new Date("2026-04-01T00:00:00Z"),
+};
+
+describe("ics-import", () => {
+  describe("parseIcsEvents", () => {
+    it("parses UTC, TZID and all-day start times", () => {
+      const events = parseIcsEvents(
+        calendar(
+          vevent("UID:a", "DTSTART:20260305T190000Z", "DTEND:20260305T200000Z", "SUMMARY:Dentist\\, again"),
+          vevent("UID:b", "DTSTART;TZID=America/New_York:20260306T090000", "DURATION:PT30M"),
+          vevent("UID:c", "DTSTART;VALUE=DATE:20260307", "DTEND;VALUE=DATE:20260308")
+        ),
+        "Europe/London"
+      );
+
+      expect(events).toHaveLength(3);
+      expect(events[0].start).toEqual({ date: "2026-03-05", time: "19:00", timezone: "UTC" });
+      expect(events[0].summary).toBe("Dentist, again");
+      expect(events[1].start.timezone).toBe("America/New_York");
+      expect(events[1].durationMinutes).toBe(30);
+      expect(events[2].start).toEqual({ date: "2026-03-07", time: null, timezone: "Europe/London" });
+    });
+
+    it("unfolds continuation lines and ignores nested alarms", () => {
+      const events = parseIcsEvents(
+        calendar(
+          [
+            "BEGIN:VEVENT",
+            "UID:a",
+            "SUMMARY:Long",
+            "  title",
+            "DTSTART:20260305T190000Z",
+            "BEGIN:VALARM",
+            "TRIGGER:-PT15M",
+            "DESCRIPTION:Reminder",
+            "END:VALARM",
+            "DTEND:20260305T200000Z",
+            "END:VEVENT",
+          ].join("\r\n")
+        ),
+        "UTC"
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0].summary).toBe("Long title");
+      expect(events[0].end?.time).toBe("20:00");
+    });
+
+    it("falls back to the default timezone for unknown TZIDs", () => {
+      const [event] = parseIcsEvents(
+        calendar(vevent("DTSTART;TZID=Pacific Standard Time:20260305T190000")),
+        "America/Los_Angeles"
+      );
+      expect(event.start.timezone).toBe("America/Los_Angeles");
+    });
+  });
+
+  describe("expandRecurrenceDates", () => {
+    it("expands weekly rules on multiple days with an interval", () => {
+      const rule = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", "UTC")!;
+      // 2026-03-02 is a Monday
+      expect(expandRecurrenceDates("2026-03-02", rule, "2026-03-31")).toEqual([
+        "2026-03-02",
+        "2026-03-04",
+        "2026-03-16",
+        "2026-03-18",
+        "2026-03-30",
+      ]);
+    });
+
+    it("honors COUNT including the first occurrence", () => {
+      const rule = parseRecurrenceRule("FREQ=DAILY;COUNT=3", "UTC")!;
+      expect(expandRecurrenceDates("2026-03-10", rule, "2026-12-31")).toEqual([
+        "2026-03-10",
+        "2026-03-11",
+        "2026-03-12",
+      ]);
+    });
+
+    it("expands monthly nth-weekday rules", () => {
+      const rule = parseRecurrenceRule("FREQ=MONTHLY;BYDAY=-1FR", "UTC")!;
+      expect(expandRecurrenceDates("2026-01-30", rule, "2026-04-30")).toEqual([
+        "2026-01-30",
+        "2026-02-27",
+        "2026-03-27",
+        "2026-04-24",
+      ]);
+    });
+
+    it("reaches the window for series that started long ago", () => {
+      const daily = parseRecurrenceRule("FREQ=DAILY", "UTC")!;
+      expect(expandRecurrenceDates("2015-01-01", daily, "2026-03-04", "2026-03-02").slice(-3)).toEqual([
+        "2026-03-02",
+        "2026-03-03",
+        "2026-03-04",
+      ]);
+
+      const weekly = parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO", "UTC")!;
+      // 1980-01-07 is a Monday
+      expect(expandRecurrenceDates("1980-01-07", weekly, "2026-03-10", "2026-03-01").slice(-2)).toEqual([
+        "2026-03-02",
+        "2026-03-09",
+      ]);
+    });
+
+    it("skips months without the start day", () => {
+      const rule = parseRecurrenceRule("FREQ=MONTHLY", "UTC")!;
+      expect(expandRecurrenceDates("2026-01-31", rule, "2026-05-31")).toEqual([
+        "2026-01-31",
+        "2026-03-31",
+        "2026-05-31",
+      ]);
+    });
+  });
+
+  describe("expandIcsBusyIntervals", () => {
+    it("keeps recurring local times stable across DST", () => {
+      const events = parseIcsEvents(
+        calendar(
+          vevent(
+            "UID:weekly",
+            "DTSTART;TZID=America/New_York:20260302T190000",
+            "DTEND;TZID=America/New_York:20260302T200000",
+            "RRULE:FREQ=WEEKLY;COUNT=2"
+          )
+        ),
+        "UTC"
+      );
+
+      const intervals = expandIcsBusyIntervals(events, window);
+      // EST (UTC-5) before March 8, EDT (UTC-4) after
+      expect(intervals.map((i) => i.start.toISOString())).toEqual([
+        "2026-03-03T00:00:00.000Z",
+        "2026-03-09T23:00:00.000Z",
+      ]);
+    });
+
+    it("imports daily events whose series started years before the window", () => {
+      const events = parseIcsEvents(
+        calendar(
+          vevent("UID:standup", "DTSTART:20180101T090000Z", "DTEND:20180101T091500Z", "RRULE:FREQ=DAILY")
+        ),
+        "UTC"
+      );
+
+      const intervals = expandIcsBusyIntervals(events, window);
+      expect(intervals[0].start.toISOString()).toBe("2026-03-01T09:00:00.000Z");
+      expect(intervals.at(-1)!.start.toISOString()).toBe("2026-03-31T09:00:00.000Z");
+    });
+
+    it("applies EXDATE, UNTIL and RECURRENCE-ID overrides", () => {
+      const events = parseIcsEvents(
+        calendar(
+          vevent(
+            "UID:daily",
+            "DTSTART:20260310T120000Z",
+            "DTEND:20260310T130000Z",
+            "RRULE:FREQ=DAILY;UNTIL=20260314T120000Z",
+            "EXDATE:20260311T120000Z"
+          ),
+          vevent(
+            "UID:daily",
+            "RECURRENCE-ID:20260312T120000Z",
+            "DTSTART:20260312T150000Z",
+            "DTEND:20260312T160000Z"
+          ),
+          vevent("UID:daily", "RECURRENCE-ID:20260313T120000Z", "DTSTART:20260313T120000Z", "STATUS:CANCELLED")
+        ),
+        "UTC"
+      );
+
+      const starts = expandIcsBusyIntervals(events, window)
+        .map((i) => i.start.toISOString())
+        .sort();
+      expect(starts).toEqual([
+        "2026-03-10T12:00:00.000Z",
+        "2026-03-12T15:00:00.000Z",
+        "2026-03-14T12:00:00.000Z",
+      ]);
+    });
+
+    it("skips free and cancelled events and clips to the window", () => {
+      const events = parseIcsEvents(
+        calendar(
+          vevent("DTSTART:20260305T190000Z", "DTEND:20260305T200000Z", "TRANSP:TRANSPARENT"),
+          vevent("DTSTART:20260306T190000Z", "DTEND:20260306T200000Z", "STATUS:CANCELLED"),
+          vevent("DTSTART:20260228T220000Z", "DTEND:20260301T020000Z")
+        ),
+        "UTC"
+      );
+
+      const intervals = expandIcsBusyIntervals(events, window);
+      expect(intervals).toEqual([
+        { start: window.start, end: new Date("2026-03-01T02:00:00Z") },
+      ]);
+    });
+  });
+
+  describe("busyIntervalsToRules", () => {
+    it("snaps to slots, merges overlaps and splits at UTC midnight", () => {
+      const rules = busyIntervalsToRules(
+        [
+          { start: new Date("2026-03-05T22:10:00Z"), end: new Date("2026-03-05T23:00:00Z") },
+          { start: new Date("2026-03-05T22:45:00Z"), end: new Date("2026-03-06T01:15:00Z") },
+        ],
+        "p1",
+        "America/New_York"
+      );
+
+      expect(rules.map((r) => [r.specificDate, r.startTime, r.endTime])).toEqual([
+        ["2026-03-05", "22:00", "24:00"],
+        ["2026-03-06", "00:00", "01:30"],
+      ]);
+      expect(rules.every((r) => r.ruleType === "blocked_override" && r.source === "import")).toBe(true);
+      // Stored as-is by the import route, so each rule carries its participant
+      expect(rules.every((r) => r.participantId === "p1")).toBe(true);
+      expect(rules[0].originalTimezone).toBe("America/New_York");
+    });
+  });
+
+  describe("importIcsAsBlockedRules", () => {
+    it("produces rules that block availability in computeEffectiveForDate", () => {
+      const { rules, eventCount } = importIcsAsBlockedRules(
+        calendar(vevent("UID:a", "DTSTART:20260305T190000Z", "DTEND:20260305T200000Z")),
+        "p1",
+        "2026-03-01",
+        "2026-03-31",
+        "UTC"
+      );
+      expect(eventCount).toBe(1);
+
+      const stored: AvailabilityRule[] = [
+        {
+          id: "avail",
+          participantId: "p1",
+          ruleType: "available_override",
+          dayOfWeek: null,
+          specificDate: "2026-03-05",
+          startTime: "18:00",
+          endTime: "22:00",
+          originalTimezone: "UTC",
+          originalDayOfWeek: null,
+          reason: null,
+          source: "manual",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        ...rules.map((r, i) => ({
+          ...r,
+          id: `import-${i}`,
+          dayOfWeek: r.dayOfWeek,
+          reason: r.reason ?? null,
+          source: r.source ?? "import",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })),
+      ];
+
+      const result = computeEffectiveForDate(stored, "2026-03-05");
+      expect(result.availableRanges).toEqual([
+        { startMinutes: 18 * 60, endMinutes: 19 * 60 },
+        { startMinutes: 20 * 60, endMinutes: 22 * 60 },
+      ]);
+    });
+
+    it("ignores events outside the campaign dates", () => {
+      const { rules } = importIcsAsBlockedRules(
+        calendar(vevent("DTSTART:20260601T190000Z", "DTEND:20260601T200000Z")),
+        "p1",
+        "2026-03-01",
+        "2026-03-31",
+        "UTC"
+      );
+      expect(rules).toEqual([]);
+    });
+  });
+});
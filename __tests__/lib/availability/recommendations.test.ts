@@ -0,0 +1,245 @@
+import {
+  recommendSessions,
+  parseScoringModel,
+  DEFAULT_SCORING_MODEL,
+  type RecommendationParticipant,
+  type RecommendationOptions,
+} from "../../../lib/availability/recommendations";
+import type { AvailabilityRule } from "../../../lib/types/availability";
+
+function available(participantId: string, date: string, startTime: string, endTime: string): AvailabilityRule {
+  return {
+    id: `${participantId}-${date}-${startTime}`,
+    participantId,
+    ruleType: "available_override",
+    dayOfWeek: null,
+    specificDate: date,
+    startTime,
+    endTime,
+    originalTimezone: "UTC",
+    originalDayOfWeek: null,
+    reason: null,
+    source: "manual",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function participant(
+  id: string,
+  rules: [string, string, string][],
+  overrides: Partial<RecommendationParticipant> = {}
+): RecommendationParticipant {
+  return {
+    id,
+    name: id,
+    isGm: false,
+    timezone: "UTC",
+    rules: rules.map(([date, start, end]) => available(id, date, start, end)),
+    ...overrides,
+  };
+}
+
+const window = {
+  start: new Date("2026-03-02T00:00:00Z"),
+  end: new Date("2026-03-04T00:00:00Z"),
+};
+
+const options: RecommendationOptions = {
+  sessionMinutes: 180,
+  minPlayers: 2,
+  maxPlayers: 3,
+  limit: 5,
+  model: DEFAULT_SCORING_MODEL,
+};
+
+describe("recommendations", () => {
+  describe("recommendSessions", () => {
+    const gm = participant("gm", [["2026-03-02", "10:00", "22:00"], ["2026-03-03", "10:00", "22:00"]], { isGm: true });
+
+    it("ranks sessions with more players first and never overlaps results", () => {
+      const result = recommendSessions(
+        [
+          gm,
+          participant("alice", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "12:00", "15:00"]]),
+          participant("bob", [["2026-03-02", "18:00", "21:00"]]),
+          participant("carol", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "12:00", "15:00"]]),
+        ],
+        window,
+        options
+      );
+
+      expect(result[0].startsAt).toBe("2026-03-02T18:00:00.000Z");
+      expect(result[0].attendeeIds).toEqual(["gm", "alice", "bob", "carol"]);
+      expect(result[0].reasons).toContain("3 of 3 players can make it");
+      expect(result[1].startsAt).toBe("2026-03-03T12:00:00.000Z");
+      expect(result[1].score).toBeLessThan(result[0].score);
+
+      const starts = result.map((r) => new Date(r.startsAt).getTime());
+      for (let i = 0; i < starts.length; i++) {
+        for (let j = i + 1; j < starts.length; j++) {
+          expect(Math.abs(starts[i] - starts[j])).toBeGreaterThanOrEqual(180 * 60 * 1000);
+        }
+      }
+    });
+
+    it("skips slots the GM can't attend unless requireGm is off", () => {
+      const players = [
+        participant("gm", [], { isGm: true }),
+        participant("alice", [["2026-03-02", "18:00", "21:00"]]),
+        participant("bob", [["2026-03-02", "18:00", "21:00"]]),
+      ];
+
+      expect(recommendSessions(players, window, options)).toEqual([]);
+
+      const [best] = recommendSessions(players, window, {
+        ...options,
+        model: { ...DEFAULT_SCORING_MODEL, requireGm: false },
+      });
+      expect(best.gmAvailable).toBe(false);
+      expect(best.breakdown.gm).toBe(0);
+      expect(best.reasons).toContain("GM can't make the full session");
+    });
+
+    it("accepts any one of several GMs", () => {
+      const result = recommendSessions(
+        [
+          participant("gm", [["2026-03-02", "18:00", "21:00"]], { isGm: true }),
+          participant("cogm", [["2026-03-03", "18:00", "21:00"]], { isGm: true }),
+          participant("alice", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "18:00", "21:00"]]),
+          participant("bob", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "18:00", "21:00"]]),
+        ],
+        window,
+        options
+      );
+
+      expect(result.map((r) => r.startsAt)).toEqual([
+        "2026-03-02T18:00:00.000Z",
+        "2026-03-03T18:00:00.000Z",
+      ]);
+      expect(result[1].attendeeIds).toEqual(["cogm", "alice", "bob"]);
+      expect(result[1].reasons).toContain("cogm can GM");
+    });
+
+    it("skips slots a required player can't attend in full", () => {
+      const result = recommendSessions(
+        [
+          gm,
+          participant("alice", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "12:00", "15:00"]]),
+          participant("bob", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "12:00", "15:00"]]),
+          participant("carol", [["2026-03-03", "12:00", "14:00"]], { isRequired: true }),
+        ],
+        window,
+        { ...options, sessionMinutes: 120 }
+      );
+
+      expect(result.map((r) => r.startsAt)).toEqual(["2026-03-03T12:00:00.000Z"]);
+    });
+
+    it("penalizes players who have to leave early", () => {
+      const [best] = recommendSessions(
+        [
+          gm,
+          participant("alice", [["2026-03-02", "18:00", "21:00"]]),
+          participant("bob", [["2026-03-02", "18:00", "21:00"]]),
+          participant("carol", [["2026-03-02", "18:00", "20:00"]]),
+        ],
+        window,
+        { ...options, limit: 1 }
+      );
+
+      expect(best.startsAt).toBe("2026-03-02T18:00:00.000Z");
+      expect(best.partialIds).toEqual(["carol"]);
+      expect(best.reasons).toContain("carol would leave 1h early");
+      expect(best.breakdown.partial).toBeCloseTo(-DEFAULT_SCORING_MODEL.weights.partialPenalty / 3, 1);
+    });
+
+    it("prefers sessions with fewer if-needed attendees", () => {
+      const tentative = (id: string, date: string, start: string, end: string): AvailabilityRule => ({
+        ...available(id, date, start, end),
+        id: `${id}-${date}-${start}-if-needed`,
+        preference: "if_needed",
+      });
+      const alice = participant("alice", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "18:00", "21:00"]]);
+      const bob = participant("bob", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "18:00", "21:00"]]);
+      bob.rules.push(tentative("bob", "2026-03-02", "18:00", "21:00"), tentative("bob", "2026-03-03", "20:00", "21:00"));
+
+      const result = recommendSessions([gm, alice, bob], window, { ...options, limit: 2 });
+
+      expect(result.map((r) => r.startsAt)).toEqual([
+        "2026-03-03T18:00:00.000Z",
+        "2026-03-02T18:00:00.000Z",
+      ]);
+      expect(result[0].ifNeededIds).toEqual(["bob"]);
+      expect(result[0].reasons).toContain("bob can make 1h of it if needed");
+      expect(result[1].reasons).toContain("bob can make it if needed");
+      expect(result[1].breakdown.ifNeeded).toBeCloseTo(-DEFAULT_SCORING_MODEL.weights.ifNeededPenalty, 1);
+    });
+
+    it("prefers times inside everyone's local hours", () => {
+      // 03:00 UTC is 22:00 the previous evening in New York, 18:00 UTC is 13:00
+      const ny = { timezone: "America/New_York" };
+      const result = recommendSessions(
+        [
+          participant("gm", [["2026-03-02", "00:00", "24:00"], ["2026-03-03", "00:00", "24:00"]], { isGm: true, ...ny }),
+          participant("alice", [["2026-03-02", "03:00", "06:00"], ["2026-03-03", "18:00", "21:00"]], ny),
+          participant("bob", [["2026-03-02", "03:00", "06:00"], ["2026-03-03", "18:00", "21:00"]], ny),
+        ],
+        window,
+        { ...options, limit: 2 }
+      );
+
+      expect(result.map((r) => r.startsAt)).toEqual([
+        "2026-03-03T18:00:00.000Z",
+        "2026-03-02T03:00:00.000Z",
+      ]);
+      expect(result[1].reasons).toContain("22:00–01:00 is outside preferred hours for alice");
+      expect(result[1].breakdown.localTime).toBeLessThan(0);
+    });
+
+    it("flags attendance below minPlayers", () => {
+      const [best] = recommendSessions(
+        [gm, participant("alice", [["2026-03-02", "18:00", "21:00"]]), participant("bob", [])],
+        window,
+        options
+      );
+      expect(best.reasons).toContain("Only 1 of the 2 players needed");
+      expect(best.breakdown.attendance).toBeCloseTo(DEFAULT_SCORING_MODEL.weights.attendance / 6, 1);
+    });
+
+    it("skips candidates before notBefore", () => {
+      const result = recommendSessions(
+        [gm, participant("alice", [["2026-03-02", "18:00", "21:00"], ["2026-03-03", "18:00", "21:00"]])],
+        window,
+        { ...options, notBefore: new Date("2026-03-03T00:00:00Z") }
+      );
+      expect(result.map((r) => r.startsAt)).toEqual(["2026-03-03T18:00:00.000Z"]);
+    });
+  });
+
+  describe("parseScoringModel", () => {
+    it("returns the defaults without params", () => {
+      expect(parseScoringModel(new URLSearchParams())).toEqual({ model: DEFAULT_SCORING_MODEL });
+    });
+
+    it("applies overrides", () => {
+      const { model } = parseScoringModel(
+        new URLSearchParams(
+          "requireGm=false&gmWeight=0&ifNeededWeight=15&localTimeWeight=5&preferredStart=18:00&preferredEnd=02:00"
+        )
+      );
+      expect(model).toEqual({
+        weights: { ...DEFAULT_SCORING_MODEL.weights, gm: 0, ifNeededPenalty: 15, localTimePenalty: 5 },
+        requireGm: false,
+        preferredStartMinutes: 18 * 60,
+        preferredEndMinutes: 2 * 60,
+      });
+    });
+
+    it("rejects invalid values", () => {
+      expect(parseScoringModel(new URLSearchParams("gmWeight=-1")).error).toMatch(/gmWeight/);
+      expect(parseScoringModel(new URLSearchParams("requireGm=yes")).error).toMatch(/requireGm/);
+      expect(parseScoringModel(new URLSearchParams("preferredStart=9pm")).error).toMatch(/preferredStart/);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  patternOccursOn,
+  validatePatternRecurrence,
+  describeRecurrence,
+} from "../../../lib/availability/recurrence";
+
+describe("recurrence", () => {
+  describe("patternOccursOn", () => {
+    it("matches every date when there is no recurrence", () => {
+      expect(patternOccursOn({}, "2024-01-06")).toBe(true);
+    });
+
+    it("respects inclusive date bounds", () => {
+      const rule = { validFrom: "2024-01-08", validUntil: "2024-01-15" };
+      expect(patternOccursOn(rule, "2024-01-07")).toBe(false);
+      expect(patternOccursOn(rule, "2024-01-08")).toBe(true);
+      expect(patternOccursOn(rule, "2024-01-15")).toBe(true);
+      expect(patternOccursOn(rule, "2024-01-16")).toBe(false);
+    });
+
+    it("counts every N weeks from the anchor's week", () => {
+      const rule = { weekInterval: 2, anchorDate: "2024-01-13" };
+      expect(patternOccursOn(rule, "2024-01-13")).toBe(true);
+      expect(patternOccursOn(rule, "2024-01-20")).toBe(false);
+      expect(patternOccursOn(rule, "2024-01-27")).toBe(true);
+      // Any day of the anchor week works as the anchor
+      expect(patternOccursOn({ weekInterval: 2, anchorDate: "2024-01-08" }, "2024-01-27")).toBe(true);
+    });
+
+    it("extends every-N-weeks backwards from the anchor", () => {
+      const rule = { weekInterval: 3, anchorDate: "2024-01-27" };
+      expect(patternOccursOn(rule, "2024-01-06")).toBe(true);
+      expect(patternOccursOn(rule, "2024-01-13")).toBe(false);
+      expect(patternOccursOn(rule, "2024-01-20")).toBe(false);
+    });
+
+    it("keeps alternating across a month boundary", () => {
+      const rule = { weekInterval: 2, anchorDate: "2024-01-27" };
+      expect(patternOccursOn(rule, "2024-02-03")).toBe(false);
+      expect(patternOccursOn(rule, "2024-02-10")).toBe(true);
+    });
+
+    it("matches the nth weekday of the month", () => {
+      // Fridays in March 2024: 1, 8, 15, 22, 29
+      const rule = { weeksOfMonth: [1, 3] };
+      expect(patternOccursOn(rule, "2024-03-01")).toBe(true);
+      expect(patternOccursOn(rule, "2024-03-08")).toBe(false);
+      expect(patternOccursOn(rule, "2024-03-15")).toBe(true);
+      expect(patternOccursOn(rule, "2024-03-29")).toBe(false);
+    });
+
+    it("matches the last weekday of the month", () => {
+      const rule = { weeksOfMonth: [-1] };
+      expect(patternOccursOn(rule, "2024-03-29")).toBe(true); // 5th Friday
+      expect(patternOccursOn(rule, "2024-02-23")).toBe(true); // 4th Friday
+      expect(patternOccursOn(rule, "2024-03-22")).toBe(false);
+    });
+  });
+
+  describe("validatePatternRecurrence", () => {
+    it("accepts valid recurrence on patterns", () => {
+      expect(validatePatternRecurrence({ ruleType: "available_pattern" })).toBeNull();
+      expect(
+        validatePatternRecurrence({ ruleType: "available_pattern", weekInterval: 2, anchorDate: "2024-01-13" })
+      ).toBeNull();
+      expect(validatePatternRecurrence({ ruleType: "blocked_pattern", weeksOfMonth: [2, -1] })).toBeNull();
+    });
+
+    it("rejects recurrence on overrides", () => {
+      expect(validatePatternRecurrence({ ruleType: "available_override", weekInterval: 2 })).toMatch(
+        /only supported on pattern rules/
+      );
+    });
+
+    it("rejects bad bounds", () => {
+      expect(validatePatternRecurrence({ ruleType: "available_pattern", validFrom: "Jan 1" })).toMatch(/YYYY-MM-DD/);
+      expect(
+        validatePatternRecurrence({ ruleType: "available_pattern", validFrom: "2024-02-01", validUntil: "2024-01-01" })
+      ).toMatch(/on or before/);
+    });
+
+    it("requires an anchor date for intervals above one", () => {
+      expect(validatePatternRecurrence({ ruleType: "available_pattern", weekInterval: 2 })).toMatch(/anchorDate/);
+      expect(validatePatternRecurrence({ ruleType: "available_pattern", weekInterval: 1 })).toBeNull();
+    });
+
+    it("rejects out-of-range values", () => {
+      expect(
+        validatePatternRecurrence({ ruleType: "available_pattern", weekInterval: 9, anchorDate: "2024-01-13" })
+      ).toMatch(/weekInterval/);
+      expect(validatePatternRecurrence({ ruleType: "available_pattern", weeksOfMonth: [0] })).toMatch(/weeksOfMonth/);
+    });
+
+    it("rejects combining weekInterval and weeksOfMonth", () => {
+      expect(
+        validatePatternRecurrence({
+          ruleType: "available_pattern",
+          weekInterval: 2,
+          anchorDate: "2024-01-13",
+          weeksOfMonth: [1],
+        })
+      ).toMatch(/not both/);
+    });
+  });
+
+  describe("describeRecurrence", () => {
+    it("describes each kind of recurrence", () => {
+      expect(describeRecurrence({})).toBeNull();
+      expect(describeRecurrence({ weekInterval: 2, anchorDate: "2024-01-13" })).toBe("every other week");
+      expect(describeRecurrence({ weekInterval: 3, anchorDate: "2024-01-13" })).toBe("every 3 weeks");
+      expect(describeRecurrence({ weeksOfMonth: [-1, 1] })).toBe("1st & last of the month");
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  toRuleSnapshot,
+  fromRuleSnapshot,
+  inferRevisionSource,
+} from "../../../lib/availability/revisions";
+import type {
+  AvailabilityRule,
+  CreateAvailabilityRuleInput,
+} from "../../../lib/types/availability";
+
+const rule: AvailabilityRule = {
+  id: "r1",
+  participantId: "p1",
+  ruleType: "available_pattern",
+  dayOfWeek: 6,
+  specificDate: null,
+  startTime: "14:00",
+  endTime: "18:00",
+  originalTimezone: "UTC",
+  originalDayOfWeek: 6,
+  originalStartTime: "14:00",
+  originalEndTime: "18:00",
+  weekInterval: 2,
+  anchorDate: "2026-01-10",
+  preference: "if_needed",
+  reason: null,
+  source: "ai",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+function input(source: CreateAvailabilityRuleInput["source"]): CreateAvailabilityRuleInput {
+  return { ...fromRuleSnapshot([toRuleSnapshot(rule)], "p1")[0], source };
+}
+
+describe("rule revisions", () => {
+  it("snapshots rules without ids, participant or timestamps", () => {
+    const snapshot = toRuleSnapshot(rule);
+    expect(snapshot).not.toHaveProperty("id");
+    expect(snapshot).not.toHaveProperty("participantId");
+    expect(snapshot).not.toHaveProperty("createdAt");
+    expect(snapshot).toMatchObject({
+      weekInterval: 2,
+      anchorDate: "2026-01-10",
+      validFrom: null,
+      weeksOfMonth: [],
+      preference: "if_needed",
+      source: "ai",
+    });
+  });
+
+  it("survives a JSON round trip and restores for any participant", () => {
+    const stored = JSON.parse(JSON.stringify([toRuleSnapshot(rule)]));
+    const [restored] = fromRuleSnapshot(stored, "p2");
+    expect(restored.participantId).toBe("p2");
+    expect(toRuleSnapshot({ ...rule, ...restored })).toEqual(toRuleSnapshot(rule));
+  });
+
+  it("labels a change by the rules it saves", () => {
+    expect(inferRevisionSource([input("manual"), input("import")])).toBe("manual");
+    expect(inferRevisionSource([input("manual"), input("ai")])).toBe("ai");
+    expect(inferRevisionSource([])).toBe("manual");
+  });
+});
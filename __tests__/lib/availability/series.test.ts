@@ -0,0 +1,161 @@
+import { planSessionSeries, type SeriesOptions } from "../../../lib/availability/series";
+import { prepareRuleForStorage } from "../../../lib/availability/timezone";
+import type { RecommendationParticipant } from "../../../lib/availability/recommendations";
+import type { AvailabilityRule } from "../../../lib/types/availability";
+
+let nextId = 0;
+
+function weekly(dayOfWeek: number, startTime: string, endTime: string, timezone = "UTC"): AvailabilityRule {
+  const prepared = prepareRuleForStorage(
+    { ruleType: "available_pattern", dayOfWeek, startTime, endTime },
+    timezone
+  );
+  return {
+    id: `r${nextId++}`,
+    participantId: "p",
+    ruleType: "available_pattern",
+    dayOfWeek: prepared.dayOfWeek!,
+    specificDate: null,
+    startTime: prepared.startTime,
+    endTime: prepared.endTime,
+    originalTimezone: prepared.originalTimezone,
+    originalDayOfWeek: prepared.originalDayOfWeek,
+    originalStartTime: prepared.originalStartTime,
+    originalEndTime: prepared.originalEndTime,
+    crossesMidnight: prepared.crossesMidnight,
+    reason: null,
+    source: "manual",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function blockedDay(date: string): AvailabilityRule {
+  return {
+    ...weekly(0, "00:00", "24:00"),
+    ruleType: "blocked_override",
+    dayOfWeek: null,
+    specificDate: date,
+    originalDayOfWeek: null,
+    originalStartTime: null,
+    originalEndTime: null,
+  };
+}
+
+function participant(id: string, rules: AvailabilityRule[], isGm = false): RecommendationParticipant {
+  return { id, name: id, isGm, timezone: "UTC", rules };
+}
+
+const SATURDAY_NIGHTS = weekly(6, "18:00", "23:00");
+
+const group = [
+  participant("gm", [SATURDAY_NIGHTS], true),
+  participant("alice", [SATURDAY_NIGHTS]),
+  participant("bob", [SATURDAY_NIGHTS, blockedDay("2026-01-17")]),
+  participant("carol", [weekly(5, "18:00", "23:00")]),
+];
+
+// Mon Jan 5 - Sun Mar 1 2026: eight Saturdays, Jan 10 - Feb 28
+const options: SeriesOptions = {
+  cadence: "weekly",
+  sessionMinutes: 240,
+  timezone: "UTC",
+  startDate: "2026-01-05",
+  endDate: "2026-03-01",
+  minPlayers: 2,
+  requireGm: true,
+  limit: 2,
+};
+
+describe("planSessionSeries", () => {
+  it("picks the weekly slot with the best attendance and reports misses", () => {
+    const [best] = planSessionSeries(group, options);
+
+    expect(best.dayOfWeek).toBe(6);
+    expect(best.startTime).toBe("18:00");
+    expect(best.occurrences).toHaveLength(8);
+    expect(best.occurrences[0]).toMatchObject({
+      date: "2026-01-10",
+      startsAt: "2026-01-10T18:00:00.000Z",
+      endsAt: "2026-01-10T22:00:00.000Z",
+    });
+    // Jan 17 has only alice, below minPlayers
+    expect(best.playableCount).toBe(7);
+    expect(best.occurrences[1].playable).toBe(false);
+    // alice 8 + bob 7 + carol 0 of 24 player-sessions
+    expect(best.attendanceRate).toBe(0.63);
+    expect(best.absences.map((a) => a.participantId)).toEqual(["carol", "bob"]);
+    expect(best.absences[1].dates).toEqual(["2026-01-17"]);
+  });
+
+  it("offers distinct slots, ranking unplayable ones last", () => {
+    const plans = planSessionSeries(group, options);
+    expect(plans).toHaveLength(2);
+    // Saturday 18:30 and 19:00 overlap the best plan; Friday has no GM
+    expect(plans[1]).toMatchObject({ dayOfWeek: 5, startTime: "18:00", playableCount: 0 });
+  });
+
+  it("chooses the biweekly phase that avoids a conflict", () => {
+    const [best] = planSessionSeries(group, { ...options, cadence: "biweekly" });
+
+    expect(best.recurrence).toEqual({ weekInterval: 2, anchorDate: "2026-01-10" });
+    expect(best.occurrences.map((o) => o.date)).toEqual([
+      "2026-01-10",
+      "2026-01-24",
+      "2026-02-07",
+      "2026-02-21",
+    ]);
+    expect(best.absences.map((a) => a.participantId)).toEqual(["carol"]);
+  });
+
+  it("plans monthly series on the nth weekday", () => {
+    const [best] = planSessionSeries(group, { ...options, cadence: "monthly" });
+
+    expect(best.recurrence).toEqual({ weeksOfMonth: [2] });
+    expect(best.occurrences.map((o) => o.date)).toEqual(["2026-01-10", "2026-02-14"]);
+
+    const last = planSessionSeries(group, { ...options, cadence: "monthly", limit: 10 }).find(
+      (p) => p.recurrence.weeksOfMonth?.[0] === -1
+    );
+    expect(last?.occurrences.map((o) => o.date)).toEqual(["2026-01-31", "2026-02-28"]);
+  });
+
+  it("keeps the local start time across a DST change", () => {
+    const tz = "America/New_York";
+    const rules = [weekly(6, "18:00", "23:00", tz)];
+    const [best] = planSessionSeries(
+      [participant("gm", rules, true), participant("alice", rules)],
+      { ...options, timezone: tz, startDate: "2026-02-28", endDate: "2026-03-14", minPlayers: 1 }
+    );
+
+    expect(best.startTime).toBe("18:00");
+    expect(best.occurrences.map((o) => o.startsAt)).toEqual([
+      "2026-02-28T23:00:00.000Z",
+      "2026-03-07T23:00:00.000Z",
+      "2026-03-14T22:00:00.000Z",
+    ]);
+  });
+
+  it("only counts sessions every required player can make as playable", () => {
+    const withRequired = group.map((p) => (p.id === "bob" ? { ...p, isRequired: true } : p));
+    const [best] = planSessionSeries(withRequired, { ...options, minPlayers: 1 });
+
+    expect(best.playableCount).toBe(7);
+    expect(best.occurrences.find((o) => o.date === "2026-01-17")?.playable).toBe(false);
+  });
+
+  it("counts sessions any co-GM can run as playable", () => {
+    const withCoGm = [...group, participant("cogm", [weekly(5, "18:00", "23:00")], true)];
+    const friday = planSessionSeries(withCoGm, { ...options, minPlayers: 1 }).find((p) => p.dayOfWeek === 5);
+
+    expect(friday?.playableCount).toBe(8);
+    // Only players count towards attendance: carol 8 of 24 player-sessions
+    expect(friday?.attendanceRate).toBe(0.33);
+  });
+
+  it("skips sessions before notBefore", () => {
+    const [best] = planSessionSeries(group, { ...options, notBefore: new Date("2026-02-01T00:00:00Z") });
+    expect(best.occurrences[0].date).toBe("2026-02-07");
+    expect(best.occurrences).toHaveLength(4);
+  });
+});
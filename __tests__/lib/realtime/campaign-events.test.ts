@@ -0,0 +1,90 @@
+import {
+  subscribeToCampaign,
+  publishCampaignChange,
+  getSubscriberCount,
+  formatSseMessage,
+  applyParticipantChanges,
+  type CampaignChange,
+} from "../../../lib/realtime/campaign-events";
+
+describe("campaign-events", () => {
+  describe("subscribeToCampaign / publishCampaignChange", () => {
+    it("delivers changes only to the campaign's subscribers", () => {
+      const received: CampaignChange[] = [];
+      const other: CampaignChange[] = [];
+      const unsubscribe = subscribeToCampaign("event-1", (c) => received.push(c));
+      const unsubscribeOther = subscribeToCampaign("event-2", (c) => other.push(c));
+
+      publishCampaignChange("event-1", { type: "rules_updated", participantId: "p1" });
+
+      expect(received).toEqual([{ type: "rules_updated", participantId: "p1" }]);
+      expect(other).toEqual([]);
+      unsubscribe();
+      unsubscribeOther();
+    });
+
+    it("stops delivering after unsubscribe", () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToCampaign("event-1", listener);
+      expect(getSubscriberCount("event-1")).toBe(1);
+
+      unsubscribe();
+      publishCampaignChange("event-1", { type: "campaign_updated" });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(getSubscriberCount("event-1")).toBe(0);
+    });
+
+    it("keeps notifying when a listener throws", () => {
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+      const listener = jest.fn();
+      const unsubscribeBad = subscribeToCampaign("event-1", () => {
+        throw new Error("boom");
+      });
+      const unsubscribe = subscribeToCampaign("event-1", listener);
+
+      expect(() => publishCampaignChange("event-1", { type: "campaign_updated" })).not.toThrow();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribeBad();
+      unsubscribe();
+      consoleSpy.mockRestore();
+    });
+
+    it("ignores campaigns nobody is listening to", () => {
+      expect(() => publishCampaignChange("nobody", { type: "campaign_updated" })).not.toThrow();
+    });
+  });
+
+  describe("formatSseMessage", () => {
+    it("encodes a change as a data line", () => {
+      expect(formatSseMessage({ type: "participant_joined", participantId: "p1" })).toBe(
+        'data: {"type":"participant_joined","participantId":"p1"}\n\n'
+      );
+    });
+  });
+
+  describe("applyParticipantChanges", () => {
+    const list = [
+      { id: "a", name: "Alice" },
+      { id: "b", name: "Bob" },
+    ];
+
+    it("replaces, removes and appends players", () => {
+      expect(
+        applyParticipantChanges(list, {
+          a: { id: "a", name: "Alicia" },
+          b: null,
+          c: { id: "c", name: "Cara" },
+        })
+      ).toEqual([
+        { id: "a", name: "Alicia" },
+        { id: "c", name: "Cara" },
+      ]);
+    });
+
+    it("returns the same players when nothing changed", () => {
+      expect(applyParticipantChanges(list, {})).toEqual(list);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { buildAdminLink, parseAdminToken } from "../../../lib/utils/admin-token";
+
+describe("admin-token", () => {
+  describe("buildAdminLink / parseAdminToken", () => {
+    it("round-trips a token through the admin link", () => {
+      const link = buildAdminLink("https://example.com", "curse-of-strahd", "abc_DEF-123");
+      expect(link).toBe("https://example.com/curse-of-strahd/settings?admin=abc_DEF-123");
+      expect(parseAdminToken(link)).toBe("abc_DEF-123");
+    });
+
+    it("accepts a bare token", () => {
+      expect(parseAdminToken("  abc_DEF-123 ")).toBe("abc_DEF-123");
+    });
+
+    it("rejects links without a token and malformed input", () => {
+      expect(parseAdminToken("https://example.com/curse-of-strahd")).toBeNull();
+      expect(parseAdminToken("not a token")).toBeNull();
+      expect(parseAdminToken("")).toBeNull();
+    });
+  });
+});
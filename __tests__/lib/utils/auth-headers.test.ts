@@ -0,0 +1,73 @@
+import { adminHeaders, participantHeaders } from "../../../lib/utils/auth-headers";
+import { storeAdminToken, clearAdminToken, ADMIN_TOKEN_HEADER } from "../../../lib/utils/admin-token";
+import {
+  storeParticipantToken,
+  clearParticipantToken,
+  PARTICIPANT_TOKEN_HEADER,
+} from "../../../lib/utils/participant-token";
+
+const participantId = "6f1c2a4e-8b7d-4e1a-9c3f-2d5b8a7e6c10";
+
+describe("auth-headers", () => {
+  describe("adminHeaders", () => {
+    afterEach(() => clearAdminToken("e1"));
+
+    it("is empty without a stored token", () => {
+      expect(adminHeaders("e1")).toEqual({});
+    });
+
+    it("sends the stored token", () => {
+      storeAdminToken("e1", "secret");
+      expect(adminHeaders("e1")).toEqual({ [ADMIN_TOKEN_HEADER]: "secret" });
+    });
+
+    describe("as a co-GM", () => {
+      beforeEach(() => {
+        localStorage.setItem("participant_e1", "p1");
+        storeParticipantToken("p1", "own-token");
+      });
+      afterEach(() => {
+        localStorage.removeItem("participant_e1");
+        localStorage.removeItem("participant_e1_isGm");
+        clearParticipantToken("p1");
+      });
+
+      it("sends the GM's own edit token", () => {
+        localStorage.setItem("participant_e1_isGm", "true");
+        expect(adminHeaders("e1")).toEqual({ [ADMIN_TOKEN_HEADER]: "own-token" });
+      });
+
+      it("prefers the admin token", () => {
+        localStorage.setItem("participant_e1_isGm", "true");
+        storeAdminToken("e1", "secret");
+        expect(adminHeaders("e1")).toEqual({ [ADMIN_TOKEN_HEADER]: "secret" });
+      });
+
+      it("never sends a player's token", () => {
+        localStorage.setItem("participant_e1_isGm", "false");
+        expect(adminHeaders("e1")).toEqual({});
+      });
+    });
+  });
+
+  describe("participantHeaders", () => {
+    afterEach(() => {
+      clearParticipantToken(participantId);
+      clearAdminToken("e1");
+    });
+
+    it("is empty without stored tokens", () => {
+      expect(participantHeaders(participantId, "e1")).toEqual({});
+    });
+
+    it("sends the participant token and the GM admin token", () => {
+      storeParticipantToken(participantId, "player");
+      storeAdminToken("e1", "gm");
+      expect(participantHeaders(participantId, "e1")).toEqual({
+        [PARTICIPANT_TOKEN_HEADER]: "player",
+        [ADMIN_TOKEN_HEADER]: "gm",
+      });
+      expect(participantHeaders(participantId)).toEqual({ [PARTICIPANT_TOKEN_HEADER]: "player" });
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  CAMPAIGN_ARCHIVE_VERSION,
+  campaignArchiveFilename,
+  validateCampaignArchive,
+} from "../../../lib/utils/campaign-archive";
+import { MAX_IMAGE_BASE64_LENGTH, type CampaignArchive, type CampaignArchiveParticipant } from "../../../lib/types";
+
+function participant(overrides: Partial<CampaignArchiveParticipant> = {}): CampaignArchiveParticipant {
+  return {
+    displayName: "Alice",
+    isGm: false,
+    gmRole: null,
+    isRequired: false,
+    waitlistedAt: null,
+    pendingApproval: false,
+    applicationPitch: null,
+    timezone: "Europe/Berlin",
+    characterName: "Vex",
+    characterClass: "Ranger",
+    characterSheetUrl: null,
+    characterTokenBase64: "data:image/png;base64,AAAA",
+    notes: null,
+    createdAt: "2026-09-01T18:00:00.000Z",
+    rules: [
+      {
+        ruleType: "available_pattern",
+        dayOfWeek: 5,
+        specificDate: null,
+        startTime: "17:00",
+        endTime: "21:00",
+        originalTimezone: "Europe/Berlin",
+        originalDayOfWeek: 5,
+      },
+      {
+        ruleType: "blocked_override",
+        dayOfWeek: null,
+        specificDate: "2026-10-23",
+        startTime: "00:00",
+        endTime: "24:00",
+        originalTimezone: "Europe/Berlin",
+        originalDayOfWeek: null,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function archive(overrides: Partial<CampaignArchive> = {}): CampaignArchive {
+  return {
+    format: "when2play-campaign",
+    version: CAMPAIGN_ARCHIVE_VERSION,
+    exportedAt: "2026-10-19T12:00:00.000Z",
+    event: {
+      slug: "curse-of-strahd",
+      title: "Curse of Strahd",
+      description: null,
+      timezone: "Europe/Berlin",
+      campaignType: "CAMPAIGN",
+      campaignImageBase64: null,
+      sessionLengthMinutes: 240,
+      customPreSessionInstructions: null,
+      playerPrepUrls: null,
+      requireCharacterCreation: true,
+      requireApproval: false,
+      startDate: "2026-10-01",
+      endDate: "2026-12-31",
+      earliestTime: "17:00",
+      latestTime: "24:00",
+      meetingType: "DISCORD",
+      meetingLocation: null,
+      meetingRoom: null,
+      minPlayers: 3,
+      maxPlayers: 5,
+      createdAt: "2026-09-01T17:00:00.000Z",
+    },
+    gameSystem: {
+      name: "D&D 5e",
+      description: null,
+      imageBase64: null,
+      defaultInstructions: null,
+      defaultUrls: null,
+      isBuiltIn: true,
+    },
+    participants: [
+      participant({ displayName: "Game Master", isGm: true, gmRole: "primary", rules: [] }),
+      participant(),
+    ],
+    ...overrides,
+  };
+}
+
+describe("validateCampaignArchive", () => {
+  it("accepts a backup", () => {
+    expect(validateCampaignArchive(archive())).toBeNull();
+  });
+
+  it("rejects files that aren't backups", () => {
+    expect(validateCampaignArchive(null)).toBe("Not a When2Play campaign backup");
+    expect(validateCampaignArchive({ title: "Curse of Strahd" })).toBe("Not a When2Play campaign backup");
+  });
+
+  it("rejects backups from a newer version", () => {
+    expect(validateCampaignArchive(archive({ version: CAMPAIGN_ARCHIVE_VERSION + 1 }))).toMatch(
+      /reads up to version 1/
+    );
+    expect(validateCampaignArchive(archive({ version: 0 }))).toBe("Invalid backup version");
+  });
+
+  it("checks the campaign", () => {
+    const base = archive();
+    expect(validateCampaignArchive({ ...base, event: { ...base.event, slug: "../etc" } })).toBe(
+      "event.slug must be letters, numbers, - and _"
+    );
+    expect(validateCampaignArchive({ ...base, event: { ...base.event, earliestTime: "5pm" } })).toBe(
+      "event.earliestTime must be a time (HH:MM)"
+    );
+    expect(validateCampaignArchive({ ...base, event: { ...base.event, description: 42 } })).toBe(
+      "event.description must be text or null"
+    );
+  });
+
+  it("names the path of a bad rule", () => {
+    const rule = participant().rules[0];
+    const withRule = (overrides: object) =>
+      archive({
+        participants: [participant(), participant({ displayName: "Bob", rules: [{ ...rule, ...overrides }] })],
+      });
+
+    expect(validateCampaignArchive(withRule({ dayOfWeek: null }))).toBe(
+      "participants[1].rules[0].dayOfWeek is required for pattern rules"
+    );
+    expect(validateCampaignArchive(withRule({ preference: "sometimes" }))).toBe(
+      "participants[1].rules[0].preference must be one of: preferred, if_needed"
+    );
+    expect(validateCampaignArchive(withRule({ startTime: 1900 }))).toBe(
+      "participants[1].rules[0].startTime must be a time (HH:MM)"
+    );
+    expect(validateCampaignArchive(withRule({ originalStartTime: 7 }))).toBe(
+      "participants[1].rules[0].originalStartTime must be a time (HH:MM)"
+    );
+  });
+
+  it("checks participant fields", () => {
+    const notes = ["x"] as unknown as string;
+    expect(validateCampaignArchive(archive({ participants: [participant({ timezone: "Mars/Olympus" })] }))).toBe(
+      "participants[0].timezone must be a timezone"
+    );
+    expect(validateCampaignArchive(archive({ participants: [participant({ notes })] }))).toBe(
+      "participants[0].notes must be text or null"
+    );
+  });
+
+  it("holds text to its column limits", () => {
+    const withParticipant = (overrides: Partial<CampaignArchiveParticipant>) =>
+      validateCampaignArchive(archive({ participants: [participant(overrides)] }));
+
+    expect(withParticipant({ notes: "x".repeat(255), applicationPitch: "x".repeat(500) })).toBeNull();
+    expect(withParticipant({ notes: "x".repeat(256) })).toBe("participants[0].notes must be at most 255 characters");
+    expect(withParticipant({ applicationPitch: "x".repeat(501) })).toBe(
+      "participants[0].applicationPitch must be at most 500 characters"
+    );
+    expect(withParticipant({ characterTokenBase64: "x".repeat(MAX_IMAGE_BASE64_LENGTH + 1) })).toMatch(
+      /^participants\[0\]\.characterTokenBase64 must be at most/
+    );
+  });
+
+  it("rejects duplicate names and a second primary GM", () => {
+    expect(validateCampaignArchive(archive({ participants: [participant(), participant()] }))).toBe(
+      "Alice appears more than once"
+    );
+    expect(
+      validateCampaignArchive(
+        archive({
+          participants: [
+            participant({ displayName: "GM 1", isGm: true, gmRole: "primary" }),
+            participant({ displayName: "GM 2", isGm: true, gmRole: "primary" }),
+          ],
+        })
+      )
+    ).toBe("A campaign can only have one primary GM");
+  });
+});
+
+describe("campaignArchiveFilename", () => {
+  it("uses the slug and export date", () => {
+    expect(campaignArchiveFilename(archive())).toBe("curse-of-strahd-backup-2026-10-19.json");
+  });
+});
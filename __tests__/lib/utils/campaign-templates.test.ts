@@ -0,0 +1,105 @@
+import {
+  applyCampaignTemplate,
+  deleteCampaignTemplate,
+  listCampaignTemplates,
+  saveCampaignTemplate,
+  templateSettingsFromCampaign,
+} from "../../../lib/utils/campaign-templates";
+import type { CreateCampaignPayload } from "../../../lib/types";
+
+const payload: CreateCampaignPayload = {
+  title: "Out of the Abyss",
+  timezone: "Europe/Berlin",
+  startDate: "2026-11-01",
+  endDate: "2026-12-13",
+  earliestTime: "17:00",
+  latestTime: "23:00",
+  sessionLengthMinutes: 180,
+};
+
+describe("campaign templates", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("saves, lists and deletes templates", () => {
+    const template = saveCampaignTemplate(" Thursday D&D ", { sessionLengthMinutes: 240 });
+
+    expect(template.name).toBe("Thursday D&D");
+    expect(listCampaignTemplates()).toEqual([template]);
+
+    deleteCampaignTemplate(template.id);
+    expect(listCampaignTemplates()).toEqual([]);
+  });
+
+  it("replaces a template saved under the same name", () => {
+    saveCampaignTemplate("Thursday D&D", { sessionLengthMinutes: 240 });
+    saveCampaignTemplate("thursday d&d", { sessionLengthMinutes: 180 });
+
+    const templates = listCampaignTemplates();
+    expect(templates).toHaveLength(1);
+    expect(templates[0].settings.sessionLengthMinutes).toBe(180);
+  });
+
+  it("ignores unreadable storage", () => {
+    localStorage.setItem("campaign_templates", "{not json");
+    expect(listCampaignTemplates()).toEqual([]);
+  });
+});
+
+describe("templateSettingsFromCampaign", () => {
+  it("keeps configured fields and drops empty ones", () => {
+    expect(
+      templateSettingsFromCampaign({
+        campaignType: "CAMPAIGN",
+        gameSystem: { id: "dnd5e" },
+        sessionLengthMinutes: 240,
+        customPreSessionInstructions: "",
+        playerPrepUrls: [],
+        meetingType: "DISCORD",
+        meetingLocation: "#game-night",
+        meetingRoom: null,
+        maxPlayers: 5,
+        requireApproval: false,
+      })
+    ).toEqual({
+      campaignType: "CAMPAIGN",
+      gameSystemId: "dnd5e",
+      sessionLengthMinutes: 240,
+      meetingType: "DISCORD",
+      meetingLocation: "#game-night",
+      maxPlayers: 5,
+    });
+  });
+});
+
+describe("applyCampaignTemplate", () => {
+  const template = {
+    id: "tpl-1",
+    name: "Thursday D&D",
+    createdAt: "2026-10-01T00:00:00.000Z",
+    settings: {
+      description: "Weekly game",
+      gameSystemId: "dnd5e",
+      sessionLengthMinutes: 240,
+      meetingType: "DISCORD" as const,
+    },
+  };
+
+  it("fills in the template's settings", () => {
+    expect(applyCampaignTemplate(payload, template)).toEqual({
+      ...payload,
+      description: "Weekly game",
+      gameSystemId: "dnd5e",
+      sessionLengthMinutes: 180,
+      meetingType: "DISCORD",
+    });
+  });
+
+  it("keeps what the GM entered", () => {
+    const result = applyCampaignTemplate({ ...payload, description: "New arc", meetingType: undefined }, template);
+    expect(result.description).toBe("New arc");
+    expect(result.meetingType).toBe("DISCORD");
+    expect(result.title).toBe("Out of the Abyss");
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  formatIcsDate,
+  escapeIcsText,
+  foldIcsLine,
+  describeMeeting,
+  sessionUid,
+  buildSessionCalendar,
+  type IcsCampaignInfo,
+} from "../../../lib/utils/ical";
+import type { CampaignSession } from "../../../lib/types";
+
+const campaign: IcsCampaignInfo = {
+  title: "Curse of Strahd",
+  slug: "curse-of-strahd",
+  meetingType: "DISCORD",
+  meetingLocation: "https://discord.gg/abc",
+  meetingRoom: "#voice-1",
+  customPreSessionInstructions: "Level up, bring snacks",
+};
+
+function makeSession(overrides: Partial<CampaignSession> = {}): CampaignSession {
+  return {
+    id: "s1",
+    eventId: "e1",
+    startsAt: "2026-03-05T19:00:00.000Z",
+    durationMinutes: 180,
+    status: "confirmed",
+    title: null,
+    notes: null,
+    seriesId: null,
+    participantIds: [],
+    createdAt: "2026-03-01T10:00:00.000Z",
+    updatedAt: "2026-03-02T12:30:00.000Z",
+    ...overrides,
+  };
+}
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("ical", () => {
+  describe("formatIcsDate", () => {
+    it("formats as UTC basic date-time", () => {
+      expect(formatIcsDate(new Date("2026-03-05T19:00:00.000Z"))).toBe("20260305T190000Z");
+    });
+  });
+
+  describe("escapeIcsText", () => {
+    it("escapes special characters and newlines", () => {
+      expect(escapeIcsText("a,b;c\\d\ne")).toBe("a\\,b\\;c\\\\d\\ne");
+    });
+  });
+
+  describe("foldIcsLine", () => {
+    it("leaves short lines alone", () => {
+      expect(foldIcsLine("SUMMARY:Short")).toBe("SUMMARY:Short");
+    });
+
+    it("folds long lines to 75 octets", () => {
+      const folded = foldIcsLine("DESCRIPTION:" + "x".repeat(200));
+      const lines = folded.split("\r\n");
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(75));
+      lines.slice(1).forEach((line) => expect(line.startsWith(" ")).toBe(true));
+      expect(folded.replace(/\r\n /g, "")).toBe("DESCRIPTION:" + "x".repeat(200));
+    });
+
+    it("does not split multi-byte characters", () => {
+      const folded = foldIcsLine("SUMMARY:" + "é".repeat(60));
+      expect(folded.replace(/\r\n /g, "")).toBe("SUMMARY:" + "é".repeat(60));
+    });
+  });
+
+  describe("describeMeeting", () => {
+    it("combines the meeting label, location and room", () => {
+      expect(describeMeeting(campaign)).toBe("Discord: https://discord.gg/abc · #voice-1");
+    });
+
+    it("returns null without a meeting type", () => {
+      expect(describeMeeting({ ...campaign, meetingType: null })).toBeNull();
+    });
+  });
+
+  describe("buildSessionCalendar", () => {
+    it("emits a VEVENT with stable UID, times and meeting details", () => {
+      const lines = unfold(
+        buildSessionCalendar("Curse of Strahd", [makeSession()], campaign, "https://example.com/curse-of-strahd")
+      );
+
+      expect(lines[0]).toBe("BEGIN:VCALENDAR");
+      expect(lines).toContain(`UID:${sessionUid("s1")}`);
+      expect(lines).toContain("DTSTART:20260305T190000Z");
+      expect(lines).toContain("DTEND:20260305T220000Z");
+      expect(lines).toContain("STATUS:CONFIRMED");
+      expect(lines).toContain("URL:https://discord.gg/abc");
+      expect(lines).toContain("LOCATION:https://discord.gg/abc · #voice-1");
+
+      const description = lines.find((l) => l.startsWith("DESCRIPTION:"));
+      expect(description).toContain("Level up\\, bring snacks");
+      expect(description).toContain("https://example.com/curse-of-strahd");
+    });
+
+    it("keeps the UID and bumps SEQUENCE when a session is cancelled", () => {
+      const url = "https://example.com/curse-of-strahd";
+      const before = unfold(buildSessionCalendar("c", [makeSession()], campaign, url));
+      const after = unfold(
+        buildSessionCalendar(
+          "c",
+          [makeSession({ status: "cancelled", updatedAt: "2026-03-03T09:00:00.000Z" })],
+          campaign,
+          url
+        )
+      );
+
+      const sequence = (lines: string[]) =>
+        Number(lines.find((l) => l.startsWith("SEQUENCE:"))!.slice("SEQUENCE:".length));
+
+      expect(after).toContain(`UID:${sessionUid("s1")}`);
+      expect(after).toContain("STATUS:CANCELLED");
+      expect(sequence(after)).toBeGreaterThan(sequence(before));
+    });
+
+    it("marks proposed sessions as tentative", () => {
+      const lines = unfold(
+        buildSessionCalendar("c", [makeSession({ status: "proposed", title: "Session 1" })], campaign, "u")
+      );
+      expect(lines).toContain("STATUS:TENTATIVE");
+      expect(lines).toContain("SUMMARY:Curse of Strahd: Session 1 (proposed)");
+    });
+
+    it("uses the campaign page as URL when the location is not a link", () => {
+      const lines = unfold(
+        buildSessionCalendar(
+          "c",
+          [makeSession()],
+          { ...campaign, meetingType: "IN_PERSON", meetingLocation: "123 Main St", meetingRoom: null },
+          "https://example.com/c"
+        )
+      );
+      expect(lines).toContain("LOCATION:123 Main St");
+      expect(lines).toContain("URL:https://example.com/c");
+    });
+
+    it("uses CRLF line endings", () => {
+      const ics = buildSessionCalendar("c", [], campaign, "u");
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+      expect(ics.split("\n").every((line, i, all) => i === all.length - 1 || line.endsWith("\r"))).toBe(true);
+    });
+  });
+});
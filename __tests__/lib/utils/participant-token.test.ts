@@ -0,0 +1,23 @@
+import { buildRecoveryLink, parseRecoveryLink } from "../../../lib/utils/participant-token";
+
+const participantId = "6f1c2a4e-8b7d-4e1a-9c3f-2d5b8a7e6c10";
+
+describe("participant-token", () => {
+  describe("buildRecoveryLink / parseRecoveryLink", () => {
+    it("round-trips the participant and token through the link", () => {
+      const link = buildRecoveryLink("https://example.com", "curse-of-strahd", participantId, "abc_DEF-123");
+      expect(link.startsWith("https://example.com/curse-of-strahd?claim=")).toBe(true);
+      expect(parseRecoveryLink(link)).toEqual({ participantId, token: "abc_DEF-123" });
+    });
+
+    it("accepts a bare claim value", () => {
+      expect(parseRecoveryLink(` ${participantId}.abc `)).toEqual({ participantId, token: "abc" });
+    });
+
+    it("rejects links without a claim and malformed values", () => {
+      expect(parseRecoveryLink("https://example.com/curse-of-strahd")).toBeNull();
+      expect(parseRecoveryLink(participantId)).toBeNull();
+      expect(parseRecoveryLink("a.b.c")).toBeNull();
+    });
+  });
+});
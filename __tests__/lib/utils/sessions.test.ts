@@ -0,0 +1,129 @@
+import {
+  validateSessionFields,
+  findUpcomingSession,
+  getSessionEnd,
+  serializeSession,
+} from "../../../lib/utils/sessions";
+import type { CampaignSession } from "../../../lib/types";
+
+function createSession(overrides: Partial<CampaignSession> = {}): CampaignSession {
+  return {
+    id: overrides.id || Math.random().toString(36).substring(7),
+    eventId: "event-1",
+    startsAt: "2026-03-05T00:00:00.000Z",
+    durationMinutes: 180,
+    status: "confirmed",
+    title: null,
+    notes: null,
+    seriesId: null,
+    participantIds: [],
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("validateSessionFields", () => {
+  it("accepts a valid payload", () => {
+    expect(
+      validateSessionFields({
+        startsAt: "2026-03-05T00:00:00Z",
+        durationMinutes: 240,
+        status: "proposed",
+        participantIds: ["a", "b"],
+      })
+    ).toBeNull();
+  });
+
+  it("accepts an empty payload (all fields optional)", () => {
+    expect(validateSessionFields({})).toBeNull();
+  });
+
+  it("rejects an unparseable start", () => {
+    expect(validateSessionFields({ startsAt: "next thursday" })).toMatch(/Invalid session start/);
+  });
+
+  it("rejects durations outside bounds or non-integer", () => {
+    expect(validateSessionFields({ durationMinutes: 0 })).not.toBeNull();
+    expect(validateSessionFields({ durationMinutes: 24 * 60 })).not.toBeNull();
+    expect(validateSessionFields({ durationMinutes: 90.5 })).not.toBeNull();
+  });
+
+  it("rejects unknown statuses", () => {
+    expect(validateSessionFields({ status: "maybe" })).toBe("Invalid session status");
+  });
+
+  it("rejects non-array participant lists", () => {
+    expect(validateSessionFields({ participantIds: "a,b" })).not.toBeNull();
+    expect(validateSessionFields({ participantIds: [1, 2] })).not.toBeNull();
+  });
+
+  it("rejects a non-text title or notes", () => {
+    expect(validateSessionFields({ title: 42 })).toBe("title must be text");
+    expect(validateSessionFields({ notes: { text: "bring dice" } })).toBe("notes must be text");
+    expect(validateSessionFields({ title: null, notes: "bring dice" })).toBeNull();
+  });
+});
+
+describe("getSessionEnd", () => {
+  it("adds the duration to the start", () => {
+    const session = createSession({ startsAt: "2026-03-05T22:00:00.000Z", durationMinutes: 240 });
+    expect(getSessionEnd(session).toISOString()).toBe("2026-03-06T02:00:00.000Z");
+  });
+});
+
+describe("findUpcomingSession", () => {
+  const now = new Date("2026-03-01T12:00:00Z");
+
+  it("returns null when there are no sessions", () => {
+    expect(findUpcomingSession([], now)).toBeNull();
+  });
+
+  it("skips past and cancelled sessions", () => {
+    const past = createSession({ id: "past", startsAt: "2026-02-20T00:00:00.000Z" });
+    const cancelled = createSession({ id: "cancelled", status: "cancelled", startsAt: "2026-03-02T00:00:00.000Z" });
+    const next = createSession({ id: "next", startsAt: "2026-03-03T00:00:00.000Z" });
+
+    expect(findUpcomingSession([past, cancelled, next], now)?.id).toBe("next");
+  });
+
+  it("treats an in-progress session as upcoming", () => {
+    const running = createSession({ id: "running", startsAt: "2026-03-01T11:00:00.000Z" });
+    expect(findUpcomingSession([running], now)?.id).toBe("running");
+  });
+
+  it("prefers the earliest confirmed session over proposals", () => {
+    const proposed = createSession({ id: "proposed", status: "proposed", startsAt: "2026-03-02T00:00:00.000Z" });
+    const confirmed = createSession({ id: "confirmed", startsAt: "2026-03-09T00:00:00.000Z" });
+
+    expect(findUpcomingSession([proposed, confirmed], now)?.id).toBe("confirmed");
+  });
+
+  it("falls back to the earliest proposal", () => {
+    const later = createSession({ id: "later", status: "proposed", startsAt: "2026-03-09T00:00:00.000Z" });
+    const sooner = createSession({ id: "sooner", status: "proposed", startsAt: "2026-03-02T00:00:00.000Z" });
+
+    expect(findUpcomingSession([later, sooner], now)?.id).toBe("sooner");
+  });
+});
+
+describe("serializeSession", () => {
+  it("flattens attendees and serializes dates", () => {
+    const result = serializeSession({
+      id: "s1",
+      eventId: "event-1",
+      startsAt: new Date("2026-03-05T00:00:00Z"),
+      durationMinutes: 180,
+      status: "confirmed",
+      title: null,
+      notes: null,
+      seriesId: null,
+      attendees: [{ participantId: "a" }, { participantId: "b" }],
+      createdAt: new Date("2026-01-01T00:00:00Z"),
+      updatedAt: new Date("2026-01-01T00:00:00Z"),
+    });
+
+    expect(result.startsAt).toBe("2026-03-05T00:00:00.000Z");
+    expect(result.participantIds).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,49 @@
+import { countSeatedPlayers, openSeats, selectPromotions } from "../../../lib/utils/waitlist";
+
+const gm = { id: "gm", isGm: true, waitlistedAt: null };
+const seated = (id: string) => ({ id, isGm: false, waitlistedAt: null });
+const waiting = (id: string, since: string) => ({ id, isGm: false, waitlistedAt: since });
+
+describe("countSeatedPlayers", () => {
+  it("skips the GM and waitlisted players", () => {
+    expect(countSeatedPlayers([gm, seated("a"), seated("b"), waiting("c", "2026-01-01T00:00:00Z")])).toBe(2);
+  });
+
+  it("skips applicants waiting for approval", () => {
+    expect(countSeatedPlayers([seated("a"), { ...seated("b"), pendingApproval: true }])).toBe(1);
+  });
+});
+
+describe("openSeats", () => {
+  it("counts the seats left, never below zero", () => {
+    expect(openSeats(3, 4)).toBe(1);
+    expect(openSeats(4, 4)).toBe(0);
+    expect(openSeats(5, 4)).toBe(0);
+  });
+
+  it("is unlimited without maxPlayers", () => {
+    expect(openSeats(12, null)).toBe(Infinity);
+  });
+});
+
+describe("selectPromotions", () => {
+  const party = [
+    gm,
+    seated("a"),
+    waiting("late", "2026-01-03T00:00:00Z"),
+    waiting("early", "2026-01-01T00:00:00Z"),
+    waiting("middle", "2026-01-02T00:00:00Z"),
+  ];
+
+  it("seats the longest-waiting players first", () => {
+    expect(selectPromotions(party, 3).map((p) => p.id)).toEqual(["early", "middle"]);
+  });
+
+  it("promotes nobody when the table is full", () => {
+    expect(selectPromotions(party, 1)).toEqual([]);
+  });
+
+  it("promotes everyone when the limit is removed", () => {
+    expect(selectPromotions(party, null).map((p) => p.id)).toEqual(["early", "middle", "late"]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+import type { LookupAddress } from "dns";
+import { createWebhookLookup } from "../../../lib/webhooks/host";
+import { PRIVATE_HOST_ERROR } from "../../../lib/webhooks/payload";
+
+function resolveTo(addresses: LookupAddress[]) {
+  return (_hostname: string, callback: (error: NodeJS.ErrnoException | null, addresses: LookupAddress[]) => void) =>
+    callback(null, addresses);
+}
+
+function runLookup(lookup: ReturnType<typeof createWebhookLookup>, all: boolean) {
+  return new Promise<{ error: Error | null; result: unknown }>((resolve) => {
+    lookup("hooks.example.com", { all }, (error: Error | null, address: unknown, family?: number) =>
+      resolve({ error, result: all ? address : { address, family } })
+    );
+  });
+}
+
+describe("createWebhookLookup", () => {
+  const publicAddress = { address: "93.184.216.34", family: 4 };
+
+  it("connects to the public address it checked", async () => {
+    const lookup = createWebhookLookup(false, resolveTo([publicAddress]));
+    expect(await runLookup(lookup, false)).toEqual({ error: null, result: publicAddress });
+    expect(await runLookup(lookup, true)).toEqual({ error: null, result: [publicAddress] });
+  });
+
+  it("refuses a host that resolves to a private address", async () => {
+    for (const address of ["169.254.169.254", "127.0.0.1", "::1"]) {
+      const family = address.includes(":") ? 6 : 4;
+      const lookup = createWebhookLookup(false, resolveTo([publicAddress, { address, family }]));
+      const { error } = await runLookup(lookup, true);
+      expect(error?.message).toBe(PRIVATE_HOST_ERROR);
+    }
+  });
+
+  it("allows local receivers when asked", async () => {
+    const local = { address: "127.0.0.1", family: 4 };
+    const lookup = createWebhookLookup(true, resolveTo([local]));
+    expect(await runLookup(lookup, false)).toEqual({ error: null, result: local });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  describeWebhookEvent,
+  formatDiscordPayload,
+  getRetryDelay,
+  isDiscordWebhookUrl,
+  isPrivateAddress,
+  isRetryableStatus,
+  serializeWebhookBody,
+  validateWebhookFields,
+  validateWebhookUrl,
+  type WebhookPayload,
+} from "../../../lib/webhooks/payload";
+import { signWebhookBody, verifyWebhookSignature } from "../../../lib/webhooks/signature";
+
+const campaign = { id: "event-1", slug: "dragon-heist", title: "Dragon Heist", url: "https://example.com/dragon-heist" };
+
+function payload(data: WebhookPayload["data"]): WebhookPayload {
+  return { type: data.type, createdAt: "2026-01-10T12:00:00.000Z", campaign, data };
+}
+
+describe("webhook payloads", () => {
+  describe("validateWebhookUrl", () => {
+    it("requires https unless http is allowed", () => {
+      expect(validateWebhookUrl("https://example.com/hook")).toBeNull();
+      expect(validateWebhookUrl("http://localhost:4000/hook")).toMatch(/https/);
+      expect(validateWebhookUrl("http://localhost:4000/hook", true)).toBeNull();
+      expect(validateWebhookUrl("ftp://example.com", true)).toMatch(/https/);
+      expect(validateWebhookUrl("not a url")).toMatch(/valid/);
+    });
+
+    it("rejects private and local hosts in production", () => {
+      for (const url of [
+        "https://169.254.169.254/latest/meta-data",
+        "https://10.0.0.5/hook",
+        "https://172.20.1.1/hook",
+        "https://192.168.1.10/hook",
+        "https://100.64.0.1/hook",
+        "https://127.0.0.1/hook",
+        "https://0x7f.1/hook",
+        "https://localhost/hook",
+        "https://api.localhost/hook",
+        "https://[::1]/hook",
+        "https://[fd00::1]/hook",
+        "https://[fe80::1]/hook",
+        "https://[::ffff:10.0.0.1]/hook",
+      ]) {
+        expect(validateWebhookUrl(url)).toMatch(/private or local/);
+      }
+      expect(validateWebhookUrl("https://8.8.8.8/hook")).toBeNull();
+      expect(validateWebhookUrl("https://[2606:4700::1111]/hook")).toBeNull();
+    });
+  });
+
+  describe("isPrivateAddress", () => {
+    it("flags loopback, RFC 1918, link-local, CGNAT and IPv6 local ranges", () => {
+      for (const address of [
+        "127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.0.1",
+        "169.254.169.254", "100.64.0.1", "100.127.255.255", "0.0.0.0",
+        "::", "::1", "fc00::1", "fdff:ffff::1", "fe80::abcd", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe",
+      ]) {
+        expect(isPrivateAddress(address)).toBe(true);
+      }
+    });
+
+    it("allows public addresses", () => {
+      for (const address of [
+        "8.8.8.8", "172.32.0.1", "100.128.0.1", "192.169.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8", "example.com",
+      ]) {
+        expect(isPrivateAddress(address)).toBe(false);
+      }
+    });
+  });
+
+  describe("validateWebhookFields", () => {
+    it("checks only the fields present", () => {
+      expect(validateWebhookFields({})).toBeNull();
+      expect(validateWebhookFields({ active: false })).toBeNull();
+      expect(validateWebhookFields({ format: "xml" })).toMatch(/format/);
+      expect(validateWebhookFields({ eventTypes: ["quorum_reached", "bogus"] })).toMatch(/eventTypes/);
+      expect(validateWebhookFields({ active: "yes" })).toMatch(/active/);
+    });
+  });
+
+  describe("isDiscordWebhookUrl", () => {
+    it("recognizes Discord channel webhooks", () => {
+      expect(isDiscordWebhookUrl("https://discord.com/api/webhooks/123/abc")).toBe(true);
+      expect(isDiscordWebhookUrl("https://canary.discordapp.com/api/webhooks/123/abc")).toBe(true);
+      expect(isDiscordWebhookUrl("https://discord.com/channels/123")).toBe(false);
+      expect(isDiscordWebhookUrl("https://notdiscord.com/api/webhooks/1")).toBe(false);
+    });
+  });
+
+  describe("describeWebhookEvent", () => {
+    it("summarizes each event type", () => {
+      expect(
+        describeWebhookEvent({ type: "participant_joined", participant: { id: "p1", displayName: "Alice" } })
+      ).toBe("Alice joined");
+      expect(
+        describeWebhookEvent({
+          type: "quorum_reached",
+          slot: { startsAt: "2026-01-10T18:00:00.000Z", endsAt: "2026-01-10T21:00:00.000Z" },
+          attendees: ["Alice", "Bob", "Cara"],
+          minPlayers: 3,
+        })
+      ).toBe("3 players can make 2026-01-10T18:00:00.000Z");
+    });
+  });
+
+  describe("formatDiscordPayload", () => {
+    it("builds one embed linking to the campaign", () => {
+      const message = formatDiscordPayload(
+        payload({ type: "participant_joined", participant: { id: "p1", displayName: "Alice" } })
+      ) as { embeds: Record<string, unknown>[] };
+
+      expect(message.embeds).toHaveLength(1);
+      expect(message.embeds[0]).toMatchObject({
+        title: "New player",
+        url: campaign.url,
+        timestamp: "2026-01-10T12:00:00.000Z",
+      });
+      expect(message.embeds[0].description).toContain("Alice");
+    });
+
+    it("uses Discord timestamps and lists players for confirmed sessions", () => {
+      const message = formatDiscordPayload(
+        payload({
+          type: "session_confirmed",
+          session: { id: "s1", startsAt: "2026-01-10T18:00:00.000Z", durationMinutes: 180, title: "Session 4" },
+          attendees: ["Alice", "Bob"],
+        })
+      ) as { embeds: { title: string; description: string; fields: { value: string }[] }[] };
+
+      const start = Date.parse("2026-01-10T18:00:00.000Z") / 1000;
+      expect(message.embeds[0].title).toBe("Session confirmed: Session 4");
+      expect(message.embeds[0].description).toContain(`<t:${start}:F>`);
+      expect(message.embeds[0].description).toContain(`<t:${start + 3 * 3600}:t>`);
+      expect(message.embeds[0].fields[0].value).toBe("Alice, Bob");
+    });
+
+    it("summarizes a confirmed series in one embed", () => {
+      const sessions = Array.from({ length: 12 }, (_, i) => ({
+        id: `s${i}`,
+        startsAt: new Date(Date.parse("2026-01-10T18:00:00.000Z") + i * 7 * 86400000).toISOString(),
+      }));
+      const data = {
+        type: "session_confirmed" as const,
+        session: { id: "s0", startsAt: sessions[0].startsAt, durationMinutes: 180, title: "Curse of Strahd" },
+        attendees: ["Alice", "Bob"],
+        series: { id: "series-1", sessions },
+      };
+      const message = formatDiscordPayload(payload(data)) as {
+        embeds: { title: string; description: string; fields: { value: string }[] }[];
+      };
+
+      expect(message.embeds).toHaveLength(1);
+      expect(message.embeds[0].title).toBe("Series confirmed: Curse of Strahd");
+      expect(message.embeds[0].description.split("\n")).toEqual([
+        "12 sessions of 3 hours:",
+        ...sessions.slice(0, 10).map((s) => `<t:${Date.parse(s.startsAt) / 1000}:F>`),
+        "…and 2 more",
+      ]);
+      expect(message.embeds[0].fields[0].value).toBe("Alice, Bob");
+      expect(describeWebhookEvent(data)).toBe("12 sessions confirmed from 2026-01-10T18:00:00.000Z");
+    });
+  });
+
+  describe("serializeWebhookBody", () => {
+    it("sends the envelope as-is in json format", () => {
+      const p = payload({ type: "availability_changed", participant: { id: "p1", displayName: "Alice" } });
+      expect(JSON.parse(serializeWebhookBody(p, "json"))).toEqual(p);
+      expect(JSON.parse(serializeWebhookBody(p, "discord"))).toHaveProperty("embeds");
+    });
+  });
+
+  describe("retries", () => {
+    it("backs off exponentially", () => {
+      expect([1, 2, 3].map(getRetryDelay)).toEqual([1000, 4000, 16000]);
+    });
+
+    it("retries network errors, rate limits and server errors only", () => {
+      expect(isRetryableStatus(null)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(404)).toBe(false);
+    });
+  });
+
+  describe("signatures", () => {
+    it("verifies a signature made with the same secret and body", () => {
+      const signature = signWebhookBody("secret", 1_700_000_000, '{"a":1}');
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(verifyWebhookSignature("secret", 1_700_000_000, '{"a":1}', signature, 1_700_000_010)).toBe(true);
+      expect(verifyWebhookSignature("other", 1_700_000_000, '{"a":1}', signature, 1_700_000_010)).toBe(false);
+      expect(verifyWebhookSignature("secret", 1_700_000_000, '{"a":2}', signature, 1_700_000_010)).toBe(false);
+    });
+
+    it("rejects stale timestamps", () => {
+      const signature = signWebhookBody("secret", 1_700_000_000, "{}");
+      expect(verifyWebhookSignature("secret", 1_700_000_000, "{}", signature, 1_700_001_000)).toBe(false);
+    });
+  });
+});
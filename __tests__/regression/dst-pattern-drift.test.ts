@@ -0,0 +1,148 @@
+/**
+ * REGRESSION TESTS: Weekly patterns drifting across DST changes
+ *
+ * BUG: "Thursdays 7pm New York" was folded into a single UTC dayOfWeek/startTime
+ * using the January (EST) offset, so every Thursday after the March DST change
+ * showed the slot at 8pm local.
+ *
+ * FIX: Patterns keep their wall-clock times (originalStartTime/originalEndTime)
+ * and are expanded per concrete date in computeEffectiveForDate.
+ */
+
+import {
+  prepareRuleForStorage,
+  expandLocalPatternForDate,
+  utcToLocal,
+} from '../../lib/availability/timezone';
+import {
+  computeEffectiveForDate,
+  computeEffectiveRanges,
+} from '../../lib/availability/compute-effective';
+import { minutesToTime } from '../../lib/availability/range-math';
+import type { AvailabilityRule } from '../../lib/types/availability';
+
+function patternRule(
+  localDay: number,
+  startTime: string,
+  endTime: string,
+  timezone: string,
+  ruleType: AvailabilityRule['ruleType'] = 'available_pattern'
+): AvailabilityRule {
+  const prepared = prepareRuleForStorage(
+    { ruleType, dayOfWeek: localDay, startTime, endTime },
+    timezone
+  );
+  return {
+    id: `rule-${localDay}-${startTime}`,
+    participantId: 'participant-1',
+    ruleType,
+    ...prepared,
+    reason: null,
+    source: 'manual',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+// Local start time of every available range over a date window
+function localStarts(rules: AvailabilityRule[], startDate: string, endDate: string, tz: string) {
+  const starts: { date: string; time: string }[] = [];
+  for (const [date, day] of computeEffectiveRanges(rules, { startDate, endDate })) {
+    for (const range of day.availableRanges) {
+      starts.push(utcToLocal(minutesToTime(range.startMinutes), date, tz));
+    }
+  }
+  return starts;
+}
+
+describe('REGRESSION: Patterns drift by an hour after DST', () => {
+  it('stores wall-clock times alongside the UTC conversion', () => {
+    const prepared = prepareRuleForStorage(
+      { ruleType: 'available_pattern', dayOfWeek: 4, startTime: '19:00', endTime: '22:00' },
+      'America/New_York'
+    );
+    expect(prepared.originalDayOfWeek).toBe(4);
+    expect(prepared.originalStartTime).toBe('19:00');
+    expect(prepared.originalEndTime).toBe('22:00');
+  });
+
+  it('overrides do not carry wall-clock pattern times', () => {
+    const prepared = prepareRuleForStorage(
+      { ruleType: 'blocked_override', specificDate: '2024-07-11', startTime: '19:00', endTime: '22:00' },
+      'America/New_York'
+    );
+    expect(prepared.originalStartTime).toBeNull();
+    expect(prepared.originalEndTime).toBeNull();
+  });
+
+  it('Thursdays 7pm New York stays at 7pm local across the March DST change', () => {
+    const rules = [patternRule(4, '19:00', '22:00', 'America/New_York')];
+    // Feb 29 (EST) through Mar 28 (EDT), 2024
+    const starts = localStarts(rules, '2024-02-28', '2024-03-30', 'America/New_York');
+
+    expect(starts).toEqual([
+      { date: '2024-02-29', time: '19:00' },
+      { date: '2024-03-07', time: '19:00' },
+      { date: '2024-03-14', time: '19:00' },
+      { date: '2024-03-21', time: '19:00' },
+      { date: '2024-03-28', time: '19:00' },
+    ]);
+  });
+
+  it('moves the UTC day when the offset pushes the start across UTC midnight', () => {
+    const rules = [patternRule(4, '19:00', '22:00', 'America/New_York')];
+
+    // Winter: 19:00 EST = 00:00 UTC Friday
+    expect(computeEffectiveForDate(rules, '2024-01-11').availableRanges).toEqual([]);
+    expect(computeEffectiveForDate(rules, '2024-01-12').availableRanges).toEqual([
+      { startMinutes: 0, endMinutes: 180 },
+    ]);
+
+    // Summer: 19:00 EDT = 23:00 UTC Thursday, running past UTC midnight
+    expect(computeEffectiveForDate(rules, '2024-07-11').availableRanges).toEqual([
+      { startMinutes: 1380, endMinutes: 1560 },
+    ]);
+    expect(computeEffectiveForDate(rules, '2024-07-12').availableRanges).toEqual([]);
+  });
+
+  it('keeps blocked patterns on the same wall-clock time', () => {
+    const rules = [
+      patternRule(4, '18:00', '23:00', 'America/New_York'),
+      patternRule(4, '19:00', '19:30', 'America/New_York', 'blocked_pattern'),
+    ];
+
+    const summer = computeEffectiveForDate(rules, '2024-07-11');
+    // 18:00-23:00 EDT = 22:00-03:00 UTC, minus 19:00-19:30 EDT = 23:00-23:30 UTC
+    expect(summer.availableRanges).toEqual([
+      { startMinutes: 1320, endMinutes: 1380 },
+      { startMinutes: 1410, endMinutes: 1620 },
+    ]);
+  });
+
+  it('handles southern hemisphere DST (Sydney, April change)', () => {
+    const rules = [patternRule(6, '10:00', '14:00', 'Australia/Sydney')];
+    const starts = localStarts(rules, '2024-03-28', '2024-04-14', 'Australia/Sydney');
+
+    expect(starts.map((s) => s.time)).toEqual(['10:00', '10:00', '10:00']);
+  });
+
+  it('expands overnight wall-clock patterns with the real elapsed duration', () => {
+    // Saturday 22:00 - 04:00 Berlin on the night the clocks go back (Oct 26-27, 2024):
+    // 22:00 CEST = 20:00 UTC, 04:00 CET = 03:00 UTC -> 7 hours elapsed
+    const ranges = expandLocalPatternForDate(6, '22:00', '04:00', 'Europe/Berlin', '2024-10-26');
+    expect(ranges).toEqual([{ startMinutes: 1200, endMinutes: 1200 + 420 }]);
+  });
+
+  it('legacy UTC-only patterns still match on their stored UTC day', () => {
+    const legacy: AvailabilityRule = {
+      ...patternRule(4, '19:00', '22:00', 'America/New_York'),
+      originalStartTime: null,
+      originalEndTime: null,
+    };
+
+    // Stored as Friday 00:00-03:00 UTC from the January reference week
+    expect(computeEffectiveForDate([legacy], '2024-07-12').availableRanges).toEqual([
+      { startMinutes: 0, endMinutes: 180 },
+    ]);
+  });
+});
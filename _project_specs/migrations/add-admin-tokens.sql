@@ -0,0 +1,11 @@
+-- Migration: Add GM admin tokens and game system ownership
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Existing campaigns keep a NULL hash and stay editable without a token
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS "adminTokenHash" TEXT;
+
+ALTER TABLE game_systems
+ADD COLUMN IF NOT EXISTS "ownerEventId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "game_systems_ownerEventId_idx" ON game_systems("ownerEventId");
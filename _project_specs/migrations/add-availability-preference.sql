@@ -0,0 +1,17 @@
+-- Migration: Add preference column to availability_rules
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Available times can be marked "if needed" (can make it, but would rather not)
+-- Existing rules default to preferred
+
+DO $$ BEGIN
+  CREATE TYPE "AvailabilityPreference" AS ENUM ('preferred', 'if_needed');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE availability_rules
+ADD COLUMN IF NOT EXISTS "preference" "AvailabilityPreference" NOT NULL DEFAULT 'preferred';
+
+COMMENT ON COLUMN availability_rules."preference" IS
+'How keen the participant is on an available time. Ignored for blocked rules.
+preferred = happy to play, if_needed = can make it but would rather not';
@@ -0,0 +1,32 @@
+-- Migration: Add availability_revisions table
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Every replace/patch/import of a participant's rules keeps the previous rule set, for undo and auditing
+
+DO $$ BEGIN
+  CREATE TYPE "RevisionAction" AS ENUM ('replace', 'patch', 'import', 'restore');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "RevisionActor" AS ENUM ('participant', 'gm');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS availability_revisions (
+  id TEXT PRIMARY KEY,
+  "participantId" TEXT NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  action "RevisionAction" NOT NULL,
+  source "RuleSource" NOT NULL DEFAULT 'manual',
+  actor "RevisionActor" NOT NULL DEFAULT 'participant',
+  rules JSONB NOT NULL,
+  "ruleCount" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "availability_revisions_participantId_createdAt_idx"
+  ON availability_revisions("participantId", "createdAt");
+
+COMMENT ON COLUMN availability_revisions.rules IS
+'Rule set before the change, as JSON rules without ids. Restoring the revision reverts the change';
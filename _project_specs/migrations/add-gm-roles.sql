@@ -0,0 +1,27 @@
+-- Migration: Add gmRole column to participants
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Campaigns can have several GMs: one primary and any number of co-GMs.
+-- Existing GMs: the first to join each campaign becomes primary, others co-GMs.
+
+DO $$ BEGIN
+  CREATE TYPE "GmRole" AS ENUM ('primary', 'co_gm');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE participants
+ADD COLUMN IF NOT EXISTS "gmRole" "GmRole" DEFAULT NULL;
+
+UPDATE participants SET "gmRole" = 'primary'
+WHERE id IN (
+  SELECT DISTINCT ON ("eventId") id FROM participants
+  WHERE "isGm" = TRUE
+  ORDER BY "eventId", "createdAt"
+)
+AND "eventId" NOT IN (SELECT "eventId" FROM participants WHERE "gmRole" = 'primary');
+
+UPDATE participants SET "gmRole" = 'co_gm'
+WHERE "isGm" = TRUE AND "gmRole" IS NULL;
+
+COMMENT ON COLUMN participants."gmRole" IS
+'primary or co_gm for GMs (isGm = true), NULL for players. One primary per campaign';
@@ -0,0 +1,20 @@
+-- Migration: Add join approval to events and participants
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Campaigns can require the GM to approve new players. Applicants can enter
+-- availability but stay out of the party and heatmap until approved.
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS "requireApproval" BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE participants
+ADD COLUMN IF NOT EXISTS "pendingApproval" BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS "applicationPitch" VARCHAR(500) DEFAULT NULL;
+
+COMMENT ON COLUMN events."requireApproval" IS
+'New players apply and wait for the GM to approve them';
+
+COMMENT ON COLUMN participants."pendingApproval" IS
+'true = applied and waiting for GM approval; hidden from the party';
+
+COMMENT ON COLUMN participants."applicationPitch" IS
+'Optional message the player sent with their application';
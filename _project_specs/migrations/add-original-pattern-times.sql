@@ -0,0 +1,47 @@
+-- Migration: Add originalStartTime / originalEndTime columns to availability_rules
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Patterns keep the wall-clock times the user entered in originalTimezone, and are
+-- expanded per concrete date so they stay at the same local time across DST changes
+
+ALTER TABLE availability_rules
+ADD COLUMN IF NOT EXISTS "originalStartTime" TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS "originalEndTime" TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN availability_rules."originalStartTime" IS
+'Pattern start time (HH:MM) in originalTimezone. NULL = override rule or legacy UTC-only pattern';
+
+COMMENT ON COLUMN availability_rules."originalEndTime" IS
+'Pattern end time (HH:MM, 24:00 allowed) in originalTimezone. NULL = override rule or legacy UTC-only pattern';
+
+-- Backfill legacy UTC-only patterns
+-- Patterns were converted to UTC through the January 2024 reference week
+-- (see convertPatternToUTC), so converting back through the same week recovers
+-- the wall-clock times the user originally entered.
+-- Rows left NULL keep working: they fall back to the stored UTC dayOfWeek.
+WITH converted AS (
+  SELECT
+    id,
+    ((DATE '2024-01-07' + "dayOfWeek") + "startTime"::time)
+      AT TIME ZONE 'UTC' AT TIME ZONE "originalTimezone" AS local_start,
+    ((DATE '2024-01-07' + "dayOfWeek"
+        + CASE
+            WHEN COALESCE("crossesMidnight", "endTime" <= "startTime" AND "endTime" <> "startTime")
+            THEN 1 ELSE 0
+          END) + "endTime"::time)
+      AT TIME ZONE 'UTC' AT TIME ZONE "originalTimezone" AS local_end
+  FROM availability_rules
+  WHERE "ruleType" IN ('available_pattern', 'blocked_pattern')
+    AND "dayOfWeek" IS NOT NULL
+    AND "originalStartTime" IS NULL
+)
+UPDATE availability_rules r
+SET
+  "originalDayOfWeek" = EXTRACT(DOW FROM c.local_start)::int,
+  "originalStartTime" = to_char(c.local_start, 'HH24:MI'),
+  "originalEndTime" = CASE
+    WHEN c.local_end::date > c.local_start::date AND c.local_end::time = TIME '00:00'
+    THEN '24:00'
+    ELSE to_char(c.local_end, 'HH24:MI')
+  END
+FROM converted c
+WHERE r.id = c.id;
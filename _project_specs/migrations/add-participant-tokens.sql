@@ -0,0 +1,6 @@
+-- Migration: Add participant edit tokens
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Existing players keep a NULL hash until they rejoin by name (which claims them)
+
+ALTER TABLE participants
+ADD COLUMN IF NOT EXISTS "editTokenHash" TEXT;
@@ -0,0 +1,10 @@
+-- Migration: Add waitlistedAt column to participants
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Players who join once maxPlayers is reached wait for a seat. They can still
+-- enter availability but don't count in the heatmap until promoted.
+
+ALTER TABLE participants
+ADD COLUMN IF NOT EXISTS "waitlistedAt" TIMESTAMP(3) DEFAULT NULL;
+
+COMMENT ON COLUMN participants."waitlistedAt" IS
+'When the player joined the waitlist. NULL = seated. Open seats go to the oldest first';
@@ -0,0 +1,14 @@
+-- Migration: Add validFrom / validUntil columns to availability_rules
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Patterns can be limited to a date range ("Tuesdays until March 1st",
+-- "weekends starting next month"). Existing patterns stay unbounded.
+
+ALTER TABLE availability_rules
+ADD COLUMN IF NOT EXISTS "validFrom" DATE DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS "validUntil" DATE DEFAULT NULL;
+
+COMMENT ON COLUMN availability_rules."validFrom" IS
+'First date (in originalTimezone) a pattern applies, inclusive. NULL = no start bound';
+
+COMMENT ON COLUMN availability_rules."validUntil" IS
+'Last date (in originalTimezone) a pattern applies, inclusive. NULL = no end bound';
@@ -0,0 +1,18 @@
+-- Migration: Add recurrence columns to availability_rules
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Patterns can repeat every N weeks ("every other Saturday") or on the nth
+-- weekday of the month ("first and third Friday"). Existing patterns stay weekly.
+
+ALTER TABLE availability_rules
+ADD COLUMN IF NOT EXISTS "weekInterval" INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS "anchorDate" DATE DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS "weeksOfMonth" INTEGER[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN availability_rules."weekInterval" IS
+'Repeat a pattern every N weeks, counting from the week containing anchorDate. NULL or 1 = weekly';
+
+COMMENT ON COLUMN availability_rules."anchorDate" IS
+'A date (in originalTimezone) in a week where an every-N-weeks pattern applies';
+
+COMMENT ON COLUMN availability_rules."weeksOfMonth" IS
+'Apply a pattern only on the nth weekday of the month (1-5, -1 = last). Empty = every week';
@@ -0,0 +1,40 @@
+-- Migration: Add player profiles with a home schedule
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- A profile owns weekly pattern rules that every linked participant inherits,
+-- with each campaign's own rules layered on top
+
+CREATE TABLE IF NOT EXISTS player_profiles (
+  id TEXT PRIMARY KEY,
+  "displayName" TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  "tokenHash" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS home_schedule_rules (
+  id TEXT PRIMARY KEY,
+  "profileId" TEXT NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+  "ruleType" "AvailabilityRuleType" NOT NULL,
+  "dayOfWeek" INTEGER NOT NULL,
+  "startTime" TEXT NOT NULL,
+  "endTime" TEXT NOT NULL,
+  "originalTimezone" TEXT NOT NULL,
+  "originalDayOfWeek" INTEGER,
+  "originalStartTime" TEXT,
+  "originalEndTime" TEXT,
+  "crossesMidnight" BOOLEAN,
+  preference "AvailabilityPreference" NOT NULL DEFAULT 'preferred',
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "home_schedule_rules_profileId_idx"
+  ON home_schedule_rules("profileId");
+
+ALTER TABLE participants
+ADD COLUMN IF NOT EXISTS "profileId" TEXT REFERENCES player_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "participants_profileId_idx" ON participants("profileId");
+
+COMMENT ON COLUMN participants."profileId" IS
+'Player profile whose home schedule this participant inherits. NULL = campaign rules only';
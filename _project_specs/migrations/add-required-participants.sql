@@ -0,0 +1,10 @@
+-- Migration: Add isRequired column to participants
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- The GM can mark players the group can't play without (e.g. the character
+-- the current arc centres on). Existing players stay optional.
+
+ALTER TABLE participants
+ADD COLUMN IF NOT EXISTS "isRequired" BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN participants."isRequired" IS
+'Sessions need this player. Slot search and recommendations skip times they can''t make';
@@ -0,0 +1,12 @@
+-- Migration: Add seriesId to sessions
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- A GM can confirm a planned weekly/biweekly/monthly slot as a series of
+-- sessions in one go. The sessions stay independent; seriesId groups them.
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS "seriesId" TEXT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS "sessions_seriesId_idx" ON sessions("seriesId");
+
+COMMENT ON COLUMN sessions."seriesId" IS
+'Shared by sessions confirmed together as a recurring series. NULL = one-off session';
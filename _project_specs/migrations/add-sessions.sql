@@ -0,0 +1,34 @@
+-- Migration: Add sessions and session_attendees tables
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- Sessions record the slot a group actually decided on (proposed/confirmed/cancelled)
+
+DO $$ BEGIN
+  CREATE TYPE "SessionStatus" AS ENUM ('proposed', 'confirmed', 'cancelled');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  "startsAt" TIMESTAMP(3) NOT NULL,
+  "durationMinutes" INTEGER NOT NULL,
+  status "SessionStatus" NOT NULL DEFAULT 'proposed',
+  title TEXT,
+  notes TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "sessions_eventId_startsAt_idx" ON sessions("eventId", "startsAt");
+
+CREATE TABLE IF NOT EXISTS session_attendees (
+  "sessionId" TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  "participantId" TEXT NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  PRIMARY KEY ("sessionId", "participantId")
+);
+
+CREATE INDEX IF NOT EXISTS "session_attendees_participantId_idx" ON session_attendees("participantId");
+
+COMMENT ON COLUMN sessions."startsAt" IS
+'Session start instant in UTC. Duration defaults to the event sessionLengthMinutes';
@@ -0,0 +1,59 @@
+-- Migration: Add webhooks and webhook_deliveries tables
+-- Run this in Vercel Postgres Dashboard "Query" tab
+-- GMs register URLs that receive signed POSTs for campaign events (optionally as Discord embeds)
+
+DO $$ BEGIN
+  CREATE TYPE "WebhookFormat" AS ENUM ('json', 'discord');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "WebhookEventType" AS ENUM ('participant_joined', 'availability_changed', 'session_confirmed', 'quorum_reached');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('pending', 'succeeded', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  format "WebhookFormat" NOT NULL DEFAULT 'json',
+  secret TEXT NOT NULL,
+  "eventTypes" "WebhookEventType"[] NOT NULL DEFAULT ARRAY[]::"WebhookEventType"[],
+  active BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "webhooks_eventId_idx" ON webhooks("eventId");
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  "webhookId" TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  "eventType" "WebhookEventType" NOT NULL,
+  summary TEXT NOT NULL,
+  status "WebhookDeliveryStatus" NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  "responseStatus" INTEGER,
+  error TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "completedAt" TIMESTAMP(3)
+);
+
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_webhookId_createdAt_idx" ON webhook_deliveries("webhookId", "createdAt");
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS "hasQuorumSlot" BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN webhooks."eventTypes" IS
+'Event types this webhook receives. Empty array = all types';
+
+COMMENT ON COLUMN events."hasQuorumSlot" IS
+'Whether any session slot had minPlayers available at the last availability change.
+quorum_reached webhooks fire when this flips from false to true';
@@ -1,20 +1,38 @@
 "use client";
 
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { parseISO, format } from "date-fns";
+import { parseISO, format, clamp, startOfWeek } from "date-fns";
 import { JoinEventForm } from "@/components/participant/JoinEventForm";
 import { VirtualizedAvailabilityGrid } from "@/components/availability/VirtualizedAvailabilityGrid";
+import { WeekNavigator } from "@/components/navigation/WeekNavigator";
+import { HeatmapExportLinks } from "@/components/heatmap/HeatmapExportLinks";
 import { PlayerDetailModal } from "@/components/participant/PlayerDetailModal";
 import { CampaignHeader, HeroInfoCard } from "@/components/campaign/CampaignHeader";
+import { UpcomingSessionCard } from "@/components/campaign/UpcomingSessionCard";
+import { RecommendedSessions } from "@/components/campaign/RecommendedSessions";
+import { SessionSeriesPlanner } from "@/components/campaign/SessionSeriesPlanner";
+import { ApprovalQueue } from "@/components/campaign/ApprovalQueue";
 import { Footer } from "@/components/layout/Footer";
 import { EmptyHeatmap } from "@/components/empty-states/EmptyHeatmap";
 import { FloatingGlassCta, InviteCta } from "@/components/ui/FloatingGlassCta";
 import { ConfirmationModal } from "@/components/ui/ConfirmationModal";
 import { useTimezone } from "@/components/layout/TimezoneProvider";
-import type { MeetingType, CampaignType, Participant, ParticipantWithAvailability } from "@/lib/types";
+import type { MeetingType, CampaignType, Participant, ParticipantWithAvailability, CampaignSession } from "@/lib/types";
+import { resolveHeatmapWindow, type SessionRecommendation, type SessionSeriesPlan } from "@/lib/availability";
 import { convertDateTime } from "@/lib/utils/timezone";
-import { fromZonedTime } from "date-fns-tz";
+import { findUpcomingSession } from "@/lib/utils/sessions";
+import { adminHeaders } from "@/lib/utils/auth-headers";
+import { useCampaignStream } from "@/lib/hooks/useCampaignStream";
+import type { CampaignChange } from "@/lib/realtime/campaign-events";
+import {
+  CLAIM_PARAM,
+  PARTICIPANT_TOKEN_HEADER,
+  clearParticipantToken,
+  parseRecoveryLink,
+  storeParticipantToken,
+} from "@/lib/utils/participant-token";
+import { fromZonedTime, formatInTimeZone } from "date-fns-tz";
 import { parse } from "date-fns";
 
 // Tabs removed - all content now stacked vertically
@@ -38,6 +56,7 @@ interface EventProps {
   customPreSessionInstructions: string | null;
   minPlayers: number | null;
   maxPlayers: number | null;
+  requireApproval: boolean;
   gameSystem: { id: string; name: string; imageBase64: string | null } | null;
   participants: Participant[];
 }
@@ -55,6 +74,8 @@ export function CampaignPage({ event }: CampaignPageProps) {
   const [participantsWithAvailability, setParticipantsWithAvailability] = useState<ParticipantWithAvailability[]>([]);
   const [currentParticipant, setCurrentParticipant] = useState<Participant | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Waitlisted players are left out of the heatmap unless the viewer opts in
+  const [includeWaitlist, setIncludeWaitlist] = useState(false);
   // Effective time bounds from heatmap API (calculated from GM availability)
   const [effectiveTimeBounds, setEffectiveTimeBounds] = useState<{
     earliestTime: string;
@@ -72,12 +93,30 @@ export function CampaignPage({ event }: CampaignPageProps) {
   const [showFullDay, setShowFullDay] = useState(false);
   const [selectedParticipant, setSelectedParticipant] = useState<Participant | null>(null);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
-  const [participants, setParticipants] = useState<Participant[]>(event.participants);
+  const [allParticipants, setAllParticipants] = useState<Participant[]>(event.participants);
+  // Applicants stay out of the party (and the heatmap) until the GM approves them
+  const participants = useMemo(() => allParticipants.filter((p) => !p.pendingApproval), [allParticipants]);
+  const applicants = useMemo(() => allParticipants.filter((p) => p.pendingApproval), [allParticipants]);
   const [showAddPlayer, setShowAddPlayer] = useState(false);
   const [newPlayerName, setNewPlayerName] = useState("");
   const [isAddingPlayer, setIsAddingPlayer] = useState(false);
   const [copiedLink, setCopiedLink] = useState(false);
   const [playerToRemove, setPlayerToRemove] = useState<{ id: string; name: string } | null>(null);
+  const [sessions, setSessions] = useState<CampaignSession[]>([]);
+  // Bumped on live availability changes so recommendations refetch
+  const [availabilityVersion, setAvailabilityVersion] = useState(0);
+  // Slot the GM clicked to lock in as a session (date/time in display timezone)
+  const [slotToLock, setSlotToLock] = useState<{
+    date: string;
+    time: string;
+    sessionEndTime: string;
+    participantIds: string[];
+  } | null>(null);
+  const [isLockingIn, setIsLockingIn] = useState(false);
+  // Recurring slot the GM chose to confirm as a series
+  const [planToConfirm, setPlanToConfirm] = useState<SessionSeriesPlan | null>(null);
+  const [isConfirmingSeries, setIsConfirmingSeries] = useState(false);
+  const [isCancellingSession, setIsCancellingSession] = useState(false);
 
   const eventStartDate = useMemo(() => {
     return event.startDate ? parseISO(event.startDate) : new Date();
@@ -87,6 +126,35 @@ export function CampaignPage({ event }: CampaignPageProps) {
     return event.endDate ? parseISO(event.endDate) : eventStartDate;
   }, [event.endDate, eventStartDate]);
 
+  // The heatmap loads one week at a time; weeks start on Sunday, matching WeekNavigator
+  const [selectedWeek, setSelectedWeek] = useState(() => startOfWeek(eventStartDate, { weekStartsOn: 0 }));
+  const [loadedWeek, setLoadedWeek] = useState<string | null>(null);
+  const firstWeek = startOfWeek(eventStartDate, { weekStartsOn: 0 });
+  const lastWeek = startOfWeek(eventEndDate, { weekStartsOn: 0 });
+  // Kept within the campaign if the GM moves its dates
+  const weekStart = clamp(selectedWeek, { start: firstWeek, end: lastWeek });
+  const week = format(weekStart, "yyyy-MM-dd");
+  const showWeekNavigator = lastWeek > firstWeek;
+  // The grid shows the part of the week inside the campaign, as the API does
+  const heatmapWindow = resolveHeatmapWindow(
+    { startDate: format(eventStartDate, "yyyy-MM-dd"), endDate: format(eventEndDate, "yyyy-MM-dd") },
+    { week }
+  );
+  const gridStartDate = parseISO(heatmapWindow.startDate);
+  const gridEndDate = parseISO(heatmapWindow.endDate);
+
+  // Shared by full loads and single-player refreshes, so both cover the same week
+  const heatmapQuery = useMemo(() => {
+    const params = new URLSearchParams({ week, timezone });
+    if (includeWaitlist) params.set("includeWaitlist", "true");
+    return params.toString();
+  }, [week, timezone, includeWaitlist]);
+  // Responses for a week the viewer has already left are dropped
+  const heatmapQueryRef = useRef(heatmapQuery);
+  useEffect(() => {
+    heatmapQueryRef.current = heatmapQuery;
+  }, [heatmapQuery]);
+
   // Hovered slot info for the hover panel - enhanced for session-length awareness
   const [hoveredSlotInfo, setHoveredSlotInfo] = useState<{
     date: string;
@@ -104,14 +172,45 @@ export function CampaignPage({ event }: CampaignPageProps) {
   useEffect(() => {
     const storedId = localStorage.getItem(`participant_${event.id}`);
     if (storedId) {
-      const found = participants.find((p) => p.id === storedId);
+      const found = allParticipants.find((p) => p.id === storedId);
       if (found) {
         setCurrentParticipant(found);
         // Sync isGm status to localStorage (for navbar to read)
         localStorage.setItem(`participant_${event.id}_isGm`, found.isGm ? "true" : "false");
       }
     }
-  }, [event.id, participants]);
+  }, [event.id, allParticipants]);
+
+  // Claim a player from a recovery link (?claim=<participantId>.<token>)
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(CLAIM_PARAM)) return;
+
+    const claim = parseRecoveryLink(url.href);
+    url.searchParams.delete(CLAIM_PARAM);
+    window.history.replaceState(null, "", url.pathname + url.search + url.hash);
+
+    const claimed = claim && allParticipants.find((p) => p.id === claim.participantId);
+    if (!claim || !claimed) {
+      alert("This recovery link is not valid for this campaign");
+      return;
+    }
+
+    fetch(`/api/participants/${claim.participantId}/token`, {
+      headers: { [PARTICIPANT_TOKEN_HEADER]: claim.token },
+    })
+      .then((res) => {
+        if (!res.ok) {
+          alert("This recovery link has expired. Ask your GM for a new one.");
+          return;
+        }
+        storeParticipantToken(claimed.id, claim.token);
+        localStorage.setItem(`participant_${event.id}`, claimed.id);
+        localStorage.setItem(`participant_${event.id}_isGm`, claimed.isGm ? "true" : "false");
+        setCurrentParticipant(claimed);
+      })
+      .catch((error) => console.error("Failed to verify recovery link:", error));
+  }, [event.id, allParticipants]);
 
   // Handle opening player profile modal
   const handleOpenProfile = useCallback((participant: Participant) => {
@@ -127,13 +226,14 @@ export function CampaignPage({ event }: CampaignPageProps) {
     try {
       const res = await fetch(`/api/events/${event.slug}/participants`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ displayName: newPlayerName.trim() }),
+        headers: { "Content-Type": "application/json", ...adminHeaders(event.id) },
+        // Added on the player's behalf - they claim it when they join with this name
+        body: JSON.stringify({ displayName: newPlayerName.trim(), unclaimed: true }),
       });
 
       if (res.ok) {
         const newParticipant = await res.json();
-        setParticipants((prev) => [...prev, {
+        setAllParticipants((prev) => [...prev, {
           ...newParticipant,
           characterName: null,
           characterClass: null,
@@ -149,7 +249,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
     } finally {
       setIsAddingPlayer(false);
     }
-  }, [newPlayerName, event.slug]);
+  }, [newPlayerName, event.slug, event.id]);
 
   // Handle removing a player - show confirmation modal
   const handleRemovePlayer = useCallback((participantId: string, displayName: string) => {
@@ -163,10 +263,11 @@ export function CampaignPage({ event }: CampaignPageProps) {
     try {
       const res = await fetch(`/api/participants/${playerToRemove.id}`, {
         method: "DELETE",
+        headers: adminHeaders(event.id),
       });
 
       if (res.ok) {
-        setParticipants((prev) => prev.filter(p => p.id !== playerToRemove.id));
+        setAllParticipants((prev) => prev.filter(p => p.id !== playerToRemove.id));
         setParticipantsWithAvailability((prev) => prev.filter(p => p.id !== playerToRemove.id));
         // Close profile modal if the removed player was being viewed
         if (selectedParticipant?.id === playerToRemove.id) {
@@ -178,6 +279,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
           setCurrentParticipant(null);
           localStorage.removeItem(`participant_${event.id}`);
         }
+        clearParticipantToken(playerToRemove.id);
       } else {
         const data = await res.json();
         alert(data.error || "Failed to remove player");
@@ -193,10 +295,12 @@ export function CampaignPage({ event }: CampaignPageProps) {
   // Load heatmap data
   const loadHeatmapData = useCallback(async () => {
     try {
-      const res = await fetch(`/api/events/${event.slug}/heatmap`);
+      const res = await fetch(`/api/events/${event.slug}/heatmap?${heatmapQuery}`);
       if (res.ok) {
         const data = await res.json();
+        if (heatmapQueryRef.current !== heatmapQuery) return;
         setParticipantsWithAvailability(data.participants);
+        setLoadedWeek(week);
         // Use effective time bounds from heatmap API (calculated from GM availability)
         if (data.event) {
           setEffectiveTimeBounds({
@@ -215,6 +319,19 @@ export function CampaignPage({ event }: CampaignPageProps) {
     } finally {
       setIsLoading(false);
     }
+  }, [event.slug, heatmapQuery, week]);
+
+  // Load upcoming sessions
+  const loadSessions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${event.slug}/sessions?upcoming=true`);
+      if (res.ok) {
+        const data = await res.json();
+        setSessions(data.sessions);
+      }
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+    }
   }, [event.slug]);
 
   // Initial load
@@ -222,6 +339,122 @@ export function CampaignPage({ event }: CampaignPageProps) {
     loadHeatmapData();
   }, [loadHeatmapData]);
 
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const upcomingSession = useMemo(() => findUpcomingSession(sessions), [sessions]);
+
+  // GM clicked a heatmap slot - confirm before locking it in
+  const handleSelectSlot = useCallback((date: string, time: string) => {
+    const coverage = calculateSessionCoverage(
+      time,
+      date,
+      event.sessionLengthMinutes,
+      participantsWithAvailability,
+      timezone
+    );
+    setSlotToLock({
+      date,
+      time,
+      sessionEndTime: addMinutes(time, event.sessionLengthMinutes),
+      participantIds: coverage.fullyAvailable.map(p => p.id),
+    });
+  }, [event.sessionLengthMinutes, participantsWithAvailability, timezone]);
+
+  // Lock in a recommended session (shown in the display timezone)
+  const handleSelectRecommendation = useCallback((rec: SessionRecommendation) => {
+    const start = new Date(rec.startsAt);
+    const time = formatInTimeZone(start, timezone, "HH:mm");
+    setSlotToLock({
+      date: formatInTimeZone(start, timezone, "yyyy-MM-dd"),
+      time,
+      sessionEndTime: addMinutes(time, event.sessionLengthMinutes),
+      participantIds: rec.attendeeIds,
+    });
+  }, [event.sessionLengthMinutes, timezone]);
+
+  // Create a confirmed session for the selected slot
+  const executeLockIn = useCallback(async () => {
+    if (!slotToLock) return;
+
+    setIsLockingIn(true);
+    try {
+      const startsAt = fromZonedTime(`${slotToLock.date}T${slotToLock.time}:00`, timezone);
+      const res = await fetch(`/api/events/${event.slug}/sessions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...adminHeaders(event.id) },
+        body: JSON.stringify({
+          startsAt: startsAt.toISOString(),
+          status: "confirmed",
+          participantIds: slotToLock.participantIds,
+        }),
+      });
+
+      if (res.ok) {
+        await loadSessions();
+      } else {
+        const data = await res.json();
+        alert(data.error || "Failed to lock in session");
+      }
+    } catch (error) {
+      console.error("Failed to lock in session:", error);
+      alert("Failed to lock in session");
+    } finally {
+      setIsLockingIn(false);
+      setSlotToLock(null);
+    }
+  }, [slotToLock, timezone, event.id, event.slug, loadSessions]);
+
+  // Create a confirmed session for every playable date in the chosen series
+  const executeConfirmSeries = useCallback(async () => {
+    if (!planToConfirm) return;
+
+    setIsConfirmingSeries(true);
+    try {
+      const res = await fetch(`/api/events/${event.slug}/sessions/series`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...adminHeaders(event.id) },
+        body: JSON.stringify({
+          sessions: planToConfirm.occurrences
+            .filter((o) => o.playable)
+            .map((o) => ({ startsAt: o.startsAt, participantIds: o.attendeeIds })),
+        }),
+      });
+
+      if (res.ok) {
+        await loadSessions();
+      } else {
+        const data = await res.json();
+        alert(data.error || "Failed to confirm series");
+      }
+    } catch (error) {
+      console.error("Failed to confirm series:", error);
+      alert("Failed to confirm series");
+    } finally {
+      setIsConfirmingSeries(false);
+      setPlanToConfirm(null);
+    }
+  }, [planToConfirm, event.id, event.slug, loadSessions]);
+
+  const handleCancelSession = useCallback(async (sessionId: string) => {
+    setIsCancellingSession(true);
+    try {
+      const res = await fetch(`/api/events/${event.slug}/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...adminHeaders(event.id) },
+        body: JSON.stringify({ status: "cancelled" }),
+      });
+      if (res.ok) {
+        await loadSessions();
+      }
+    } catch (error) {
+      console.error("Failed to cancel session:", error);
+    } finally {
+      setIsCancellingSession(false);
+    }
+  }, [event.id, event.slug, loadSessions]);
+
   // Refetch when page becomes visible (handles navigation back)
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -244,11 +477,78 @@ export function CampaignPage({ event }: CampaignPageProps) {
     };
   }, [loadHeatmapData]);
 
-  const handleJoined = (participant: { id: string; displayName: string; isGm: boolean }) => {
+  // Refetch a single player's heatmap row (or drop it if they're gone)
+  const refreshParticipantAvailability = useCallback(async (participantId: string) => {
+    try {
+      const res = await fetch(`/api/events/${event.slug}/heatmap?${heatmapQuery}&participantId=${participantId}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      if (heatmapQueryRef.current !== heatmapQuery) return;
+      const updated: ParticipantWithAvailability | undefined = data.participants[0];
+      setParticipantsWithAvailability((prev) => {
+        if (!updated) return prev.filter((p) => p.id !== participantId);
+        return prev.some((p) => p.id === participantId)
+          ? prev.map((p) => (p.id === participantId ? updated : p))
+          : [...prev, updated];
+      });
+    } catch (error) {
+      console.error("Failed to refresh player availability:", error);
+    }
+  }, [event.slug, heatmapQuery]);
+
+  const refreshParticipants = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${event.slug}/participants`);
+      if (res.ok) {
+        setAllParticipants(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to refresh players:", error);
+    }
+  }, [event.slug]);
+
+  // Live updates from other players and the GM
+  const handleCampaignChange = useCallback((change: CampaignChange) => {
+    switch (change.type) {
+      case "rules_updated":
+        // The GM's availability also sets the heatmap's time bounds
+        if (participants.some((p) => p.isGm && p.id === change.participantId)) {
+          loadHeatmapData();
+        } else {
+          refreshParticipantAvailability(change.participantId);
+        }
+        setAvailabilityVersion((v) => v + 1);
+        break;
+      case "participant_joined":
+      case "participant_updated":
+        refreshParticipants();
+        refreshParticipantAvailability(change.participantId);
+        break;
+      case "participant_removed":
+        setAllParticipants((prev) => prev.filter((p) => p.id !== change.participantId));
+        setParticipantsWithAvailability((prev) => prev.filter((p) => p.id !== change.participantId));
+        setAvailabilityVersion((v) => v + 1);
+        break;
+      case "campaign_updated":
+        // Settings arrive as server props; dates and time window reshape the heatmap
+        router.refresh();
+        loadHeatmapData();
+        setAvailabilityVersion((v) => v + 1);
+        break;
+    }
+  }, [participants, loadHeatmapData, refreshParticipantAvailability, refreshParticipants, router]);
+
+  useCampaignStream(event.slug, handleCampaignChange);
+
+  const handleJoined = (participant: { id: string; displayName: string; isGm: boolean; editToken?: string }) => {
+    if (participant.editToken) {
+      storeParticipantToken(participant.id, participant.editToken);
+    }
     localStorage.setItem(`participant_${event.id}`, participant.id);
     localStorage.setItem(`participant_${event.id}_isGm`, participant.isGm ? "true" : "false");
     // Use "gm" for GM participants, otherwise use participant ID
-    const participantPath = participant.isGm ? "gm" : participant.id;
+    // Only the primary GM lives at /gm; co-GMs join as players and keep their own page
+    const participantPath = participant.isGm && !gmParticipant ? "gm" : participant.id;
     router.push(`/${event.slug}/${participantPath}`);
   };
 
@@ -277,24 +577,26 @@ export function CampaignPage({ event }: CampaignPageProps) {
   };
 
   const meetingInfo = getMeetingInfo();
-  const gmParticipant = participants.find(p => p.isGm);
+  const gmParticipants = useMemo(() => participants.filter(p => p.isGm), [participants]);
+  const gmParticipantIds = useMemo(() => gmParticipants.map(p => p.id), [gmParticipants]);
+  const gmParticipant = gmParticipants.find(p => p.gmRole === "primary") ?? gmParticipants[0];
+  const requiredParticipantIds = useMemo(
+    () => participants.filter(p => p.isRequired && !p.isGm).map(p => p.id),
+    [participants]
+  );
   const hasGm = !!gmParticipant;
   const playerCount = participants.filter(p => !p.isGm).length;
   const isAtCapacity = event.maxPlayers !== null && playerCount >= event.maxPlayers;
 
-  // Check if GM has set availability
-  const gmHasAvailability = useMemo(() => {
-    if (!gmParticipant) return false;
-    const gmWithAvailability = participantsWithAvailability.find(p => p.id === gmParticipant.id);
-    return gmWithAvailability && gmWithAvailability.availability.length > 0;
-  }, [gmParticipant, participantsWithAvailability]);
-
-  // Extract GM availability slots for visual indication on heatmap
+  // Extract availability slots of every GM for visual indication on heatmap
   const gmAvailabilitySlots = useMemo(() => {
-    if (!gmParticipant) return [];
-    const gmWithAvailability = participantsWithAvailability.find(p => p.id === gmParticipant.id);
-    return gmWithAvailability?.availability || [];
-  }, [gmParticipant, participantsWithAvailability]);
+    return participantsWithAvailability
+      .filter(p => gmParticipantIds.includes(p.id))
+      .flatMap(p => p.availability);
+  }, [gmParticipantIds, participantsWithAvailability]);
+
+  // Check if any GM has set availability
+  const gmHasAvailability = gmAvailabilitySlots.length > 0;
 
   const formatDateRange = () => {
     if (!event.startDate || !event.endDate) return null;
@@ -348,6 +650,59 @@ export function CampaignPage({ event }: CampaignPageProps) {
 
       {/* Main Content - Centered single column, all sections stacked */}
       <div className="mx-auto max-w-5xl px-4 py-6 space-y-4">
+        {/* Upcoming session */}
+        {upcomingSession && (
+          <UpcomingSessionCard
+            session={upcomingSession}
+            participants={participants}
+            timezone={timezone}
+            calendarUrl={
+              currentParticipant
+                ? `/api/participants/${currentParticipant.id}/calendar.ics`
+                : `/api/events/${event.slug}/calendar.ics`
+            }
+            onCancel={currentParticipant?.isGm ? () => handleCancelSession(upcomingSession.id) : undefined}
+            isCancelling={isCancellingSession}
+          />
+        )}
+
+        {/* Best session options (GM only) */}
+        {currentParticipant?.isGm && (
+          <RecommendedSessions
+            slug={event.slug}
+            timezone={timezone}
+            participants={participants}
+            onSelect={handleSelectRecommendation}
+            refreshKey={`${sessions.length}-${availabilityVersion}`}
+          />
+        )}
+
+        {/* Approval queue (GM only) */}
+        {currentParticipant?.isGm && (
+          <ApprovalQueue
+            eventId={event.id}
+            applicants={applicants}
+            onResolved={(participantId, approved) =>
+              setAllParticipants((prev) =>
+                approved
+                  ? prev.map((p) => (p.id === participantId ? { ...p, pendingApproval: false } : p))
+                  : prev.filter((p) => p.id !== participantId)
+              )
+            }
+          />
+        )}
+
+        {/* Recurring slot planner (GM only, ongoing campaigns) */}
+        {currentParticipant?.isGm && event.campaignType === "CAMPAIGN" && (
+          <SessionSeriesPlanner
+            slug={event.slug}
+            timezone={timezone}
+            participants={participants}
+            onSelect={setPlanToConfirm}
+            refreshKey={`${sessions.length}-${availabilityVersion}`}
+          />
+        )}
+
         {/* Meeting location info (if applicable) */}
         {meetingInfo && (meetingInfo.location || meetingInfo.room) && (
           <div className="flex items-center gap-3 rounded-lg bg-zinc-100 dark:bg-zinc-800/50 px-4 py-3">
@@ -401,7 +756,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
                 </h2>
                 {!isLoading && gmHasAvailability && gmAvailability && gmAvailability.earliestTime && gmAvailability.latestTime && (
                   <p className="text-xs text-zinc-500 dark:text-zinc-400">
-                    {gmParticipant?.displayName} (GM) is available {(() => {
+                    {gmParticipants.map(p => p.displayName).join(", ")} ({gmParticipants.length > 1 ? "GMs" : "GM"}) {gmParticipants.length > 1 ? "are" : "is"} available {(() => {
                       const refDate = format(eventStartDate, "yyyy-MM-dd");
                       const localEarliest = gmAvailability.timezone !== timezone
                         ? convertDateTime(gmAvailability.earliestTime, refDate, gmAvailability.timezone, timezone).time
@@ -415,22 +770,28 @@ export function CampaignPage({ event }: CampaignPageProps) {
                 )}
               </div>
             </div>
-            {/* Show Full Day toggle */}
-            {!isLoading && gmHasAvailability && (
-              <label className="flex cursor-pointer items-center gap-2">
-                <span className="text-xs text-zinc-500 dark:text-zinc-400">Full day</span>
-                <div className="relative">
-                  <input
-                    type="checkbox"
-                    checked={showFullDay}
-                    onChange={(e) => setShowFullDay(e.target.checked)}
-                    className="peer sr-only"
-                  />
-                  <div className="h-5 w-9 rounded-full bg-zinc-200 transition-colors peer-checked:bg-blue-500 peer-focus:ring-2 peer-focus:ring-blue-500/20 dark:bg-zinc-700 dark:peer-checked:bg-blue-600" />
-                  <div className="absolute left-0.5 top-0.5 h-4 w-4 rounded-full bg-white shadow transition-transform peer-checked:translate-x-4" />
-                </div>
-              </label>
-            )}
+            <div className="flex items-center gap-4">
+              {/* Availability download, in the timezone shown */}
+              {!isLoading && participantsWithAvailability.length > 0 && (
+                <HeatmapExportLinks eventSlug={event.slug} timezone={timezone} includeWaitlist={includeWaitlist} />
+              )}
+              {/* Show Full Day toggle */}
+              {!isLoading && gmHasAvailability && (
+                <label className="flex cursor-pointer items-center gap-2">
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">Full day</span>
+                  <div className="relative">
+                    <input
+                      type="checkbox"
+                      checked={showFullDay}
+                      onChange={(e) => setShowFullDay(e.target.checked)}
+                      className="peer sr-only"
+                    />
+                    <div className="h-5 w-9 rounded-full bg-zinc-200 transition-colors peer-checked:bg-blue-500 peer-focus:ring-2 peer-focus:ring-blue-500/20 dark:bg-zinc-700 dark:peer-checked:bg-blue-600" />
+                    <div className="absolute left-0.5 top-0.5 h-4 w-4 rounded-full bg-white shadow transition-transform peer-checked:translate-x-4" />
+                  </div>
+                </label>
+              )}
+            </div>
           </div>
           {isLoading ? (
             <div className="p-4">
@@ -444,10 +805,21 @@ export function CampaignPage({ event }: CampaignPageProps) {
             <div className="flex gap-0 pb-2">
               {/* Heatmap grid - no padding */}
               <div className="flex-1 min-w-0">
+                {showWeekNavigator && (
+                  <div className="px-3 pt-3">
+                    <WeekNavigator
+                      currentWeekStart={weekStart}
+                      eventStartDate={eventStartDate}
+                      eventEndDate={eventEndDate}
+                      onWeekChange={setSelectedWeek}
+                      isLoading={loadedWeek !== week}
+                    />
+                  </div>
+                )}
                 <VirtualizedAvailabilityGrid
                   key={`heatmap-${timezone}-${showFullDay}-${effectiveTimeBounds?.earliestTime}-${effectiveTimeBounds?.latestTime}`}
-                  startDate={eventStartDate}
-                  endDate={eventEndDate}
+                  startDate={gridStartDate}
+                  endDate={gridEndDate}
                   earliestTime={showFullDay ? "00:00" : (effectiveTimeBounds?.earliestTime || event.earliestTime)}
                   latestTime={showFullDay ? "24:00" : (effectiveTimeBounds?.latestTime || event.latestTime)}
                   timeWindowTimezone={effectiveTimeBounds?.timezone || event.timezone}
@@ -458,7 +830,8 @@ export function CampaignPage({ event }: CampaignPageProps) {
                     availability: p.availability,
                   }))}
                   gmAvailability={gmAvailabilitySlots}
-                  gmParticipantId={gmParticipant?.id}
+                  gmParticipantIds={gmParticipantIds}
+                  requiredParticipantIds={requiredParticipantIds}
                   onHoverSlot={(date, time) => {
                     // Calculate session coverage for all participants
                     // Note: date and time are in user's display timezone, availability is in UTC
@@ -480,6 +853,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
                     });
                   }}
                   onLeaveSlot={() => setHoveredSlotInfo(null)}
+                  onSelectSlot={currentParticipant?.isGm ? handleSelectSlot : undefined}
                   timezone={timezone}
                 />
               </div>
@@ -494,10 +868,21 @@ export function CampaignPage({ event }: CampaignPageProps) {
                       </span>
                       <span className="text-xs text-zinc-400 dark:text-zinc-500">
                         {hoveredSlotInfo
-                          ? `${hoveredSlotInfo.fullyAvailable.length}/${participants.length}`
+                          ? `${hoveredSlotInfo.fullyAvailable.length}/${participantsWithAvailability.length}`
                           : participants.length}
                       </span>
                     </div>
+                    {participants.some((p) => p.waitlistedAt) && (
+                      <label className="mt-1 flex items-center gap-1.5 text-xs text-zinc-500 dark:text-zinc-400">
+                        <input
+                          type="checkbox"
+                          checked={includeWaitlist}
+                          onChange={(e) => setIncludeWaitlist(e.target.checked)}
+                          className="h-3 w-3 rounded border-zinc-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+                        />
+                        Include waitlist
+                      </label>
+                    )}
                     {/* Show session time range when hovering */}
                     {hoveredSlotInfo && (
                       <div className="mt-1 flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400">
@@ -519,8 +904,14 @@ export function CampaignPage({ event }: CampaignPageProps) {
                       const isPartiallyAvailable = !!partialInfo;
 
                       // Determine subtitle text: character name, "No character yet", or partial availability warning
-                      let subtitleText = p.characterName || (p.isGm ? null : "No character yet");
+                      let subtitleText = p.characterName || (p.isGm ? (p.gmRole === "co_gm" ? "Co-GM" : null) : "No character yet");
                       let subtitleStyle = "text-zinc-400 dark:text-zinc-500 italic";
+                      const isWaitlisted = !p.isGm && !!p.waitlistedAt;
+
+                      if (isWaitlisted) {
+                        subtitleText = "Waitlist";
+                        subtitleStyle = "text-amber-600 dark:text-amber-400";
+                      }
 
                       if (isHovering && isPartiallyAvailable && partialInfo) {
                         // Show partial availability warning instead
@@ -544,7 +935,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
                                 : isPartiallyAvailable
                                   ? "bg-amber-50 ring-1 ring-amber-200 dark:bg-amber-900/20 dark:ring-amber-800"
                                   : "opacity-40"
-                              : "hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                              : `hover:bg-zinc-100 dark:hover:bg-zinc-800 ${isWaitlisted && !includeWaitlist ? "opacity-60" : ""}`
                           }`}
                         >
                           {/* Avatar */}
@@ -565,7 +956,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
                               </div>
                             )}
                             {p.isGm && (
-                              <div className="absolute -bottom-0.5 -right-0.5 flex h-3.5 w-3.5 items-center justify-center rounded-full bg-purple-600 ring-1 ring-white dark:ring-zinc-900">
+                              <div title={p.gmRole === "co_gm" ? "Co-GM" : "GM"} className="absolute -bottom-0.5 -right-0.5 flex h-3.5 w-3.5 items-center justify-center rounded-full bg-purple-600 ring-1 ring-white dark:ring-zinc-900">
                                 <svg className="h-2 w-2 text-white" fill="currentColor" viewBox="0 0 20 20">
                                   <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                                 </svg>
@@ -590,6 +981,9 @@ export function CampaignPage({ event }: CampaignPageProps) {
                                   : "text-zinc-700 dark:text-zinc-300"
                             }`}>
                               {p.displayName}
+                              {!p.isGm && p.isRequired && (
+                                <span className="ml-1 text-red-500" title="Required">*</span>
+                              )}
                             </p>
                             {/* Subtitle: always reserve space for consistent height */}
                             <p className={`truncate text-xs leading-tight h-4 ${subtitleStyle}`}>
@@ -664,7 +1058,9 @@ export function CampaignPage({ event }: CampaignPageProps) {
                   {/* Hover hint when no slot selected */}
                   {!hoveredSlotInfo && participants.length > 0 && (
                     <p className="mt-3 text-center text-[10px] text-zinc-400 dark:text-zinc-500">
-                      Hover a time slot to see availability
+                      {currentParticipant?.isGm
+                        ? "Hover a time slot to see availability, click to lock it in"
+                        : "Hover a time slot to see availability"}
                     </p>
                   )}
                 </div>
@@ -694,7 +1090,9 @@ export function CampaignPage({ event }: CampaignPageProps) {
                   <p className="text-sm text-zinc-600 dark:text-zinc-400 truncate">
                     {isAtCapacity
                       ? `Campaign at capacity (${playerCount}/${event.maxPlayers})`
-                      : "Set your availability and join this campaign"}
+                      : event.requireApproval
+                        ? "Apply to join - the GM approves new players"
+                        : "Set your availability and join this campaign"}
                   </p>
                 </div>
               </div>
@@ -703,6 +1101,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
                   eventSlug={event.slug}
                   onJoined={handleJoined}
                   hasGm={hasGm}
+                  requireApproval={event.requireApproval}
                   compact
                 />
               </div>
@@ -733,9 +1132,13 @@ export function CampaignPage({ event }: CampaignPageProps) {
               <div className="min-w-0">
                 <p className="font-medium text-zinc-900 dark:text-white text-sm">
                   Joined as {currentParticipant.displayName}
-                  {currentParticipant.isGm && " (GM)"}
+                  {currentParticipant.isGm && (currentParticipant.gmRole === "co_gm" ? " (Co-GM)" : " (GM)")}
+                </p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                  {currentParticipant.pendingApproval
+                    ? "Waiting for the GM to approve you"
+                    : "You're part of this campaign"}
                 </p>
-                <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate">You&apos;re part of this campaign</p>
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -755,7 +1158,7 @@ export function CampaignPage({ event }: CampaignPageProps) {
                 {copiedLink ? "Copied!" : "Share"}
               </button>
               <a
-                href={currentParticipant.isGm ? `/${event.slug}/gm` : `/${event.slug}/${currentParticipant.id}`}
+                href={currentParticipant.gmRole === "primary" ? `/${event.slug}/gm` : `/${event.slug}/${currentParticipant.id}`}
                 className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 shadow-md shadow-blue-500/25 transition-all"
               >
                 Edit Availability
@@ -779,8 +1182,26 @@ export function CampaignPage({ event }: CampaignPageProps) {
             setIsProfileModalOpen(false);
             setSelectedParticipant(null);
           }}
+          eventId={event.id}
           eventSlug={event.slug}
           isCurrentUser={currentParticipant?.id === selectedParticipant.id}
+          canManage={currentParticipant?.isGm}
+          onRequiredChange={(isRequired) => {
+            setAllParticipants((prev) => prev.map((p) => (p.id === selectedParticipant.id ? { ...p, isRequired } : p)));
+            setAvailabilityVersion((v) => v + 1);
+          }}
+          onGmRoleChange={(gmRole) => {
+            setAllParticipants((prev) => prev.map((p) => {
+              if (p.id === selectedParticipant.id) {
+                return gmRole
+                  ? { ...p, gmRole, isGm: true, isRequired: false, waitlistedAt: null }
+                  : { ...p, gmRole, isGm: false };
+              }
+              // Handing over the primary role demotes the previous primary GM
+              return gmRole === "primary" && p.gmRole === "primary" ? { ...p, gmRole: "co_gm" } : p;
+            }));
+            setAvailabilityVersion((v) => v + 1);
+          }}
         />
       )}
 
@@ -794,6 +1215,34 @@ export function CampaignPage({ event }: CampaignPageProps) {
         confirmLabel="Remove"
         variant="danger"
       />
+
+      {/* Lock In Session Confirmation Modal */}
+      <ConfirmationModal
+        isOpen={!!slotToLock}
+        onClose={() => setSlotToLock(null)}
+        onConfirm={executeLockIn}
+        title="Lock In Session"
+        message={slotToLock
+          ? `Confirm a session on ${format(parseISO(slotToLock.date), "EEEE, MMMM d")} from ${formatTime(slotToLock.time)} to ${formatTime(slotToLock.sessionEndTime)}? ${slotToLock.participantIds.length} of ${participants.length} can make the full session.`
+          : ""}
+        confirmLabel="Lock In"
+        variant="primary"
+        loading={isLockingIn}
+      />
+
+      {/* Confirm Series Modal */}
+      <ConfirmationModal
+        isOpen={!!planToConfirm}
+        onClose={() => setPlanToConfirm(null)}
+        onConfirm={executeConfirmSeries}
+        title="Confirm Series"
+        message={planToConfirm
+          ? `Confirm ${planToConfirm.playableCount} sessions, ${formatInTimeZone(new Date(planToConfirm.occurrences[0].startsAt), timezone, "EEEE")}s at ${formatInTimeZone(new Date(planToConfirm.occurrences[0].startsAt), timezone, "h:mm a")}? Dates without enough players are skipped.`
+          : ""}
+        confirmLabel="Confirm Series"
+        variant="primary"
+        loading={isConfirmingSeries}
+      />
     </div>
   );
 }
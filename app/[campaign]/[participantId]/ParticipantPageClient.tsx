@@ -1,8 +1,11 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import Link from "next/link";
 import { AvailabilityEditor } from "@/components/availability/AvailabilityEditor";
+import { HomeScheduleCard } from "@/components/participant/HomeScheduleCard";
+import { applyHomeSchedule, type HomeScheduleRule } from "@/lib/availability";
+import { participantHeaders } from "@/lib/utils/auth-headers";
 
 interface EventData {
   id: string;
@@ -20,6 +23,7 @@ interface ParticipantData {
   displayName: string;
   isGm: boolean;
   timezone: string;
+  profileId: string | null;
 }
 
 interface ParticipantPageClientProps {
@@ -27,6 +31,7 @@ interface ParticipantPageClientProps {
   participant: ParticipantData;
   campaignSlug: string;
   gmAvailability?: { date: string; startTime: string; endTime: string }[];
+  homeRules?: HomeScheduleRule[];
 }
 
 export function ParticipantPageClient({
@@ -34,8 +39,12 @@ export function ParticipantPageClient({
   participant: initialParticipant,
   campaignSlug,
   gmAvailability = [],
+  homeRules: initialHomeRules = [],
 }: ParticipantPageClientProps) {
   const [participant, setParticipant] = useState(initialParticipant);
+  const [homeRules, setHomeRules] = useState(initialHomeRules);
+  // Remounts the editor so it reloads rules after the home schedule link changes
+  const [editorKey, setEditorKey] = useState(0);
   const [isEditingName, setIsEditingName] = useState(false);
   const [editName, setEditName] = useState(participant.displayName);
   const [isSavingName, setIsSavingName] = useState(false);
@@ -58,7 +67,7 @@ export function ParticipantPageClient({
     try {
       const response = await fetch(`/api/participants/${participant.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...participantHeaders(participant.id, event.id) },
         body: JSON.stringify({ displayName: trimmedName }),
       });
 
@@ -75,7 +84,18 @@ export function ParticipantPageClient({
     } finally {
       setIsSavingName(false);
     }
-  }, [editName, participant.displayName, participant.id]);
+  }, [editName, participant.displayName, participant.id, event.id]);
+
+  const inheritedRules = useMemo(
+    () => applyHomeSchedule(participant.id, [], homeRules),
+    [participant.id, homeRules]
+  );
+
+  const handleProfileChange = useCallback((profileId: string | null, rules: HomeScheduleRule[]) => {
+    setParticipant((prev) => ({ ...prev, profileId }));
+    setHomeRules(rules);
+    setEditorKey((key) => key + 1);
+  }, []);
 
   const handleCancelEdit = useCallback(() => {
     setEditName(participant.displayName);
@@ -244,11 +264,19 @@ export function ParticipantPageClient({
 
       {/* Main Content - Full width grid */}
       <div className="mx-auto max-w-7xl px-4 py-8 pb-24 sm:px-6 lg:px-8">
+        <HomeScheduleCard
+          eventId={event.id}
+          participantId={participant.id}
+          profileId={participant.profileId}
+          onChange={handleProfileChange}
+        />
         <AvailabilityEditor
+          key={editorKey}
           participantId={participant.id}
           event={{ ...event, slug: event.slug }}
           isGm={participant.isGm}
           gmAvailability={gmAvailability}
+          inheritedRules={inheritedRules}
         />
       </div>
     </div>
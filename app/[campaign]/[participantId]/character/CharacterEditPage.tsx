@@ -167,7 +167,7 @@ export function CharacterEditPage({
               {/* Character Form Card */}
               <div className="rounded-2xl border border-zinc-200 bg-white shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
                 <div className="p-5">
-                  <CharacterForm participant={participant} eventSlug={event.slug} />
+                  <CharacterForm participant={participant} eventId={event.id} eventSlug={event.slug} />
                 </div>
               </div>
             </div>
@@ -57,6 +57,11 @@ export default async function Page({ params }: Props) {
     id: participant.id,
     displayName: participant.displayName,
     isGm: participant.isGm,
+    isRequired: participant.isRequired,
+    waitlistedAt: participant.waitlistedAt?.toISOString() ?? null,
+    pendingApproval: participant.pendingApproval,
+    gmRole: participant.gmRole,
+    applicationPitch: participant.applicationPitch,
     characterName: participant.characterName,
     characterClass: participant.characterClass,
     characterSheetUrl: participant.characterSheetUrl,
@@ -64,11 +69,16 @@ export default async function Page({ params }: Props) {
     notes: participant.notes,
   };
 
-  // Pass all participants for the party display
-  const allParticipants = event.participants.map((p) => ({
+  // Pass the party (applicants join once approved) for the party display
+  const allParticipants = event.participants.filter((p) => !p.pendingApproval).map((p) => ({
     id: p.id,
     displayName: p.displayName,
     isGm: p.isGm,
+    isRequired: p.isRequired,
+    waitlistedAt: p.waitlistedAt?.toISOString() ?? null,
+    pendingApproval: p.pendingApproval,
+    gmRole: p.gmRole,
+    applicationPitch: null,
     characterName: p.characterName,
     characterClass: p.characterClass,
     characterSheetUrl: p.characterSheetUrl,
@@ -1,7 +1,10 @@
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/db/prisma";
+import { HOME_SCHEDULE_INCLUDE, toHomeScheduleRule, withHomeSchedule } from "@/lib/db/home-schedule";
+import { toAvailabilityRule } from "@/lib/db/rules";
 import { format } from "date-fns";
 import { ParticipantPageClient } from "./ParticipantPageClient";
+import { GmAccessGate } from "@/components/campaign/GmAccessGate";
 import { computeEffectiveRanges, minutesToTime, type AvailabilityRule, type DateRange } from "@/lib/availability";
 
 interface PageProps {
@@ -27,6 +30,7 @@ export default async function ParticipantPage({ params }: PageProps) {
         orderBy: { createdAt: "asc" },
         include: {
           availabilityRules: true,
+          ...HOME_SCHEDULE_INCLUDE,
         },
       },
     },
@@ -38,9 +42,10 @@ export default async function ParticipantPage({ params }: PageProps) {
 
   let participant = null;
 
-  // Handle "gm" as special case - find or create GM participant
+  // Handle "gm" as special case - find or create the primary GM (co-GMs use their ID)
   if (participantId === "gm") {
-    participant = event.participants.find((p) => p.isGm);
+    participant =
+      event.participants.find((p) => p.gmRole === "primary") ?? event.participants.find((p) => p.isGm);
     if (!participant) {
       // Create GM participant if doesn't exist
       participant = await prisma.participant.create({
@@ -48,6 +53,7 @@ export default async function ParticipantPage({ params }: PageProps) {
           eventId: event.id,
           displayName: "Game Master",
           isGm: true,
+          gmRole: "primary",
           timezone: event.timezone,
         },
       });
@@ -90,30 +96,21 @@ export default async function ParticipantPage({ params }: PageProps) {
     displayName: participant.displayName,
     isGm: participant.isGm,
     timezone: participant.timezone,
+    profileId: participant.profileId,
   };
 
+  // Home schedule the participant inherits from their profile, if linked
+  const homeRules = (
+    event.participants.find((p) => p.id === participant.id)?.profile?.homeRules ?? []
+  ).map(toHomeScheduleRule);
+
   // Compute GM availability for players to see as blue stripes
+  // Any GM can run the game, so stripe the times at least one of them is free
   let gmAvailability: { date: string; startTime: string; endTime: string }[] = [];
   if (!participant.isGm) {
-    const gmParticipant = event.participants.find((p) => p.isGm);
-    if (gmParticipant && gmParticipant.availabilityRules.length > 0) {
-      // Convert Prisma rules to AvailabilityRule type
-      const gmRules: AvailabilityRule[] = gmParticipant.availabilityRules.map((r) => ({
-        id: r.id,
-        participantId: r.participantId,
-        ruleType: r.ruleType as AvailabilityRule["ruleType"],
-        dayOfWeek: r.dayOfWeek,
-        specificDate: r.specificDate ? format(r.specificDate, "yyyy-MM-dd") : null,
-        startTime: r.startTime,
-        endTime: r.endTime,
-        crossesMidnight: r.crossesMidnight ?? undefined,
-        originalTimezone: r.originalTimezone,
-        originalDayOfWeek: r.originalDayOfWeek,
-        reason: r.reason,
-        source: r.source as AvailabilityRule["source"],
-        createdAt: r.createdAt,
-        updatedAt: r.updatedAt,
-      }));
+    for (const gmParticipant of event.participants.filter((p) => p.isGm)) {
+      // Convert Prisma rules to AvailabilityRule type (home schedule underneath)
+      const gmRules: AvailabilityRule[] = withHomeSchedule(gmParticipant, gmParticipant.availabilityRules.map(toAvailabilityRule));
 
       // Compute effective availability for the event date range
       const dateRange: DateRange = {
@@ -165,12 +162,24 @@ export default async function ParticipantPage({ params }: PageProps) {
     }
   }
 
-  return (
+  const content = (
     <ParticipantPageClient
       event={eventData}
       participant={participantData}
       campaignSlug={slug}
       gmAvailability={gmAvailability}
+      homeRules={homeRules}
     />
   );
+
+  // The GM availability page needs the campaign's admin token
+  if (participant.isGm) {
+    return (
+      <GmAccessGate eventId={event.id} slug={event.slug}>
+        {content}
+      </GmAccessGate>
+    );
+  }
+
+  return content;
 }
@@ -43,6 +43,7 @@ export default async function Page({ params }: Props) {
     customPreSessionInstructions: event.customPreSessionInstructions,
     minPlayers: event.minPlayers,
     maxPlayers: event.maxPlayers,
+    requireApproval: event.requireApproval,
     gameSystem: event.gameSystem ? {
       id: event.gameSystem.id,
       name: event.gameSystem.name,
@@ -52,6 +53,11 @@ export default async function Page({ params }: Props) {
       id: p.id,
       displayName: p.displayName,
       isGm: p.isGm,
+      isRequired: p.isRequired,
+      waitlistedAt: p.waitlistedAt?.toISOString() ?? null,
+      pendingApproval: p.pendingApproval,
+      gmRole: p.gmRole,
+      applicationPitch: p.applicationPitch,
       characterName: p.characterName,
       characterClass: p.characterClass,
       characterSheetUrl: p.characterSheetUrl,
@@ -8,6 +8,13 @@ import { GameSystemAutocomplete } from "@/components/campaign/GameSystemAutocomp
 import { GameSystemModal } from "@/components/campaign/GameSystemModal";
 import { SessionLengthSelector } from "@/components/campaign/SessionLengthSelector";
 import { MeetingTypeSelector } from "@/components/campaign/MeetingTypeSelector";
+import { WebhookSettings } from "@/components/campaign/WebhookSettings";
+import { ReuseCampaignSettings } from "@/components/campaign/ReuseCampaignSettings";
+import { CampaignBackup } from "@/components/campaign/CampaignBackup";
+import { PartyList, type PartyMember } from "@/components/participant/PartyList";
+import { buildAdminLink, getAdminToken } from "@/lib/utils/admin-token";
+import { adminHeaders } from "@/lib/utils/auth-headers";
+import { templateSettingsFromCampaign } from "@/lib/utils/campaign-templates";
 
 interface EventData {
   id: string;
@@ -28,13 +35,15 @@ interface EventData {
   startDate: string | null;
   endDate: string | null;
   requireCharacterCreation: boolean;
+  requireApproval: boolean;
 }
 
 interface CampaignSettingsPageProps {
   event: EventData;
+  participants: PartyMember[];
 }
 
-export function CampaignSettingsPage({ event }: CampaignSettingsPageProps) {
+export function CampaignSettingsPage({ event, participants }: CampaignSettingsPageProps) {
   const router = useRouter();
 
   // Form state
@@ -62,6 +71,7 @@ export function CampaignSettingsPage({ event }: CampaignSettingsPageProps) {
 
   // Character creation requirement
   const [requireCharacterCreation, setRequireCharacterCreation] = useState(event.requireCharacterCreation);
+  const [requireApproval, setRequireApproval] = useState(event.requireApproval);
 
   // Modal state
   const [isCreatingGameSystem, setIsCreatingGameSystem] = useState(false);
@@ -70,6 +80,37 @@ export function CampaignSettingsPage({ event }: CampaignSettingsPageProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // GM admin link (only rendered client-side, behind GmAccessGate)
+  const [adminToken] = useState(() => getAdminToken(event.id));
+  const [adminLinkCopied, setAdminLinkCopied] = useState(false);
+
+  const handleCopyAdminLink = useCallback(async () => {
+    if (!adminToken) return;
+    await navigator.clipboard.writeText(buildAdminLink(window.location.origin, event.slug, adminToken));
+    setAdminLinkCopied(true);
+    setTimeout(() => setAdminLinkCopied(false), 2000);
+  }, [adminToken, event.slug]);
+
+  // Promote or demote a player (the live party list picks up the change)
+  const handleSeatChange = useCallback(
+    async (participant: PartyMember, waitlisted: boolean) => {
+      try {
+        const res = await fetch(`/api/participants/${participant.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json", ...adminHeaders(event.id) },
+          body: JSON.stringify({ isWaitlisted: waitlisted }),
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || "Failed to update player");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update player");
+      }
+    },
+    [event.id]
+  );
+
   // Handle game system change
   const handleGameSystemChange = useCallback(
     (system: GameSystem | null) => {
@@ -139,11 +180,12 @@ export function CampaignSettingsPage({ event }: CampaignSettingsPageProps) {
         endDate: endDate || null,
         // Character creation
         requireCharacterCreation,
+        requireApproval,
       };
 
       const res = await fetch(`/api/events/${event.slug}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...adminHeaders(event.id) },
         body: JSON.stringify(payload),
       });
 
@@ -277,6 +319,33 @@ export function CampaignSettingsPage({ event }: CampaignSettingsPageProps) {
                 </div>
                 <span className="text-sm text-zinc-500 dark:text-zinc-400">players</span>
               </div>
+
+              {/* Require Approval Toggle */}
+              <label className="mt-4 flex cursor-pointer items-center justify-between">
+                <div>
+                  <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                    Approve New Players
+                  </span>
+                  <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                    Players apply to join and appear in the party once you approve them
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={requireApproval}
+                  onClick={() => setRequireApproval(!requireApproval)}
+                  className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                    requireApproval ? "bg-blue-600" : "bg-zinc-200 dark:bg-zinc-700"
+                  }`}
+                >
+                  <span
+                    className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                      requireApproval ? "translate-x-5" : "translate-x-0"
+                    }`}
+                  />
+                </button>
+              </label>
             </div>
           </div>
 
@@ -439,6 +508,80 @@ export function CampaignSettingsPage({ event }: CampaignSettingsPageProps) {
           </div>
         </div>
 
+        {/* GM admin link */}
+        {adminToken && (
+          <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/40 dark:bg-amber-950/20">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium text-amber-900 dark:text-amber-200">GM admin link</p>
+                <p className="mt-0.5 text-xs text-amber-800/80 dark:text-amber-300/80">
+                  Open it to manage this campaign from another device. Keep it private -
+                  anyone with it can change settings and remove players.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleCopyAdminLink}
+                className="shrink-0 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-xs font-medium text-amber-900 hover:bg-amber-100 dark:border-amber-800 dark:bg-zinc-900 dark:text-amber-200"
+              >
+                {adminLinkCopied ? "Copied!" : "Copy link"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Webhooks (saved as you go, separate from Continue) */}
+        <div className="mt-4">
+          <WebhookSettings eventId={event.id} slug={event.slug} meetingType={meetingType} />
+        </div>
+
+        {/* Players and waitlist (saved as you go) */}
+        {participants.length > 0 && (
+          <div className="mt-4 rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+            <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Players</h2>
+            <p className="mt-0.5 mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+              Players who join after the table is full wait for a seat. The longest-waiting
+              player is seated when someone leaves.
+            </p>
+            <PartyList
+              participants={participants}
+              eventSlug={event.slug}
+              clickable={false}
+              showCharacterDetails={false}
+              live
+              onSeatChange={handleSeatChange}
+            />
+          </div>
+        )}
+
+        {/* Duplicate the saved campaign, or save the form above as a template */}
+        <div className="mt-4">
+          <ReuseCampaignSettings
+            eventId={event.id}
+            slug={event.slug}
+            title={event.title}
+            templateSettings={templateSettingsFromCampaign({
+              campaignType: event.campaignType,
+              gameSystem,
+              sessionLengthMinutes,
+              customPreSessionInstructions: playerInstructions,
+              playerPrepUrls: playerPrepUrls.filter((u) => u.label && u.url),
+              meetingType,
+              meetingLocation,
+              meetingRoom,
+              minPlayers: minPlayers ? parseInt(minPlayers) : null,
+              maxPlayers: maxPlayers ? parseInt(maxPlayers) : null,
+              requireCharacterCreation,
+              requireApproval,
+            })}
+          />
+        </div>
+
+        {/* Backup file to restore later or on another instance */}
+        <div className="mt-4">
+          <CampaignBackup eventId={event.id} slug={event.slug} />
+        </div>
+
         {/* Error */}
         {error && (
           <div className="mt-4 rounded-lg bg-red-50 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
@@ -473,6 +616,7 @@ export function CampaignSettingsPage({ event }: CampaignSettingsPageProps) {
         isOpen={isCreatingGameSystem}
         onClose={() => setIsCreatingGameSystem(false)}
         onCreated={handleGameSystemCreated}
+        campaign={{ id: event.id, slug: event.slug }}
       />
     </div>
   );
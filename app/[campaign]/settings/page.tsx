@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/db/prisma";
 import { notFound } from "next/navigation";
 import { CampaignSettingsPage } from "./CampaignSettingsPage";
+import { GmAccessGate } from "@/components/campaign/GmAccessGate";
 
 interface Props {
   params: Promise<{ campaign: string }>;
@@ -13,6 +14,9 @@ export default async function Page({ params }: Props) {
     where: { slug },
     include: {
       gameSystem: true,
+      participants: {
+        orderBy: { createdAt: "asc" },
+      },
     },
   });
 
@@ -42,6 +46,7 @@ export default async function Page({ params }: Props) {
     minPlayers: event.minPlayers,
     maxPlayers: event.maxPlayers,
     requireCharacterCreation: event.requireCharacterCreation,
+    requireApproval: event.requireApproval,
     gameSystem: event.gameSystem
       ? {
           id: event.gameSystem.id,
@@ -56,5 +61,24 @@ export default async function Page({ params }: Props) {
       : null,
   };
 
-  return <CampaignSettingsPage event={serializedEvent} />;
+  // Applicants wait in the campaign page's approval queue
+  const participants = event.participants.filter((p) => !p.pendingApproval).map((p) => ({
+    id: p.id,
+    displayName: p.displayName,
+    isGm: p.isGm,
+    gmRole: p.gmRole,
+    isRequired: p.isRequired,
+    waitlistedAt: p.waitlistedAt?.toISOString() ?? null,
+    characterName: p.characterName,
+    characterClass: p.characterClass,
+    characterSheetUrl: p.characterSheetUrl,
+    characterTokenBase64: p.characterTokenBase64,
+    notes: p.notes,
+  }));
+
+  return (
+    <GmAccessGate eventId={event.id} slug={event.slug}>
+      <CampaignSettingsPage event={serializedEvent} participants={participants} />
+    </GmAccessGate>
+  );
 }
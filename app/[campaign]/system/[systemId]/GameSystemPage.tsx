@@ -5,10 +5,12 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { ImageUpload } from "@/components/campaign/ImageUpload";
 import type { GameSystem, PrepUrl } from "@/lib/types";
+import { adminHeaders } from "@/lib/utils/auth-headers";
 
 interface GameSystemPageProps {
   gameSystem: GameSystem;
   campaign: {
+    id: string;
     slug: string;
     title: string;
     isCurrentSystem: boolean;
@@ -78,9 +80,9 @@ export function GameSystemPage({ gameSystem, campaign }: GameSystemPageProps) {
         defaultUrls: defaultUrls.filter((u) => u.label && u.url),
       };
 
-      const res = await fetch(`/api/game-systems/${gameSystem.id}`, {
+      const res = await fetch(`/api/game-systems/${gameSystem.id}?campaign=${campaign.slug}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...adminHeaders(campaign.id) },
         body: JSON.stringify(payload),
       });
 
@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/db/prisma";
 import { notFound } from "next/navigation";
 import { GameSystemPage } from "./GameSystemPage";
+import { GmAccessGate } from "@/components/campaign/GmAccessGate";
 
 interface Props {
   params: Promise<{ campaign: string; systemId: string }>;
@@ -46,10 +47,15 @@ export default async function Page({ params }: Props) {
   };
 
   const campaignContext = {
+    id: event.id,
     slug: event.slug,
     title: event.title,
     isCurrentSystem: event.gameSystemId === systemId,
   };
 
-  return <GameSystemPage gameSystem={serializedSystem} campaign={campaignContext} />;
+  return (
+    <GmAccessGate eventId={event.id} slug={event.slug}>
+      <GameSystemPage gameSystem={serializedSystem} campaign={campaignContext} />
+    </GmAccessGate>
+  );
 }
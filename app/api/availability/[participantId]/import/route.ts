@@ -0,0 +1,162 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getParticipantActor, requireParticipantAccess } from "@/lib/api/auth";
+import { recordRuleRevision } from "@/lib/db/revisions";
+import { toCreateData } from "@/lib/db/rules";
+import { badRequest, notFound, success, handleApiError } from "@/lib/api/response";
+import { importIcsAsBlockedRules } from "@/lib/availability/ics-import";
+import { isValidTimezone } from "@/lib/utils/timezones";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { queueAvailabilityWebhooks } from "@/lib/webhooks/deliver";
+
+// Calendar exports are small; anything bigger is probably the wrong file
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Read the uploaded calendar from multipart form data ("file" field) or a raw text/calendar body
+ */
+async function readCalendarUpload(
+  request: NextRequest
+): Promise<{ text: string; timezone: string | null } | null> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string" || file.size > MAX_ICS_BYTES) return null;
+    const timezone = form.get("timezone");
+    return { text: await file.text(), timezone: typeof timezone === "string" ? timezone : null };
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_ICS_BYTES) return null;
+  return { text, timezone: request.nextUrl.searchParams.get("timezone") };
+}
+
+/**
+ * POST /api/availability/[participantId]/import
+ * Import busy times from an .ics file as blocked_override rules (source "import").
+ * Recurring events are expanded within the campaign's date range.
+ * Re-importing replaces the previously imported rules.
+ *
+ * Body: multipart form with "file" (and optional "timezone" for floating times),
+ * or a raw text/calendar body with ?timezone=
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ participantId: string }> }
+) {
+  try {
+    const { participantId } = await params;
+
+    const participant = await prisma.participant.findUnique({
+      where: { id: participantId },
+      select: {
+        id: true,
+        eventId: true,
+        displayName: true,
+        timezone: true,
+        event: { select: { startDate: true, endDate: true } },
+      },
+    });
+
+    if (!participant) {
+      return notFound("Participant");
+    }
+
+    const authError = await requireParticipantAccess(request, participantId);
+    if (authError) {
+      return authError;
+    }
+
+    const { startDate, endDate } = participant.event;
+    if (!startDate || !endDate) {
+      return badRequest("Set the campaign's date range before importing a calendar");
+    }
+
+    const upload = await readCalendarUpload(request);
+    if (!upload || !upload.text.includes("BEGIN:VCALENDAR")) {
+      return badRequest("Upload an .ics calendar file (max 2 MB)");
+    }
+
+    const timezone =
+      upload.timezone && isValidTimezone(upload.timezone) ? upload.timezone : participant.timezone;
+
+    const { rules, eventCount } = importIcsAsBlockedRules(
+      upload.text,
+      participantId,
+      startDate.toISOString().split("T")[0],
+      endDate.toISOString().split("T")[0],
+      timezone
+    );
+
+    const actor = await getParticipantActor(request, participantId);
+
+    // Replace the previous import atomically
+    const removed = await prisma.$transaction(async (tx) => {
+      await recordRuleRevision(tx, participantId, { action: "import", source: "import", actor });
+
+      const deleted = await tx.availabilityRule.deleteMany({
+        where: { participantId, source: "import" },
+      });
+
+      if (rules.length > 0) {
+        await tx.availabilityRule.createMany({
+          data: rules.map(toCreateData),
+        });
+      }
+
+      return deleted.count;
+    });
+
+    publishCampaignChange(participant.eventId, { type: "rules_updated", participantId });
+    queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+
+    return success({ success: true, events: eventCount, added: rules.length, removed });
+  } catch (error) {
+    return handleApiError(error, "import calendar");
+  }
+}
+
+/**
+ * DELETE /api/availability/[participantId]/import
+ * Remove all rules created by calendar imports
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ participantId: string }> }
+) {
+  try {
+    const { participantId } = await params;
+
+    const participant = await prisma.participant.findUnique({
+      where: { id: participantId },
+      select: { id: true, eventId: true, displayName: true },
+    });
+
+    if (!participant) {
+      return notFound("Participant");
+    }
+
+    const authError = await requireParticipantAccess(request, participantId);
+    if (authError) {
+      return authError;
+    }
+
+    const actor = await getParticipantActor(request, participantId);
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      await recordRuleRevision(tx, participantId, { action: "import", source: "import", actor });
+      return tx.availabilityRule.deleteMany({
+        where: { participantId, source: "import" },
+      });
+    });
+
+    publishCampaignChange(participant.eventId, { type: "rules_updated", participantId });
+    queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+
+    return success({ success: true, removed: deleted.count });
+  } catch (error) {
+    return handleApiError(error, "remove imported calendar");
+  }
+}
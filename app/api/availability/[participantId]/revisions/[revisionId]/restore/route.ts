@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getParticipantActor, requireParticipantAccess } from "@/lib/api/auth";
+import { notFound, success, handleApiError } from "@/lib/api/response";
+import { restoreRuleRevision } from "@/lib/db/revisions";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { queueAvailabilityWebhooks } from "@/lib/webhooks/deliver";
+
+/**
+ * POST /api/availability/[participantId]/revisions/[revisionId]/restore
+ * Revert a change: put the rules back to how they were before the revision
+ * The restore is recorded as a new revision, so it can be undone in turn.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ participantId: string; revisionId: string }> }
+) {
+  try {
+    const { participantId, revisionId } = await params;
+
+    const participant = await prisma.participant.findUnique({
+      where: { id: participantId },
+      select: { id: true, eventId: true, displayName: true },
+    });
+
+    if (!participant) {
+      return notFound("Participant");
+    }
+
+    const authError = await requireParticipantAccess(request, participantId);
+    if (authError) {
+      return authError;
+    }
+
+    const actor = await getParticipantActor(request, participantId);
+    const restored = await restoreRuleRevision(participantId, revisionId, actor);
+    if (!restored) {
+      return notFound("Revision");
+    }
+
+    publishCampaignChange(participant.eventId, { type: "rules_updated", participantId });
+    queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+
+    return success({ success: true, ...restored });
+  } catch (error) {
+    return handleApiError(error, "restore availability revision");
+  }
+}
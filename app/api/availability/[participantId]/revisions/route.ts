@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireParticipantAccess } from "@/lib/api/auth";
+import { notFound, success, handleApiError } from "@/lib/api/response";
+import type { AvailabilityRevision, GetRevisionsResponse } from "@/lib/types/availability";
+
+/**
+ * GET /api/availability/[participantId]/revisions
+ * List recorded changes to a participant's rules, newest first (player or GM)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ participantId: string }> }
+) {
+  try {
+    const { participantId } = await params;
+
+    const participant = await prisma.participant.findUnique({
+      where: { id: participantId },
+      select: { id: true },
+    });
+
+    if (!participant) {
+      return notFound("Participant");
+    }
+
+    const authError = await requireParticipantAccess(request, participantId);
+    if (authError) {
+      return authError;
+    }
+
+    const revisions = await prisma.availabilityRevision.findMany({
+      where: { participantId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        action: true,
+        source: true,
+        actor: true,
+        ruleCount: true,
+        createdAt: true,
+      },
+    });
+
+    const response: GetRevisionsResponse = {
+      revisions: revisions.map((r) => ({
+        id: r.id,
+        action: r.action as AvailabilityRevision["action"],
+        source: r.source as AvailabilityRevision["source"],
+        actor: r.actor as AvailabilityRevision["actor"],
+        ruleCount: r.ruleCount,
+        createdAt: r.createdAt.toISOString(),
+      })),
+    };
+    return success(response);
+  } catch (error) {
+    return handleApiError(error, "list availability revisions");
+  }
+}
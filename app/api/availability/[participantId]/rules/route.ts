@@ -1,39 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { getParticipantActor, requireParticipantAccess } from "@/lib/api/auth";
+import { inferRevisionSource, validatePatternRecurrence } from "@/lib/availability";
+import { recordRuleRevision } from "@/lib/db/revisions";
+import { toAvailabilityRule, toCreateData } from "@/lib/db/rules";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { queueAvailabilityWebhooks } from "@/lib/webhooks/deliver";
 import type {
-  AvailabilityRule,
   CreateAvailabilityRuleInput,
   GetRulesResponse,
   ReplaceRulesRequest,
   PatchRulesRequest,
 } from "@/lib/types/availability";
-import { AvailabilityRuleType, RuleSource } from "@/lib/generated/prisma";
 
 /**
- * Map database rule to API response type
+ * Check preference, date bounds and recurrence on incoming rules
+ *
+ * @returns An error message, or null if every rule is valid
  */
-function mapRuleToResponse(
-  rule: Awaited<ReturnType<typeof prisma.availabilityRule.findFirst>>
-): AvailabilityRule | null {
-  if (!rule) return null;
-  return {
-    id: rule.id,
-    participantId: rule.participantId,
-    ruleType: rule.ruleType as AvailabilityRule["ruleType"],
-    dayOfWeek: rule.dayOfWeek,
-    specificDate: rule.specificDate
-      ? rule.specificDate.toISOString().split("T")[0]
-      : null,
-    startTime: rule.startTime,
-    endTime: rule.endTime,
-    originalTimezone: rule.originalTimezone,
-    originalDayOfWeek: rule.originalDayOfWeek,
-    crossesMidnight: rule.crossesMidnight ?? undefined,
-    reason: rule.reason,
-    source: rule.source as AvailabilityRule["source"],
-    createdAt: rule.createdAt,
-    updatedAt: rule.updatedAt,
-  };
+function validateRules(rules: CreateAvailabilityRuleInput[]): string | null {
+  for (const rule of rules) {
+    if (rule.preference && rule.preference !== "preferred" && rule.preference !== "if_needed") {
+      return "preference must be preferred or if_needed";
+    }
+    const error = validatePatternRecurrence(rule);
+    if (error) return error;
+  }
+  return null;
 }
 
 /**
@@ -71,7 +64,7 @@ export async function GET(
 
     return NextResponse.json({
       participantId,
-      rules: rules.map(mapRuleToResponse).filter(Boolean) as AvailabilityRule[],
+      rules: rules.map(toAvailabilityRule),
     });
   } catch (error) {
     console.error("Error fetching availability rules:", error);
@@ -89,7 +82,7 @@ export async function GET(
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ participantId: string }> }
-): Promise<NextResponse<{ success: boolean; count: number } | { error: string }>> {
+): Promise<NextResponse<{ success: boolean; count: number; revisionId: string } | { error: string }>> {
   try {
     const { participantId } = await params;
     const body: ReplaceRulesRequest = await request.json();
@@ -106,6 +99,11 @@ export async function PUT(
       );
     }
 
+    const authError = await requireParticipantAccess(request, participantId);
+    if (authError) {
+      return authError;
+    }
+
     // Validate rules
     if (!Array.isArray(body.rules)) {
       return NextResponse.json(
@@ -114,8 +112,22 @@ export async function PUT(
       );
     }
 
+    const rulesError = validateRules(body.rules);
+    if (rulesError) {
+      return NextResponse.json({ error: rulesError }, { status: 400 });
+    }
+
+    const actor = await getParticipantActor(request, participantId);
+
     // Use a transaction to replace all rules atomically
     const result = await prisma.$transaction(async (tx) => {
+      // Keep the previous rules for undo
+      const revisionId = await recordRuleRevision(tx, participantId, {
+        action: "replace",
+        source: inferRevisionSource(body.rules),
+        actor,
+      });
+
       // Delete existing rules
       await tx.availabilityRule.deleteMany({
         where: { participantId },
@@ -124,26 +136,17 @@ export async function PUT(
       // Create new rules
       if (body.rules.length > 0) {
         await tx.availabilityRule.createMany({
-          data: body.rules.map((rule) => ({
-            participantId,
-            ruleType: rule.ruleType as AvailabilityRuleType,
-            dayOfWeek: rule.dayOfWeek,
-            specificDate: rule.specificDate ? new Date(rule.specificDate) : null,
-            startTime: rule.startTime,
-            endTime: rule.endTime,
-            originalTimezone: rule.originalTimezone,
-            originalDayOfWeek: rule.originalDayOfWeek,
-            crossesMidnight: rule.crossesMidnight ?? null,
-            reason: rule.reason || null,
-            source: (rule.source || "manual") as RuleSource,
-          })),
+          data: body.rules.map((rule) => toCreateData({ ...rule, participantId })),
         });
       }
 
-      return body.rules.length;
+      return { count: body.rules.length, revisionId };
     });
 
-    return NextResponse.json({ success: true, count: result });
+    publishCampaignChange(participant.eventId, { type: "rules_updated", participantId });
+    queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+
+    return NextResponse.json({ success: true, ...result });
   } catch (error) {
     console.error("Error replacing availability rules:", error);
     return NextResponse.json(
@@ -161,7 +164,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ participantId: string }> }
 ): Promise<
-  NextResponse<{ success: boolean; added: number; removed: number } | { error: string }>
+  NextResponse<
+    { success: boolean; added: number; removed: number; revisionId: string } | { error: string }
+  >
 > {
   try {
     const { participantId } = await params;
@@ -179,10 +184,29 @@ export async function PATCH(
       );
     }
 
+    const authError = await requireParticipantAccess(request, participantId);
+    if (authError) {
+      return authError;
+    }
+
+    const rulesError = validateRules(body.add ?? []);
+    if (rulesError) {
+      return NextResponse.json({ error: rulesError }, { status: 400 });
+    }
+
+    const actor = await getParticipantActor(request, participantId);
+
     let addedCount = 0;
     let removedCount = 0;
 
-    await prisma.$transaction(async (tx) => {
+    const revisionId = await prisma.$transaction(async (tx) => {
+      // Keep the previous rules for undo
+      const id = await recordRuleRevision(tx, participantId, {
+        action: "patch",
+        source: inferRevisionSource(body.add ?? []),
+        actor,
+      });
+
       // Remove rules by ID
       if (body.remove && body.remove.length > 0) {
         const deleteResult = await tx.availabilityRule.deleteMany({
@@ -197,28 +221,22 @@ export async function PATCH(
       // Add new rules
       if (body.add && body.add.length > 0) {
         await tx.availabilityRule.createMany({
-          data: body.add.map((rule) => ({
-            participantId,
-            ruleType: rule.ruleType as AvailabilityRuleType,
-            dayOfWeek: rule.dayOfWeek,
-            specificDate: rule.specificDate ? new Date(rule.specificDate) : null,
-            startTime: rule.startTime,
-            endTime: rule.endTime,
-            originalTimezone: rule.originalTimezone,
-            originalDayOfWeek: rule.originalDayOfWeek,
-            crossesMidnight: rule.crossesMidnight ?? null,
-            reason: rule.reason || null,
-            source: (rule.source || "manual") as RuleSource,
-          })),
+          data: body.add.map((rule) => toCreateData({ ...rule, participantId })),
         });
         addedCount = body.add.length;
       }
+
+      return id;
     });
 
+    publishCampaignChange(participant.eventId, { type: "rules_updated", participantId });
+    queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+
     return NextResponse.json({
       success: true,
       added: addedCount,
       removed: removedCount,
+      revisionId,
     });
   } catch (error) {
     console.error("Error patching availability rules:", error);
@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { parseAvailabilityWithRules, type ParseResultWithRules } from "@/lib/ai/availability-parser";
+import { prisma } from "@/lib/db/prisma";
+import { toAvailabilityRule } from "@/lib/db/rules";
+import { diffAvailabilityRules } from "@/lib/availability";
+import type { AvailabilityDiff, AvailabilityRule } from "@/lib/types/availability";
+import {
+  AVAILABILITY_PARSERS,
+  parseAvailabilityWithRules,
+  type AvailabilityParser,
+  type ParseResultWithRules,
+} from "@/lib/ai/availability-parser";
 
 interface ParseRequest {
   text: string;
@@ -7,15 +16,26 @@ interface ParseRequest {
   participantId: string;
   currentDate?: string;
   currentDay?: string;
+  parser?: AvailabilityParser;
 }
 
+interface ParseResponse extends ParseResultWithRules {
+  diff: AvailabilityDiff;
+}
+
+// Preview window when the campaign has no dates
+const DEFAULT_PREVIEW_DAYS = 28;
+
 /**
  * POST /api/availability/parse
  * Parse natural language availability text using AI
+ * Pass parser: "local" to skip the AI, or "ai" to disable the rule-based fallback.
+ * Nothing is saved: the response includes a diff against the participant's
+ * current rules, which the client applies with PATCH .../rules if accepted.
  */
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<ParseResultWithRules | { error: string }>> {
+): Promise<NextResponse<ParseResponse | { error: string }>> {
   try {
     const body: ParseRequest = await request.json();
 
@@ -41,16 +61,51 @@ export async function POST(
       );
     }
 
+    if (body.parser !== undefined && !AVAILABILITY_PARSERS.includes(body.parser)) {
+      return NextResponse.json(
+        { error: `parser must be one of: ${AVAILABILITY_PARSERS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const participant = await prisma.participant.findUnique({
+      where: { id: body.participantId },
+      include: {
+        availabilityRules: true,
+        event: { select: { startDate: true, endDate: true } },
+      },
+    });
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: "Participant not found" },
+        { status: 404 }
+      );
+    }
+
     // Parse the availability text
     const result = await parseAvailabilityWithRules(
       body.text,
       body.timezone,
       body.participantId,
       body.currentDate,
-      body.currentDay
+      body.currentDay,
+      body.parser
     );
 
-    return NextResponse.json(result);
+    const day = (d: Date | null) => (d ? d.toISOString().split("T")[0] : null);
+    const current: AvailabilityRule[] = participant.availabilityRules.map(toAvailabilityRule);
+
+    const today = new Date();
+    const range = {
+      startDate: day(participant.event.startDate) ?? day(today)!,
+      endDate:
+        day(participant.event.endDate) ??
+        day(new Date(today.getTime() + (DEFAULT_PREVIEW_DAYS - 1) * 24 * 60 * 60 * 1000))!,
+    };
+    const diff = diffAvailabilityRules(current, result.rules, result.mode, range, body.timezone);
+
+    return NextResponse.json({ ...result, diff });
   } catch (error) {
     console.error("Error parsing availability:", error);
     return NextResponse.json(
@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { notFound, success, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+
+/**
+ * GET /api/events/[slug]/admin
+ * Check the GM admin token sent in X-Admin-Token.
+ * 200 if it grants GM access, 401/403 otherwise.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true, adminTokenHash: true },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const authError = await requireAdminToken(request, event);
+    if (authError) {
+      return authError;
+    }
+
+    // Legacy campaigns have no token and are open to everyone
+    return success({ access: event.adminTokenHash ? "admin" : "open" });
+  } catch (error) {
+    return handleApiError(error, "verify GM access");
+  }
+}
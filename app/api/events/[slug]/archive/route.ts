@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { exportCampaignArchive } from "@/lib/db/campaign-archive";
+import { notFound, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+import { campaignArchiveFilename } from "@/lib/utils/campaign-archive";
+
+/**
+ * GET /api/events/[slug]/archive
+ * Download a backup of the campaign (GM only)
+ * Restore it here or on another instance with POST /api/events/import.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true, adminTokenHash: true },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const authError = await requireAdminToken(request, event);
+    if (authError) {
+      return authError;
+    }
+
+    const archive = await exportCampaignArchive(event.id);
+    if (!archive) {
+      return notFound("Campaign");
+    }
+
+    return NextResponse.json(archive, {
+      headers: {
+        "Content-Disposition": `attachment; filename="${campaignArchiveFilename(archive)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "export campaign backup");
+  }
+}
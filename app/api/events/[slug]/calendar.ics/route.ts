@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { notFound, handleApiError } from "@/lib/api/response";
+import { serializeSession } from "@/lib/utils/sessions";
+import { buildSessionCalendar } from "@/lib/utils/ical";
+import type { CampaignSession } from "@/lib/types";
+
+/**
+ * GET /api/events/[slug]/calendar.ics
+ * iCalendar subscription feed with every session in the campaign.
+ * Cancelled sessions are kept so subscribed calendars remove them.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: {
+        id: true,
+        slug: true,
+        title: true,
+        meetingType: true,
+        meetingLocation: true,
+        meetingRoom: true,
+        customPreSessionInstructions: true,
+        sessions: {
+          include: { attendees: { select: { participantId: true } } },
+          orderBy: { startsAt: "asc" },
+        },
+      },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const sessions: CampaignSession[] = event.sessions.map(serializeSession);
+    const campaignUrl = `${new URL(request.url).origin}/${event.slug}`;
+    const calendar = buildSessionCalendar(event.title, sessions, event, campaignUrl);
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${event.slug}.ics"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "build campaign calendar");
+  }
+}
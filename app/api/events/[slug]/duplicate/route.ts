@@ -0,0 +1,148 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { generateSlug } from "@/lib/utils/slug";
+import { badRequest, created, notFound, handleApiError } from "@/lib/api/response";
+import { generateToken, hashToken, requireAdminToken } from "@/lib/api/auth";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * POST /api/events/[slug]/duplicate
+ * Start a new campaign with this campaign's configuration (GM only).
+ *
+ * Body (all optional):
+ * - title: defaults to "<title> (copy)"
+ * - includeParticipants: copy the party and their characters, but not their availability
+ * - startDate, endDate: YYYY-MM-DD; defaults to a window as long as the original, starting today
+ *
+ * Returns the same shape as POST /api/events, with a new GM admin token.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const source = await prisma.event.findUnique({
+      where: { slug },
+      include: {
+        participants: {
+          where: { pendingApproval: false },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!source) {
+      return notFound("Campaign");
+    }
+
+    const authError = await requireAdminToken(request, source);
+    if (authError) {
+      return authError;
+    }
+
+    const title = typeof body.title === "string" && body.title.trim()
+      ? body.title.trim()
+      : `${source.title} (copy)`;
+
+    // New arcs get a fresh availability window
+    let startDate: Date | null = null;
+    let endDate: Date | null = null;
+    if (body.startDate || body.endDate) {
+      startDate = body.startDate ? new Date(body.startDate) : null;
+      endDate = body.endDate ? new Date(body.endDate) : null;
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return badRequest("Invalid date format");
+      }
+      if (startDate && endDate && endDate < startDate) {
+        return badRequest("End date must be after start date");
+      }
+    } else if (source.startDate && source.endDate) {
+      startDate = new Date(new Date().toISOString().slice(0, 10));
+      const windowDays = Math.round((source.endDate.getTime() - source.startDate.getTime()) / DAY_MS);
+      endDate = new Date(startDate.getTime() + windowDays * DAY_MS);
+    }
+
+    const primaryGm = source.participants.find((p) => p.gmRole === "primary")
+      ?? source.participants.find((p) => p.isGm);
+    const participants = body.includeParticipants === true
+      ? source.participants
+      : source.participants.filter((p) => p.id === primaryGm?.id);
+
+    const newSlug = await generateSlug(title);
+    const adminToken = generateToken();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const event = await tx.event.create({
+        data: {
+          slug: newSlug,
+          adminTokenHash: hashToken(adminToken),
+          title,
+          description: source.description,
+          timezone: source.timezone,
+          campaignType: source.campaignType,
+          gameSystemId: source.gameSystemId,
+          campaignImageBase64: source.campaignImageBase64,
+          sessionLengthMinutes: source.sessionLengthMinutes,
+          customPreSessionInstructions: source.customPreSessionInstructions,
+          playerPrepUrls: source.playerPrepUrls ?? undefined,
+          requireCharacterCreation: source.requireCharacterCreation,
+          requireApproval: source.requireApproval,
+          startDate,
+          endDate,
+          earliestTime: source.earliestTime,
+          latestTime: source.latestTime,
+          meetingType: source.meetingType,
+          meetingLocation: source.meetingLocation,
+          meetingRoom: source.meetingRoom,
+          minPlayers: source.minPlayers,
+          maxPlayers: source.maxPlayers,
+        },
+        include: {
+          gameSystem: true,
+        },
+      });
+
+      // Copied players claim their names again in the new campaign (no edit tokens, no rules)
+      const copies = [];
+      for (const p of participants) {
+        copies.push(await tx.participant.create({
+          data: {
+            eventId: event.id,
+            displayName: p.displayName,
+            isGm: p.isGm,
+            gmRole: p.gmRole,
+            isRequired: p.isRequired,
+            waitlistedAt: p.waitlistedAt,
+            timezone: p.timezone,
+            characterName: p.characterName,
+            characterClass: p.characterClass,
+            characterSheetUrl: p.characterSheetUrl,
+            characterTokenBase64: p.characterTokenBase64,
+            notes: p.notes,
+          },
+        }));
+      }
+
+      const gmParticipant = copies.find((p) => p.gmRole === "primary")
+        ?? await tx.participant.create({
+          data: {
+            eventId: event.id,
+            displayName: "Game Master",
+            isGm: true,
+            gmRole: "primary",
+            timezone: source.timezone,
+          },
+        });
+
+      return { event, gmParticipant };
+    });
+
+    return created({ ...result, adminToken });
+  } catch (error) {
+    return handleApiError(error, "duplicate campaign");
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { HOME_SCHEDULE_INCLUDE, withHomeSchedule } from "@/lib/db/home-schedule";
+import { toAvailabilityRule } from "@/lib/db/rules";
+import { badRequest, notFound, handleApiError } from "@/lib/api/response";
+import { format, eachDayOfInterval } from "date-fns";
+import {
+  computeEffectiveRanges,
+  toLocalSlots,
+  localSlotsToRanges,
+  buildSlotExportRows,
+  slotRowsToCsv,
+  type ExportParticipant,
+} from "@/lib/availability";
+import { isValidTimezone } from "@/lib/utils/timezones";
+import type { AvailabilityRule, DateRange } from "@/lib/types/availability";
+
+type ExportedParticipant = ExportParticipant & {
+  id: string;
+  timezone: string;
+  waitlisted: boolean;
+};
+
+/**
+ * GET /api/events/[slug]/heatmap/export
+ * Download the campaign's availability for spreadsheets and scripts
+ *
+ * Query:
+ * - format: "csv" (default) - one row per slot with date, time, count and names
+ *           "json" - every participant's effective ranges
+ * - timezone: IANA timezone for dates and times (default: campaign timezone)
+ * - includeWaitlist: "true" to include waitlisted players, as on the heatmap
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const exportFormat = searchParams.get("format") || "csv";
+    const includeWaitlist = searchParams.get("includeWaitlist") === "true";
+
+    if (exportFormat !== "csv" && exportFormat !== "json") {
+      return badRequest("format must be csv or json");
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      include: {
+        participants: {
+          where: {
+            ...(!includeWaitlist && { waitlistedAt: null }),
+            pendingApproval: false,
+          },
+          orderBy: { createdAt: "asc" },
+          include: {
+            availabilityRules: true,
+            ...HOME_SCHEDULE_INCLUDE,
+          },
+        },
+      },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const timezone = searchParams.get("timezone") || event.timezone || "UTC";
+    if (!isValidTimezone(timezone)) {
+      return badRequest("Invalid timezone");
+    }
+
+    const rangeStart = event.startDate ? new Date(event.startDate) : new Date();
+    const rangeEnd = event.endDate ? new Date(event.endDate) : rangeStart;
+    const dates = eachDayOfInterval({ start: rangeStart, end: rangeEnd }).map((d) =>
+      format(d, "yyyy-MM-dd")
+    );
+    const dateSet = new Set(dates);
+
+    // ±1 day so local dates at either end get the UTC data they need
+    const expandedStart = new Date(rangeStart);
+    expandedStart.setDate(expandedStart.getDate() - 1);
+    const expandedEnd = new Date(rangeEnd);
+    expandedEnd.setDate(expandedEnd.getDate() + 1);
+    const dateRange: DateRange = {
+      startDate: format(expandedStart, "yyyy-MM-dd"),
+      endDate: format(expandedEnd, "yyyy-MM-dd"),
+    };
+
+    const participants: ExportedParticipant[] = event.participants.map((participant) => {
+      // Convert Prisma rules to AvailabilityRule type (home schedule underneath)
+      const rules: AvailabilityRule[] = withHomeSchedule(participant, participant.availabilityRules.map(toAvailabilityRule));
+
+      const slots = toLocalSlots(computeEffectiveRanges(rules, dateRange), timezone).filter(
+        (slot) => dateSet.has(slot.date)
+      );
+
+      return {
+        id: participant.id,
+        name: participant.displayName,
+        isGm: participant.isGm,
+        timezone: participant.timezone,
+        waitlisted: participant.waitlistedAt !== null,
+        slots,
+      };
+    });
+
+    const filename = `${event.slug}-availability`;
+
+    if (exportFormat === "json") {
+      return NextResponse.json(
+        {
+          event: {
+            slug: event.slug,
+            title: event.title,
+            startDate: dates[0],
+            endDate: dates[dates.length - 1],
+          },
+          timezone,
+          exportedAt: new Date().toISOString(),
+          participants: participants.map(({ slots, ...participant }) => ({
+            ...participant,
+            ranges: localSlotsToRanges(slots),
+          })),
+        },
+        {
+          headers: {
+            "Content-Disposition": `attachment; filename="${filename}.json"`,
+            "Cache-Control": "no-cache",
+          },
+        }
+      );
+    }
+
+    const csv = slotRowsToCsv(buildSlotExportRows(participants, dates));
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "export availability");
+  }
+}
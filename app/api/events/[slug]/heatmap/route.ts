@@ -1,15 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
-import { format, eachDayOfInterval, isValid } from "date-fns";
+import { HOME_SCHEDULE_INCLUDE, withHomeSchedule } from "@/lib/db/home-schedule";
+import { toAvailabilityRule } from "@/lib/db/rules";
+import { format } from "date-fns";
 import {
   computeEffectiveRanges,
-  rangesToSlots,
+  subtractRanges,
   timeToMinutes,
   minutesToTime,
   SLOT_DURATION_MINUTES,
   utcToLocal,
+  toLocalSlots,
+  validateHeatmapWindowQuery,
+  validateMinCount,
+  resolveHeatmapWindow,
+  heatmapWindowDates,
+  buildLocalHeatmap,
+  type LocalSlot,
 } from "@/lib/availability";
-import type { AvailabilityRule, DateRange } from "@/lib/types/availability";
+import { isValidTimezone } from "@/lib/utils/timezones";
+import type { AvailabilityRule, DateRange, TimeRange } from "@/lib/types/availability";
 
 // Generate time slots between start and end times
 function generateTimeSlots(start: string, end: string): string[] {
@@ -29,19 +39,69 @@ function generateTimeSlots(start: string, end: string): string[] {
   return slots;
 }
 
+/**
+ * GET /api/events/[slug]/heatmap
+ * Everyone's availability and the heatmap for the campaign, or one window of it
+ *
+ * Query (all optional):
+ * - participantId: one player only (live updates refetch only who changed)
+ * - participantIds: comma-separated subset of players
+ * - includeWaitlist: "true" to count waitlisted players
+ * - week / start, end / page, pageSize: date window, see lib/availability/heatmap-window.ts
+ * - timezone: display timezone for the window's dates; also returns `slots`,
+ *   heatmap cells already on that timezone's dates and times
+ * - minCount: only return `slots` with at least this many players (needs timezone)
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
 ) {
   try {
     const { slug } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const participantId = searchParams.get("participantId");
+    const participantIds = participantId
+      ? [participantId]
+      : searchParams.get("participantIds")?.split(",").map((id) => id.trim()).filter(Boolean) ?? null;
+    // Waitlisted players only count when the viewer opts in; applicants never do
+    const includeWaitlist = searchParams.get("includeWaitlist") === "true";
+
+    const requestedTimezone = searchParams.get("timezone");
+    if (requestedTimezone && !isValidTimezone(requestedTimezone)) {
+      return NextResponse.json({ error: "Invalid timezone" }, { status: 400 });
+    }
+
+    const minCountParam = searchParams.get("minCount");
+    const minCountError = validateMinCount(minCountParam, requestedTimezone);
+    if (minCountError) {
+      return NextResponse.json({ error: minCountError }, { status: 400 });
+    }
+    const minCount = minCountParam ? Number(minCountParam) : 0;
+
+    const windowQuery = {
+      week: searchParams.get("week"),
+      start: searchParams.get("start"),
+      end: searchParams.get("end"),
+      page: searchParams.get("page"),
+      pageSize: searchParams.get("pageSize"),
+    };
+    const windowError = validateHeatmapWindowQuery(windowQuery);
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
 
     const event = await prisma.event.findUnique({
       where: { slug },
       include: {
         participants: {
+          where: {
+            ...(participantIds && { id: { in: participantIds } }),
+            ...(!includeWaitlist && { waitlistedAt: null }),
+            pendingApproval: false,
+          },
           include: {
             availabilityRules: true,
+            ...HOME_SCHEDULE_INCLUDE,
           },
         },
       },
@@ -61,9 +121,12 @@ export async function GET(
       return NextResponse.json({ error: "Invalid event date configuration" }, { status: 500 });
     }
 
-    // Generate all dates in the range
-    const allDates = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
-    const dateStrings = allDates.map(d => format(d, "yyyy-MM-dd"));
+    // Only compute the requested window (the whole campaign by default)
+    const heatmapWindow = resolveHeatmapWindow(
+      { startDate: format(rangeStart, "yyyy-MM-dd"), endDate: format(rangeEnd, "yyyy-MM-dd") },
+      windowQuery
+    );
+    const dateStrings = heatmapWindowDates(heatmapWindow);
 
     // Get time window settings
     const earliestTime = event.earliestTime || "00:00";
@@ -76,78 +139,85 @@ export async function GET(
     // Date range for computing availability
     // Expand by ±1 day to handle timezone shifts - a local day might need UTC
     // data from the day before (eastern TZ) or after (western TZ)
-    const expandedStart = new Date(rangeStart);
-    expandedStart.setDate(expandedStart.getDate() - 1);
-    const expandedEnd = new Date(rangeEnd);
-    expandedEnd.setDate(expandedEnd.getDate() + 1);
+    const expandedStart = new Date(heatmapWindow.startDate + "T12:00:00Z");
+    expandedStart.setUTCDate(expandedStart.getUTCDate() - 1);
+    const expandedEnd = new Date(heatmapWindow.endDate + "T12:00:00Z");
+    expandedEnd.setUTCDate(expandedEnd.getUTCDate() + 1);
 
     const dateRange: DateRange = {
-      startDate: format(expandedStart, "yyyy-MM-dd"),
-      endDate: format(expandedEnd, "yyyy-MM-dd"),
+      startDate: expandedStart.toISOString().split("T")[0],
+      endDate: expandedEnd.toISOString().split("T")[0],
     };
 
+    // Slots on the display timezone's dates, when the client asks for one
+    const localParticipants: { id: string; isGm: boolean; slots: LocalSlot[] }[] = [];
+
     // Build availability data for each participant using new rules system
     const participantsData = event.participants.map((participant) => {
-      // Convert Prisma rules to AvailabilityRule type
-      const rules: AvailabilityRule[] = participant.availabilityRules.map((r) => ({
-        id: r.id,
-        participantId: r.participantId,
-        ruleType: r.ruleType as AvailabilityRule["ruleType"],
-        dayOfWeek: r.dayOfWeek,
-        specificDate: r.specificDate ? format(r.specificDate, "yyyy-MM-dd") : null,
-        startTime: r.startTime,
-        endTime: r.endTime,
-        originalTimezone: r.originalTimezone,
-        originalDayOfWeek: r.originalDayOfWeek,
-        crossesMidnight: r.crossesMidnight ?? undefined,
-        reason: r.reason,
-        source: r.source as AvailabilityRule["source"],
-        createdAt: r.createdAt,
-        updatedAt: r.updatedAt,
-      }));
+      // Convert Prisma rules to AvailabilityRule type (home schedule underneath)
+      const rules: AvailabilityRule[] = withHomeSchedule(participant, participant.availabilityRules.map(toAvailabilityRule));
 
       // Compute effective availability using new algorithm
       const effectiveRanges = computeEffectiveRanges(rules, dateRange);
+      if (requestedTimezone) {
+        localParticipants.push({
+          id: participant.id,
+          isGm: participant.isGm,
+          slots: toLocalSlots(effectiveRanges, requestedTimezone),
+        });
+      }
 
       // Convert ranges to slots for heatmap
       // Handle overnight ranges (endMinutes >= 1440) by splitting them
-      const availability: { date: string; startTime: string; endTime: string }[] = [];
-      for (const [date, dayAvail] of effectiveRanges) {
-        for (const range of dayAvail.availableRanges) {
-          if (range.endMinutes > 1440) {
-            // Overnight range - split into two parts
-            // Part 1: startTime to midnight (24:00)
+      // "If needed" time is sent as separate entries flagged ifNeeded
+      const availability: { date: string; startTime: string; endTime: string; ifNeeded?: boolean }[] = [];
+      const pushRange = (date: string, range: TimeRange, ifNeeded: boolean) => {
+        const flag = ifNeeded ? { ifNeeded: true } : {};
+        if (range.endMinutes > 1440) {
+          // Overnight range - split into two parts
+          // Part 1: startTime to midnight (24:00)
+          availability.push({
+            date,
+            startTime: minutesToTime(range.startMinutes),
+            endTime: "24:00",
+            ...flag,
+          });
+          // Part 2: midnight to endTime on next day
+          const nextDate = new Date(date + "T12:00:00Z");
+          nextDate.setUTCDate(nextDate.getUTCDate() + 1);
+          const nextDateStr = nextDate.toISOString().split("T")[0];
+          const wrappedEnd = range.endMinutes - 1440;
+          if (wrappedEnd > 0) {
             availability.push({
-              date,
-              startTime: minutesToTime(range.startMinutes),
-              endTime: "24:00",
-            });
-            // Part 2: midnight to endTime on next day
-            const nextDate = new Date(date + "T12:00:00Z");
-            nextDate.setUTCDate(nextDate.getUTCDate() + 1);
-            const nextDateStr = nextDate.toISOString().split("T")[0];
-            const wrappedEnd = range.endMinutes - 1440;
-            if (wrappedEnd > 0) {
-              availability.push({
-                date: nextDateStr,
-                startTime: "00:00",
-                endTime: minutesToTime(wrappedEnd),
-              });
-            }
-          } else if (range.endMinutes === 1440) {
-            // Full day ending at midnight
-            availability.push({
-              date,
-              startTime: minutesToTime(range.startMinutes),
-              endTime: "24:00",
-            });
-          } else {
-            availability.push({
-              date,
-              startTime: minutesToTime(range.startMinutes),
-              endTime: minutesToTime(range.endMinutes),
+              date: nextDateStr,
+              startTime: "00:00",
+              endTime: minutesToTime(wrappedEnd),
+              ...flag,
             });
           }
+        } else if (range.endMinutes === 1440) {
+          // Full day ending at midnight
+          availability.push({
+            date,
+            startTime: minutesToTime(range.startMinutes),
+            endTime: "24:00",
+            ...flag,
+          });
+        } else {
+          availability.push({
+            date,
+            startTime: minutesToTime(range.startMinutes),
+            endTime: minutesToTime(range.endMinutes),
+            ...flag,
+          });
+        }
+      };
+      for (const [date, dayAvail] of effectiveRanges) {
+        for (const range of subtractRanges(dayAvail.availableRanges, dayAvail.ifNeededRanges)) {
+          pushRange(date, range, false);
+        }
+        for (const range of dayAvail.ifNeededRanges) {
+          pushRange(date, range, true);
         }
       }
 
@@ -168,8 +238,8 @@ export async function GET(
       };
     });
 
-    // Find GM participant for calculating time bounds
-    const gmParticipant = participantsData.find(p => p.isGm);
+    // Find the GMs (primary and co-GMs) for calculating time bounds
+    const gmParticipants = participantsData.filter(p => p.isGm);
     const eventTimezone = event.timezone || "UTC";
 
     if (debugMode) {
@@ -177,7 +247,8 @@ export async function GET(
     }
 
     // Calculate heatmap cells
-    const heatmapData: Record<string, { count: number; participantIds: string[] }> = {};
+    // ifNeededIds is the subset of participantIds who would rather not play then
+    const heatmapData: Record<string, { count: number; participantIds: string[]; ifNeededIds: string[] }> = {};
 
     // Generate time slots for the FULL day
     const fullDaySlots = generateTimeSlots("00:00", "24:00");
@@ -186,7 +257,7 @@ export async function GET(
     for (const date of dateStrings) {
       for (const time of fullDaySlots) {
         const key = `${date}-${time}`;
-        heatmapData[key] = { count: 0, participantIds: [] };
+        heatmapData[key] = { count: 0, participantIds: [], ifNeededIds: [] };
       }
     }
 
@@ -211,21 +282,25 @@ export async function GET(
           if (heatmapData[key]) {
             heatmapData[key].count++;
             heatmapData[key].participantIds.push(participant.id);
+            if (slot.ifNeeded) {
+              heatmapData[key].ifNeededIds.push(participant.id);
+            }
           }
         }
       }
     }
 
-    // Calculate effective time bounds based on GM's availability only
+    // Calculate effective time bounds based on GM availability only (any GM)
     // Convert from UTC to event timezone to find the actual display bounds
     let effectiveEarliest: string | null = null;
     let effectiveLatest: string | null = null;
+    const gmSlots = gmParticipants.flatMap(p => p.availability);
 
-    if (gmParticipant && gmParticipant.availability.length > 0) {
+    if (gmSlots.length > 0) {
       let minMinutes = Infinity;
       let maxMinutes = -Infinity;
 
-      for (const slot of gmParticipant.availability) {
+      for (const slot of gmSlots) {
         // Skip truly invalid slots (same start and end, but NOT full-day slots like 00:00-24:00)
         if (slot.startTime === slot.endTime && slot.endTime !== "24:00") continue;
 
@@ -325,8 +400,8 @@ export async function GET(
         sessionLengthMinutes: event.sessionLengthMinutes,
         timezone: eventTimezone,
       },
-      gmAvailability: gmParticipant ? {
-        name: gmParticipant.name,
+      gmAvailability: gmParticipants.length > 0 ? {
+        name: gmParticipants.map(p => p.name).join(", "),
         earliestTime: effectiveEarliest,
         latestTime: effectiveLatest,
         timezone: eventTimezone,
@@ -336,6 +411,8 @@ export async function GET(
       participants: participantsData,
       heatmap: heatmapData,
       totalParticipants: participantsData.length,
+      window: { ...heatmapWindow, timezone: requestedTimezone || eventTimezone },
+      ...(requestedTimezone && { slots: buildLocalHeatmap(localParticipants, dateStrings, minCount) }),
       ...(debugMode && { _debug: debugInfo }),
     });
 
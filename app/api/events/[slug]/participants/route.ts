@@ -1,5 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import {
+  generateToken,
+  hashToken,
+  requireAdminToken,
+  requireParticipantAccess,
+} from "@/lib/api/auth";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { queueParticipantJoinedWebhook } from "@/lib/webhooks/deliver";
+import { countSeatedPlayers, openSeats } from "@/lib/utils/waitlist";
+import { MAX_PITCH_LENGTH } from "@/lib/types";
+
 
 export async function GET(
   request: NextRequest,
@@ -47,9 +58,20 @@ export async function POST(
       );
     }
 
+    if (body.pitch !== undefined && typeof body.pitch !== "string") {
+      return NextResponse.json({ error: "pitch must be text" }, { status: 400 });
+    }
+    const pitch = body.pitch?.trim() || null;
+    if (pitch && pitch.length > MAX_PITCH_LENGTH) {
+      return NextResponse.json(
+        { error: `Keep your message under ${MAX_PITCH_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
     const event = await prisma.event.findUnique({
       where: { slug },
-      select: { id: true },
+      select: { id: true, adminTokenHash: true, maxPlayers: true, requireApproval: true },
     });
 
     if (!event) {
@@ -66,30 +88,94 @@ export async function POST(
           displayName,
         },
       },
+      omit: { editTokenHash: false },
     });
 
     if (existing) {
+      const { editTokenHash, ...participant } = existing;
+
+      // Claimed names (and the GM) can only be rejoined by whoever holds their token
+      const isProtected = !!editTokenHash || (existing.isGm && !!event.adminTokenHash);
+      if (isProtected && (await requireParticipantAccess(request, existing.id))) {
+        return NextResponse.json(
+          { error: "That name is already taken. Open your recovery link to continue as this player on a new device." },
+          { status: 409 }
+        );
+      }
+
+      // Joining as an unclaimed player (added by someone else) claims it
+      const editToken = isProtected || body.unclaimed ? null : generateToken();
+
+      const updateData: { timezone?: string; editTokenHash?: string } = {};
       // Update timezone if provided and participant exists (re-joining)
       if (body.timezone && existing.timezone !== body.timezone) {
-        const updated = await prisma.participant.update({
-          where: { id: existing.id },
-          data: { timezone: body.timezone },
-        });
-        return NextResponse.json(updated);
+        updateData.timezone = body.timezone;
+      }
+      if (editToken) {
+        updateData.editTokenHash = hashToken(editToken);
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        return NextResponse.json(participant);
       }
-      return NextResponse.json(existing);
+
+      const updated = await prisma.participant.update({
+        where: { id: existing.id },
+        data: updateData,
+      });
+      return NextResponse.json(editToken ? { ...updated, editToken } : updated);
     }
 
-    const participant = await prisma.participant.create({
-      data: {
-        eventId: event.id,
-        displayName,
-        isGm: body.isGm || false,
-        timezone: body.timezone || "UTC",
-      },
+    // Only the GM can add another GM to a campaign that has one
+    if (body.isGm) {
+      const authError = await requireAdminToken(request, event);
+      if (authError) {
+        return authError;
+      }
+    }
+
+    // Players added on someone else's behalf stay unclaimed until they join
+    const editToken = body.unclaimed ? null : generateToken();
+    const isGm = body.isGm || false;
+    // Players the GM adds themselves skip the approval queue
+    const pendingApproval = event.requireApproval && !isGm && !!(await requireAdminToken(request, event));
+
+    // Once every seat is taken, new players join the waitlist (applicants wait for approval first)
+    const participant = await prisma.$transaction(async (tx) => {
+      const others = await tx.participant.findMany({
+        where: { eventId: event.id },
+        select: { isGm: true, gmRole: true, waitlistedAt: true, pendingApproval: true },
+      });
+      const seated = countSeatedPlayers(others);
+      // The first GM runs the campaign; GMs added later are co-GMs
+      const gmRole = !isGm ? null : others.some((p) => p.gmRole === "primary") ? "co_gm" : "primary";
+
+      return tx.participant.create({
+        data: {
+          eventId: event.id,
+          displayName,
+          isGm,
+          gmRole,
+          timezone: body.timezone || "UTC",
+          editTokenHash: editToken ? hashToken(editToken) : null,
+          waitlistedAt:
+            !isGm && !pendingApproval && openSeats(seated, event.maxPlayers) === 0 ? new Date() : null,
+          pendingApproval,
+          applicationPitch: pendingApproval ? pitch : null,
+        },
+      });
     });
 
-    return NextResponse.json(participant, { status: 201 });
+    publishCampaignChange(event.id, { type: "participant_joined", participantId: participant.id });
+    // Applicants are announced once the GM approves them
+    if (!pendingApproval) {
+      queueParticipantJoinedWebhook(event.id, request.nextUrl.origin, participant);
+    }
+
+    return NextResponse.json(
+      editToken ? { ...participant, editToken } : participant,
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error creating participant:", error);
     return NextResponse.json(
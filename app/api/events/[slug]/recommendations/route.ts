@@ -0,0 +1,112 @@
+import { NextRequest } from "next/server";
+import { fromZonedTime } from "date-fns-tz";
+import { prisma } from "@/lib/db/prisma";
+import { HOME_SCHEDULE_INCLUDE, withHomeSchedule } from "@/lib/db/home-schedule";
+import { toAvailabilityRule } from "@/lib/db/rules";
+import { badRequest, notFound, success, handleApiError } from "@/lib/api/response";
+import { MIN_SESSION_MINUTES, MAX_SESSION_MINUTES } from "@/lib/utils/sessions";
+import {
+  recommendSessions,
+  parseScoringModel,
+  type RecommendationParticipant,
+} from "@/lib/availability";
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+/**
+ * GET /api/events/[slug]/recommendations
+ * Rank candidate sessions in the campaign's date range, best first
+ *
+ * Query params:
+ * - limit: number of recommendations (default 5, max 20)
+ * - duration: session length in minutes (default: the campaign's session length)
+ * - requireGm, gmWeight, attendanceWeight, partialWeight, ifNeededWeight,
+ *   localTimeWeight, preferredStart, preferredEnd: scoring model overrides
+ *   (see parseScoringModel)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const limit = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    const scoring = parseScoringModel(searchParams);
+    if (scoring.error !== undefined) {
+      return badRequest(scoring.error);
+    }
+    const { model } = scoring;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      include: {
+        participants: {
+          where: { waitlistedAt: null, pendingApproval: false },
+          include: { availabilityRules: true, ...HOME_SCHEDULE_INCLUDE },
+        },
+      },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const durationParam = searchParams.get("duration");
+    const sessionMinutes = durationParam === null ? event.sessionLengthMinutes : Number(durationParam);
+    if (
+      !Number.isInteger(sessionMinutes) ||
+      sessionMinutes < MIN_SESSION_MINUTES ||
+      sessionMinutes > MAX_SESSION_MINUTES
+    ) {
+      return badRequest(`duration must be between ${MIN_SESSION_MINUTES} and ${MAX_SESSION_MINUTES} minutes`);
+    }
+
+    if (!event.startDate || !event.endDate) {
+      return badRequest("Set the campaign's date range to get recommendations");
+    }
+
+    // Campaign dates are whole days in the campaign timezone
+    const timezone = event.timezone || "UTC";
+    const startDate = event.startDate.toISOString().split("T")[0];
+    const dayAfterEnd = new Date(event.endDate.getTime() + 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split("T")[0];
+    const window = {
+      start: fromZonedTime(`${startDate}T00:00:00`, timezone),
+      end: fromZonedTime(`${dayAfterEnd}T00:00:00`, timezone),
+    };
+
+    const participants: RecommendationParticipant[] = event.participants.map((p) => ({
+      id: p.id,
+      name: p.displayName,
+      isGm: p.isGm,
+      isRequired: p.isRequired,
+      timezone: p.timezone,
+      rules: withHomeSchedule(p, p.availabilityRules.map(toAvailabilityRule)),
+    }));
+
+    const recommendations = recommendSessions(participants, window, {
+      sessionMinutes,
+      minPlayers: event.minPlayers,
+      maxPlayers: event.maxPlayers,
+      limit,
+      model,
+      notBefore: new Date(),
+    });
+
+    return success({
+      sessionMinutes,
+      model,
+      recommendations,
+    });
+  } catch (error) {
+    return handleApiError(error, "compute session recommendations");
+  }
+}
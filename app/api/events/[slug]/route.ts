@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { HOME_SCHEDULE_INCLUDE } from "@/lib/db/home-schedule";
 import { MeetingType } from "@/lib/generated/prisma";
 import { badRequest, notFound, success, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { fillOpenSeats } from "@/lib/db/waitlist";
 
 export async function GET(
   request: NextRequest,
@@ -27,20 +31,22 @@ export async function GET(
       latest: null,
     };
 
-    // Fetch GM participant with their availability rules
-    const gmParticipant = await prisma.participant.findFirst({
+    // Fetch every GM (primary and co-GMs) with their availability rules
+    const gmParticipants = await prisma.participant.findMany({
       where: { eventId: event.id, isGm: true },
       include: {
         availabilityRules: true,
+        ...HOME_SCHEDULE_INCLUDE,
       },
     });
+    const gmRules = gmParticipants.flatMap((gm) => [...(gm.profile?.homeRules ?? []), ...gm.availabilityRules]);
 
-    if (gmParticipant && gmParticipant.availabilityRules.length > 0) {
-      // Calculate bounds from rules
+    if (gmRules.length > 0) {
+      // Calculate bounds from rules - the widest window any GM can run
       const startTimes: string[] = [];
       const endTimes: string[] = [];
 
-      for (const rule of gmParticipant.availabilityRules) {
+      for (const rule of gmRules) {
         // Only consider available rules
         if (rule.ruleType === "available_pattern" || rule.ruleType === "available_override") {
           startTimes.push(rule.startTime);
@@ -78,12 +84,18 @@ export async function PATCH(
     // Verify event exists
     const existing = await prisma.event.findUnique({
       where: { slug },
+      omit: { adminTokenHash: false },
     });
 
     if (!existing) {
       return notFound("Campaign");
     }
 
+    const authError = await requireAdminToken(request, existing);
+    if (authError) {
+      return authError;
+    }
+
     // Validate session length if provided
     if (body.sessionLengthMinutes !== undefined) {
       const sessionLength = body.sessionLengthMinutes;
@@ -174,6 +186,7 @@ export async function PATCH(
     if (body.minPlayers !== undefined) updateData.minPlayers = body.minPlayers;
     if (body.maxPlayers !== undefined) updateData.maxPlayers = body.maxPlayers;
     if (body.requireCharacterCreation !== undefined) updateData.requireCharacterCreation = body.requireCharacterCreation;
+    if (body.requireApproval !== undefined) updateData.requireApproval = body.requireApproval;
 
     const event = await prisma.event.update({
       where: { slug },
@@ -183,6 +196,16 @@ export async function PATCH(
       },
     });
 
+    publishCampaignChange(event.id, { type: "campaign_updated" });
+
+    // Raising the player limit seats waitlisted players
+    if (body.maxPlayers !== undefined) {
+      const promoted = await fillOpenSeats(event.id, event.maxPlayers);
+      for (const participantId of promoted) {
+        publishCampaignChange(event.id, { type: "participant_updated", participantId });
+      }
+    }
+
     return success(event);
   } catch (error) {
     return handleApiError(error, "update campaign");
@@ -0,0 +1,108 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { HOME_SCHEDULE_INCLUDE, withHomeSchedule } from "@/lib/db/home-schedule";
+import { toAvailabilityRule } from "@/lib/db/rules";
+import { badRequest, notFound, success, handleApiError } from "@/lib/api/response";
+import { MIN_SESSION_MINUTES, MAX_SESSION_MINUTES } from "@/lib/utils/sessions";
+import {
+  planSessionSeries,
+  SERIES_CADENCES,
+  type RecommendationParticipant,
+  type SeriesCadence,
+} from "@/lib/availability";
+
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 10;
+
+/**
+ * GET /api/events/[slug]/series
+ * Rank recurring session slots across the campaign's date range, best first
+ *
+ * Query params:
+ * - cadence: weekly, biweekly or monthly (default weekly)
+ * - limit: number of plans (default 3, max 10)
+ * - duration: session length in minutes (default: the campaign's session length)
+ * - requireGm: only count sessions the GM can attend as playable (default true)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const cadence = (searchParams.get("cadence") ?? "weekly") as SeriesCadence;
+    if (!SERIES_CADENCES.includes(cadence)) {
+      return badRequest(`cadence must be one of: ${SERIES_CADENCES.join(", ")}`);
+    }
+
+    const limit = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    const requireGmParam = searchParams.get("requireGm");
+    if (requireGmParam !== null && requireGmParam !== "true" && requireGmParam !== "false") {
+      return badRequest("requireGm must be true or false");
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      include: {
+        participants: {
+          where: { waitlistedAt: null, pendingApproval: false },
+          include: { availabilityRules: true, ...HOME_SCHEDULE_INCLUDE },
+        },
+      },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const durationParam = searchParams.get("duration");
+    const sessionMinutes = durationParam === null ? event.sessionLengthMinutes : Number(durationParam);
+    if (
+      !Number.isInteger(sessionMinutes) ||
+      sessionMinutes < MIN_SESSION_MINUTES ||
+      sessionMinutes > MAX_SESSION_MINUTES
+    ) {
+      return badRequest(`duration must be between ${MIN_SESSION_MINUTES} and ${MAX_SESSION_MINUTES} minutes`);
+    }
+
+    if (!event.startDate || !event.endDate) {
+      return badRequest("Set the campaign's date range to plan a series");
+    }
+
+    const participants: RecommendationParticipant[] = event.participants.map((p) => ({
+      id: p.id,
+      name: p.displayName,
+      isGm: p.isGm,
+      isRequired: p.isRequired,
+      timezone: p.timezone,
+      rules: withHomeSchedule(p, p.availabilityRules.map(toAvailabilityRule)),
+    }));
+
+    // Campaign dates are whole days in the campaign timezone
+    const plans = planSessionSeries(participants, {
+      cadence,
+      sessionMinutes,
+      timezone: event.timezone || "UTC",
+      startDate: event.startDate.toISOString().split("T")[0],
+      endDate: event.endDate.toISOString().split("T")[0],
+      minPlayers: event.minPlayers,
+      requireGm: requireGmParam !== "false",
+      limit,
+      notBefore: new Date(),
+    });
+
+    return success({
+      sessionMinutes,
+      cadence,
+      plans,
+    });
+  } catch (error) {
+    return handleApiError(error, "plan session series");
+  }
+}
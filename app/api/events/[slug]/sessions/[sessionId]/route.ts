@@ -0,0 +1,135 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { badRequest, notFound, success, noContent, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+import { serializeSession, validateSessionFields } from "@/lib/utils/sessions";
+import { queueSessionConfirmedWebhook } from "@/lib/webhooks/deliver";
+import type { UpdateSessionPayload } from "@/lib/types";
+
+type RouteParams = { params: Promise<{ slug: string; sessionId: string }> };
+
+/**
+ * Load a session, scoped to the campaign it belongs to
+ */
+async function findSession(slug: string, sessionId: string) {
+  return prisma.session.findFirst({
+    where: { id: sessionId, event: { slug } },
+    include: {
+      attendees: { select: { participantId: true } },
+      event: { select: { id: true, adminTokenHash: true } },
+    },
+  });
+}
+
+/**
+ * GET /api/events/[slug]/sessions/[sessionId]
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug, sessionId } = await params;
+
+    const session = await findSession(slug, sessionId);
+    if (!session) {
+      return notFound("Session");
+    }
+
+    return success({ session: serializeSession(session) });
+  } catch (error) {
+    return handleApiError(error, "fetch session");
+  }
+}
+
+/**
+ * PATCH /api/events/[slug]/sessions/[sessionId]
+ * Update time, status, details or expected attendees (GM only).
+ * participantIds, when provided, replaces the attendee list.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug, sessionId } = await params;
+    const body: UpdateSessionPayload = await request.json();
+
+    const validationError = validateSessionFields(body);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    const existing = await findSession(slug, sessionId);
+    if (!existing) {
+      return notFound("Session");
+    }
+
+    const authError = await requireAdminToken(request, existing.event);
+    if (authError) {
+      return authError;
+    }
+
+    const participantIds = body.participantIds
+      ? [...new Set(body.participantIds)]
+      : undefined;
+    if (participantIds && participantIds.length > 0) {
+      const count = await prisma.participant.count({
+        where: { id: { in: participantIds }, eventId: existing.eventId },
+      });
+      if (count !== participantIds.length) {
+        return badRequest("All attendees must be participants in this campaign");
+      }
+    }
+
+    // Build update data
+    const updateData: Record<string, unknown> = {};
+
+    if (body.startsAt !== undefined) updateData.startsAt = new Date(body.startsAt);
+    if (body.durationMinutes !== undefined) updateData.durationMinutes = body.durationMinutes;
+    if (body.status !== undefined) updateData.status = body.status;
+    if (body.title !== undefined) updateData.title = body.title?.trim() || null;
+    if (body.notes !== undefined) updateData.notes = body.notes?.trim() || null;
+    if (participantIds !== undefined) {
+      updateData.attendees = {
+        deleteMany: {},
+        create: participantIds.map((participantId) => ({ participantId })),
+      };
+    }
+
+    const session = await prisma.session.update({
+      where: { id: existing.id },
+      data: updateData,
+      include: { attendees: { select: { participantId: true } } },
+    });
+
+    const serialized = serializeSession(session);
+    if (serialized.status === "confirmed" && existing.status !== "confirmed") {
+      queueSessionConfirmedWebhook(existing.eventId, request.nextUrl.origin, serialized);
+    }
+
+    return success({ session: serialized });
+  } catch (error) {
+    return handleApiError(error, "update session");
+  }
+}
+
+/**
+ * DELETE /api/events/[slug]/sessions/[sessionId]
+ * Removes the session entirely (GM only). Prefer PATCH status "cancelled" to keep history.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug, sessionId } = await params;
+
+    const existing = await findSession(slug, sessionId);
+    if (!existing) {
+      return notFound("Session");
+    }
+
+    const authError = await requireAdminToken(request, existing.event);
+    if (authError) {
+      return authError;
+    }
+
+    await prisma.session.delete({ where: { id: existing.id } });
+
+    return noContent();
+  } catch (error) {
+    return handleApiError(error, "delete session");
+  }
+}
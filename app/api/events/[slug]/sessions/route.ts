@@ -0,0 +1,132 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import type { SessionStatus as PrismaSessionStatus } from "@/lib/generated/prisma";
+import { badRequest, notFound, success, created, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+import { serializeSession, validateSessionFields, getSessionEnd } from "@/lib/utils/sessions";
+import { queueSessionConfirmedWebhook } from "@/lib/webhooks/deliver";
+import type { CampaignSession, CreateSessionPayload } from "@/lib/types";
+
+/**
+ * GET /api/events/[slug]/sessions
+ * List sessions for a campaign, ordered by start time
+ *
+ * Query params:
+ * - status: only sessions with this status
+ * - upcoming=true: only sessions that haven't ended yet
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const upcoming = searchParams.get("upcoming") === "true";
+
+    const statusError = validateSessionFields({ status: status ?? undefined });
+    if (statusError) {
+      return badRequest(statusError);
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        eventId: event.id,
+        ...(status && { status: status as PrismaSessionStatus }),
+      },
+      include: { attendees: { select: { participantId: true } } },
+      orderBy: { startsAt: "asc" },
+    });
+
+    const now = new Date();
+    const serialized: CampaignSession[] = sessions.map(serializeSession);
+
+    return success({
+      sessions: upcoming ? serialized.filter((s) => getSessionEnd(s) > now) : serialized,
+    });
+  } catch (error) {
+    return handleApiError(error, "fetch sessions");
+  }
+}
+
+/**
+ * POST /api/events/[slug]/sessions
+ * Create a session (GM only). Duration defaults to the campaign's session length.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const body: CreateSessionPayload = await request.json();
+
+    if (!body.startsAt) {
+      return badRequest("Session start is required");
+    }
+
+    const validationError = validateSessionFields(body);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true, sessionLengthMinutes: true, adminTokenHash: true },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const authError = await requireAdminToken(request, event);
+    if (authError) {
+      return authError;
+    }
+
+    // Expected attendees must belong to this campaign
+    const participantIds = [...new Set(body.participantIds ?? [])];
+    if (participantIds.length > 0) {
+      const count = await prisma.participant.count({
+        where: { id: { in: participantIds }, eventId: event.id },
+      });
+      if (count !== participantIds.length) {
+        return badRequest("All attendees must be participants in this campaign");
+      }
+    }
+
+    const session = await prisma.session.create({
+      data: {
+        eventId: event.id,
+        startsAt: new Date(body.startsAt),
+        durationMinutes: body.durationMinutes ?? event.sessionLengthMinutes,
+        status: body.status ?? "proposed",
+        title: body.title?.trim() || null,
+        notes: body.notes?.trim() || null,
+        attendees: {
+          create: participantIds.map((participantId) => ({ participantId })),
+        },
+      },
+      include: { attendees: { select: { participantId: true } } },
+    });
+
+    const serialized = serializeSession(session);
+    if (serialized.status === "confirmed") {
+      queueSessionConfirmedWebhook(event.id, request.nextUrl.origin, serialized);
+    }
+
+    return created({ session: serialized });
+  } catch (error) {
+    return handleApiError(error, "create session");
+  }
+}
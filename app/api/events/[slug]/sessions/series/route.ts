@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { badRequest, notFound, created, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+import { serializeSession, validateSessionFields } from "@/lib/utils/sessions";
+import { queueSeriesConfirmedWebhook } from "@/lib/webhooks/deliver";
+import type { CreateSessionSeriesPayload } from "@/lib/types";
+
+// A year of weekly sessions
+const MAX_SERIES_SESSIONS = 52;
+
+/**
+ * POST /api/events/[slug]/sessions/series
+ * Confirm a planned series (GM only): creates one confirmed session per
+ * entry, all sharing a seriesId. See GET /api/events/[slug]/series.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const body: CreateSessionSeriesPayload = await request.json();
+
+    if (!Array.isArray(body.sessions) || body.sessions.length === 0) {
+      return badRequest("At least one session is required");
+    }
+    if (body.sessions.length > MAX_SERIES_SESSIONS) {
+      return badRequest(`A series can have at most ${MAX_SERIES_SESSIONS} sessions`);
+    }
+
+    const fieldError = validateSessionFields({ durationMinutes: body.durationMinutes, title: body.title });
+    if (fieldError) {
+      return badRequest(fieldError);
+    }
+    for (const entry of body.sessions) {
+      if (!entry?.startsAt) {
+        return badRequest("Session start is required");
+      }
+      const validationError = validateSessionFields({
+        startsAt: entry.startsAt,
+        participantIds: entry.participantIds,
+      });
+      if (validationError) {
+        return badRequest(validationError);
+      }
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true, sessionLengthMinutes: true, adminTokenHash: true },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const authError = await requireAdminToken(request, event);
+    if (authError) {
+      return authError;
+    }
+
+    // Expected attendees must belong to this campaign
+    const participantIds = [...new Set(body.sessions.flatMap((s) => s.participantIds ?? []))];
+    if (participantIds.length > 0) {
+      const count = await prisma.participant.count({
+        where: { id: { in: participantIds }, eventId: event.id },
+      });
+      if (count !== participantIds.length) {
+        return badRequest("All attendees must be participants in this campaign");
+      }
+    }
+
+    const seriesId = randomUUID();
+    const title = body.title?.trim() || null;
+    const durationMinutes = body.durationMinutes ?? event.sessionLengthMinutes;
+
+    const sessions = await prisma.$transaction(
+      body.sessions.map((entry) =>
+        prisma.session.create({
+          data: {
+            eventId: event.id,
+            startsAt: new Date(entry.startsAt),
+            durationMinutes,
+            status: "confirmed",
+            title,
+            seriesId,
+            attendees: {
+              create: [...new Set(entry.participantIds ?? [])].map((participantId) => ({ participantId })),
+            },
+          },
+          include: { attendees: { select: { participantId: true } } },
+        })
+      )
+    );
+
+    const serialized = sessions.map(serializeSession);
+    queueSeriesConfirmedWebhook(event.id, request.nextUrl.origin, seriesId, serialized);
+
+    return created({ seriesId, sessions: serialized });
+  } catch (error) {
+    return handleApiError(error, "create session series");
+  }
+}
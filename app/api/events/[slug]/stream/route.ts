@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { notFound, handleApiError } from "@/lib/api/response";
+import { subscribeToCampaign, formatSseMessage } from "@/lib/realtime/campaign-events";
+
+// Keeps proxies from closing an idle connection
+const HEARTBEAT_INTERVAL_MS = 25_000;
+// How long browsers wait before reconnecting after a drop
+const RECONNECT_DELAY_MS = 5_000;
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/events/[slug]/stream
+ * Server-Sent Events feed of changes to the campaign: players joining, leaving
+ * or editing their profile, availability saves, and campaign settings.
+ * Each message is a JSON CampaignChange; clients refetch what changed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (message: string) => {
+          try {
+            controller.enqueue(encoder.encode(message));
+          } catch {
+            // Stream already closed by the client
+            cleanup();
+          }
+        };
+
+        const unsubscribe = subscribeToCampaign(event.id, (change) => send(formatSseMessage(change)));
+        const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+
+        request.signal.addEventListener("abort", () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "open campaign stream");
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import type { WebhookEventType, WebhookFormat } from "@/lib/generated/prisma";
+import { badRequest, notFound, success, noContent, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+import { serializeWebhook, validateWebhookFields } from "@/lib/webhooks/payload";
+import { ALLOW_LOCAL_WEBHOOKS, checkWebhookHost } from "@/lib/webhooks/host";
+
+type RouteParams = { params: Promise<{ slug: string; webhookId: string }> };
+
+/**
+ * Load a webhook, scoped to the campaign it belongs to
+ */
+async function findWebhook(slug: string, webhookId: string) {
+  return prisma.webhook.findFirst({
+    where: { id: webhookId, event: { slug } },
+    include: { event: { select: { id: true, adminTokenHash: true } } },
+  });
+}
+
+/**
+ * PATCH /api/events/[slug]/webhooks/[webhookId]
+ * Change the URL, format, event types, or pause/resume a webhook (GM only)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug, webhookId } = await params;
+    const body = await request.json();
+
+    const validationError = validateWebhookFields(body, ALLOW_LOCAL_WEBHOOKS);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    const existing = await findWebhook(slug, webhookId);
+    if (!existing) {
+      return notFound("Webhook");
+    }
+
+    const authError = await requireAdminToken(request, existing.event);
+    if (authError) {
+      return authError;
+    }
+
+    if (body.url !== undefined) {
+      const hostError = await checkWebhookHost(body.url.trim());
+      if (hostError) {
+        return badRequest(hostError);
+      }
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (body.url !== undefined) updateData.url = body.url.trim();
+    if (body.format !== undefined) updateData.format = body.format as WebhookFormat;
+    if (body.eventTypes !== undefined) updateData.eventTypes = body.eventTypes as WebhookEventType[];
+    if (body.active !== undefined) updateData.active = body.active;
+
+    const webhook = await prisma.webhook.update({
+      where: { id: existing.id },
+      data: updateData,
+    });
+
+    return success({ webhook: serializeWebhook(webhook) });
+  } catch (error) {
+    return handleApiError(error, "update webhook");
+  }
+}
+
+/**
+ * DELETE /api/events/[slug]/webhooks/[webhookId]
+ * Remove a webhook and its delivery log (GM only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug, webhookId } = await params;
+
+    const existing = await findWebhook(slug, webhookId);
+    if (!existing) {
+      return notFound("Webhook");
+    }
+
+    const authError = await requireAdminToken(request, existing.event);
+    if (authError) {
+      return authError;
+    }
+
+    await prisma.webhook.delete({ where: { id: existing.id } });
+
+    return noContent();
+  } catch (error) {
+    return handleApiError(error, "delete webhook");
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest } from "next/server";
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/db/prisma";
+import type { WebhookEventType, WebhookFormat } from "@/lib/generated/prisma";
+import { badRequest, notFound, success, created, handleApiError } from "@/lib/api/response";
+import { requireAdminToken } from "@/lib/api/auth";
+import { isDiscordWebhookUrl, serializeWebhook, validateWebhookFields } from "@/lib/webhooks/payload";
+import { ALLOW_LOCAL_WEBHOOKS, checkWebhookHost } from "@/lib/webhooks/host";
+
+const MAX_WEBHOOKS_PER_CAMPAIGN = 5;
+// Deliveries shown per webhook on the settings page
+const DELIVERY_LOG_LIMIT = 20;
+
+/**
+ * GET /api/events/[slug]/webhooks
+ * List the campaign's webhooks with their recent deliveries (GM only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true, adminTokenHash: true },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const authError = await requireAdminToken(request, event);
+    if (authError) {
+      return authError;
+    }
+
+    const webhooks = await prisma.webhook.findMany({
+      where: { eventId: event.id },
+      include: { deliveries: { orderBy: { createdAt: "desc" }, take: DELIVERY_LOG_LIMIT } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return success({ webhooks: webhooks.map(serializeWebhook) });
+  } catch (error) {
+    return handleApiError(error, "fetch webhooks");
+  }
+}
+
+/**
+ * POST /api/events/[slug]/webhooks
+ * Register a webhook (GM only). Discord channel URLs default to the Discord format.
+ * The signing secret is generated here and returned with the webhook.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const body = await request.json();
+
+    if (!body.url) {
+      return badRequest("Webhook URL is required");
+    }
+
+    const validationError = validateWebhookFields(body, ALLOW_LOCAL_WEBHOOKS);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { slug },
+      select: { id: true, adminTokenHash: true, _count: { select: { webhooks: true } } },
+    });
+
+    if (!event) {
+      return notFound("Campaign");
+    }
+
+    const authError = await requireAdminToken(request, event);
+    if (authError) {
+      return authError;
+    }
+
+    const hostError = await checkWebhookHost(body.url.trim());
+    if (hostError) {
+      return badRequest(hostError);
+    }
+
+    if (event._count.webhooks >= MAX_WEBHOOKS_PER_CAMPAIGN) {
+      return badRequest(`A campaign can have at most ${MAX_WEBHOOKS_PER_CAMPAIGN} webhooks`);
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        eventId: event.id,
+        url: body.url.trim(),
+        format: (body.format ?? (isDiscordWebhookUrl(body.url) ? "discord" : "json")) as WebhookFormat,
+        secret: randomBytes(32).toString("hex"),
+        eventTypes: (body.eventTypes ?? []) as WebhookEventType[],
+      },
+    });
+
+    return created({ webhook: serializeWebhook(webhook) });
+  } catch (error) {
+    return handleApiError(error, "create webhook");
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { importCampaignArchive } from "@/lib/db/campaign-archive";
+import { badRequest, created, handleApiError } from "@/lib/api/response";
+import { validateCampaignArchive } from "@/lib/utils/campaign-archive";
+import type { CampaignArchive } from "@/lib/types";
+
+/**
+ * POST /api/events/import
+ * Restore a campaign from a backup made by GET /api/events/[slug]/archive
+ *
+ * Body: the backup file's JSON
+ *
+ * The campaign keeps its slug unless it's taken here, in which case it gets a
+ * new one from its title. Returns the same shape as POST /api/events, with a
+ * new GM admin token.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    const error = validateCampaignArchive(body);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const result = await importCampaignArchive(body as CampaignArchive);
+
+    return created(result);
+  } catch (error) {
+    return handleApiError(error, "import campaign backup");
+  }
+}
@@ -3,6 +3,7 @@ import { prisma } from "@/lib/db/prisma";
 import { generateSlug } from "@/lib/utils/slug";
 import { MeetingType, CampaignType } from "@/lib/generated/prisma";
 import { badRequest, created, handleApiError } from "@/lib/api/response";
+import { generateToken, hashToken } from "@/lib/api/auth";
 
 export async function POST(request: NextRequest) {
   try {
@@ -94,11 +95,15 @@ export async function POST(request: NextRequest) {
 
     const slug = await generateSlug(body.title);
 
+    // GM admin token - only the hash is stored, the token is returned once below
+    const adminToken = generateToken();
+
     // Use a transaction to create both event and GM participant
     const result = await prisma.$transaction(async (tx) => {
       const event = await tx.event.create({
         data: {
           slug,
+          adminTokenHash: hashToken(adminToken),
           title: body.title.trim(),
           description: body.description?.trim() || null,
           timezone: body.timezone || "UTC",
@@ -112,6 +117,8 @@ export async function POST(request: NextRequest) {
           sessionLengthMinutes,
           customPreSessionInstructions: body.customPreSessionInstructions?.trim() || null,
           playerPrepUrls: body.playerPrepUrls || null,
+          requireCharacterCreation: body.requireCharacterCreation === true,
+          requireApproval: body.requireApproval === true,
 
           // Date range
           startDate: body.startDate ? new Date(body.startDate) : null,
@@ -147,6 +154,7 @@ export async function POST(request: NextRequest) {
           eventId: event.id,
           displayName: "Game Master",
           isGm: true,
+          gmRole: "primary",
           timezone: body.timezone || "UTC",
         },
       });
@@ -154,7 +162,7 @@ export async function POST(request: NextRequest) {
       return { event, gmParticipant };
     });
 
-    return created(result);
+    return created({ ...result, adminToken });
   } catch (error) {
     return handleApiError(error, "create campaign");
   }
@@ -1,10 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { forbidden } from "@/lib/api/response";
+import { requireCampaignAdmin } from "@/lib/api/auth";
+import { MAX_IMAGE_BASE64_LENGTH } from "@/lib/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Custom systems can only be changed by the GM of the campaign that created them
+ */
+function ownershipError(system: { ownerEventId: string | null }, eventId: string) {
+  if (system.ownerEventId && system.ownerEventId !== eventId) {
+    return forbidden("This game system belongs to another campaign");
+  }
+  return null;
+}
+
 // GET /api/game-systems/[id] - Get a single game system
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -31,10 +44,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// PUT /api/game-systems/[id] - Update a game system
+// PUT /api/game-systems/[id]?campaign=<slug> - Update a game system (GM only)
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+
+    const auth = await requireCampaignAdmin(request);
+    if (auth.error) {
+      return auth.error;
+    }
+
     const body = await request.json();
 
     const existing = await prisma.gameSystem.findUnique({
@@ -48,12 +67,17 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const ownerError = ownershipError(existing, auth.eventId);
+    if (ownerError) {
+      return ownerError;
+    }
+
     // Built-in systems can only have their image updated
     if (existing.isBuiltIn) {
       const { imageBase64 } = body;
 
       // Validate image size if provided
-      if (imageBase64 && imageBase64.length > 1.4 * 1024 * 1024) {
+      if (imageBase64 && imageBase64.length > MAX_IMAGE_BASE64_LENGTH) {
         return NextResponse.json(
           { error: "Image must be less than 1MB" },
           { status: 400 }
@@ -86,7 +110,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     // Validate image size if provided
-    if (imageBase64 && imageBase64.length > 1.4 * 1024 * 1024) {
+    if (imageBase64 && imageBase64.length > MAX_IMAGE_BASE64_LENGTH) {
       return NextResponse.json(
         { error: "Image must be less than 1MB" },
         { status: 400 }
@@ -113,11 +137,16 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// DELETE /api/game-systems/[id] - Delete a custom game system
+// DELETE /api/game-systems/[id]?campaign=<slug> - Delete a custom game system (GM only)
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
 
+    const auth = await requireCampaignAdmin(request);
+    if (auth.error) {
+      return auth.error;
+    }
+
     const existing = await prisma.gameSystem.findUnique({
       where: { id },
     });
@@ -137,6 +166,11 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const ownerError = ownershipError(existing, auth.eventId);
+    if (ownerError) {
+      return ownerError;
+    }
+
     await prisma.gameSystem.delete({
       where: { id },
     });
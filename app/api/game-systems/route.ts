@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { requireCampaignAdmin } from "@/lib/api/auth";
+import { MAX_IMAGE_BASE64_LENGTH } from "@/lib/types";
 
 // GET /api/game-systems - List all game systems
 export async function GET() {
@@ -31,9 +33,15 @@ export async function GET() {
   }
 }
 
-// POST /api/game-systems - Create a custom game system
+// POST /api/game-systems?campaign=<slug> - Create a custom game system
+// Requires the campaign's GM admin token; the campaign becomes the system's owner
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireCampaignAdmin(request);
+    if (auth.error) {
+      return auth.error;
+    }
+
     const body = await request.json();
     const { name, description, imageBase64, defaultInstructions, defaultUrls } = body;
 
@@ -57,7 +65,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate image size if provided (rough estimate: base64 is ~33% larger than binary)
-    if (imageBase64 && imageBase64.length > 1.4 * 1024 * 1024) {
+    if (imageBase64 && imageBase64.length > MAX_IMAGE_BASE64_LENGTH) {
       return NextResponse.json(
         { error: "Image must be less than 1MB" },
         { status: 400 }
@@ -72,6 +80,7 @@ export async function POST(request: NextRequest) {
         defaultInstructions: defaultInstructions?.trim() || null,
         defaultUrls: defaultUrls || null,
         isBuiltIn: false, // Custom systems are never built-in
+        ownerEventId: auth.eventId,
       },
       select: {
         id: true,
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { notFound, handleApiError } from "@/lib/api/response";
+import { serializeSession } from "@/lib/utils/sessions";
+import { buildSessionCalendar } from "@/lib/utils/ical";
+import type { CampaignSession } from "@/lib/types";
+
+/**
+ * GET /api/participants/[id]/calendar.ics
+ * iCalendar subscription feed with the sessions this participant is expected at.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const participant = await prisma.participant.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        displayName: true,
+        event: {
+          select: {
+            slug: true,
+            title: true,
+            meetingType: true,
+            meetingLocation: true,
+            meetingRoom: true,
+            customPreSessionInstructions: true,
+          },
+        },
+      },
+    });
+
+    if (!participant) {
+      return notFound("Participant");
+    }
+
+    const attended = await prisma.session.findMany({
+      where: { attendees: { some: { participantId: participant.id } } },
+      include: { attendees: { select: { participantId: true } } },
+      orderBy: { startsAt: "asc" },
+    });
+
+    const { event } = participant;
+    const sessions: CampaignSession[] = attended.map(serializeSession);
+    const campaignUrl = `${new URL(request.url).origin}/${event.slug}`;
+    const calendar = buildSessionCalendar(
+      `${event.title} (${participant.displayName})`,
+      sessions,
+      event,
+      campaignUrl
+    );
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${event.slug}-${participant.id}.ics"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "build participant calendar");
+  }
+}
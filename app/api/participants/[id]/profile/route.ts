@@ -0,0 +1,104 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { detachFromProfile } from "@/lib/db/home-schedule";
+import { badRequest, notFound, success, handleApiError } from "@/lib/api/response";
+import { getParticipantActor, requireParticipantAccess, requireProfileToken } from "@/lib/api/auth";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { queueAvailabilityWebhooks } from "@/lib/webhooks/deliver";
+
+/**
+ * PUT /api/participants/[id]/profile
+ * Inherit a profile's home schedule in this campaign
+ * Needs the participant's edit token and the profile's token (X-Profile-Token).
+ *
+ * Body: { profileId: string }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!body.profileId || typeof body.profileId !== "string") {
+      return badRequest("profileId is required");
+    }
+
+    const authError = await requireParticipantAccess(request, id);
+    if (authError) {
+      return authError;
+    }
+
+    const profile = await prisma.playerProfile.findUnique({
+      where: { id: body.profileId },
+      select: { id: true, tokenHash: true },
+    });
+    if (!profile) {
+      return notFound("Profile");
+    }
+
+    const profileError = requireProfileToken(request, profile);
+    if (profileError) {
+      return profileError;
+    }
+
+    const participant = await prisma.participant.update({
+      where: { id },
+      data: { profileId: profile.id },
+      select: { id: true, eventId: true, displayName: true, profileId: true },
+    });
+
+    publishCampaignChange(participant.eventId, { type: "rules_updated", participantId: id });
+    queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+
+    return success({ participantId: id, profileId: participant.profileId });
+  } catch (error) {
+    return handleApiError(error, "link profile");
+  }
+}
+
+/**
+ * DELETE /api/participants/[id]/profile
+ * Stop inheriting the home schedule; the campaign keeps a copy of it
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const participant = await prisma.participant.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        eventId: true,
+        displayName: true,
+        profile: { select: { homeRules: true } },
+      },
+    });
+    if (!participant) {
+      return notFound("Participant");
+    }
+
+    const authError = await requireParticipantAccess(request, id);
+    if (authError) {
+      return authError;
+    }
+
+    if (participant.profile) {
+      const actor = await getParticipantActor(request, id);
+      await prisma.$transaction((tx) =>
+        detachFromProfile(tx, id, participant.profile!.homeRules, actor)
+      );
+
+      publishCampaignChange(participant.eventId, { type: "rules_updated", participantId: id });
+      queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+    }
+
+    return success({ participantId: id, profileId: null });
+  } catch (error) {
+    return handleApiError(error, "unlink profile");
+  }
+}
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { requireAdminToken, requireParticipantAccess } from "@/lib/api/auth";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { fillOpenSeats } from "@/lib/db/waitlist";
+import { countSeatedPlayers, openSeats } from "@/lib/utils/waitlist";
+import { queueParticipantJoinedWebhook } from "@/lib/webhooks/deliver";
+import { MAX_IMAGE_BASE64_LENGTH, MAX_NOTES_LENGTH, type GmRole } from "@/lib/types";
+
+const GM_ROLES: GmRole[] = ["primary", "co_gm"];
 
 export async function GET(
   request: NextRequest,
@@ -51,6 +59,11 @@ export async function PUT(
       return NextResponse.json({ error: "Participant not found" }, { status: 404 });
     }
 
+    const authError = await requireParticipantAccess(request, id);
+    if (authError) {
+      return authError;
+    }
+
     // Only allow updating specific profile fields
     const updateData: {
       characterName?: string | null;
@@ -71,7 +84,7 @@ export async function PUT(
     }
     if ("characterTokenBase64" in body) {
       // Check size - base64 images can be large
-      if (body.characterTokenBase64 && body.characterTokenBase64.length > 1.4 * 1024 * 1024) {
+      if (body.characterTokenBase64 && body.characterTokenBase64.length > MAX_IMAGE_BASE64_LENGTH) {
         return NextResponse.json(
           { error: "Image must be less than 1MB" },
           { status: 400 }
@@ -80,9 +93,9 @@ export async function PUT(
       updateData.characterTokenBase64 = body.characterTokenBase64 || null;
     }
     if ("notes" in body) {
-      // Enforce 255 char limit on notes
+      // Enforce the notes column limit
       const trimmedNotes = body.notes?.trim() || null;
-      updateData.notes = trimmedNotes ? trimmedNotes.slice(0, 255) : null;
+      updateData.notes = trimmedNotes ? trimmedNotes.slice(0, MAX_NOTES_LENGTH) : null;
     }
 
     // If no fields to update, just return current participant
@@ -95,6 +108,8 @@ export async function PUT(
       data: updateData,
     });
 
+    publishCampaignChange(updated.eventId, { type: "participant_updated", participantId: id });
+
     return NextResponse.json(updated);
   } catch (error) {
     console.error("Error updating participant:", error);
@@ -108,6 +123,7 @@ export async function PUT(
 
 /**
  * PATCH - Update participant display name (for rename functionality)
+ * or GM role, required, waitlist and approval flags (GM only)
  */
 export async function PATCH(
   request: NextRequest,
@@ -119,13 +135,120 @@ export async function PATCH(
 
     const existing = await prisma.participant.findUnique({
       where: { id },
+      include: {
+        event: {
+          select: {
+            id: true,
+            adminTokenHash: true,
+            maxPlayers: true,
+          },
+        },
+      },
     });
 
     if (!existing) {
       return NextResponse.json({ error: "Participant not found" }, { status: 404 });
     }
 
-    const updateData: { displayName?: string } = {};
+    // Only the GM decides who joins, who the group can't play without, and who gets a seat
+    const isGmChange =
+      body.isRequired !== undefined ||
+      body.isWaitlisted !== undefined ||
+      body.isApproved !== undefined ||
+      body.gmRole !== undefined;
+    const authError = isGmChange
+      ? await requireAdminToken(request, existing.event)
+      : await requireParticipantAccess(request, id);
+    if (authError) {
+      return authError;
+    }
+
+    const updateData: {
+      displayName?: string;
+      isGm?: boolean;
+      gmRole?: GmRole | null;
+      isRequired?: boolean;
+      waitlistedAt?: Date | null;
+      pendingApproval?: boolean;
+    } = {};
+
+    if (body.isRequired !== undefined) {
+      if (typeof body.isRequired !== "boolean") {
+        return NextResponse.json(
+          { error: "isRequired must be true or false" },
+          { status: 400 }
+        );
+      }
+      updateData.isRequired = body.isRequired;
+    }
+
+    // Promote or demote regardless of maxPlayers - the GM can overbook
+    if (body.isWaitlisted !== undefined) {
+      if (typeof body.isWaitlisted !== "boolean") {
+        return NextResponse.json(
+          { error: "isWaitlisted must be true or false" },
+          { status: 400 }
+        );
+      }
+      if (body.isWaitlisted && existing.isGm) {
+        return NextResponse.json(
+          { error: "The GM can't be waitlisted" },
+          { status: 400 }
+        );
+      }
+      if (body.isWaitlisted !== (existing.waitlistedAt !== null)) {
+        // Demoted players go to the back of the line
+        updateData.waitlistedAt = body.isWaitlisted ? new Date() : null;
+      }
+    }
+
+    // Applicants are turned down by removing them, so approval only goes one way
+    const isApproving = body.isApproved !== undefined && existing.pendingApproval;
+    if (body.isApproved !== undefined) {
+      if (body.isApproved !== true) {
+        return NextResponse.json(
+          { error: "isApproved can only be true. Remove the player to decline them" },
+          { status: 400 }
+        );
+      }
+      if (isApproving) {
+        updateData.pendingApproval = false;
+        // Approved players take a seat if one is open, otherwise they join the waitlist
+        const seated = countSeatedPlayers(
+          await prisma.participant.findMany({
+            where: { eventId: existing.eventId },
+            select: { isGm: true, waitlistedAt: true, pendingApproval: true },
+          })
+        );
+        if (openSeats(seated, existing.event.maxPlayers) === 0) {
+          updateData.waitlistedAt = new Date();
+        }
+      }
+    }
+
+    // Promote a player to co-GM, step a co-GM down (null), or hand over the primary role
+    if (body.gmRole !== undefined) {
+      if (body.gmRole !== null && !GM_ROLES.includes(body.gmRole)) {
+        return NextResponse.json(
+          { error: "gmRole must be primary, co_gm or null" },
+          { status: 400 }
+        );
+      }
+      if (existing.gmRole === "primary" && body.gmRole !== "primary") {
+        return NextResponse.json(
+          { error: "Make another GM the primary GM first" },
+          { status: 400 }
+        );
+      }
+      updateData.gmRole = body.gmRole;
+      updateData.isGm = body.gmRole !== null;
+      if (body.gmRole !== null) {
+        // GMs don't take seats or wait for approval
+        updateData.isRequired = false;
+        updateData.waitlistedAt = null;
+        updateData.pendingApproval = false;
+      }
+    }
 
     if (body.displayName !== undefined) {
       const displayName = body.displayName?.trim();
@@ -160,18 +283,47 @@ export async function PATCH(
         id: existing.id,
         displayName: existing.displayName,
         isGm: existing.isGm,
+        gmRole: existing.gmRole,
+        isRequired: existing.isRequired,
+        waitlistedAt: existing.waitlistedAt,
+        pendingApproval: existing.pendingApproval,
       });
     }
 
-    const updated = await prisma.participant.update({
-      where: { id },
-      data: updateData,
-    });
+    // One primary per campaign - the previous primary becomes a co-GM
+    const previousPrimary = updateData.gmRole === "primary" && existing.gmRole !== "primary"
+      ? await prisma.participant.findFirst({
+          where: { eventId: existing.eventId, gmRole: "primary" },
+          select: { id: true },
+        })
+      : null;
+
+    const [updated] = await prisma.$transaction([
+      prisma.participant.update({
+        where: { id },
+        data: updateData,
+      }),
+      ...(previousPrimary
+        ? [prisma.participant.update({ where: { id: previousPrimary.id }, data: { gmRole: "co_gm" } })]
+        : []),
+    ]);
+
+    publishCampaignChange(updated.eventId, { type: "participant_updated", participantId: id });
+    if (previousPrimary) {
+      publishCampaignChange(updated.eventId, { type: "participant_updated", participantId: previousPrimary.id });
+    }
+    if (isApproving) {
+      queueParticipantJoinedWebhook(updated.eventId, request.nextUrl.origin, updated);
+    }
 
     return NextResponse.json({
       id: updated.id,
       displayName: updated.displayName,
       isGm: updated.isGm,
+      gmRole: updated.gmRole,
+      isRequired: updated.isRequired,
+      waitlistedAt: updated.waitlistedAt,
+      pendingApproval: updated.pendingApproval,
     });
   } catch (error) {
     console.error("Error updating participant:", error);
@@ -195,6 +347,8 @@ export async function DELETE(
         event: {
           select: {
             id: true,
+            adminTokenHash: true,
+            maxPlayers: true,
           },
         },
       },
@@ -204,11 +358,40 @@ export async function DELETE(
       return NextResponse.json({ error: "Participant not found" }, { status: 404 });
     }
 
+    // Only the GM can remove players
+    const authError = await requireAdminToken(request, participant.event);
+    if (authError) {
+      return authError;
+    }
+
     // Delete participant and all related data (cascade delete handles availability, etc.)
     await prisma.participant.delete({
       where: { id },
     });
 
+    publishCampaignChange(participant.eventId, { type: "participant_removed", participantId: id });
+
+    // Someone has to run the campaign: the longest-serving co-GM takes over
+    if (participant.gmRole === "primary") {
+      const successor = await prisma.participant.findFirst({
+        where: { eventId: participant.eventId, gmRole: "co_gm" },
+        orderBy: { createdAt: "asc" },
+        select: { id: true },
+      });
+      if (successor) {
+        await prisma.participant.update({ where: { id: successor.id }, data: { gmRole: "primary" } });
+        publishCampaignChange(participant.eventId, { type: "participant_updated", participantId: successor.id });
+      }
+    }
+
+    // A seated player leaving frees a seat for the waitlist
+    if (!participant.isGm && !participant.pendingApproval && participant.waitlistedAt === null) {
+      const promoted = await fillOpenSeats(participant.eventId, participant.event.maxPlayers);
+      for (const participantId of promoted) {
+        publishCampaignChange(participant.eventId, { type: "participant_updated", participantId });
+      }
+    }
+
     return NextResponse.json({ success: true, message: "Participant removed" });
   } catch (error) {
     console.error("Error deleting participant:", error);
@@ -0,0 +1,75 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { badRequest, notFound, success, handleApiError } from "@/lib/api/response";
+import { generateToken, hashToken, requireParticipantAccess } from "@/lib/api/auth";
+
+/**
+ * GET /api/participants/[id]/token
+ * Check the edit token sent in X-Participant-Token (used by recovery links).
+ * 200 with the participant if it grants access, 401/403 otherwise.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authError = await requireParticipantAccess(request, id);
+    if (authError) {
+      return authError;
+    }
+
+    const participant = await prisma.participant.findUnique({
+      where: { id },
+      select: { id: true, eventId: true, displayName: true, isGm: true },
+    });
+
+    return success(participant);
+  } catch (error) {
+    return handleApiError(error, "verify participant token");
+  }
+}
+
+/**
+ * POST /api/participants/[id]/token
+ * Issue a new edit token, invalidating the old one.
+ * Lets the GM hand a player a fresh recovery link, or a player revoke lost devices.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const participant = await prisma.participant.findUnique({
+      where: { id },
+      select: { id: true, isGm: true },
+    });
+
+    if (!participant) {
+      return notFound("Participant");
+    }
+
+    // The GM moves between devices with the admin link instead
+    if (participant.isGm) {
+      return badRequest("Use the GM admin link to continue as the GM on another device");
+    }
+
+    const authError = await requireParticipantAccess(request, id);
+    if (authError) {
+      return authError;
+    }
+
+    const editToken = generateToken();
+    await prisma.participant.update({
+      where: { id },
+      data: { editTokenHash: hashToken(editToken) },
+    });
+
+    return success({ editToken });
+  } catch (error) {
+    return handleApiError(error, "issue participant token");
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { detachFromProfile, getPlayerProfile } from "@/lib/db/home-schedule";
+import { noContent, notFound, success, handleApiError } from "@/lib/api/response";
+import { requireProfileToken } from "@/lib/api/auth";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+
+/**
+ * GET /api/profiles/[id]
+ * The profile's home schedule and linked campaigns (X-Profile-Token)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const profile = await prisma.playerProfile.findUnique({
+      where: { id },
+      select: { tokenHash: true },
+    });
+    if (!profile) {
+      return notFound("Profile");
+    }
+
+    const authError = requireProfileToken(request, profile);
+    if (authError) {
+      return authError;
+    }
+
+    return success({ profile: await getPlayerProfile(id) });
+  } catch (error) {
+    return handleApiError(error, "fetch profile");
+  }
+}
+
+/**
+ * DELETE /api/profiles/[id]
+ * Delete the profile; linked campaigns keep a copy of the home schedule
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const profile = await prisma.playerProfile.findUnique({
+      where: { id },
+      include: {
+        homeRules: true,
+        participants: { select: { id: true, eventId: true } },
+      },
+    });
+    if (!profile) {
+      return notFound("Profile");
+    }
+
+    const authError = requireProfileToken(request, profile);
+    if (authError) {
+      return authError;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const participant of profile.participants) {
+        await detachFromProfile(tx, participant.id, profile.homeRules, "participant");
+      }
+      await tx.playerProfile.delete({ where: { id } });
+    });
+
+    for (const participant of profile.participants) {
+      publishCampaignChange(participant.eventId, { type: "rules_updated", participantId: participant.id });
+    }
+
+    return noContent();
+  } catch (error) {
+    return handleApiError(error, "delete profile");
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getPlayerProfile } from "@/lib/db/home-schedule";
+import { badRequest, notFound, success, handleApiError } from "@/lib/api/response";
+import { requireProfileToken } from "@/lib/api/auth";
+import { validateHomeScheduleRules } from "@/lib/availability/home-schedule";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import { queueAvailabilityWebhooks } from "@/lib/webhooks/deliver";
+import type { HomeScheduleRuleInput } from "@/lib/types/availability";
+
+/**
+ * PUT /api/profiles/[id]/rules
+ * Replace the home schedule (X-Profile-Token)
+ * Every linked campaign sees the change, as if the player edited it there.
+ *
+ * Body: { rules: HomeScheduleRuleInput[] } - weekly patterns only
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: { rules?: HomeScheduleRuleInput[] } = await request.json();
+
+    const profile = await prisma.playerProfile.findUnique({
+      where: { id },
+      include: { participants: { select: { id: true, eventId: true, displayName: true } } },
+    });
+    if (!profile) {
+      return notFound("Profile");
+    }
+
+    const authError = requireProfileToken(request, profile);
+    if (authError) {
+      return authError;
+    }
+
+    if (!Array.isArray(body.rules)) {
+      return badRequest("rules must be an array");
+    }
+    const rulesError = validateHomeScheduleRules(body.rules);
+    if (rulesError) {
+      return badRequest(rulesError);
+    }
+    const rules = body.rules;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.homeScheduleRule.deleteMany({ where: { profileId: id } });
+      if (rules.length > 0) {
+        await tx.homeScheduleRule.createMany({
+          data: rules.map((rule) => ({
+            profileId: id,
+            ruleType: rule.ruleType,
+            dayOfWeek: rule.dayOfWeek,
+            startTime: rule.startTime,
+            endTime: rule.endTime,
+            originalTimezone: rule.originalTimezone,
+            originalDayOfWeek: rule.originalDayOfWeek,
+            originalStartTime: rule.originalStartTime ?? null,
+            originalEndTime: rule.originalEndTime ?? null,
+            crossesMidnight: rule.crossesMidnight ?? null,
+            preference: rule.preference || "preferred",
+          })),
+        });
+      }
+      await tx.playerProfile.update({ where: { id }, data: { updatedAt: new Date() } });
+    });
+
+    for (const participant of profile.participants) {
+      publishCampaignChange(participant.eventId, { type: "rules_updated", participantId: participant.id });
+      queueAvailabilityWebhooks(participant.eventId, request.nextUrl.origin, participant);
+    }
+
+    return success({ profile: await getPlayerProfile(id) });
+  } catch (error) {
+    return handleApiError(error, "update home schedule");
+  }
+}
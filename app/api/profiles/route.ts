@@ -0,0 +1,107 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getPlayerProfile } from "@/lib/db/home-schedule";
+import { badRequest, created, handleApiError } from "@/lib/api/response";
+import { generateToken, getParticipantActor, hashToken, requireParticipantAccess } from "@/lib/api/auth";
+import { recordRuleRevision } from "@/lib/db/revisions";
+import { toAvailabilityRule } from "@/lib/db/rules";
+import { toHomeScheduleRules } from "@/lib/availability/home-schedule";
+import { publishCampaignChange } from "@/lib/realtime/campaign-events";
+import type { RevisionActor } from "@/lib/types/availability";
+
+/**
+ * POST /api/profiles
+ * Create a player profile (the token is returned once)
+ *
+ * Body:
+ * - participantId: start the home schedule from this participant's weekly
+ *   patterns and link them to the profile (needs their edit token)
+ * - displayName, timezone: for a profile with an empty home schedule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    let displayName: string = typeof body.displayName === "string" ? body.displayName.trim() : "";
+    let timezone: string = body.timezone || "UTC";
+    let homeRules: ReturnType<typeof toHomeScheduleRules> = [];
+    let source: { id: string; eventId: string; actor: RevisionActor } | null = null;
+
+    if (body.participantId) {
+      const authError = await requireParticipantAccess(request, body.participantId);
+      if (authError) {
+        return authError;
+      }
+
+      const participant = await prisma.participant.findUnique({
+        where: { id: body.participantId },
+        include: { availabilityRules: true },
+      });
+      if (!participant) {
+        return badRequest("Participant not found");
+      }
+      if (participant.profileId) {
+        return badRequest("This player already uses a profile");
+      }
+
+      displayName = displayName || participant.displayName;
+      timezone = body.timezone || participant.timezone;
+      source = {
+        id: participant.id,
+        eventId: participant.eventId,
+        actor: await getParticipantActor(request, participant.id),
+      };
+
+      // Weekly patterns move to the home schedule; everything else stays in the campaign
+      const rules = participant.availabilityRules.map(toAvailabilityRule);
+      homeRules = toHomeScheduleRules(rules);
+    }
+
+    if (!displayName) {
+      return badRequest("Name is required");
+    }
+
+    const profileToken = generateToken();
+
+    const profile = await prisma.$transaction(async (tx) => {
+      const profile = await tx.playerProfile.create({
+        data: {
+          displayName,
+          timezone,
+          tokenHash: hashToken(profileToken),
+          homeRules: { create: homeRules },
+        },
+      });
+
+      if (source) {
+        // The patterns now come from the home schedule; keep the old rule set for undo
+        await recordRuleRevision(tx, source.id, { action: "replace", source: "manual", actor: source.actor });
+        await tx.availabilityRule.deleteMany({
+          where: {
+            participantId: source.id,
+            ruleType: { in: ["available_pattern", "blocked_pattern"] },
+            dayOfWeek: { not: null },
+            validFrom: null,
+            validUntil: null,
+            weeksOfMonth: { isEmpty: true },
+            OR: [{ weekInterval: null }, { weekInterval: 1 }],
+          },
+        });
+        await tx.participant.update({
+          where: { id: source.id },
+          data: { profileId: profile.id },
+        });
+      }
+
+      return profile;
+    });
+
+    if (source) {
+      publishCampaignChange(source.eventId, { type: "rules_updated", participantId: source.id });
+    }
+
+    return created({ profile: await getPlayerProfile(profile.id), profileToken });
+  } catch (error) {
+    return handleApiError(error, "create profile");
+  }
+}
@@ -1,5 +1,6 @@
 import Link from "next/link";
 import { QuickStartForm } from "@/components/campaign/QuickStartForm";
+import { RestoreCampaignBackup } from "@/components/campaign/RestoreCampaignBackup";
 import { Footer } from "@/components/layout/Footer";
 
 export default function Home() {
@@ -28,6 +29,7 @@ export default function Home() {
       <main className="flex-1 py-8 sm:py-12">
         <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
           <QuickStartForm />
+          <RestoreCampaignBackup />
         </div>
       </main>
 
@@ -0,0 +1,354 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { ConfirmationModal } from "@/components/ui/ConfirmationModal";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { useTimezone } from "@/components/layout/TimezoneProvider";
+import {
+  DAY_NAMES,
+  convertPatternFromUTC,
+  prepareRuleForStorage,
+  type HomeScheduleRuleInput,
+  type PlayerProfile,
+} from "@/lib/availability";
+import {
+  clearStoredProfile,
+  getStoredProfile,
+  profileHeaders,
+  storeProfile,
+} from "@/lib/utils/profile-token";
+
+// A home schedule row as edited, in the viewer's timezone
+interface ScheduleRow {
+  key: number;
+  ruleType: HomeScheduleRuleInput["ruleType"];
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  preference: HomeScheduleRuleInput["preference"];
+}
+
+const inputClass =
+  "rounded-lg border border-zinc-300 bg-white px-2 py-1.5 text-sm text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100";
+
+let nextRowKey = 0;
+
+function toRows(profile: PlayerProfile, timezone: string): ScheduleRow[] {
+  return profile.homeRules.map((rule) => {
+    const local = convertPatternFromUTC(
+      rule.dayOfWeek,
+      rule.startTime,
+      rule.endTime,
+      timezone,
+      rule.crossesMidnight ?? undefined
+    );
+    return { key: nextRowKey++, ruleType: rule.ruleType, preference: rule.preference, ...local };
+  });
+}
+
+export function ProfilePage() {
+  const router = useRouter();
+  const { timezone, isLoaded } = useTimezone();
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [rows, setRows] = useState<ScheduleRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [newName, setNewName] = useState("");
+  const [showDelete, setShowDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfile = useCallback(async () => {
+    const stored = getStoredProfile();
+    if (!stored) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/profiles/${stored.id}`, { headers: profileHeaders() });
+      if (res.status === 404) {
+        clearStoredProfile();
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load profile");
+      setProfile(data.profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load profile");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  // Show the schedule in the viewer's timezone once it's known
+  useEffect(() => {
+    if (profile && isLoaded) {
+      setRows(toRows(profile, timezone));
+    }
+  }, [profile, timezone, isLoaded]);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ displayName: newName.trim(), timezone }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create profile");
+      storeProfile({ id: data.profile.id, token: data.profileToken });
+      setProfile(data.profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create profile");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateRow = (key: number, changes: Partial<ScheduleRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    setRows((prev) => [
+      ...prev,
+      {
+        key: nextRowKey++,
+        ruleType: "available_pattern",
+        dayOfWeek: 5,
+        startTime: "18:00",
+        endTime: "22:00",
+        preference: "preferred",
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const rules: HomeScheduleRuleInput[] = rows.map((row) => {
+        const stored = prepareRuleForStorage(row, timezone);
+        return {
+          ruleType: row.ruleType,
+          dayOfWeek: stored.dayOfWeek!,
+          startTime: stored.startTime,
+          endTime: stored.endTime,
+          originalTimezone: stored.originalTimezone,
+          originalDayOfWeek: stored.originalDayOfWeek,
+          originalStartTime: stored.originalStartTime,
+          originalEndTime: stored.originalEndTime,
+          crossesMidnight: stored.crossesMidnight,
+          preference: row.preference,
+        };
+      });
+
+      const res = await fetch(`/api/profiles/${profile.id}/rules`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...profileHeaders() },
+        body: JSON.stringify({ rules }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save home schedule");
+      setProfile(data.profile);
+      setSavedAt(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save home schedule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profile) return;
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/profiles/${profile.id}`, {
+        method: "DELETE",
+        headers: profileHeaders(),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to delete profile");
+      }
+      clearStoredProfile();
+      router.push("/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete profile");
+      setIsSaving(false);
+      setShowDelete(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-zinc-950">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <div className="mx-auto max-w-2xl px-4 py-12 sm:px-6">
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100">Home schedule</h1>
+        <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+          Your usual week, shared by every campaign you link to it. Each campaign can still
+          block out or add time on top. Times are shown in {timezone}.
+        </p>
+
+        {error && (
+          <div className="mt-4 rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {!profile ? (
+          <div className="mt-6 rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+            <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+              No profile in this browser yet. Create one here, or from the availability page of
+              any campaign you&apos;re in to start from that campaign&apos;s routine.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Your name"
+                className={`min-w-0 flex-1 ${inputClass}`}
+              />
+              <Button onClick={handleCreate} loading={isSaving} disabled={!newName.trim()}>
+                Create profile
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="mt-6 rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+              <div className="space-y-2">
+                {rows.length === 0 && (
+                  <p className="text-sm text-zinc-500 dark:text-zinc-400">No weekly times yet.</p>
+                )}
+                {rows.map((row) => (
+                  <div key={row.key} className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={row.ruleType}
+                      onChange={(e) => updateRow(row.key, { ruleType: e.target.value as ScheduleRow["ruleType"] })}
+                      className={inputClass}
+                    >
+                      <option value="available_pattern">Free</option>
+                      <option value="blocked_pattern">Busy</option>
+                    </select>
+                    <select
+                      value={row.dayOfWeek}
+                      onChange={(e) => updateRow(row.key, { dayOfWeek: Number(e.target.value) })}
+                      className={inputClass}
+                    >
+                      {DAY_NAMES.map((name, i) => (
+                        <option key={name} value={i}>{name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="time"
+                      value={row.startTime}
+                      onChange={(e) => updateRow(row.key, { startTime: e.target.value })}
+                      className={inputClass}
+                    />
+                    <span className="text-sm text-zinc-500">to</span>
+                    <input
+                      type="time"
+                      value={row.endTime === "24:00" ? "23:59" : row.endTime}
+                      onChange={(e) => updateRow(row.key, { endTime: e.target.value === "23:59" ? "24:00" : e.target.value })}
+                      className={inputClass}
+                    />
+                    {row.ruleType === "available_pattern" && (
+                      <select
+                        value={row.preference}
+                        onChange={(e) => updateRow(row.key, { preference: e.target.value as ScheduleRow["preference"] })}
+                        className={inputClass}
+                      >
+                        <option value="preferred">Preferred</option>
+                        <option value="if_needed">If needed</option>
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                      className="text-xs text-zinc-400 hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-4 flex items-center gap-2">
+                <Button variant="secondary" size="sm" onClick={addRow}>
+                  Add time
+                </Button>
+                <Button size="sm" onClick={handleSave} loading={isSaving}>
+                  Save
+                </Button>
+                {savedAt && (
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">Saved</span>
+                )}
+              </div>
+            </div>
+
+            <div className="mt-6 rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+              <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Campaigns using it</h2>
+              {profile.campaigns.length === 0 ? (
+                <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+                  None yet. Open a campaign&apos;s availability page and choose &quot;Use my home schedule&quot;.
+                </p>
+              ) : (
+                <ul className="mt-2 space-y-1">
+                  {profile.campaigns.map((c) => (
+                    <li key={c.participantId}>
+                      <Link
+                        href={`/${c.eventSlug}/${c.participantId}`}
+                        className="text-sm text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        {c.eventTitle}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setShowDelete(true)}
+              className="mt-6 text-xs text-zinc-400 hover:text-red-600"
+            >
+              Delete profile
+            </button>
+          </>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={showDelete}
+        onClose={() => setShowDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete profile?"
+        message="Each linked campaign keeps a copy of your home schedule as its own routine."
+        confirmLabel="Delete"
+        loading={isSaving}
+      />
+    </div>
+  );
+}
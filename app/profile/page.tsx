@@ -0,0 +1,10 @@
+import { ProfilePage } from "./ProfilePage";
+
+export const metadata = {
+  title: "Home Schedule | When2Play",
+  description: "Your weekly availability, shared by every campaign you link to it",
+};
+
+export default function Page() {
+  return <ProfilePage />;
+}
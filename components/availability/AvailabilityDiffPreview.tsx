@@ -0,0 +1,166 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { Modal } from "@/components/ui/Modal";
+import { Button } from "@/components/ui/Button";
+import type { AvailabilityDiff, TimeRange } from "@/lib/types/availability";
+
+interface AvailabilityDiffPreviewProps {
+  isOpen: boolean;
+  diff: AvailabilityDiff;
+  interpretation: string;
+  onAccept: () => void;
+  onReject: () => void;
+  isApplying?: boolean;
+}
+
+// Days shown before collapsing into "N more"
+const MAX_DAYS = 14;
+const SLOT_MINUTES = 30;
+const SLOTS = Array.from({ length: (24 * 60) / SLOT_MINUTES }, (_, i) => i * SLOT_MINUTES);
+
+function covers(ranges: TimeRange[], minute: number): boolean {
+  return ranges.some((r) => r.startMinutes <= minute && minute < r.endMinutes);
+}
+
+/**
+ * One day as a row of half-hour cells; changed cells are highlighted
+ */
+function DayBar({
+  ranges,
+  changed,
+  changedClass,
+}: {
+  ranges: TimeRange[];
+  changed: TimeRange[];
+  changedClass: string;
+}) {
+  return (
+    <div className="flex h-3 flex-1 overflow-hidden rounded-sm bg-zinc-100 dark:bg-zinc-800">
+      {SLOTS.map((minute) => (
+        <div
+          key={minute}
+          className={`flex-1 ${
+            covers(changed, minute)
+              ? changedClass
+              : covers(ranges, minute)
+                ? "bg-green-300 dark:bg-green-800"
+                : ""
+          }`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Before/after preview of a parsed availability change, accepted or rejected as a whole
+ */
+export function AvailabilityDiffPreview({
+  isOpen,
+  diff,
+  interpretation,
+  onAccept,
+  onReject,
+  isApplying = false,
+}: AvailabilityDiffPreviewProps) {
+  const days = diff.days.slice(0, MAX_DAYS);
+  const hiddenDays = diff.days.length - days.length;
+  const hasChanges = diff.add.length > 0 || diff.remove.length > 0;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onReject} title="Review changes" size="xl">
+      <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">{interpretation}</p>
+
+        {diff.remove.length > 0 && (
+          <p className="rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+            This replaces your schedule: {diff.remove.length}{" "}
+            {diff.remove.length === 1 ? "rule" : "rules"} will be removed
+          </p>
+        )}
+
+        {days.length > 0 ? (
+          <div>
+            <div className="mb-1 flex items-center gap-2 text-[10px] text-zinc-400">
+              <span className="w-24 shrink-0" />
+              <span className="w-10 shrink-0" />
+              <div className="flex flex-1 justify-between">
+                <span>12am</span>
+                <span>6am</span>
+                <span>12pm</span>
+                <span>6pm</span>
+                <span>12am</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {days.map((day) => (
+                <div key={day.date} className="flex items-start gap-2">
+                  <span className="w-24 shrink-0 text-xs font-medium text-zinc-700 dark:text-zinc-300">
+                    {format(parseISO(day.date), "EEE, MMM d")}
+                  </span>
+                  <div className="flex-1 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="w-10 shrink-0 text-[10px] text-zinc-400">Before</span>
+                      <DayBar ranges={day.before} changed={day.lost} changedClass="bg-red-400 dark:bg-red-600" />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="w-10 shrink-0 text-[10px] text-zinc-400">After</span>
+                      <DayBar ranges={day.after} changed={day.gained} changedClass="bg-green-600 dark:bg-green-500" />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {hiddenDays > 0 && (
+              <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                and {hiddenDays} more {hiddenDays === 1 ? "day" : "days"}
+              </p>
+            )}
+            <div className="mt-3 flex gap-4 text-xs text-zinc-500 dark:text-zinc-400">
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-green-600" /> Gained
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-red-400" /> Lost
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-green-300" /> Unchanged
+              </span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            {hasChanges
+              ? "No changes to available times within this campaign's dates"
+              : "This is already your availability; nothing to change"}
+          </p>
+        )}
+
+        {(diff.summary.added.length > 0 || diff.summary.removed.length > 0) && (
+          <ul className="space-y-0.5 text-xs">
+            {diff.summary.added.map((line, i) => (
+              <li key={`add-${i}`} className="text-green-700 dark:text-green-400">
+                + {line}
+              </li>
+            ))}
+            {diff.summary.removed.map((line, i) => (
+              <li key={`remove-${i}`} className="text-red-600 line-through dark:text-red-400">
+                − {line}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-6 flex justify-end gap-3">
+        <Button variant="secondary" onClick={onReject} disabled={isApplying}>
+          Reject
+        </Button>
+        <Button onClick={onAccept} loading={isApplying} disabled={!hasChanges}>
+          Accept
+        </Button>
+      </div>
+    </Modal>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
+import { format, parseISO } from "date-fns";
 
 // Hook to detect mobile devices
 // Uses pointer: coarse media query which is more reliable than maxTouchPoints
@@ -33,6 +34,7 @@ function useIsMobile() {
   return isMobile;
 }
 import { VirtualizedAvailabilityGrid } from "./VirtualizedAvailabilityGrid";
+import { AvailabilityDiffPreview } from "./AvailabilityDiffPreview";
 import { useAvailabilityRules } from "@/lib/hooks/useAvailabilityRules";
 import { useTimezone } from "@/components/layout/TimezoneProvider";
 import {
@@ -41,16 +43,23 @@ import {
   prepareRuleForStorage,
   convertPatternFromUTC,
   convertPatternBetweenTimezones,
+  describeRecurrence,
+  ruleToInput,
+  inputToRule,
+  type AvailabilityDiff,
   type AvailabilityRule,
+  type PatternRecurrence,
   type CreateAvailabilityRuleInput,
   type DateRange,
 } from "@/lib/availability";
 import { GmCompleteCta, PlayerCompleteCta } from "@/components/ui/FloatingGlassCta";
 import type { TimeSlot } from "@/lib/types";
+import { participantHeaders } from "@/lib/utils/auth-headers";
 
 interface AvailabilityEditorProps {
   participantId: string;
   event: {
+    id?: string;
     slug?: string;
     title: string;
     timezone: string;
@@ -64,8 +73,11 @@ interface AvailabilityEditorProps {
   onSaveComplete?: () => void;
   hasCharacter?: boolean;
   gmAvailability?: TimeSlot[];  // GM's availability for visual indication on player grids (in UTC)
+  inheritedRules?: AvailabilityRule[];  // Home schedule from the player's profile (shown and overridable, never saved here)
 }
 
+const NO_RULES: AvailabilityRule[] = [];
+
 // Day configuration
 const DAYS = [
   { value: 0, label: "Sunday", short: "Su" },
@@ -100,6 +112,53 @@ interface PatternEntry {
   startTime: string;
   endTime: string;
   isAvailable: boolean;
+  ifNeeded?: boolean; // Available, but would rather not
+  validFrom?: string | null; // First date the entry applies (YYYY-MM-DD)
+  validUntil?: string | null; // Last date the entry applies (YYYY-MM-DD)
+  weekInterval?: number | null; // Every N weeks, counted from anchorDate's week
+  anchorDate?: string | null;
+  weeksOfMonth?: number[] | null; // Nth weekday of the month (-1 = last)
+}
+
+// "Repeat" choices for a pattern entry: every N weeks or nth weekday(s) of the month
+const REPEAT_OPTIONS: { value: string; label: string; weekInterval: number | null; weeksOfMonth: number[] | null }[] = [
+  { value: "weekly", label: "Every week", weekInterval: null, weeksOfMonth: null },
+  { value: "w2", label: "Every other week", weekInterval: 2, weeksOfMonth: null },
+  { value: "w3", label: "Every 3 weeks", weekInterval: 3, weeksOfMonth: null },
+  { value: "w4", label: "Every 4 weeks", weekInterval: 4, weeksOfMonth: null },
+  { value: "m1", label: "1st of the month", weekInterval: null, weeksOfMonth: [1] },
+  { value: "m2", label: "2nd of the month", weekInterval: null, weeksOfMonth: [2] },
+  { value: "m3", label: "3rd of the month", weekInterval: null, weeksOfMonth: [3] },
+  { value: "m4", label: "4th of the month", weekInterval: null, weeksOfMonth: [4] },
+  { value: "m-1", label: "Last of the month", weekInterval: null, weeksOfMonth: [-1] },
+  { value: "m1,3", label: "1st & 3rd of the month", weekInterval: null, weeksOfMonth: [1, 3] },
+  { value: "m2,4", label: "2nd & 4th of the month", weekInterval: null, weeksOfMonth: [2, 4] },
+];
+
+function repeatValue(entry: PatternEntry): string {
+  if ((entry.weekInterval ?? 1) > 1) return `w${entry.weekInterval}`;
+  if (entry.weeksOfMonth && entry.weeksOfMonth.length > 0) return `m${entry.weeksOfMonth.join(",")}`;
+  return "weekly";
+}
+
+// Normalized bounds/recurrence fields of a rule or entry (empty means weekly, unbounded)
+function pickRecurrence(source: PatternRecurrence): Required<PatternRecurrence> {
+  return {
+    validFrom: source.validFrom ?? null,
+    validUntil: source.validUntil ?? null,
+    weekInterval: (source.weekInterval ?? 1) > 1 ? source.weekInterval! : null,
+    anchorDate: (source.weekInterval ?? 1) > 1 ? source.anchorDate ?? null : null,
+    weeksOfMonth: source.weeksOfMonth && source.weeksOfMonth.length > 0 ? source.weeksOfMonth : null,
+  };
+}
+
+// Describe a pattern entry's date bounds, e.g. "until Mar 1" or "Feb 1 – Mar 1"
+function formatPatternBounds(entry: PatternEntry): string | null {
+  const label = (date: string) => format(parseISO(date), "MMM d");
+  if (entry.validFrom && entry.validUntil) return `${label(entry.validFrom)} – ${label(entry.validUntil)}`;
+  if (entry.validFrom) return `from ${label(entry.validFrom)}`;
+  if (entry.validUntil) return `until ${label(entry.validUntil)}`;
+  return null;
 }
 
 // Helper to build a set of slot keys from TimeSlot array
@@ -302,17 +361,30 @@ function extractPatternEntries(
   for (const rule of patternRules) {
     if (rule.dayOfWeek === null) continue;
 
-    // Convert from UTC to display timezone
-    const converted = convertPatternFromUTC(
-      rule.dayOfWeek,
-      rule.startTime,
-      rule.endTime,
-      displayTimezone
-    );
+    // Wall-clock patterns viewed in their own timezone need no conversion;
+    // everything else converts from UTC to display timezone
+    const converted =
+      rule.originalTimezone === displayTimezone &&
+      rule.originalDayOfWeek !== null &&
+      rule.originalStartTime &&
+      rule.originalEndTime
+        ? {
+            dayOfWeek: rule.originalDayOfWeek,
+            startTime: rule.originalStartTime,
+            endTime: rule.originalEndTime,
+          }
+        : convertPatternFromUTC(
+            rule.dayOfWeek,
+            rule.startTime,
+            rule.endTime,
+            displayTimezone
+          );
 
     const isAvailable = rule.ruleType === "available_pattern";
+    const ifNeeded = isAvailable && rule.preference === "if_needed";
+    const recurrence = pickRecurrence(rule);
     // Group by DISPLAY timezone times, not UTC
-    const key = `${converted.startTime}-${converted.endTime}-${isAvailable}`;
+    const key = `${converted.startTime}-${converted.endTime}-${isAvailable}-${ifNeeded}-${JSON.stringify(recurrence)}`;
     const existing = groups.get(key);
 
     if (existing) {
@@ -327,6 +399,8 @@ function extractPatternEntries(
         startTime: converted.startTime,
         endTime: converted.endTime,
         isAvailable,
+        ifNeeded,
+        ...recurrence,
       });
     }
   }
@@ -364,7 +438,11 @@ function patternEntriesToRules(
         endTime: prepared.endTime,
         originalTimezone: prepared.originalTimezone,
         originalDayOfWeek: dayOfWeek,
+        originalStartTime: prepared.originalStartTime,
+        originalEndTime: prepared.originalEndTime,
         crossesMidnight: prepared.crossesMidnight, // CRITICAL: Pass through for full-day patterns
+        preference: entry.isAvailable && entry.ifNeeded ? "if_needed" : "preferred",
+        ...pickRecurrence(entry),
         source: "manual",
       });
     }
@@ -381,6 +459,7 @@ export function AvailabilityEditor({
   onSaveComplete,
   hasCharacter = false,
   gmAvailability = [],
+  inheritedRules = NO_RULES,
 }: AvailabilityEditorProps) {
   // Use shared timezone from context (managed by navbar)
   const { timezone } = useTimezone();
@@ -392,15 +471,27 @@ export function AvailabilityEditor({
     rules,
     isLoading,
     error,
+    refetch,
     replaceRules,
+    updateRules,
+    undo,
+    canUndo,
   } = useAvailabilityRules({
     participantId,
+    eventId: event.id,
     fetchOnMount: !initialRules,
   });
 
   // Use initial rules if provided, otherwise fetched rules
   const effectiveRules = initialRules || rules;
 
+  // Rules from calendar imports aren't edited here, but must be kept on every save
+  const importedRules = useMemo(
+    () => effectiveRules.filter(r => r.source === "import"),
+    [effectiveRules]
+  );
+  const importedRulesRef = useRef<AvailabilityRule[]>([]);
+
   // Pattern editor state
   const [patternEntries, setPatternEntries] = useState<PatternEntry[]>([]);
   const [addMode, setAddMode] = useState<"available" | "blocked">("available");
@@ -418,6 +509,8 @@ export function AvailabilityEditor({
   // Refs for latest state (to avoid stale closures in debounced saves)
   const patternEntriesRef = useRef<PatternEntry[]>(patternEntries);
   const localOverrideSlotsRef = useRef<TimeSlot[]>(localOverrideSlots);
+  // Blocked override slots (UTC) - regenerated by grid saves, kept by pattern saves
+  const localBlockedSlotsRef = useRef<TimeSlot[]>([]);
 
   // Track if we're in a user-initiated edit (to prevent useEffect from overwriting)
   const isUserEditingRef = useRef(false);
@@ -427,6 +520,14 @@ export function AvailabilityEditor({
   const [aiInput, setAiInput] = useState("");
   const [isParsingAI, setIsParsingAI] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  // Parsed change awaiting accept/reject
+  const [aiPreview, setAiPreview] = useState<{ diff: AvailabilityDiff; interpretation: string } | null>(null);
+  const [isApplyingAI, setIsApplyingAI] = useState(false);
+
+  // Calendar import state
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
 
   // Track what timezone the pattern entries are currently stored in
   // This is separate from the display timezone - patterns need to be converted before display
@@ -456,22 +557,7 @@ export function AvailabilityEditor({
       // Convert local patterns to rules format for computation
       const localPatternRules = patternEntriesToRules(patternEntries, participantId, sourceTimezone);
       // Convert to AvailabilityRule format with placeholder IDs for computation
-      const computeRules: AvailabilityRule[] = localPatternRules.map((r, i) => ({
-        id: `local-${i}`,
-        participantId: r.participantId,
-        ruleType: r.ruleType,
-        dayOfWeek: r.dayOfWeek,
-        specificDate: r.specificDate,
-        startTime: r.startTime,
-        endTime: r.endTime,
-        originalTimezone: r.originalTimezone,
-        originalDayOfWeek: r.originalDayOfWeek,
-        crossesMidnight: r.crossesMidnight, // CRITICAL: Pass through for full-day patterns
-        reason: null,
-        source: r.source || "manual",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }));
+      const computeRules: AvailabilityRule[] = localPatternRules.map((r, i) => inputToRule(r, `local-${i}`));
       // Add local override slots as rules too (use ref for current state)
       // The ref is always kept current by both grid saves and AI adds
       const overrideRules: AvailabilityRule[] = localOverrideSlotsRef.current.map((slot, i) => ({
@@ -489,14 +575,34 @@ export function AvailabilityEditor({
         createdAt: new Date(),
         updatedAt: new Date(),
       }));
-      const allLocalRules = [...computeRules, ...overrideRules];
+      // Specific-date blocks (deselected pattern slots, parsed exclusions)
+      const blockedRules: AvailabilityRule[] = localBlockedSlotsRef.current.map((slot, i) => ({
+        id: `local-blocked-${i}`,
+        participantId,
+        ruleType: "blocked_override" as const,
+        dayOfWeek: null,
+        specificDate: slot.date,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        originalTimezone: timezone,
+        originalDayOfWeek: null,
+        reason: null,
+        source: "manual" as const,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }));
+      const allLocalRules = [...inheritedRules, ...computeRules, ...overrideRules, ...blockedRules, ...importedRules];
       return rulesToTimeSlots(allLocalRules, dateRange);
     }
     // Initial load before initialization - use server rules directly
-    return rulesToTimeSlots(effectiveRules, dateRange);
-  }, [effectiveRules, dateRange, patternEntries, localOverrideSlots, participantId, timezone]);
+    return rulesToTimeSlots([...inheritedRules, ...effectiveRules], dateRange);
+  }, [effectiveRules, importedRules, inheritedRules, dateRange, patternEntries, localOverrideSlots, participantId, timezone]);
 
   // Keep refs in sync with state
+  useEffect(() => {
+    importedRulesRef.current = importedRules;
+  }, [importedRules]);
+
   useEffect(() => {
     patternEntriesRef.current = patternEntries;
   }, [patternEntries]);
@@ -567,6 +673,13 @@ export function AvailabilityEditor({
     setLocalOverrideSlots(overrideSlots);
     localOverrideSlotsRef.current = overrideSlots;
     setHasGridSlots(overrideSlots.length > 0);
+    localBlockedSlotsRef.current = overrideRules
+      .filter(r => r.specificDate && r.ruleType === "blocked_override" && r.source !== "import")
+      .map(r => ({
+        date: r.specificDate!,
+        startTime: r.startTime,
+        endTime: r.endTime,
+      }));
 
     patternsInitializedRef.current = true;
     patternTimezoneRef.current = timezone;
@@ -589,23 +702,12 @@ export function AvailabilityEditor({
 
       // Compute what patterns would generate (as slot keys) to determine blocked slots
       // Convert patterns to AvailabilityRule format for computation
-      const patternRulesAsAvail: AvailabilityRule[] = patternRules.map((r, i) => ({
-        id: `pattern-${i}`,
-        participantId: r.participantId,
-        ruleType: r.ruleType,
-        dayOfWeek: r.dayOfWeek,
-        specificDate: r.specificDate,
-        startTime: r.startTime,
-        endTime: r.endTime,
-        originalTimezone: r.originalTimezone,
-        originalDayOfWeek: r.originalDayOfWeek,
-        crossesMidnight: r.crossesMidnight,
-        reason: null,
-        source: r.source || "manual",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }));
-      const patternGeneratedSlots = rulesToTimeSlots(patternRulesAsAvail, dateRange);
+      const patternRulesAsAvail: AvailabilityRule[] = patternRules.map((r, i) => inputToRule(r, `pattern-${i}`));
+      // Imported blocks hide pattern slots without the user deselecting them
+      const patternGeneratedSlots = rulesToTimeSlots(
+        [...inheritedRules, ...patternRulesAsAvail, ...importedRulesRef.current],
+        dateRange
+      );
       const patternSlotKeys = buildSlotKeySet(patternGeneratedSlots);
 
       // Build key set from user-selected slots
@@ -621,13 +723,19 @@ export function AvailabilityEditor({
 
       // Convert back to TimeSlot arrays
       const blockedSlots = slotKeysToTimeSlots(blockedSlotKeys);
+      localBlockedSlotsRef.current = blockedSlots;
 
       // Create rules: available_override for selected, blocked_override for deselected pattern slots
       const availableOverrideRules = timeSlotsToRules(slots, participantId, timezone, true, "available_override");
       const blockedOverrideRules = timeSlotsToRules(blockedSlots, participantId, timezone, true, "blocked_override");
 
       // Combine all rules
-      const allRules = [...patternRules, ...availableOverrideRules, ...blockedOverrideRules];
+      const allRules = [
+        ...patternRules,
+        ...availableOverrideRules,
+        ...blockedOverrideRules,
+        ...importedRulesRef.current.map(ruleToInput),
+      ];
 
       try {
         // Pass skipRefetch=true to avoid re-rendering the grid
@@ -641,7 +749,7 @@ export function AvailabilityEditor({
         // Silently handle errors - user can retry
       }
     },
-    [participantId, timezone, replaceRules, onSaveComplete, dateRange]
+    [participantId, timezone, replaceRules, onSaveComplete, dateRange, inheritedRules]
   );
 
   // Debounced save for pattern changes - must be defined before handlers that use it
@@ -675,9 +783,13 @@ export function AvailabilityEditor({
 
       // Override slots from grid are already in UTC - pass alreadyUTC=true
       const overrideRules = timeSlotsToRules(currentOverrideSlots, participantId, timezone, true);
+      const blockedRules = timeSlotsToRules(localBlockedSlotsRef.current, participantId, timezone, true, "blocked_override");
 
       // Skip refetch to avoid overwriting local state
-      const success = await replaceRules([...patternRules, ...overrideRules], true);
+      const success = await replaceRules(
+        [...patternRules, ...overrideRules, ...blockedRules, ...importedRulesRef.current.map(ruleToInput)],
+        true
+      );
       if (success) {
         onSaveComplete?.();
         showSaveCtaRef.current(); // Trigger CTA
@@ -781,10 +893,11 @@ export function AvailabilityEditor({
   }, [markUserEditing, debouncedSavePatterns]);
 
   const updatePatternEntry = useCallback(
-    (id: string, field: "startTime" | "endTime", value: string) => {
+    (id: string, field: "startTime" | "endTime" | "validFrom" | "validUntil", value: string) => {
       markUserEditing();
       setPatternEntries((prev) => {
-        const updated = prev.map((e) => (e.id === id ? { ...e, [field]: value } : e));
+        // Cleared date inputs mean "no bound"
+        const updated = prev.map((e) => (e.id === id ? { ...e, [field]: value || null } : e));
         patternEntriesRef.current = updated;
         return updated;
       });
@@ -803,6 +916,29 @@ export function AvailabilityEditor({
     debouncedSavePatterns();
   }, [markUserEditing, debouncedSavePatterns]);
 
+  const updatePatternRecurrence = useCallback(
+    (id: string, changes: Pick<PatternEntry, "weekInterval" | "anchorDate" | "weeksOfMonth">) => {
+      markUserEditing();
+      setPatternEntries((prev) => {
+        const updated = prev.map((e) => (e.id === id ? { ...e, ...changes } : e));
+        patternEntriesRef.current = updated;
+        return updated;
+      });
+      debouncedSavePatterns();
+    },
+    [markUserEditing, debouncedSavePatterns]
+  );
+
+  const togglePatternIfNeeded = useCallback((id: string) => {
+    markUserEditing();
+    setPatternEntries((prev) => {
+      const updated = prev.map((e) => (e.id === id ? { ...e, ifNeeded: !e.ifNeeded } : e));
+      patternEntriesRef.current = updated;
+      return updated;
+    });
+    debouncedSavePatterns();
+  }, [markUserEditing, debouncedSavePatterns]);
+
   // Force re-extraction of patterns from server rules (used after AI adds rules)
   const forceReExtract = useCallback(() => {
     // Clear user editing flag so useEffect doesn't skip extraction
@@ -823,13 +959,86 @@ export function AvailabilityEditor({
     patternEntriesRef.current = [];
     setLocalOverrideSlots([]);
     localOverrideSlotsRef.current = [];
+    localBlockedSlotsRef.current = [];
     setHasGridSlots(false);
-    // Save empty rules to server
-    await replaceRules([], true);
+    // Save empty rules to server (imported calendar blocks are removed separately)
+    await replaceRules(importedRulesRef.current.map(ruleToInput), true);
     onSaveComplete?.();
   }, [markUserEditing, replaceRules, onSaveComplete]);
 
-  // Handle AI input - add rules without page refresh
+  // Revert the last save (drag, pattern edit, AI change), then reload local state
+  const handleUndo = useCallback(async () => {
+    // A pending pattern save is the latest change - save it so it's what gets undone
+    if (patternSaveTimeoutRef.current) {
+      clearTimeout(patternSaveTimeoutRef.current);
+      patternSaveTimeoutRef.current = null;
+      await savePatterns();
+    }
+    forceReExtract();
+    if (await undo()) {
+      onSaveComplete?.();
+    }
+  }, [savePatterns, forceReExtract, undo, onSaveComplete]);
+
+  // Import busy times from an .ics file - replaces any previous import
+  const handleImportCalendar = useCallback(async (file: File) => {
+    setIsImporting(true);
+    setImportError(null);
+    setImportMessage(null);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("timezone", timezone);
+
+      const res = await fetch(`/api/availability/${participantId}/import`, {
+        method: "POST",
+        headers: participantHeaders(participantId, event.id),
+        body: form,
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to import calendar");
+      }
+
+      await refetch();
+      setImportMessage(
+        data.added > 0
+          ? `Blocked ${data.added} busy ${data.added === 1 ? "time" : "times"} from ${file.name}`
+          : `No busy times in ${file.name} fall within this campaign's dates`
+      );
+      onSaveComplete?.();
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Failed to import calendar");
+    } finally {
+      setIsImporting(false);
+    }
+  }, [participantId, event.id, timezone, refetch, onSaveComplete]);
+
+  const handleRemoveImport = useCallback(async () => {
+    setIsImporting(true);
+    setImportError(null);
+    setImportMessage(null);
+
+    try {
+      const res = await fetch(`/api/availability/${participantId}/import`, {
+        method: "DELETE",
+        headers: participantHeaders(participantId, event.id),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to remove imported calendar");
+      }
+      await refetch();
+      onSaveComplete?.();
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Failed to remove imported calendar");
+    } finally {
+      setIsImporting(false);
+    }
+  }, [participantId, event.id, refetch, onSaveComplete]);
+
+  // Handle AI input - parse into a preview; nothing is saved until it's accepted
   const handleAIParse = useCallback(async () => {
     if (!aiInput.trim()) return;
 
@@ -837,6 +1046,13 @@ export function AvailabilityEditor({
     setAiError(null);
 
     try {
+      // Flush a pending pattern save so the diff is against the latest edits
+      if (patternSaveTimeoutRef.current) {
+        clearTimeout(patternSaveTimeoutRef.current);
+        patternSaveTimeoutRef.current = null;
+        await savePatterns();
+      }
+
       const today = new Date().toISOString().split("T")[0];
 
       const response = await fetch("/api/availability/parse", {
@@ -856,90 +1072,7 @@ export function AvailabilityEditor({
       }
 
       const result = await response.json();
-
-      if (result.rules && result.rules.length > 0) {
-        // Extract patterns from AI rules and merge with existing patterns
-        const aiPatternRules = result.rules.filter(
-          (r: { ruleType: string }) => r.ruleType === "available_pattern" || r.ruleType === "blocked_pattern"
-        );
-        const aiOverrideRules = result.rules.filter(
-          (r: { ruleType: string }) => r.ruleType === "available_override"
-        );
-
-        // Convert AI pattern rules to pattern entries and add to local state
-        // IMPORTANT: AI rules are returned in UTC, must convert to user's timezone for display
-        if (aiPatternRules.length > 0) {
-          markUserEditing();
-          // Group AI patterns by time range and type (after converting from UTC)
-          const newPatterns: PatternEntry[] = [];
-          const groups = new Map<string, PatternEntry>();
-
-          for (const rule of aiPatternRules) {
-            // Convert from UTC to user's display timezone
-            // Pass crossesMidnight for full-day patterns (e.g., 08:00-08:00 with crossesMidnight=true)
-            const converted = convertPatternFromUTC(
-              rule.dayOfWeek,
-              rule.startTime,
-              rule.endTime,
-              timezone,
-              rule.crossesMidnight
-            );
-
-            const isAvailable = rule.ruleType === "available_pattern";
-            const key = `${converted.startTime}-${converted.endTime}-${isAvailable}`;
-            const existing = groups.get(key);
-            if (existing) {
-              if (!existing.days.includes(converted.dayOfWeek)) {
-                existing.days.push(converted.dayOfWeek);
-                existing.days.sort((a: number, b: number) => a - b);
-              }
-            } else {
-              groups.set(key, {
-                id: `ai-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                days: [converted.dayOfWeek],
-                startTime: converted.startTime,
-                endTime: converted.endTime,
-                isAvailable,
-              });
-            }
-          }
-
-          newPatterns.push(...groups.values());
-
-          setPatternEntries((prev) => {
-            const updated = [...prev, ...newPatterns];
-            patternEntriesRef.current = updated;
-            return updated;
-          });
-        }
-
-        // Add override slots to local state
-        if (aiOverrideRules.length > 0) {
-          const newOverrides: TimeSlot[] = aiOverrideRules.map((r: { specificDate: string; startTime: string; endTime: string }) => ({
-            date: r.specificDate,
-            startTime: r.startTime,
-            endTime: r.endTime,
-          }));
-          setLocalOverrideSlots((prev) => {
-            const updated = [...prev, ...newOverrides];
-            localOverrideSlotsRef.current = updated;
-            return updated;
-          });
-          setHasGridSlots(true);
-        }
-
-        // Save all rules (existing patterns + new AI rules) without refetch
-        const currentPatterns = patternEntriesRef.current;
-        const currentOverrides = localOverrideSlotsRef.current;
-        // Use patternTimezoneRef to ensure correct source timezone for pattern conversion
-        const patternRules = patternEntriesToRules(currentPatterns, participantId, patternTimezoneRef.current);
-        // Override slots are in UTC (both from grid and AI) - pass alreadyUTC=true
-        const overrideRules = timeSlotsToRules(currentOverrides, participantId, timezone, true);
-        await replaceRules([...patternRules, ...overrideRules], true);
-
-        setAiInput("");
-        onSaveComplete?.();
-      }
+      setAiPreview({ diff: result.diff, interpretation: result.interpretation });
     } catch (err) {
       setAiError(
         err instanceof Error ? err.message : "Failed to parse availability"
@@ -947,7 +1080,26 @@ export function AvailabilityEditor({
     } finally {
       setIsParsingAI(false);
     }
-  }, [aiInput, timezone, participantId, markUserEditing, replaceRules, onSaveComplete]);
+  }, [aiInput, timezone, participantId, savePatterns]);
+
+  // Apply the previewed change, then rebuild local state from the saved rules
+  const handleAcceptAIPreview = useCallback(async () => {
+    if (!aiPreview) return;
+
+    setIsApplyingAI(true);
+    forceReExtract();
+    const success = await updateRules(aiPreview.diff.add, aiPreview.diff.remove);
+    setIsApplyingAI(false);
+
+    if (success) {
+      setAiPreview(null);
+      setAiInput("");
+      onSaveComplete?.();
+      showSaveCtaRef.current();
+    } else {
+      setAiError("Failed to save availability");
+    }
+  }, [aiPreview, forceReExtract, updateRules, onSaveComplete]);
 
   return (
     <div className="space-y-4">
@@ -984,10 +1136,20 @@ export function AvailabilityEditor({
               disabled={isMobile}
             />
 
-            {/* Hint - hidden on mobile */}
-            <p className="hidden md:block text-xs text-zinc-400 dark:text-zinc-500 mt-1.5">
-              Click and drag to edit availability
-            </p>
+            <div className="flex items-center justify-between mt-1.5">
+              {/* Hint - hidden on mobile */}
+              <p className="hidden md:block text-xs text-zinc-400 dark:text-zinc-500">
+                Click and drag to edit availability
+              </p>
+              {canUndo && (
+                <button
+                  onClick={handleUndo}
+                  className="ml-auto text-xs text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+                >
+                  Undo last change
+                </button>
+              )}
+            </div>
 
             {/* Mobile-only: Tools below grid */}
             <div className="md:hidden mt-4 space-y-4">
@@ -1021,7 +1183,7 @@ export function AvailabilityEditor({
                     disabled={isParsingAI || !aiInput.trim()}
                     className="mt-2 w-full py-2 text-sm font-medium rounded-lg bg-gradient-to-r from-violet-600 to-purple-600 text-white disabled:opacity-40"
                   >
-                    {isParsingAI ? "Processing..." : "Add to Schedule"}
+                    {isParsingAI ? "Processing..." : "Preview Changes"}
                   </button>
                   {aiError && (
                     <p className="mt-2 text-xs text-red-600">{aiError}</p>
@@ -1106,6 +1268,9 @@ export function AvailabilityEditor({
                         </div>
                         <div className="text-xs text-zinc-500">
                           {TIME_OPTIONS.find(t => t.value === entry.startTime)?.label} – {TIME_OPTIONS.find(t => t.value === entry.endTime)?.label}
+                          {entry.isAvailable && entry.ifNeeded && " · if needed"}
+                          {describeRecurrence(entry) && ` · ${describeRecurrence(entry)}`}
+                          {formatPatternBounds(entry) && ` · ${formatPatternBounds(entry)}`}
                         </div>
                       </div>
                       <button
@@ -1270,6 +1435,76 @@ export function AvailabilityEditor({
                           ))}
                         </select>
                       </div>
+
+                      {/* Repeat: weekly, every N weeks, or nth weekday of the month */}
+                      <div className="mt-1 flex items-center gap-1">
+                        <select
+                          value={repeatValue(entry)}
+                          onChange={(e) => {
+                            const option = REPEAT_OPTIONS.find((o) => o.value === e.target.value);
+                            if (!option) return;
+                            updatePatternRecurrence(entry.id, {
+                              weekInterval: option.weekInterval,
+                              // Count alternate weeks from the entry's start, else the campaign's
+                              anchorDate: option.weekInterval
+                                ? entry.anchorDate ?? entry.validFrom ?? event.startDate.split("T")[0]
+                                : null,
+                              weeksOfMonth: option.weeksOfMonth,
+                            });
+                          }}
+                          className="flex-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-1 py-0.5 text-[10px]"
+                        >
+                          {!REPEAT_OPTIONS.some((o) => o.value === repeatValue(entry)) && (
+                            <option value={repeatValue(entry)}>{describeRecurrence(entry)}</option>
+                          )}
+                          {REPEAT_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                          ))}
+                        </select>
+                        {(entry.weekInterval ?? 1) > 1 && (
+                          <input
+                            type="date"
+                            value={entry.anchorDate ?? ""}
+                            onChange={(e) => e.target.value && updatePatternRecurrence(entry.id, { anchorDate: e.target.value })}
+                            title="A week this repeats on"
+                            className="min-w-0 flex-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-1 py-0.5 text-[10px]"
+                          />
+                        )}
+                      </div>
+
+                      {/* Optional date bounds */}
+                      <div className="mt-1 flex items-center gap-1 text-[10px] text-zinc-500 dark:text-zinc-400">
+                        <input
+                          type="date"
+                          value={entry.validFrom ?? ""}
+                          max={entry.validUntil ?? undefined}
+                          onChange={(e) => updatePatternEntry(entry.id, "validFrom", e.target.value)}
+                          title="Starting"
+                          className="min-w-0 flex-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-1 py-0.5 text-[10px]"
+                        />
+                        <span className="text-zinc-400">→</span>
+                        <input
+                          type="date"
+                          value={entry.validUntil ?? ""}
+                          min={entry.validFrom ?? undefined}
+                          onChange={(e) => updatePatternEntry(entry.id, "validUntil", e.target.value)}
+                          title="Until"
+                          className="min-w-0 flex-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-1 py-0.5 text-[10px]"
+                        />
+                      </div>
+
+                      {/* "If needed" toggle - available entries only */}
+                      {entry.isAvailable && (
+                        <label className="mt-1 flex items-center gap-1 text-[10px] text-zinc-500 dark:text-zinc-400">
+                          <input
+                            type="checkbox"
+                            checked={!!entry.ifNeeded}
+                            onChange={() => togglePatternIfNeeded(entry.id)}
+                            className="h-3 w-3"
+                          />
+                          Only if needed
+                        </label>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -1324,12 +1559,64 @@ export function AvailabilityEditor({
               disabled={isParsingAI || !aiInput.trim()}
               className="shrink-0 px-5 py-2 text-sm font-medium rounded-lg bg-gradient-to-r from-violet-600 to-purple-600 text-white shadow-md shadow-purple-500/20 hover:from-violet-500 hover:to-purple-500 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
             >
-              {isParsingAI ? "Adding..." : "Add to Schedule"}
+              {isParsingAI ? "Processing..." : "Preview Changes"}
             </button>
           </div>
         </div>
       )}
 
+      {/* Calendar import */}
+      {!isLoading && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          <label
+            className={`inline-flex cursor-pointer items-center gap-1.5 rounded-lg border border-zinc-200 px-3 py-1.5 font-medium text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800 ${
+              isImporting ? "pointer-events-none opacity-50" : ""
+            }`}
+          >
+            <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            {isImporting ? "Importing..." : importedRules.length > 0 ? "Re-import calendar (.ics)" : "Import busy times (.ics)"}
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              disabled={isImporting}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) handleImportCalendar(file);
+              }}
+            />
+          </label>
+          {importedRules.length > 0 && !isImporting && (
+            <button
+              onClick={handleRemoveImport}
+              className="text-zinc-500 hover:text-red-600 dark:text-zinc-400"
+            >
+              Remove imported calendar
+            </button>
+          )}
+          {importMessage && (
+            <span className="text-zinc-500 dark:text-zinc-400">{importMessage}</span>
+          )}
+          {importError && (
+            <span className="text-red-600 dark:text-red-400">{importError}</span>
+          )}
+        </div>
+      )}
+
+      {aiPreview && (
+        <AvailabilityDiffPreview
+          isOpen
+          diff={aiPreview.diff}
+          interpretation={aiPreview.interpretation}
+          onAccept={handleAcceptAIPreview}
+          onReject={() => setAiPreview(null)}
+          isApplying={isApplyingAI}
+        />
+      )}
+
       {/* Floating Glass CTAs - persistent once saved */}
       {savedAt && event.slug && (
         isGm ? (
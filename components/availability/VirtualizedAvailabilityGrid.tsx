@@ -38,6 +38,7 @@ function convertAvailabilityToLocal(
 
   for (const slot of availability) {
     const start = utcToLocal(slot.startTime, slot.date, timezone);
+    const flag = slot.ifNeeded ? { ifNeeded: true } : {};
 
     // Handle "24:00" as "end of this day" = "00:00 of next day"
     let end;
@@ -57,6 +58,7 @@ function convertAvailabilityToLocal(
           date: start.date,
           startTime: start.time,
           endTime: end.time,
+          ...flag,
         });
       }
     } else {
@@ -66,6 +68,7 @@ function convertAvailabilityToLocal(
         date: start.date,
         startTime: start.time,
         endTime: "24:00",
+        ...flag,
       });
       // Second part: from midnight to end time on end date
       if (end.time > "00:00") {
@@ -73,6 +76,7 @@ function convertAvailabilityToLocal(
           date: end.date,
           startTime: "00:00",
           endTime: end.time,
+          ...flag,
         });
       }
     }
@@ -84,22 +88,27 @@ function convertAvailabilityToLocal(
 
 /**
  * Merge adjacent slots on the same date to create continuous ranges
+ * "If needed" slots only merge with other "if needed" slots
  */
 function mergeAdjacentSlots(slots: TimeSlot[]): TimeSlot[] {
   if (slots.length === 0) return [];
 
-  // Group by date
-  const byDate = new Map<string, { startTime: string; endTime: string }[]>();
+  // Group by date and preference
+  const byDate = new Map<string, { date: string; ifNeeded: boolean; slots: { startTime: string; endTime: string }[] }>();
   for (const slot of slots) {
-    if (!byDate.has(slot.date)) {
-      byDate.set(slot.date, []);
+    const ifNeeded = !!slot.ifNeeded;
+    const key = `${slot.date}|${ifNeeded}`;
+    if (!byDate.has(key)) {
+      byDate.set(key, { date: slot.date, ifNeeded, slots: [] });
     }
-    byDate.get(slot.date)!.push({ startTime: slot.startTime, endTime: slot.endTime });
+    byDate.get(key)!.slots.push({ startTime: slot.startTime, endTime: slot.endTime });
   }
 
   const result: TimeSlot[] = [];
 
-  for (const [date, daySlots] of byDate) {
+  for (const { date, ifNeeded, slots: daySlots } of byDate.values()) {
+    const flag = ifNeeded ? { ifNeeded: true } : {};
+
     // Sort by start time
     daySlots.sort((a, b) => a.startTime.localeCompare(b.startTime));
 
@@ -116,11 +125,11 @@ function mergeAdjacentSlots(slots: TimeSlot[]): TimeSlot[] {
         };
       } else {
         // Gap: push current and start new
-        result.push({ date, ...current });
+        result.push({ date, ...current, ...flag });
         current = next;
       }
     }
-    result.push({ date, ...current });
+    result.push({ date, ...current, ...flag });
   }
 
   return result;
@@ -174,6 +183,9 @@ function convertAvailabilityToUTC(
 // Register AG Grid modules
 ModuleRegistry.registerModules([AllCommunityModule]);
 
+// Stable default so heatmap rows aren't rebuilt every render
+const NO_REQUIRED_PARTICIPANTS: string[] = [];
+
 interface Participant {
   id: string;
   name: string;
@@ -194,9 +206,11 @@ interface VirtualizedAvailabilityGridProps {
   participants?: Participant[];  // Participant availability (in UTC)
   onHoverSlot?: (date: string, time: string, available: Participant[], unavailable: Participant[]) => void;
   onLeaveSlot?: () => void;
+  onSelectSlot?: (date: string, time: string, available: Participant[], unavailable: Participant[]) => void;  // Heatmap cell click
   timezone?: string;  // User's display timezone (defaults to UTC)
   gmAvailability?: TimeSlot[];  // GM's availability for visual indication (in UTC)
-  gmParticipantId?: string;  // GM's participant ID - excluded from heatmap counts
+  gmParticipantIds?: string[];  // GM participant IDs - excluded from heatmap counts
+  requiredParticipantIds?: string[];  // Heatmap outlines slots where any of these is missing
   disabled?: boolean;  // Disable interactions (view-only mode)
   compact?: boolean;  // Use smaller cell sizes
 }
@@ -261,6 +275,7 @@ function serializeAvailability(availability: TimeSlot[]): string {
 }
 
 // Get heatmap background color - smooth gradient from empty to full
+// count may be fractional: "if needed" availability counts for half
 function getHeatmapBgColor(count: number, total: number, isDark: boolean): string {
   if (total === 0 || count === 0) return isDark ? "#27272a" : "#f4f4f5";
 
@@ -324,9 +339,11 @@ export function VirtualizedAvailabilityGrid({
   participants = [],
   onHoverSlot,
   onLeaveSlot,
+  onSelectSlot,
   timezone = "UTC",
   gmAvailability = [],
-  gmParticipantId,
+  gmParticipantIds,
+  requiredParticipantIds = NO_REQUIRED_PARTICIPANTS,
   disabled = false,
   compact = false,
 }: VirtualizedAvailabilityGridProps) {
@@ -349,11 +366,11 @@ export function VirtualizedAvailabilityGrid({
     }));
   }, [participants, userTimezone]);
 
-  // Filter out GM from participants for heatmap counting (GM availability shown as stripes, not counted)
+  // Filter out GMs from participants for heatmap counting (GM availability shown as stripes, not counted)
   const heatmapParticipants = useMemo(() => {
-    if (!gmParticipantId) return displayParticipants;
-    return displayParticipants.filter(p => p.id !== gmParticipantId);
-  }, [displayParticipants, gmParticipantId]);
+    if (!gmParticipantIds?.length) return displayParticipants;
+    return displayParticipants.filter(p => !gmParticipantIds.includes(p.id));
+  }, [displayParticipants, gmParticipantIds]);
 
   // Convert GM availability from UTC to user's timezone for visual indication
   const displayGmAvailability = useMemo(() => {
@@ -485,10 +502,12 @@ export function VirtualizedAvailabilityGrid({
   }, [userTimezone]);
 
   // Build heatmap data (excludes GM - their availability shown as stripes instead)
+  // ifNeeded holds the participants in each slot who would rather not play then
   const heatmapData = useMemo(() => {
-    if (mode !== "heatmap") return new Map<string, Set<string>>();
-
     const map = new Map<string, Set<string>>();
+    const ifNeeded = new Map<string, Set<string>>();
+    if (mode !== "heatmap") return { map, ifNeeded };
+
     for (const p of heatmapParticipants) {
       for (const slot of p.availability) {
         // Skip invalid slots where start >= end
@@ -502,12 +521,16 @@ export function VirtualizedAvailabilityGrid({
           const key = `${slot.date}-${currentTime}`;
           if (!map.has(key)) map.set(key, new Set());
           map.get(key)!.add(p.id);
+          if (slot.ifNeeded) {
+            if (!ifNeeded.has(key)) ifNeeded.set(key, new Set());
+            ifNeeded.get(key)!.add(p.id);
+          }
           currentTime = addThirtyMinutes(currentTime);
           iterations++;
         }
       }
     }
-    return map;
+    return { map, ifNeeded };
   }, [mode, heatmapParticipants]);
 
   // Build all participants data for hover tooltips (includes GM)
@@ -575,7 +598,15 @@ export function VirtualizedAvailabilityGrid({
             lookupDate = nextDayDateStr;
           }
           const key = `${lookupDate}-${time}`;
-          row[dateStr] = heatmapData.get(key)?.size || 0;
+          // "If needed" availability counts for half, so tentative cells shade lighter
+          const count = heatmapData.map.get(key)?.size || 0;
+          const ifNeededCount = heatmapData.ifNeeded.get(key)?.size || 0;
+          row[dateStr] = count - ifNeededCount / 2;
+          // Flag playable-looking slots a required participant can't make
+          if (count > 0 && requiredParticipantIds.length > 0) {
+            const available = allParticipantsData.get(key);
+            row[`${dateStr}:missingRequired`] = requiredParticipantIds.some(id => !available?.has(id));
+          }
         }
       } else {
         // For edit mode, just set a placeholder - styling handles the rest
@@ -586,7 +617,7 @@ export function VirtualizedAvailabilityGrid({
 
       return row;
     });
-  }, [timeSlots, dateStrings, mode, heatmapData, isOvernightWindow, displayTimeWindow.latest, allDates, userTimezone]);
+  }, [timeSlots, dateStrings, mode, heatmapData, allParticipantsData, requiredParticipantIds, isOvernightWindow, displayTimeWindow.latest, allDates, userTimezone]);
 
   // Calculate pending cells during drag (no state update)
   const calculatePendingCells = useCallback((
@@ -640,12 +671,45 @@ export function VirtualizedAvailabilityGrid({
     };
   }, []);
 
+  // Resolve who is available in a heatmap cell
+  // For overnight windows, after-midnight times need to look up the next day
+  const getHeatmapSlotParticipants = useCallback((field: string, time: string) => {
+    let lookupDate = field;
+    const isAfterMidnight = isOvernightWindow && time < displayTimeWindow.latest;
+    if (isAfterMidnight) {
+      const colIdx = dateStrings.indexOf(field);
+      if (colIdx !== -1) {
+        lookupDate = colIdx + 1 < dateStrings.length
+          ? dateStrings[colIdx + 1]
+          : formatInTimeZone(addDays(allDates[colIdx], 1), userTimezone, "yyyy-MM-dd");
+      }
+    }
+
+    const key = `${lookupDate}-${time}`;
+    // Use allParticipantsData (includes GM) for hover tooltips
+    const availableIds = allParticipantsData.get(key) || new Set();
+
+    return {
+      available: participants.filter(p => availableIds.has(p.id)),
+      unavailable: participants.filter(p => !availableIds.has(p.id)),
+    };
+  }, [allParticipantsData, participants, isOvernightWindow, displayTimeWindow.latest, dateStrings, allDates, userTimezone]);
+
   // Mouse down handler
   const handleCellMouseDown = useCallback((event: CellMouseDownEvent) => {
-    if (mode !== "edit" || disabled) return;
     const field = event.colDef.field;
     if (!field || field === "time" || field === "_timeDisplay") return;
 
+    // Heatmap click
+    if (mode === "heatmap" && onSelectSlot) {
+      const time = timeSlots[event.data.rowIndex as number];
+      const { available, unavailable } = getHeatmapSlotParticipants(field, time);
+      onSelectSlot(field, time, available, unavailable);
+      return;
+    }
+
+    if (mode !== "edit" || disabled) return;
+
     const rowIndex = event.data.rowIndex as number;
     const key = `${field}-${timeSlots[rowIndex]}`;
     const isCurrentlySelected = selectedSlotsRef.current.has(key);
@@ -656,7 +720,7 @@ export function VirtualizedAvailabilityGrid({
     pendingCellsRef.current = new Set([key]);
 
     refreshGrid();
-  }, [mode, timeSlots, refreshGrid, disabled]);
+  }, [mode, timeSlots, refreshGrid, disabled, onSelectSlot, getHeatmapSlotParticipants]);
 
   // Mouse over handler
   const handleCellMouseOver = useCallback((event: CellMouseOverEvent) => {
@@ -667,25 +731,7 @@ export function VirtualizedAvailabilityGrid({
     if (mode === "heatmap" && onHoverSlot) {
       const rowIndex = event.data.rowIndex as number;
       const time = timeSlots[rowIndex];
-
-      // For overnight windows, after-midnight times need to look up the next day
-      let lookupDate = field;
-      const isAfterMidnight = isOvernightWindow && time < displayTimeWindow.latest;
-      if (isAfterMidnight) {
-        const colIdx = dateStrings.indexOf(field);
-        if (colIdx !== -1) {
-          lookupDate = colIdx + 1 < dateStrings.length
-            ? dateStrings[colIdx + 1]
-            : formatInTimeZone(addDays(allDates[colIdx], 1), userTimezone, "yyyy-MM-dd");
-        }
-      }
-
-      const key = `${lookupDate}-${time}`;
-      // Use allParticipantsData (includes GM) for hover tooltips
-      const availableIds = allParticipantsData.get(key) || new Set();
-
-      const available = participants.filter(p => availableIds.has(p.id));
-      const unavailable = participants.filter(p => !availableIds.has(p.id));
+      const { available, unavailable } = getHeatmapSlotParticipants(field, time);
 
       onHoverSlot(field, time, available, unavailable);
       return;
@@ -708,7 +754,7 @@ export function VirtualizedAvailabilityGrid({
       pendingCellsRef.current = newPending;
       refreshGrid();
     }
-  }, [mode, calculatePendingCells, allParticipantsData, participants, onHoverSlot, timeSlots, refreshGrid, isOvernightWindow, displayTimeWindow.latest, dateStrings, allDates, userTimezone, disabled]);
+  }, [mode, calculatePendingCells, getHeatmapSlotParticipants, onHoverSlot, timeSlots, refreshGrid, disabled]);
 
   // Mouse up handler
   const handleMouseUp = useCallback(() => {
@@ -832,6 +878,7 @@ export function VirtualizedAvailabilityGrid({
     const time = timeSlots[rowIndex];
     const count = params.value as number;
     const isGmAvailable = time && gmAvailableSlots.has(`${field}-${time}`);
+    const isMissingRequired = params.data?.[`${field}:missingRequired`] === true;
 
     const baseBgColor = getHeatmapBgColor(count, heatmapParticipants.length, isDarkMode);
 
@@ -850,6 +897,11 @@ export function VirtualizedAvailabilityGrid({
       style.backgroundSize = "9px 9px";
     }
 
+    // Outline slots a required participant can't make
+    if (isMissingRequired) {
+      style.boxShadow = `inset 0 0 0 1px ${isDarkMode ? "rgba(248,113,113,0.8)" : "rgba(220,38,38,0.7)"}`;  // red-400 / red-600
+    }
+
     return style;
   }, [heatmapParticipants.length, isDarkMode, timeSlots, gmAvailableSlots, disabled]);
 
@@ -1125,23 +1177,35 @@ export function VirtualizedAvailabilityGrid({
         </div>
       )}
 
-      {mode === "heatmap" && gmAvailability.length > 0 && (
+      {mode === "heatmap" && (gmAvailability.length > 0 || requiredParticipantIds.length > 0) && (
         <div className="mt-2 hidden justify-end sm:flex">
           <div className="flex items-center gap-3 text-xs text-zinc-500 dark:text-zinc-400">
-            <div className="flex items-center gap-1.5">
-              <div
-                className="h-3 w-3 rounded bg-zinc-300 dark:bg-zinc-600"
-                style={{
-                  backgroundImage: "repeating-linear-gradient(-45deg, transparent, transparent 3px, rgba(37,99,235,0.4) 3px, rgba(37,99,235,0.4) 6px)",
-                  backgroundSize: "9px 9px"
-                }}
-              />
-              <span>GM available</span>
-            </div>
+            {gmAvailability.length > 0 && (
+              <div className="flex items-center gap-1.5">
+                <div
+                  className="h-3 w-3 rounded bg-zinc-300 dark:bg-zinc-600"
+                  style={{
+                    backgroundImage: "repeating-linear-gradient(-45deg, transparent, transparent 3px, rgba(37,99,235,0.4) 3px, rgba(37,99,235,0.4) 6px)",
+                    backgroundSize: "9px 9px"
+                  }}
+                />
+                <span>GM available</span>
+              </div>
+            )}
+            {requiredParticipantIds.length > 0 && (
+              <div className="flex items-center gap-1.5">
+                <div className="h-3 w-3 rounded bg-emerald-400 ring-1 ring-inset ring-red-600 dark:bg-emerald-600 dark:ring-red-400" />
+                <span>Required player missing</span>
+              </div>
+            )}
             <div className="flex items-center gap-1.5">
               <div className="h-3 w-3 rounded bg-emerald-400 dark:bg-emerald-600" />
               <span>Available</span>
             </div>
+            <div className="flex items-center gap-1.5">
+              <div className="h-3 w-3 rounded bg-emerald-200 dark:bg-emerald-300" />
+              <span>If needed</span>
+            </div>
             <div className="flex items-center gap-1.5">
               <div className="h-3 w-3 rounded border border-zinc-200 bg-zinc-100 dark:border-zinc-700 dark:bg-zinc-800" />
               <span>No availability</span>
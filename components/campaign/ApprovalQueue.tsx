@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { adminHeaders } from "@/lib/utils/auth-headers";
+
+interface Applicant {
+  id: string;
+  displayName: string;
+  applicationPitch: string | null;
+}
+
+interface ApprovalQueueProps {
+  eventId: string;
+  applicants: Applicant[];
+  onResolved: (participantId: string, approved: boolean) => void;
+}
+
+/**
+ * GM-only list of players waiting to join, with their pitch.
+ * Declining removes the applicant.
+ */
+export function ApprovalQueue({ eventId, applicants, onResolved }: ApprovalQueueProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const resolve = async (applicant: Applicant, approve: boolean) => {
+    setBusyId(applicant.id);
+    try {
+      const res = await fetch(`/api/participants/${applicant.id}`, approve
+        ? {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json", ...adminHeaders(eventId) },
+            body: JSON.stringify({ isApproved: true }),
+          }
+        : { method: "DELETE", headers: adminHeaders(eventId) });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update application");
+      }
+      onResolved(applicant.id, approve);
+    } catch (error) {
+      console.error("Failed to resolve application:", error);
+      alert(error instanceof Error ? error.message : "Failed to update application");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (applicants.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <h2 className="mb-3 text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+        Waiting for approval ({applicants.length})
+      </h2>
+      <ul className="space-y-2">
+        {applicants.map((applicant) => (
+          <li
+            key={applicant.id}
+            className="flex items-start justify-between gap-3 rounded-lg bg-zinc-50 px-3 py-2.5 dark:bg-zinc-800/50"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{applicant.displayName}</p>
+              {applicant.applicationPitch ? (
+                <p className="mt-0.5 whitespace-pre-line text-xs text-zinc-600 dark:text-zinc-400">
+                  {applicant.applicationPitch}
+                </p>
+              ) : (
+                <p className="mt-0.5 text-xs italic text-zinc-400 dark:text-zinc-500">No message</p>
+              )}
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <button
+                onClick={() => resolve(applicant, false)}
+                disabled={busyId === applicant.id}
+                className="rounded-lg px-3 py-1.5 text-xs font-medium text-zinc-600 hover:bg-zinc-200 disabled:opacity-50 dark:text-zinc-300 dark:hover:bg-zinc-700"
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => resolve(applicant, true)}
+                disabled={busyId === applicant.id}
+                className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Approve
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
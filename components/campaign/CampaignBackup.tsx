@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { adminHeaders } from "@/lib/utils/auth-headers";
+
+interface CampaignBackupProps {
+  eventId: string;
+  slug: string;
+}
+
+/**
+ * Download a backup of the campaign to restore later or on another instance
+ */
+export function CampaignBackup({ eventId, slug }: CampaignBackupProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/events/${slug}/archive`, { headers: adminHeaders(eventId) });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to download backup");
+      }
+
+      // The route names the file; fall back to the slug
+      const disposition = res.headers.get("Content-Disposition") ?? "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? `${slug}-backup.json`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download backup");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Backup</h2>
+          <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+            Settings, party, characters and everyone&apos;s availability in one file. Restore it
+            from the home page, here or on another When2Play server.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={isDownloading}
+          className="shrink-0 rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+        >
+          {isDownloading ? "Preparing..." : "Download backup"}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -3,17 +3,20 @@
 import { useState, useCallback, useEffect } from "react";
 import { ImageUpload } from "./ImageUpload";
 import type { GameSystem, PrepUrl } from "@/lib/types";
+import { adminHeaders } from "@/lib/utils/auth-headers";
 
 interface GameSystemModalProps {
   isOpen: boolean;
   onClose: () => void;
   onCreated: (system: GameSystem) => void;
+  campaign: { id: string; slug: string };  // Campaign that will own the new system
 }
 
 export function GameSystemModal({
   isOpen,
   onClose,
   onCreated,
+  campaign,
 }: GameSystemModalProps) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
@@ -78,9 +81,9 @@ export function GameSystemModal({
           (u) => u.label.trim() && u.url.trim()
         );
 
-        const res = await fetch("/api/game-systems", {
+        const res = await fetch(`/api/game-systems?campaign=${campaign.slug}`, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...adminHeaders(campaign.id) },
           body: JSON.stringify({
             name: name.trim(),
             description: description.trim() || null,
@@ -104,7 +107,7 @@ export function GameSystemModal({
         setIsSubmitting(false);
       }
     },
-    [name, description, imageBase64, defaultInstructions, defaultUrls, onCreated, onClose]
+    [name, description, imageBase64, defaultInstructions, defaultUrls, onCreated, onClose, campaign]
   );
 
   if (!isOpen) return null;
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState, useEffect, useCallback, type ReactNode } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/Button";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import {
+  ADMIN_TOKEN_PARAM,
+  storeAdminToken,
+  parseAdminToken,
+} from "@/lib/utils/admin-token";
+import { adminHeaders } from "@/lib/utils/auth-headers";
+
+interface GmAccessGateProps {
+  eventId: string;
+  slug: string;
+  children: ReactNode;
+}
+
+/**
+ * Renders GM-only pages once the stored admin token is verified.
+ * Also accepts the token from an admin link (?admin=...) or a pasted link.
+ */
+export function GmAccessGate({ eventId, slug, children }: GmAccessGateProps) {
+  const [status, setStatus] = useState<"checking" | "granted" | "denied">("checking");
+  const [linkInput, setLinkInput] = useState("");
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const checkAccess = useCallback(() => {
+    fetch(`/api/events/${slug}/admin`, { headers: adminHeaders(eventId) })
+      .then((res) => setStatus(res.ok ? "granted" : "denied"))
+      .catch(() => setStatus("denied"));
+  }, [eventId, slug]);
+
+  useEffect(() => {
+    // Consume the token from an admin link, then drop it from the address bar
+    const url = new URL(window.location.href);
+    const token = url.searchParams.get(ADMIN_TOKEN_PARAM);
+    if (token) {
+      storeAdminToken(eventId, token);
+      url.searchParams.delete(ADMIN_TOKEN_PARAM);
+      window.history.replaceState(null, "", url.pathname + url.search + url.hash);
+    }
+    checkAccess();
+  }, [eventId, checkAccess]);
+
+  const handleSubmitLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    const token = parseAdminToken(linkInput);
+    if (!token) {
+      setLinkError("That doesn't look like a GM admin link");
+      return;
+    }
+    setLinkError(null);
+    storeAdminToken(eventId, token);
+    setStatus("checking");
+    checkAccess();
+  };
+
+  if (status === "granted") {
+    return <>{children}</>;
+  }
+
+  if (status === "checking") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-zinc-950">
+        <LoadingSpinner size="lg" className="text-zinc-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 px-4 dark:bg-zinc-950">
+      <div className="w-full max-w-md rounded-xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+        <h1 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+          GM access required
+        </h1>
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          This page is only available to the campaign&apos;s GMs. Open your GM admin link on this
+          device, or paste it below.
+        </p>
+        <form onSubmit={handleSubmitLink} className="mt-4 space-y-2">
+          <input
+            type="text"
+            value={linkInput}
+            onChange={(e) => setLinkInput(e.target.value)}
+            placeholder="GM admin link"
+            className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm dark:border-zinc-700 dark:bg-zinc-800"
+          />
+          {linkError && (
+            <p className="text-xs text-red-600 dark:text-red-400">{linkError}</p>
+          )}
+          <Button type="submit" className="w-full" disabled={!linkInput.trim()}>
+            Continue as GM
+          </Button>
+        </form>
+        <Link
+          href={`/${slug}`}
+          className="mt-4 block text-center text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400"
+        >
+          Back to campaign
+        </Link>
+      </div>
+    </div>
+  );
+}
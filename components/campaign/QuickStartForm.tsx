@@ -1,11 +1,17 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { format, addWeeks } from "date-fns";
 import { ImageUpload } from "./ImageUpload";
 import { getBrowserTimezone } from "@/lib/utils/timezone";
-import type { CampaignType } from "@/lib/types";
+import { storeAdminToken } from "@/lib/utils/admin-token";
+import {
+  applyCampaignTemplate,
+  deleteCampaignTemplate,
+  listCampaignTemplates,
+} from "@/lib/utils/campaign-templates";
+import type { CampaignTemplate, CampaignType, CreateCampaignPayload } from "@/lib/types";
 
 export function QuickStartForm() {
   const router = useRouter();
@@ -18,6 +24,32 @@ export function QuickStartForm() {
   const [description, setDescription] = useState("");
   const [campaignImageBase64, setCampaignImageBase64] = useState<string | null>(null);
 
+  // Saved setups from earlier campaigns (stored in this browser)
+  const [templates, setTemplates] = useState<CampaignTemplate[]>([]);
+  const [template, setTemplate] = useState<CampaignTemplate | null>(null);
+
+  useEffect(() => {
+    setTemplates(listCampaignTemplates());
+  }, []);
+
+  const handleSelectTemplate = (id: string) => {
+    const selected = templates.find((t) => t.id === id) ?? null;
+    setTemplate(selected);
+    if (!selected) return;
+    if (selected.settings.campaignType) setCampaignType(selected.settings.campaignType);
+    if (selected.settings.description && !description) setDescription(selected.settings.description);
+    if (selected.settings.campaignImageBase64 && !campaignImageBase64) {
+      setCampaignImageBase64(selected.settings.campaignImageBase64);
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!template) return;
+    deleteCampaignTemplate(template.id);
+    setTemplates(listCampaignTemplates());
+    setTemplate(null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim()) {
@@ -33,21 +65,24 @@ export function QuickStartForm() {
       const today = new Date();
       const defaultEndDate = format(addWeeks(today, 6), "yyyy-MM-dd");
 
+      const payload: CreateCampaignPayload = {
+        title: title.trim(),
+        description: description.trim() || undefined,
+        campaignType,
+        campaignImageBase64: campaignImageBase64 || undefined,
+        timezone: getBrowserTimezone(),
+        startDate: format(today, "yyyy-MM-dd"),
+        endDate: defaultEndDate,
+        earliestTime: "17:00",
+        latestTime: "23:00",
+        // A template brings its own session length
+        sessionLengthMinutes: template?.settings.sessionLengthMinutes ?? (campaignType === "ONESHOT" ? 240 : 180),
+      };
+
       const res = await fetch("/api/events", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          title: title.trim(),
-          description: description.trim() || null,
-          campaignType,
-          campaignImageBase64,
-          timezone: getBrowserTimezone(),
-          startDate: format(today, "yyyy-MM-dd"),
-          endDate: defaultEndDate,
-          earliestTime: "17:00",
-          latestTime: "23:00",
-          sessionLengthMinutes: campaignType === "ONESHOT" ? 240 : 180,
-        }),
+        body: JSON.stringify(template ? applyCampaignTemplate(payload, template) : payload),
       });
 
       if (!res.ok) {
@@ -56,8 +91,9 @@ export function QuickStartForm() {
       }
 
       const data = await res.json();
-      // Store GM participant ID for this campaign
+      // Store GM participant ID and admin token for this campaign
       localStorage.setItem(`participant_${data.event.id}`, data.gmParticipant.id);
+      storeAdminToken(data.event.id, data.adminToken);
       // Redirect to settings page to configure optional details
       router.push(`/${data.event.slug}/settings`);
     } catch (err) {
@@ -92,6 +128,37 @@ export function QuickStartForm() {
           </div>
         )}
 
+        {/* Template picker - only once a setup has been saved */}
+        {templates.length > 0 && (
+          <div>
+            <label htmlFor="template" className="mb-1.5 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Start from a template <span className="text-zinc-400 font-normal">(optional)</span>
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="template"
+                value={template?.id ?? ""}
+                onChange={(e) => handleSelectTemplate(e.target.value)}
+                className="min-w-0 flex-1 rounded-xl border border-zinc-200 bg-zinc-50 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 transition-colors"
+              >
+                <option value="">No template</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+              {template && (
+                <button
+                  type="button"
+                  onClick={handleDeleteTemplate}
+                  className="shrink-0 rounded-xl px-3 text-sm text-zinc-500 hover:bg-zinc-100 hover:text-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Campaign Type - Big Toggle */}
         <div>
           <label className="mb-1.5 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
@@ -217,7 +284,9 @@ export function QuickStartForm() {
 
       {/* Helper text - outside the card */}
       <p className="mt-4 text-center text-xs text-zinc-500 dark:text-zinc-400">
-        You can add game system, meeting details, and more after creating
+        {template
+          ? `Game system, meeting details and prep links come from "${template.name}"`
+          : "You can add game system, meeting details, and more after creating"}
       </p>
     </div>
   );
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatInTimeZone } from "date-fns-tz";
+import type { SessionRecommendation } from "@/lib/availability";
+
+interface RecommendedSessionsProps {
+  slug: string;
+  timezone: string;  // Display timezone
+  participants: { id: string; displayName: string }[];
+  onSelect: (recommendation: SessionRecommendation) => void;
+  refreshKey?: number | string;  // Change to refetch (e.g. after availability or sessions change)
+}
+
+/**
+ * GM-only list of the best session options, ranked by the recommendations API
+ */
+export function RecommendedSessions({
+  slug,
+  timezone,
+  participants,
+  onSelect,
+  refreshKey = 0,
+}: RecommendedSessionsProps) {
+  const [recommendations, setRecommendations] = useState<SessionRecommendation[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/events/${slug}/recommendations?limit=3`)
+      .then((res) => (res.ok ? res.json() : { recommendations: [] }))
+      .then((data) => setRecommendations(data.recommendations))
+      .catch((error) => {
+        console.error("Failed to load recommendations:", error);
+        setRecommendations([]);
+      });
+  }, [slug, refreshKey]);
+
+  if (!recommendations || recommendations.length === 0) return null;
+
+  const nameOf = (id: string) => participants.find((p) => p.id === id)?.displayName ?? "Unknown";
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Best options</h2>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">Ranked by who can make it</span>
+      </div>
+      <ul className="space-y-2">
+        {recommendations.map((rec) => {
+          const start = new Date(rec.startsAt);
+          const end = new Date(rec.endsAt);
+          return (
+            <li
+              key={rec.startsAt}
+              className="flex items-start justify-between gap-3 rounded-lg bg-zinc-50 px-3 py-2.5 dark:bg-zinc-800/50"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                  {formatInTimeZone(start, timezone, "EEE, MMM d")} ·{" "}
+                  {formatInTimeZone(start, timezone, "h:mm a")}–{formatInTimeZone(end, timezone, "h:mm a")}
+                </p>
+                <p className="mt-0.5 truncate text-xs text-zinc-500 dark:text-zinc-400">
+                  {rec.attendeeIds.map(nameOf).join(", ")}
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {rec.reasons.map((reason) => (
+                    <li key={reason} className="text-xs text-zinc-600 dark:text-zinc-400">
+                      {reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <button
+                onClick={() => onSelect(rec)}
+                className="shrink-0 rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+              >
+                Lock in
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
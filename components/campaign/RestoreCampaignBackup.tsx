@@ -0,0 +1,75 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { storeAdminToken } from "@/lib/utils/admin-token";
+
+/**
+ * Create a campaign from a backup file
+ */
+export function RestoreCampaignBackup() {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        throw new Error("That file isn't a campaign backup");
+      }
+
+      const res = await fetch("/api/events/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(archive),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to restore campaign");
+      }
+
+      // Same as creating a campaign: this browser becomes the restored campaign's GM
+      localStorage.setItem(`participant_${data.event.id}`, data.gmParticipant.id);
+      localStorage.setItem(`participant_${data.event.id}_isGm`, "true");
+      storeAdminToken(data.event.id, data.adminToken);
+      router.push(`/${data.event.slug}/settings`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore campaign");
+      setIsRestoring(false);
+    } finally {
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="mt-6 text-center text-sm text-zinc-500 dark:text-zinc-400">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={isRestoring}
+        className="underline-offset-2 hover:text-zinc-700 hover:underline disabled:opacity-50 dark:hover:text-zinc-200"
+      >
+        {isRestoring ? "Restoring campaign..." : "Restore a campaign from a backup"}
+      </button>
+      {error && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { CampaignTemplateSettings } from "@/lib/types";
+import { storeAdminToken } from "@/lib/utils/admin-token";
+import { adminHeaders } from "@/lib/utils/auth-headers";
+import { saveCampaignTemplate } from "@/lib/utils/campaign-templates";
+
+interface ReuseCampaignSettingsProps {
+  eventId: string;
+  slug: string;
+  title: string;
+  templateSettings: CampaignTemplateSettings;
+}
+
+/**
+ * Start the next arc from this campaign: duplicate it, or save its setup as a template
+ */
+export function ReuseCampaignSettings({ eventId, slug, title, templateSettings }: ReuseCampaignSettingsProps) {
+  const router = useRouter();
+  const [copyTitle, setCopyTitle] = useState(`${title} (copy)`);
+  const [includeParticipants, setIncludeParticipants] = useState(true);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [templateName, setTemplateName] = useState(title);
+  const [templateSaved, setTemplateSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDuplicate = async () => {
+    setIsDuplicating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/events/${slug}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...adminHeaders(eventId) },
+        body: JSON.stringify({ title: copyTitle.trim() || undefined, includeParticipants }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to duplicate campaign");
+      }
+
+      const data = await res.json();
+      // Same as creating a campaign: this browser becomes the new campaign's GM
+      localStorage.setItem(`participant_${data.event.id}`, data.gmParticipant.id);
+      localStorage.setItem(`participant_${data.event.id}_isGm`, "true");
+      storeAdminToken(data.event.id, data.adminToken);
+      router.push(`/${data.event.slug}/settings`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to duplicate campaign");
+      setIsDuplicating(false);
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    if (!templateName.trim()) return;
+    saveCampaignTemplate(templateName, templateSettings);
+    setTemplateSaved(true);
+    setTimeout(() => setTemplateSaved(false), 2000);
+  };
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Reuse this setup</h2>
+      <p className="mt-0.5 mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+        Start a new arc or one-shot with the same game system, session length, meeting details
+        and prep links. Availability is never copied.
+      </p>
+
+      {/* Duplicate */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={copyTitle}
+            onChange={(e) => setCopyTitle(e.target.value)}
+            placeholder="New campaign name"
+            className="min-w-0 flex-1 rounded-lg border border-zinc-300 bg-white px-3 py-1.5 text-sm text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+          />
+          <button
+            type="button"
+            onClick={handleDuplicate}
+            disabled={isDuplicating}
+            className="shrink-0 rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isDuplicating ? "Duplicating..." : "Duplicate campaign"}
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+          <input
+            type="checkbox"
+            checked={includeParticipants}
+            onChange={(e) => setIncludeParticipants(e.target.checked)}
+            className="h-3.5 w-3.5 rounded border-zinc-300 text-blue-600 focus:ring-blue-500"
+          />
+          Bring the party along (players and characters)
+        </label>
+      </div>
+
+      {/* Save as template */}
+      <div className="mt-4 flex gap-2 border-t border-zinc-100 pt-4 dark:border-zinc-800">
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder="Template name"
+          className="min-w-0 flex-1 rounded-lg border border-zinc-300 bg-white px-3 py-1.5 text-sm text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+        />
+        <button
+          type="button"
+          onClick={handleSaveTemplate}
+          disabled={!templateName.trim()}
+          className="shrink-0 rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+        >
+          {templateSaved ? "Saved!" : "Save as template"}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+        Templates are kept in this browser and offered when you create a campaign.
+      </p>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
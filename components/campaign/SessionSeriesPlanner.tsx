@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatInTimeZone } from "date-fns-tz";
+import { describeRecurrence, type SeriesCadence, type SessionSeriesPlan } from "@/lib/availability";
+
+interface SessionSeriesPlannerProps {
+  slug: string;
+  timezone: string;  // Display timezone
+  participants: { id: string; displayName: string }[];
+  onSelect: (plan: SessionSeriesPlan) => void;
+  refreshKey?: number | string;  // Change to refetch (e.g. after availability or sessions change)
+}
+
+const CADENCE_LABELS: Record<SeriesCadence, string> = {
+  weekly: "Weekly",
+  biweekly: "Every other week",
+  monthly: "Monthly",
+};
+
+/**
+ * GM-only planner for a recurring session slot across the whole campaign,
+ * ranked by the series API, with the dates each player would miss
+ */
+export function SessionSeriesPlanner({
+  slug,
+  timezone,
+  participants,
+  onSelect,
+  refreshKey = 0,
+}: SessionSeriesPlannerProps) {
+  const [cadence, setCadence] = useState<SeriesCadence>("weekly");
+  const [plans, setPlans] = useState<SessionSeriesPlan[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/events/${slug}/series?cadence=${cadence}&limit=3`)
+      .then((res) => (res.ok ? res.json() : { plans: [] }))
+      .then((data) => setPlans(data.plans))
+      .catch((error) => {
+        console.error("Failed to load series plans:", error);
+        setPlans([]);
+      });
+  }, [slug, cadence, refreshKey]);
+
+  const nameOf = (id: string) => participants.find((p) => p.id === id)?.displayName ?? "Unknown";
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Recurring slot</h2>
+        <div className="flex rounded-lg bg-zinc-100 p-0.5 dark:bg-zinc-800">
+          {(Object.keys(CADENCE_LABELS) as SeriesCadence[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setCadence(value)}
+              className={`rounded-md px-2 py-1 text-xs font-medium ${
+                cadence === value
+                  ? "bg-white text-zinc-900 shadow-sm dark:bg-zinc-700 dark:text-zinc-100"
+                  : "text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+              }`}
+            >
+              {CADENCE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {plans && plans.length === 0 && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          No recurring slot works for anyone yet.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {plans?.map((plan) => {
+          const first = plan.occurrences[0];
+          const start = new Date(first.startsAt);
+          const end = new Date(first.endsAt);
+          const recurrence = describeRecurrence(plan.recurrence);
+          return (
+            <li
+              key={`${plan.dayOfWeek}-${plan.startTime}-${first.date}`}
+              className="flex items-start justify-between gap-3 rounded-lg bg-zinc-50 px-3 py-2.5 dark:bg-zinc-800/50"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                  {formatInTimeZone(start, timezone, "EEEE")}s ·{" "}
+                  {formatInTimeZone(start, timezone, "h:mm a")}–{formatInTimeZone(end, timezone, "h:mm a")}
+                  {recurrence && (
+                    <span className="font-normal text-zinc-500 dark:text-zinc-400"> ({recurrence})</span>
+                  )}
+                </p>
+                <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                  {plan.playableCount} of {plan.occurrences.length} sessions playable ·{" "}
+                  {Math.round(plan.attendanceRate * 100)}% attendance
+                </p>
+                {plan.absences.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {plan.absences.map((absence) => (
+                      <li key={absence.participantId} className="text-xs text-zinc-600 dark:text-zinc-400">
+                        {nameOf(absence.participantId)} misses{" "}
+                        {absence.dates.length === plan.occurrences.length
+                          ? "every session"
+                          : absence.dates
+                              .map((date) => formatInTimeZone(new Date(`${date}T12:00:00Z`), "UTC", "MMM d"))
+                              .join(", ")}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <button
+                onClick={() => onSelect(plan)}
+                disabled={plan.playableCount === 0}
+                className="shrink-0 rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Confirm series
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { formatInTimeZone } from "date-fns-tz";
+import { Badge } from "@/components/ui/Badge";
+import type { CampaignSession } from "@/lib/types";
+import { getSessionEnd } from "@/lib/utils/sessions";
+
+interface UpcomingSessionCardProps {
+  session: CampaignSession;
+  participants: { id: string; displayName: string }[];
+  timezone: string;  // Display timezone
+  calendarUrl?: string;  // ICS subscription feed
+  onCancel?: () => void;  // GM only
+  isCancelling?: boolean;
+}
+
+export function UpcomingSessionCard({
+  session,
+  participants,
+  timezone,
+  calendarUrl,
+  onCancel,
+  isCancelling = false,
+}: UpcomingSessionCardProps) {
+  const start = new Date(session.startsAt);
+  const end = getSessionEnd(session);
+  const attendees = participants.filter(p => session.participantIds.includes(p.id));
+
+  return (
+    <div className="rounded-xl border border-green-200 bg-green-50/60 p-4 dark:border-green-900/40 dark:bg-green-950/20">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-green-100 dark:bg-green-900/50">
+            <svg className="h-4 w-4 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium uppercase tracking-wide text-green-700 dark:text-green-400">
+                Next session
+              </span>
+              <Badge variant={session.status === "confirmed" ? "green" : "amber"}>
+                {session.status === "confirmed" ? "Confirmed" : "Proposed"}
+              </Badge>
+            </div>
+            <p className="mt-0.5 font-semibold text-zinc-900 dark:text-zinc-100">
+              {session.title || formatInTimeZone(start, timezone, "EEEE, MMMM d")}
+            </p>
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              {session.title && `${formatInTimeZone(start, timezone, "EEE, MMM d")} · `}
+              {formatInTimeZone(start, timezone, "h:mm a")}–{formatInTimeZone(end, timezone, "h:mm a zzz")}
+            </p>
+            {attendees.length > 0 && (
+              <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                {attendees.map(p => p.displayName).join(", ")}
+              </p>
+            )}
+            {calendarUrl && (
+              <a
+                href={calendarUrl}
+                className="mt-1.5 inline-block text-xs font-medium text-green-700 hover:underline dark:text-green-400"
+              >
+                Add to calendar
+              </a>
+            )}
+          </div>
+        </div>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            disabled={isCancelling}
+            className="shrink-0 rounded-lg px-2.5 py-1.5 text-xs font-medium text-zinc-500 hover:bg-zinc-100 hover:text-red-600 disabled:opacity-50 dark:hover:bg-zinc-800"
+          >
+            {isCancelling ? "Cancelling..." : "Cancel session"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import type { CampaignWebhook, MeetingType } from "@/lib/types";
+import { adminHeaders } from "@/lib/utils/auth-headers";
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_EVENT_LABELS,
+  isDiscordWebhookUrl,
+  type WebhookEventType,
+  type WebhookFormat,
+} from "@/lib/webhooks/payload";
+
+interface WebhookSettingsProps {
+  eventId: string;
+  slug: string;
+  meetingType: MeetingType | null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: "bg-green-500",
+  failed: "bg-red-500",
+  pending: "bg-amber-400",
+};
+
+/**
+ * GM-only webhook management: register URLs, pick events, and see recent deliveries
+ */
+export function WebhookSettings({ eventId, slug, meetingType }: WebhookSettingsProps) {
+  const [webhooks, setWebhooks] = useState<CampaignWebhook[] | null>(null);
+  const [url, setUrl] = useState("");
+  const [format, setFormat] = useState<WebhookFormat>(meetingType === "DISCORD" ? "discord" : "json");
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(() => {
+    fetch(`/api/events/${slug}/webhooks`, { headers: adminHeaders(eventId) })
+      .then((res) => (res.ok ? res.json() : { webhooks: [] }))
+      .then((data) => setWebhooks(data.webhooks))
+      .catch((err) => {
+        console.error("Failed to load webhooks:", err);
+        setWebhooks([]);
+      });
+  }, [eventId, slug]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const handleUrlChange = (value: string) => {
+    setUrl(value);
+    if (isDiscordWebhookUrl(value)) setFormat("discord");
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/events/${slug}/webhooks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...adminHeaders(eventId) },
+        body: JSON.stringify({ url: url.trim(), format }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to add webhook");
+      setWebhooks((prev) => [...(prev ?? []), data.webhook]);
+      setUrl("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add webhook");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const updateWebhook = async (id: string, changes: Partial<Pick<CampaignWebhook, "active" | "eventTypes">>) => {
+    setError(null);
+    const res = await fetch(`/api/events/${slug}/webhooks/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...adminHeaders(eventId) },
+      body: JSON.stringify(changes),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error || "Failed to update webhook");
+      return;
+    }
+    // Keep the loaded delivery log; PATCH doesn't return it
+    setWebhooks((prev) =>
+      (prev ?? []).map((w) => (w.id === id ? { ...data.webhook, deliveries: w.deliveries } : w))
+    );
+  };
+
+  const toggleEventType = (webhook: CampaignWebhook, type: WebhookEventType) => {
+    // Empty list means every event; expand it before removing one
+    const current = webhook.eventTypes.length === 0 ? WEBHOOK_EVENT_TYPES : webhook.eventTypes;
+    const next = current.includes(type) ? current.filter((t) => t !== type) : [...current, type];
+    if (next.length === 0) {
+      setError("Pick at least one event, or pause the webhook instead");
+      return;
+    }
+    updateWebhook(webhook.id, {
+      eventTypes: next.length === WEBHOOK_EVENT_TYPES.length ? [] : next,
+    });
+  };
+
+  const deleteWebhook = async (id: string) => {
+    if (!confirm("Remove this webhook? Its delivery log will be deleted too.")) return;
+    const res = await fetch(`/api/events/${slug}/webhooks/${id}`, {
+      method: "DELETE",
+      headers: adminHeaders(eventId),
+    });
+    if (res.ok) {
+      setWebhooks((prev) => (prev ?? []).filter((w) => w.id !== id));
+    } else {
+      setError("Failed to remove webhook");
+    }
+  };
+
+  const copySecret = async (webhook: CampaignWebhook) => {
+    await navigator.clipboard.writeText(webhook.secret);
+    setCopiedId(webhook.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Webhooks</h3>
+      <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+        Post to Discord or another service when players join, availability changes, a session
+        is confirmed, or enough players can make a slot
+      </p>
+
+      <form onSubmit={handleAdd} className="mt-3 flex gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => handleUrlChange(e.target.value)}
+          placeholder="https://discord.com/api/webhooks/..."
+          className="min-w-0 flex-1 rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 placeholder-zinc-400 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+        />
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as WebhookFormat)}
+          className="rounded-md border border-zinc-300 bg-white px-2 py-2 text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+        >
+          <option value="discord">Discord</option>
+          <option value="json">JSON</option>
+        </select>
+        <button
+          type="submit"
+          disabled={!url.trim() || isAdding}
+          className="rounded-md bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isAdding ? "Adding..." : "Add"}
+        </button>
+      </form>
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      {webhooks && webhooks.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {webhooks.map((webhook) => (
+            <li
+              key={webhook.id}
+              className="rounded-lg border border-zinc-200 p-3 dark:border-zinc-700"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-zinc-900 dark:text-zinc-100" title={webhook.url}>
+                    {webhook.url}
+                  </p>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {webhook.format === "discord" ? "Discord embed" : "Signed JSON"}
+                    {!webhook.active && " · paused"}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => copySecret(webhook)}
+                    className="text-zinc-500 hover:text-zinc-700 dark:text-zinc-400"
+                    title="Key for verifying the X-Webhook-Signature header"
+                  >
+                    {copiedId === webhook.id ? "Copied!" : "Copy secret"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateWebhook(webhook.id, { active: !webhook.active })}
+                    className="text-zinc-500 hover:text-zinc-700 dark:text-zinc-400"
+                  >
+                    {webhook.active ? "Pause" : "Resume"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteWebhook(webhook.id)}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1">
+                {WEBHOOK_EVENT_TYPES.map((type) => (
+                  <label key={type} className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+                    <input
+                      type="checkbox"
+                      checked={webhook.eventTypes.length === 0 || webhook.eventTypes.includes(type)}
+                      onChange={() => toggleEventType(webhook, type)}
+                      className="h-3 w-3 rounded border-zinc-300 text-blue-600"
+                    />
+                    {WEBHOOK_EVENT_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                className="mt-2 text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400"
+              >
+                {expandedId === webhook.id ? "Hide" : "Show"} recent deliveries ({webhook.deliveries.length})
+              </button>
+
+              {expandedId === webhook.id && (
+                <ul className="mt-2 space-y-1">
+                  {webhook.deliveries.length === 0 && (
+                    <li className="text-xs text-zinc-500 dark:text-zinc-400">Nothing sent yet</li>
+                  )}
+                  {webhook.deliveries.map((delivery) => (
+                    <li key={delivery.id} className="flex items-center gap-2 text-xs">
+                      <span className={`h-2 w-2 shrink-0 rounded-full ${STATUS_STYLES[delivery.status]}`} />
+                      <span className="min-w-0 flex-1 truncate text-zinc-700 dark:text-zinc-300">
+                        {delivery.summary}
+                      </span>
+                      <span className="shrink-0 text-zinc-500 dark:text-zinc-400">
+                        {delivery.responseStatus ?? delivery.error ?? delivery.status}
+                        {delivery.attempts > 1 && ` · ${delivery.attempts} tries`}
+                        {" · "}
+                        {formatDistanceToNow(parseISO(delivery.createdAt), { addSuffix: true })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
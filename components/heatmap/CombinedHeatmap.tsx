@@ -1,17 +1,29 @@
 "use client";
 
-import { useState, useMemo, useCallback } from "react";
-import { format, parse } from "date-fns";
+import { useState, useMemo, useCallback, useEffect } from "react";
+import { format, parse, addDays, startOfWeek, differenceInCalendarDays } from "date-fns";
 import { VirtualizedAvailabilityGrid } from "../availability/VirtualizedAvailabilityGrid";
+import { WeekNavigator } from "../navigation/WeekNavigator";
+import { useCampaignStream } from "@/lib/hooks/useCampaignStream";
 import { HoverDetailPanel } from "./HoverDetailPanel";
+import { HeatmapExportLinks } from "./HeatmapExportLinks";
 import type { TimeSlot } from "@/lib/types";
+import type { LocalHeatmapCell } from "@/lib/availability";
 
 interface Participant {
   id: string;
   name: string;
+  isGm?: boolean;
   availability: TimeSlot[];
 }
 
+// One week of the heatmap, as returned by the heatmap API
+interface WeekData {
+  week: string;
+  participants: Participant[];
+  slots: LocalHeatmapCell[];
+}
+
 interface CombinedHeatmapProps {
   participants: Participant[];
   startDate: Date;
@@ -19,30 +31,80 @@ interface CombinedHeatmapProps {
   earliestTime?: string;
   latestTime?: string;
   gmAvailability?: TimeSlot[];
-  gmParticipantId?: string;  // GM's participant ID - excluded from heatmap counts
+  gmParticipantIds?: string[];  // GM participant IDs - excluded from heatmap counts
   sessionLengthMinutes?: number;
   timezone?: string;
   showGmToggle?: boolean;
+  // Campaign slug: fetch the heatmap a week at a time, refetching live when it changes
+  eventSlug?: string;
+  // GM action: turn a clicked slot into a confirmed session (date/time in display timezone)
+  onLockInSlot?: (date: string, time: string, availableParticipantIds: string[]) => Promise<void> | void;
+}
+
+interface SlotDetails {
+  date: string;
+  time: string;
+  available: Participant[];
+  unavailable: Participant[];
 }
 
 export function CombinedHeatmap({
-  participants,
+  participants: participantsProp,
   startDate,
   endDate,
   earliestTime = "00:00",
   latestTime = "24:00",
   gmAvailability = [],
-  gmParticipantId,
+  gmParticipantIds,
   sessionLengthMinutes = 180,
   timezone = "UTC",
   showGmToggle = false,
+  eventSlug,
+  onLockInSlot,
 }: CombinedHeatmapProps) {
-  const [hoveredSlot, setHoveredSlot] = useState<{
-    date: string;
-    time: string;
-    available: Participant[];
-    unavailable: Participant[];
-  } | null>(null);
+  // Weeks start on Sunday, matching WeekNavigator
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(startDate, { weekStartsOn: 0 }));
+  const [weekData, setWeekData] = useState<WeekData | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const week = format(weekStart, "yyyy-MM-dd");
+
+  // Only the week on screen is fetched, with slots already on the display timezone's dates
+  useEffect(() => {
+    if (!eventSlug) return;
+    let cancelled = false;
+    const params = new URLSearchParams({ week, timezone, minCount: "1" });
+    fetch(`/api/events/${eventSlug}/heatmap?${params}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) {
+          setWeekData({ week, participants: data.participants, slots: data.slots });
+        }
+      })
+      .catch((error) => console.error("Failed to load heatmap week:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [eventSlug, week, timezone, refreshCount]);
+
+  const handleChange = useCallback(() => {
+    setRefreshCount((count) => count + 1);
+  }, []);
+  useCampaignStream(eventSlug, handleChange);
+
+  // Until a week loads, show what the parent fetched
+  const participants = weekData?.participants ?? participantsProp;
+  const isLoadingWeek = !!eventSlug && weekData?.week !== week;
+  const showWeekNavigator = !!eventSlug && differenceInCalendarDays(endDate, startDate) >= 7;
+
+  // The grid shows the current week, within the campaign
+  const gridStart = eventSlug && weekStart > startDate ? weekStart : startDate;
+  const weekEnd = addDays(weekStart, 6);
+  const gridEnd = eventSlug && weekEnd < endDate ? weekEnd : endDate;
+
+  const [hoveredSlot, setHoveredSlot] = useState<SlotDetails | null>(null);
+  // Clicked slot stays in the panel after the pointer leaves the grid
+  const [pinnedSlot, setPinnedSlot] = useState<SlotDetails | null>(null);
+  const [isLockingIn, setIsLockingIn] = useState(false);
 
   const [clampToGm, setClampToGm] = useState(false);
 
@@ -78,6 +140,28 @@ export function CombinedHeatmap({
     setHoveredSlot(null);
   }, []);
 
+  const handleSelectSlot = useCallback((
+    date: string,
+    time: string,
+    available: Participant[],
+    unavailable: Participant[]
+  ) => {
+    setPinnedSlot({ date, time, available, unavailable });
+  }, []);
+
+  const detailSlot = hoveredSlot ?? pinnedSlot;
+
+  const handleLockIn = useCallback(async () => {
+    if (!onLockInSlot || !detailSlot) return;
+    setIsLockingIn(true);
+    try {
+      await onLockInSlot(detailSlot.date, detailSlot.time, detailSlot.available.map(p => p.id));
+      setPinnedSlot(null);
+    } finally {
+      setIsLockingIn(false);
+    }
+  }, [onLockInSlot, detailSlot]);
+
   // Format session length for display
   const sessionLengthDisplay = useMemo(() => {
     const hours = Math.floor(sessionLengthMinutes / 60);
@@ -89,36 +173,52 @@ export function CombinedHeatmap({
 
   return (
     <div className="space-y-4">
-      {/* GM Time Clamp Toggle */}
-      {showGmToggle && gmAvailability.length > 0 && (
-        <div className="flex items-center gap-2">
-          <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400 cursor-pointer">
-            <input
-              type="checkbox"
-              checked={clampToGm}
-              onChange={(e) => setClampToGm(e.target.checked)}
-              className="rounded border-zinc-300 text-blue-600 focus:ring-blue-500"
-            />
-            Show only times GM is available
-          </label>
+      {/* GM Time Clamp Toggle + Export */}
+      {((showGmToggle && gmAvailability.length > 0) || eventSlug) && (
+        <div className="flex items-center justify-between gap-2">
+          {showGmToggle && gmAvailability.length > 0 ? (
+            <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={clampToGm}
+                onChange={(e) => setClampToGm(e.target.checked)}
+                className="rounded border-zinc-300 text-blue-600 focus:ring-blue-500"
+              />
+              Show only times GM is available
+            </label>
+          ) : (
+            <span />
+          )}
+          {eventSlug && <HeatmapExportLinks eventSlug={eventSlug} timezone={timezone} />}
         </div>
       )}
 
+      {showWeekNavigator && (
+        <WeekNavigator
+          currentWeekStart={weekStart}
+          eventStartDate={startDate}
+          eventEndDate={endDate}
+          onWeekChange={setWeekStart}
+          isLoading={isLoadingWeek}
+        />
+      )}
+
       {/* Main content: Grid + Hover panel */}
       <div className="flex gap-4">
         {/* Availability Grid */}
         <div className="flex-1">
           <VirtualizedAvailabilityGrid
-            startDate={startDate}
-            endDate={endDate}
+            startDate={gridStart}
+            endDate={gridEnd}
             earliestTime={effectiveTimeWindow.earliest}
             latestTime={effectiveTimeWindow.latest}
             mode="heatmap"
             participants={participants}
             gmAvailability={gmAvailability}
-            gmParticipantId={gmParticipantId}
+            gmParticipantIds={gmParticipantIds}
             onHoverSlot={handleHoverSlot}
             onLeaveSlot={handleLeaveSlot}
+            onSelectSlot={onLockInSlot ? handleSelectSlot : undefined}
             timezone={timezone}
             disabled
           />
@@ -127,13 +227,15 @@ export function CombinedHeatmap({
         {/* Sidebar - Hover details */}
         <div className="w-64 shrink-0 hidden md:block">
           <div className="sticky top-4 rounded-lg border border-zinc-200 bg-white dark:border-zinc-700 dark:bg-zinc-900">
-            {hoveredSlot ? (
+            {detailSlot ? (
               <HoverDetailPanel
-                date={hoveredSlot.date}
-                time={hoveredSlot.time}
-                availableParticipants={hoveredSlot.available}
-                unavailableParticipants={hoveredSlot.unavailable}
+                date={detailSlot.date}
+                time={detailSlot.time}
+                availableParticipants={detailSlot.available}
+                unavailableParticipants={detailSlot.unavailable}
                 totalParticipants={participants.length}
+                onLockIn={onLockInSlot ? handleLockIn : undefined}
+                isLockingIn={isLockingIn}
               />
             ) : (
               <div className="p-4">
@@ -143,6 +245,7 @@ export function CombinedHeatmap({
                   </h3>
                   <p className="text-sm text-zinc-500 dark:text-zinc-400">
                     Hover over time slots to see who&apos;s available
+                    {onLockInSlot && ". Click one to lock it in as a session"}
                   </p>
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
@@ -193,6 +296,7 @@ export function CombinedHeatmap({
       {participants.length > 0 && (
         <SuggestedTimes
           participants={participants}
+          cells={weekData?.week === week ? weekData.slots : undefined}
           sessionLengthMinutes={sessionLengthMinutes}
           sessionLengthDisplay={sessionLengthDisplay}
         />
@@ -204,20 +308,29 @@ export function CombinedHeatmap({
 // Separate component for suggested times to avoid re-renders
 function SuggestedTimes({
   participants,
+  cells,
   sessionLengthMinutes,
   sessionLengthDisplay,
 }: {
   participants: Participant[];
+  // Localized heatmap cells for the week on screen (GMs aren't counted)
+  cells?: LocalHeatmapCell[];
   sessionLengthMinutes: number;
   sessionLengthDisplay: string;
 }) {
+  const playerCount = cells ? participants.filter((p) => !p.isGm).length : participants.length;
+
   // Build availability map for finding suggestions
   const suggestedTimes = useMemo(() => {
     const slotsNeeded = Math.ceil(sessionLengthMinutes / 30);
     const availabilityMap = new Map<string, Set<string>>();
 
+    for (const cell of cells ?? []) {
+      availabilityMap.set(`${cell.date}-${cell.time}`, new Set(cell.participantIds));
+    }
+
     // Build map from participant availability
-    for (const participant of participants) {
+    for (const participant of cells ? [] : participants) {
       for (const slot of participant.availability) {
         if (slot.startTime >= slot.endTime) continue;
 
@@ -256,7 +369,7 @@ function SuggestedTimes({
       checkedStarts.add(startKey);
 
       // Check consecutive slots
-      let minAvailable = participants.length;
+      let minAvailable = playerCount;
       let allSlotsValid = true;
       let checkTime = timePart;
 
@@ -265,7 +378,7 @@ function SuggestedTimes({
         const available = availabilityMap.get(checkKey)?.size || 0;
         minAvailable = Math.min(minAvailable, available);
 
-        if (available < participants.length * 0.5) {
+        if (available < playerCount * 0.5) {
           allSlotsValid = false;
           break;
         }
@@ -292,7 +405,7 @@ function SuggestedTimes({
     return suggestions
       .sort((a, b) => b.count - a.count)
       .slice(0, 5);
-  }, [participants, sessionLengthMinutes]);
+  }, [participants, cells, playerCount, sessionLengthMinutes]);
 
   if (suggestedTimes.length === 0) {
     return (
@@ -334,7 +447,7 @@ function SuggestedTimes({
                 {format(timeObj, "h:mm a")} - {format(endTime, "h:mm a")}
               </div>
               <div className="mt-0.5 text-xs text-green-500 dark:text-green-600">
-                {suggestion.count}/{participants.length} available
+                {suggestion.count}/{playerCount} available
               </div>
             </div>
           );
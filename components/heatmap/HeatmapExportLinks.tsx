@@ -0,0 +1,33 @@
+"use client";
+
+import { heatmapExportUrl } from "@/lib/availability";
+
+interface HeatmapExportLinksProps {
+  eventSlug: string;
+  timezone: string;
+  includeWaitlist?: boolean;
+}
+
+export function HeatmapExportLinks({ eventSlug, timezone, includeWaitlist = false }: HeatmapExportLinksProps) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <a
+        href={heatmapExportUrl(eventSlug, "csv", timezone, includeWaitlist)}
+        download
+        className="inline-flex items-center gap-1.5 rounded-md border border-zinc-300 px-2.5 py-1 text-zinc-700 hover:bg-zinc-50 dark:border-zinc-600 dark:text-zinc-300 dark:hover:bg-zinc-800"
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        Download CSV
+      </a>
+      <a
+        href={heatmapExportUrl(eventSlug, "json", timezone, includeWaitlist)}
+        download
+        className="text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+      >
+        JSON
+      </a>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ interface HoverDetailPanelProps {
   availableParticipants: Participant[];
   unavailableParticipants: Participant[];
   totalParticipants: number;
+  onLockIn?: () => void;  // GM action: confirm this slot as a session
+  isLockingIn?: boolean;
 }
 
 export function HoverDetailPanel({
@@ -21,6 +23,8 @@ export function HoverDetailPanel({
   availableParticipants,
   unavailableParticipants,
   totalParticipants,
+  onLockIn,
+  isLockingIn = false,
 }: HoverDetailPanelProps) {
   if (!date || !time) {
     return (
@@ -94,6 +98,17 @@ export function HoverDetailPanel({
           </p>
         )}
       </div>
+
+      {/* GM action */}
+      {onLockIn && (
+        <button
+          onClick={onLockIn}
+          disabled={isLockingIn}
+          className="w-full rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isLockingIn ? "Locking in..." : "Lock in this slot"}
+        </button>
+      )}
     </div>
   );
 }
@@ -1,3 +1,4 @@
 export { CombinedHeatmap } from "./CombinedHeatmap";
+export { HeatmapExportLinks } from "./HeatmapExportLinks";
 export { HeatmapLegend } from "./HeatmapLegend";
 export { HoverDetailPanel } from "./HoverDetailPanel";
@@ -2,12 +2,14 @@
 
 import { useMemo } from "react";
 import { format, addDays, startOfWeek, isBefore, isAfter } from "date-fns";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 
 interface WeekNavigatorProps {
   currentWeekStart: Date;
   eventStartDate: Date;
   eventEndDate: Date;
   onWeekChange: (newWeekStart: Date) => void;
+  isLoading?: boolean;
 }
 
 export function WeekNavigator({
@@ -15,6 +17,7 @@ export function WeekNavigator({
   eventStartDate,
   eventEndDate,
   onWeekChange,
+  isLoading = false,
 }: WeekNavigatorProps) {
   // Calculate all weeks in the event range
   const weeks = useMemo(() => {
@@ -62,7 +65,7 @@ export function WeekNavigator({
   const weekEnd = addDays(currentWeekStart, 6);
 
   return (
-    <div className="flex items-center gap-2">
+    <div className="flex items-center gap-2" aria-busy={isLoading}>
       <button
         onClick={handlePrev}
         disabled={!canGoPrev}
@@ -87,6 +90,9 @@ export function WeekNavigator({
             (Week {currentWeekIndex + 1}/{weeks.length})
           </span>
         )}
+        {isLoading && (
+          <LoadingSpinner size="sm" className="text-zinc-500" />
+        )}
       </div>
 
       <button
@@ -3,6 +3,7 @@
 import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { ImageUpload } from "@/components/campaign/ImageUpload";
+import { participantHeaders } from "@/lib/utils/auth-headers";
 
 interface Participant {
   id: string;
@@ -17,10 +18,11 @@ interface Participant {
 
 interface CharacterFormProps {
   participant: Participant;
+  eventId: string;
   eventSlug: string;
 }
 
-export function CharacterForm({ participant, eventSlug }: CharacterFormProps) {
+export function CharacterForm({ participant, eventId, eventSlug }: CharacterFormProps) {
   const router = useRouter();
   const [characterName, setCharacterName] = useState(
     participant.characterName || ""
@@ -47,7 +49,7 @@ export function CharacterForm({ participant, eventSlug }: CharacterFormProps) {
       try {
         const res = await fetch(`/api/participants/${participant.id}`, {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...participantHeaders(participant.id, eventId) },
           body: JSON.stringify({
             characterName: characterName.trim() || null,
             characterClass: characterClass.trim() || null,
@@ -81,6 +83,7 @@ export function CharacterForm({ participant, eventSlug }: CharacterFormProps) {
       characterSheetUrl,
       characterTokenBase64,
       notes,
+      eventId,
       eventSlug,
       router,
     ]
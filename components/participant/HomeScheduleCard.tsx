@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { HomeScheduleRule, PlayerProfile } from "@/lib/types/availability";
+import { participantHeaders } from "@/lib/utils/auth-headers";
+import { getStoredProfile, profileHeaders, storeProfile, type StoredProfile } from "@/lib/utils/profile-token";
+
+interface HomeScheduleCardProps {
+  eventId: string;
+  participantId: string;
+  profileId: string | null;
+  onChange: (profileId: string | null, homeRules: HomeScheduleRule[]) => void;
+}
+
+/**
+ * Link this campaign to the player's profile so it inherits their home schedule
+ */
+export function HomeScheduleCard({ eventId, participantId, profileId, onChange }: HomeScheduleCardProps) {
+  const [storedProfile, setStoredProfile] = useState<StoredProfile | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStoredProfile(getStoredProfile());
+  }, []);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const res = await fetch("/api/profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...participantHeaders(participantId, eventId) },
+        body: JSON.stringify({ participantId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create profile");
+
+      const profile: PlayerProfile = data.profile;
+      storeProfile({ id: profile.id, token: data.profileToken });
+      setStoredProfile(getStoredProfile());
+      onChange(profile.id, profile.homeRules);
+    }, "Failed to create profile");
+
+  const handleLink = () =>
+    run(async () => {
+      if (!storedProfile) return;
+      const res = await fetch(`/api/participants/${participantId}/profile`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...participantHeaders(participantId, eventId),
+          ...profileHeaders(),
+        },
+        body: JSON.stringify({ profileId: storedProfile.id }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to use home schedule");
+      }
+
+      const profileRes = await fetch(`/api/profiles/${storedProfile.id}`, { headers: profileHeaders() });
+      const data = await profileRes.json();
+      onChange(storedProfile.id, profileRes.ok ? data.profile.homeRules : []);
+    }, "Failed to use home schedule");
+
+  const handleUnlink = () =>
+    run(async () => {
+      const res = await fetch(`/api/participants/${participantId}/profile`, {
+        method: "DELETE",
+        headers: participantHeaders(participantId, eventId),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to stop using home schedule");
+      }
+      onChange(null, []);
+    }, "Failed to stop using home schedule");
+
+  return (
+    <div className="mb-6 rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Home schedule</h2>
+          <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+            {profileId
+              ? "This campaign uses your home schedule. Changes you make here only apply to this campaign."
+              : "Keep one weekly schedule for all your campaigns and only adjust the exceptions here."}
+          </p>
+        </div>
+
+        <div className="flex shrink-0 items-center gap-2">
+          {profileId ? (
+            <>
+              {storedProfile?.id === profileId && (
+                <Link
+                  href="/profile"
+                  className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                >
+                  Edit home schedule
+                </Link>
+              )}
+              <button
+                type="button"
+                onClick={handleUnlink}
+                disabled={isBusy}
+                className="rounded-lg px-3 py-1.5 text-xs font-medium text-zinc-500 hover:text-zinc-700 disabled:opacity-50 dark:text-zinc-400 dark:hover:text-zinc-200"
+              >
+                Stop using
+              </button>
+            </>
+          ) : storedProfile ? (
+            <button
+              type="button"
+              onClick={handleLink}
+              disabled={isBusy}
+              className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isBusy ? "Linking..." : "Use my home schedule"}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isBusy}
+              className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+            >
+              {isBusy ? "Saving..." : "Save my routine as a home schedule"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,15 @@
 
 import { useState } from "react";
 import { getBrowserTimezone } from "@/lib/utils/timezone";
+import { MAX_PITCH_LENGTH } from "@/lib/types";
 
 interface Participant {
   id: string;
   eventId: string;
   displayName: string;
   isGm: boolean;
+  pendingApproval: boolean;
+  editToken?: string;  // Only returned when the name is first claimed
 }
 
 interface JoinEventFormProps {
@@ -15,10 +18,18 @@ interface JoinEventFormProps {
   onJoined: (participant: Participant) => void;
   hasGm?: boolean;
   compact?: boolean;
+  requireApproval?: boolean; // Players apply with an optional pitch for the GM
 }
 
-export function JoinEventForm({ eventSlug, onJoined, hasGm = false, compact = false }: JoinEventFormProps) {
+export function JoinEventForm({
+  eventSlug,
+  onJoined,
+  hasGm = false,
+  compact = false,
+  requireApproval = false,
+}: JoinEventFormProps) {
   const [displayName, setDisplayName] = useState("");
+  const [pitch, setPitch] = useState("");
   const [isGm, setIsGm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -36,6 +47,7 @@ export function JoinEventForm({ eventSlug, onJoined, hasGm = false, compact = fa
           displayName: displayName.trim(),
           isGm,
           timezone: getBrowserTimezone(),
+          ...(requireApproval && !isGm && pitch.trim() && { pitch: pitch.trim() }),
         }),
       });
 
@@ -66,6 +78,18 @@ export function JoinEventForm({ eventSlug, onJoined, hasGm = false, compact = fa
             className="w-full min-w-[140px] rounded-lg border-2 border-zinc-200 bg-white px-4 py-2.5 text-sm font-medium text-zinc-900 placeholder-zinc-400 transition-colors focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
           />
         </div>
+        {requireApproval && (
+          <div className="relative flex-1">
+            <input
+              type="text"
+              value={pitch}
+              onChange={(e) => setPitch(e.target.value)}
+              placeholder="Message for the GM (optional)"
+              maxLength={MAX_PITCH_LENGTH}
+              className="w-full min-w-[140px] rounded-lg border-2 border-zinc-200 bg-white px-4 py-2.5 text-sm text-zinc-900 placeholder-zinc-400 transition-colors focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+            />
+          </div>
+        )}
         <button
           type="submit"
           disabled={isSubmitting || !displayName.trim()}
@@ -81,7 +105,7 @@ export function JoinEventForm({ eventSlug, onJoined, hasGm = false, compact = fa
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
             </svg>
           )}
-          Join
+          {requireApproval ? "Apply" : "Join"}
         </button>
         {error && (
           <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
@@ -119,6 +143,29 @@ export function JoinEventForm({ eventSlug, onJoined, hasGm = false, compact = fa
         </p>
       </div>
 
+      {requireApproval && !isGm && (
+        <div>
+          <label
+            htmlFor="pitch"
+            className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+          >
+            Message for the GM
+          </label>
+          <textarea
+            id="pitch"
+            value={pitch}
+            onChange={(e) => setPitch(e.target.value)}
+            placeholder="e.g., I've played a few one-shots and would love a longer campaign"
+            maxLength={MAX_PITCH_LENGTH}
+            rows={3}
+            className="mt-1.5 block w-full rounded-lg border-2 border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-900 placeholder-zinc-400 transition-colors focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+          />
+          <p className="mt-1.5 text-xs text-zinc-500 dark:text-zinc-400">
+            Optional. The GM approves new players before they join the party.
+          </p>
+        </div>
+      )}
+
       {!hasGm && (
         <label className="flex cursor-pointer items-center gap-3 rounded-lg border-2 border-zinc-200 bg-zinc-50 p-3 transition-colors hover:border-zinc-300 dark:border-zinc-700 dark:bg-zinc-800 dark:hover:border-zinc-600">
           <input
@@ -149,14 +196,14 @@ export function JoinEventForm({ eventSlug, onJoined, hasGm = false, compact = fa
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
             </svg>
-            Joining...
+            {requireApproval && !isGm ? "Applying..." : "Joining..."}
           </>
         ) : (
           <>
             <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
             </svg>
-            Join Campaign
+            {requireApproval && !isGm ? "Apply to Join" : "Join Campaign"}
           </>
         )}
       </button>
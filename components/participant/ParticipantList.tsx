@@ -4,6 +4,8 @@ interface Participant {
   id: string;
   displayName: string;
   isGm: boolean;
+  gmRole?: "primary" | "co_gm" | null;
+  pendingApproval?: boolean;
 }
 
 interface ParticipantListProps {
@@ -12,9 +14,12 @@ interface ParticipantListProps {
 }
 
 export function ParticipantList({
-  participants,
+  participants: allParticipants,
   currentParticipantId,
 }: ParticipantListProps) {
+  // Applicants join the list once the GM approves them
+  const participants = allParticipants.filter((p) => !p.pendingApproval);
+
   if (participants.length === 0) {
     return (
       <p className="text-sm text-zinc-500 dark:text-zinc-400">
@@ -56,7 +61,7 @@ export function ParticipantList({
           <div className="flex items-center gap-2">
             {participant.isGm && (
               <span className="rounded bg-purple-100 px-1.5 py-0.5 text-xs font-medium text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">
-                GM
+                {participant.gmRole === "co_gm" ? "Co-GM" : "GM"}
               </span>
             )}
           </div>
@@ -1,11 +1,18 @@
 "use client";
 
+import { useCallback } from "react";
 import Link from "next/link";
+import { useLiveParticipants } from "@/lib/hooks/useLiveParticipants";
+import type { GmRole } from "@/lib/types";
 
-interface Participant {
+export interface PartyMember {
   id: string;
   displayName: string;
   isGm: boolean;
+  gmRole?: GmRole | null;
+  isRequired?: boolean;
+  waitlistedAt?: string | null;
+  pendingApproval?: boolean;
   characterName: string | null;
   characterClass: string | null;
   characterSheetUrl: string | null;
@@ -14,26 +21,44 @@ interface Participant {
 }
 
 interface PartyListProps {
-  participants: Participant[];
+  participants: PartyMember[];
   currentUserId?: string;
   eventSlug: string;
   // Display modes
   compact?: boolean;
   clickable?: boolean;
   showCharacterDetails?: boolean;
+  live?: boolean; // Follow players joining, leaving and editing profiles
   // Callbacks
-  onParticipantClick?: (participant: Participant) => void;
+  onParticipantClick?: (participant: PartyMember) => void;
+  onSeatChange?: (participant: PartyMember, waitlisted: boolean) => void; // GM seat controls
 }
 
 export function PartyList({
-  participants,
+  participants: participantsProp,
   currentUserId,
   eventSlug,
   compact = false,
   clickable = true,
   showCharacterDetails = true,
+  live = false,
   onParticipantClick,
+  onSeatChange,
 }: PartyListProps) {
+  const fetchParticipant = useCallback(async (participantId: string) => {
+    const res = await fetch(`/api/participants/${participantId}`);
+    if (!res.ok) return null;
+    const participant = (await res.json()) as PartyMember;
+    // Applicants join the party once the GM approves them
+    return participant.pendingApproval ? null : participant;
+  }, []);
+
+  const participants = useLiveParticipants({
+    slug: live ? eventSlug : undefined,
+    participants: participantsProp,
+    fetchParticipant,
+  });
+
   if (participants.length === 0) {
     return (
       <div className="rounded-lg border-2 border-dashed border-zinc-200 p-6 text-center dark:border-zinc-700">
@@ -68,7 +93,7 @@ export function PartyList({
           <div
             key={p.id}
             className="relative"
-            title={`${p.displayName}${p.characterName ? ` (${p.characterName})` : ""}`}
+            title={`${p.displayName}${p.characterName ? ` (${p.characterName})` : ""}${!p.isGm && p.isRequired ? " - required" : ""}`}
           >
             {p.characterTokenBase64 ? (
               <img
@@ -97,8 +122,8 @@ export function PartyList({
     <div className="grid gap-3 sm:grid-cols-2">
       {participants.map((p) => {
         const isCurrentUser = currentUserId === p.id;
-        // Use "gm" for GM participants, otherwise use participant ID
-        const participantPath = p.isGm ? "gm" : p.id;
+        // Use "gm" for the primary GM, otherwise use participant ID
+        const participantPath = p.gmRole === "primary" ? "gm" : p.id;
 
         const content = (
           <div className="flex items-start gap-3">
@@ -120,7 +145,17 @@ export function PartyList({
                 </span>
                 {p.isGm && (
                   <span className="rounded bg-purple-100 px-1.5 py-0.5 text-xs font-medium text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">
-                    GM
+                    {p.gmRole === "co_gm" ? "Co-GM" : "GM"}
+                  </span>
+                )}
+                {!p.isGm && p.isRequired && (
+                  <span className="rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                    Required
+                  </span>
+                )}
+                {!p.isGm && p.waitlistedAt && (
+                  <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                    Waitlist
                   </span>
                 )}
                 {isCurrentUser && (
@@ -142,6 +177,15 @@ export function PartyList({
                   {p.notes}
                 </p>
               )}
+              {onSeatChange && !p.isGm && (
+                <button
+                  type="button"
+                  onClick={() => onSeatChange(p, !p.waitlistedAt)}
+                  className="mt-1 text-xs font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                >
+                  {p.waitlistedAt ? "Give a seat" : "Move to waitlist"}
+                </button>
+              )}
             </div>
             {clickable && (
               <svg
@@ -1,27 +1,110 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { Participant } from "@/lib/types";
+import type { GmRole, Participant } from "@/lib/types";
+import { adminHeaders, participantHeaders } from "@/lib/utils/auth-headers";
+import { buildRecoveryLink, getParticipantToken, storeParticipantToken } from "@/lib/utils/participant-token";
 
 interface PlayerDetailModalProps {
   participant: Participant;
   isOpen: boolean;
   onClose: () => void;
+  eventId: string;
   eventSlug: string;
   isCurrentUser: boolean;
+  canManage?: boolean;  // Viewer is a GM and can issue recovery links, mark players required or share GM duties
+  onRequiredChange?: (isRequired: boolean) => void;
+  onGmRoleChange?: (gmRole: GmRole | null) => void;
 }
 
 export function PlayerDetailModal({
   participant,
   isOpen,
   onClose,
+  eventId,
   eventSlug,
   isCurrentUser,
+  canManage = false,
+  onRequiredChange,
+  onGmRoleChange,
 }: PlayerDetailModalProps) {
   const router = useRouter();
-  // Use "gm" for GM participants, otherwise use participant ID
-  const participantPath = participant.isGm ? "gm" : participant.id;
+  const [recoveryStatus, setRecoveryStatus] = useState<"idle" | "copied" | "error">("idle");
+  const [isRequired, setIsRequired] = useState(participant.isRequired);
+  const [isSavingRequired, setIsSavingRequired] = useState(false);
+  const [gmRole, setGmRole] = useState(participant.gmRole);
+  const [isSavingGmRole, setIsSavingGmRole] = useState(false);
+  const isGm = gmRole !== null;
+  // Use "gm" for the primary GM, otherwise use participant ID
+  const participantPath = gmRole === "primary" ? "gm" : participant.id;
+
+  // GM marks a player the group can't play without
+  const handleToggleRequired = async () => {
+    const next = !isRequired;
+    setIsSavingRequired(true);
+    try {
+      const res = await fetch(`/api/participants/${participant.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...adminHeaders(eventId) },
+        body: JSON.stringify({ isRequired: next }),
+      });
+      if (res.ok) {
+        setIsRequired(next);
+        onRequiredChange?.(next);
+      }
+    } catch (error) {
+      console.error("Failed to update required flag:", error);
+    } finally {
+      setIsSavingRequired(false);
+    }
+  };
+
+  // GMs share the table: promote a player to co-GM, demote them, or hand over the primary role
+  const handleChangeGmRole = async (next: GmRole | null) => {
+    setIsSavingGmRole(true);
+    try {
+      const res = await fetch(`/api/participants/${participant.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...adminHeaders(eventId) },
+        body: JSON.stringify({ gmRole: next }),
+      });
+      if (res.ok) {
+        setGmRole(next);
+        if (next !== null) setIsRequired(false);
+        onGmRoleChange?.(next);
+      }
+    } catch (error) {
+      console.error("Failed to update GM role:", error);
+    } finally {
+      setIsSavingGmRole(false);
+    }
+  };
+
+  // Players copy their own link; the GM issues a new one (which replaces the old)
+  const handleCopyRecoveryLink = async () => {
+    let token = isCurrentUser ? getParticipantToken(participant.id) : null;
+    if (!token) {
+      const res = await fetch(`/api/participants/${participant.id}/token`, {
+        method: "POST",
+        headers: participantHeaders(participant.id, eventId),
+      });
+      if (!res.ok) {
+        setRecoveryStatus("error");
+        return;
+      }
+      token = (await res.json()).editToken as string;
+      if (isCurrentUser) {
+        storeParticipantToken(participant.id, token);
+      }
+    }
+
+    await navigator.clipboard.writeText(
+      buildRecoveryLink(window.location.origin, eventSlug, participant.id, token)
+    );
+    setRecoveryStatus("copied");
+    setTimeout(() => setRecoveryStatus("idle"), 2000);
+  };
 
   // Close on escape
   useEffect(() => {
@@ -72,9 +155,14 @@ export function PlayerDetailModal({
               <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
                 {participant.displayName}
               </h2>
-              {participant.isGm && (
+              {isGm && (
                 <span className="rounded bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">
-                  Game Master
+                  {gmRole === "co_gm" ? "Co-GM" : "Game Master"}
+                </span>
+              )}
+              {!isGm && isRequired && (
+                <span className="rounded bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                  Required
                 </span>
               )}
             </div>
@@ -249,6 +337,84 @@ export function PlayerDetailModal({
             </button>
           )}
         </div>
+
+        {/* Required flag (GM only) - sessions are only suggested when required players can make them */}
+        {!isGm && canManage && (
+          <label className="mt-4 flex items-center justify-between gap-3 rounded-lg border border-zinc-200 px-3 py-2.5 dark:border-zinc-700">
+            <span>
+              <span className="block text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                Required player
+              </span>
+              <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                Only suggest times {participant.displayName} can make
+              </span>
+            </span>
+            <input
+              type="checkbox"
+              checked={isRequired}
+              onChange={handleToggleRequired}
+              disabled={isSavingRequired}
+              className="h-4 w-4 rounded border-zinc-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+            />
+          </label>
+        )}
+
+        {/* GM role (GM only) - co-GMs get settings access and count towards GM availability */}
+        {gmRole !== "primary" && canManage && (
+          <div className="mt-3 rounded-lg border border-zinc-200 px-3 py-2.5 dark:border-zinc-700">
+            <label className="flex items-center justify-between gap-3">
+              <span>
+                <span className="block text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                  Co-GM
+                </span>
+                <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                  {participant.displayName} can run sessions and manage the campaign
+                </span>
+              </span>
+              <input
+                type="checkbox"
+                checked={gmRole === "co_gm"}
+                onChange={() => handleChangeGmRole(gmRole === "co_gm" ? null : "co_gm")}
+                disabled={isSavingGmRole}
+                className="h-4 w-4 rounded border-zinc-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+              />
+            </label>
+            {gmRole === "co_gm" && (
+              <button
+                type="button"
+                onClick={() => handleChangeGmRole("primary")}
+                disabled={isSavingGmRole}
+                className="mt-2 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400"
+              >
+                Make primary GM
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Recovery link for continuing on another device */}
+        {!isGm && (isCurrentUser || canManage) && (
+          <div className="mt-3 flex items-center justify-between gap-3 text-xs text-zinc-500 dark:text-zinc-400">
+            <span>
+              {isCurrentUser
+                ? "Use this name on another device"
+                : "Lost access? A new link replaces the old one"}
+            </span>
+            <button
+              type="button"
+              onClick={handleCopyRecoveryLink}
+              className="shrink-0 font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+            >
+              {recoveryStatus === "copied"
+                ? "Copied!"
+                : recoveryStatus === "error"
+                  ? "Couldn't create link"
+                  : isCurrentUser
+                    ? "Copy recovery link"
+                    : "New recovery link"}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,30 +1,47 @@
 import Anthropic from "@anthropic-ai/sdk";
 import type { CreateAvailabilityRuleInput } from "@/lib/types/availability";
 import { prepareRuleForStorage } from "@/lib/availability/timezone";
+import { validatePatternRecurrence } from "@/lib/availability/recurrence";
+import { parseAvailabilityTextLocally } from "./rule-based-parser";
 
-interface ParsedPattern {
+type PatternRecurrenceFields = Pick<
+  ParsedPattern,
+  "validFrom" | "validUntil" | "weekInterval" | "anchorDate" | "weeksOfMonth"
+>;
+
+export interface ParsedPattern {
   dayOfWeek: number; // 0=Sunday, 1=Monday, etc.
   startTime: string; // HH:MM format
   endTime: string; // HH:MM format
+  validFrom?: string; // YYYY-MM-DD, optional: first date the pattern applies ("starting ...")
+  validUntil?: string; // YYYY-MM-DD, optional: last date the pattern applies ("until ...")
+  weekInterval?: number; // Optional: every N weeks ("every other ...")
+  anchorDate?: string; // YYYY-MM-DD, required with weekInterval: a date it occurs on
+  weeksOfMonth?: number[]; // Optional: nth weekday of the month, -1 = last ("first and third ...")
 }
 
-interface ParsedSpecificSlot {
+export interface ParsedSpecificSlot {
   date: string; // YYYY-MM-DD format
   startTime: string; // HH:MM format
   endTime: string; // HH:MM format
 }
 
-interface ParsedExclusion {
+export interface ParsedExclusion {
   date: string; // YYYY-MM-DD format
   startTime?: string; // HH:MM format, optional (if not provided, means whole day)
   endTime?: string; // HH:MM format
   reason?: string;
 }
 
-interface RoutineRemoval {
+export interface RoutineRemoval {
   dayOfWeek: number; // 0=Sunday, 1=Monday, etc. - Remove this day entirely from routine
   startTime?: string; // Optional: only remove a specific time range
   endTime?: string;
+  validFrom?: string; // YYYY-MM-DD, optional: first date the removal applies
+  validUntil?: string; // YYYY-MM-DD, optional: last date the removal applies
+  weekInterval?: number; // Optional: every N weeks
+  anchorDate?: string; // YYYY-MM-DD, required with weekInterval
+  weeksOfMonth?: number[]; // Optional: nth weekday of the month, -1 = last
 }
 
 export interface ParseResult {
@@ -89,6 +106,29 @@ DETECTING UNAVAILABILITY - CRITICAL:
 - IMPORTANT: If user says "blocked X" or "not available X" without specifying days (e.g., "blocked 8am-5pm"), assume they mean EVERY DAY and create routineRemovals for all 7 days (dayOfWeek 0-6)
 - Similarly, "every day" or "everyday" or "daily" means all 7 days
 
+DATE BOUNDS ON RECURRING RULES:
+- Patterns and routineRemovals may be limited to a date range with optional "validFrom" and/or "validUntil" (YYYY-MM-DD, both inclusive)
+- "until X", "through X", "up to X" -> validUntil = X (use the day before X only for "before X")
+- "starting X", "from X on", "beginning X", "after X" -> validFrom = X (use the day after X for "after X")
+- Resolve relative phrases against today's date, e.g. "next month" -> the first day of next month, "for the next two weeks" -> validFrom today, validUntil 13 days from today
+- Omit both fields when no bound is mentioned
+- Examples:
+  - "Tuesdays 6-10pm until March 1st" -> patterns: [{ "dayOfWeek": 2, "startTime": "18:00", "endTime": "22:00", "validUntil": "2026-03-01" }]
+  - "weekends starting next month" -> patterns for Saturday and Sunday with validFrom = first day of next month
+  - "can't do Mondays until the 20th" -> routineRemovals: [{ "dayOfWeek": 1, "validUntil": "<the 20th>" }]
+
+RECURRENCE OTHER THAN WEEKLY:
+- "every other X", "every second X", "biweekly on X" -> "weekInterval": 2 and "anchorDate" = a date it occurs on
+- "every third X" -> "weekInterval": 3, and so on (max 8)
+- Use the upcoming date for that day from UPCOMING DATES as anchorDate, unless the user names which week (e.g. "every other Saturday starting the 14th" -> anchorDate = the 14th)
+- "first X of the month", "1st and 3rd X" -> "weeksOfMonth": [1] or [1, 3]
+- "last X of the month" -> "weeksOfMonth": [-1]
+- Never combine weekInterval with weeksOfMonth; omit both for plain weekly rules
+- Examples:
+  - "every other Saturday 2-6pm" -> patterns: [{ "dayOfWeek": 6, "startTime": "14:00", "endTime": "18:00", "weekInterval": 2, "anchorDate": "<upcoming Saturday>" }]
+  - "first and third Fridays after 7pm" -> patterns: [{ "dayOfWeek": 5, "startTime": "19:00", "endTime": "24:00", "weeksOfMonth": [1, 3] }]
+  - "busy the last Sunday of every month" -> routineRemovals: [{ "dayOfWeek": 0, "weeksOfMonth": [-1] }]
+
 MODE DETECTION - VERY IMPORTANT:
 - DEFAULT to mode = "adjust" - this is the most common case
 - Only use mode = "replace" if the user EXPLICITLY says something like:
@@ -107,7 +147,7 @@ MODE DETECTION - VERY IMPORTANT:
 Respond ONLY with valid JSON in this format:
 {
   "patterns": [
-    { "dayOfWeek": 1, "startTime": "18:00", "endTime": "22:00" }
+    { "dayOfWeek": 1, "startTime": "18:00", "endTime": "22:00", "validUntil": "2026-03-01" }
   ],
   "additions": [
     { "date": "2026-01-12", "startTime": "17:00", "endTime": "19:00" }
@@ -144,6 +184,25 @@ Notes:
 - For whole-day exclusions, omit startTime and endTime
 - PREFER patterns for recurring availability, routineRemovals for recurring unavailability, additions/exclusions for one-time dates`;
 
+/**
+ * Validate optional date bounds and recurrence on a recurring entry
+ */
+function validateRecurrence(entry: PatternRecurrenceFields): void {
+  if (entry.validFrom !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(entry.validFrom)) {
+    throw new Error(`Invalid validFrom format: ${entry.validFrom}`);
+  }
+  if (entry.validUntil !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(entry.validUntil)) {
+    throw new Error(`Invalid validUntil format: ${entry.validUntil}`);
+  }
+  if (entry.validFrom && entry.validUntil && entry.validFrom > entry.validUntil) {
+    throw new Error(`validFrom ${entry.validFrom} is after validUntil ${entry.validUntil}`);
+  }
+  const error = validatePatternRecurrence({ ...entry, ruleType: "available_pattern" });
+  if (error) {
+    throw new Error(error);
+  }
+}
+
 /**
  * Calculate upcoming dates for each day of the week from a given start date
  */
@@ -265,6 +324,7 @@ Respond with ONLY valid JSON.`,
       if (!/^\d{2}:\d{2}$/.test(slot.endTime)) {
         throw new Error(`Invalid endTime format: ${slot.endTime}`);
       }
+      validateRecurrence(slot);
       // Normalize "00:00" to "00:00" as full day ("00:00" to "24:00")
       // AI sometimes returns this instead of using "24:00" for end of day
       if (slot.startTime === "00:00" && slot.endTime === "00:00") {
@@ -317,6 +377,7 @@ Respond with ONLY valid JSON.`,
       if (removal.endTime && !/^\d{2}:\d{2}$/.test(removal.endTime)) {
         throw new Error(`Invalid endTime format: ${removal.endTime}`);
       }
+      validateRecurrence(removal);
     }
 
     return parsed;
@@ -374,6 +435,13 @@ export function convertToRules(
       endTime: prepared.endTime,
       originalTimezone: prepared.originalTimezone,
       originalDayOfWeek: prepared.originalDayOfWeek,
+      originalStartTime: prepared.originalStartTime,
+      originalEndTime: prepared.originalEndTime,
+      validFrom: pattern.validFrom ?? null,
+      validUntil: pattern.validUntil ?? null,
+      weekInterval: pattern.weekInterval ?? null,
+      anchorDate: pattern.anchorDate ?? null,
+      weeksOfMonth: pattern.weeksOfMonth ?? null,
       crossesMidnight: prepared.crossesMidnight,
       source: "ai",
     });
@@ -461,6 +529,13 @@ export function convertToRules(
       endTime: prepared.endTime,
       originalTimezone: prepared.originalTimezone,
       originalDayOfWeek: prepared.originalDayOfWeek,
+      originalStartTime: prepared.originalStartTime,
+      originalEndTime: prepared.originalEndTime,
+      validFrom: removal.validFrom ?? null,
+      validUntil: removal.validUntil ?? null,
+      weekInterval: removal.weekInterval ?? null,
+      anchorDate: removal.anchorDate ?? null,
+      weeksOfMonth: removal.weeksOfMonth ?? null,
       crossesMidnight: prepared.crossesMidnight,
       source: "ai",
     });
@@ -469,11 +544,24 @@ export function convertToRules(
   return rules;
 }
 
+/**
+ * Which parser turns text into a ParseResult
+ * - ai: Claude only
+ * - local: the rule-based parser only (no API call)
+ * - auto: Claude, falling back to the rule-based parser when the API key is
+ *   missing or the request fails
+ */
+export type AvailabilityParser = "auto" | "ai" | "local";
+
+export const AVAILABILITY_PARSERS: AvailabilityParser[] = ["auto", "ai", "local"];
+
 /**
  * Result type that includes both legacy format and new rules
  */
 export interface ParseResultWithRules extends ParseResult {
   rules: CreateAvailabilityRuleInput[];
+  // The parser that produced the result
+  parser: "ai" | "local";
 }
 
 /**
@@ -484,13 +572,31 @@ export async function parseAvailabilityWithRules(
   timezone: string,
   participantId: string,
   currentDate?: string,
-  currentDay?: string
+  currentDay?: string,
+  parser: AvailabilityParser = "auto"
 ): Promise<ParseResultWithRules> {
-  const result = await parseAvailabilityText(text, timezone, currentDate, currentDay);
+  let result: ParseResult;
+  let usedParser: ParseResultWithRules["parser"] = "ai";
+
+  if (parser === "local" || (parser === "auto" && !process.env.ANTHROPIC_API_KEY)) {
+    result = parseAvailabilityTextLocally(text, currentDate);
+    usedParser = "local";
+  } else {
+    try {
+      result = await parseAvailabilityText(text, timezone, currentDate, currentDay);
+    } catch (error) {
+      if (parser === "ai") throw error;
+      console.warn("AI availability parser failed, using rule-based parser:", error);
+      result = parseAvailabilityTextLocally(text, currentDate);
+      usedParser = "local";
+    }
+  }
+
   const rules = convertToRules(result, timezone, participantId);
 
   return {
     ...result,
     rules,
+    parser: usedParser,
   };
 }
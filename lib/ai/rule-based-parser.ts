@@ -0,0 +1,567 @@
+/**
+ * Rule-based availability parser
+ *
+ * Deterministic fallback for the Claude parser, used when the Anthropic API
+ * is unavailable or when explicitly requested. Understands common phrasings
+ * ("weekday evenings", "not mondays", "busy the 15th", "10pm-2am",
+ * "every other Saturday", "until March 1st") and returns the same
+ * ParseResult shape, so convertToRules works on either parser's output.
+ */
+
+import { addDays, addMonths, format, getDay, parseISO, startOfMonth } from "date-fns";
+import type {
+  ParseResult,
+  ParsedExclusion,
+  ParsedPattern,
+  ParsedSpecificSlot,
+  RoutineRemoval,
+} from "./availability-parser";
+
+type Recurrence = Pick<ParsedPattern, "weekInterval" | "anchorDate" | "weeksOfMonth">;
+
+interface TimeRange {
+  startTime: string;
+  endTime: string;
+}
+
+type TokenBody =
+  | { kind: "days"; days: number[]; recurrence: Recurrence }
+  | { kind: "dates"; dates: string[] }
+  // Named parts of the day are vague: an explicit time next to them wins.
+  // "Anytime" is all day only when no other time goes with it ("anytime after 6pm")
+  | { kind: "time"; range: TimeRange; vague?: boolean; anytime?: boolean };
+
+type Token = TokenBody & { index: number };
+
+interface Scan {
+  text: string;
+  tokens: Token[];
+  bounds: { validFrom?: string; validUntil?: string };
+}
+
+const DAY_INDEX: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+// Same definitions the Claude prompt uses
+const PERIODS: Record<string, TimeRange> = {
+  morning: { startTime: "06:00", endTime: "12:00" },
+  afternoon: { startTime: "12:00", endTime: "17:00" },
+  evening: { startTime: "17:00", endTime: "22:00" },
+  night: { startTime: "20:00", endTime: "24:00" },
+};
+const ALL_DAY: TimeRange = { startTime: "00:00", endTime: "24:00" };
+
+const DAY =
+  "(?:sundays?|sun|mondays?|mon|tuesdays?|tues|tue|wednesdays?|weds|wed|thursdays?|thurs|thur|thu|fridays?|fri|saturdays?|sat)";
+const MONTH =
+  "(?:january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)";
+const ORDINAL = "(?:first|second|third|fourth|fifth|last|1st|2nd|3rd|4th|5th)";
+const DATE = [
+  "\\d{4}-\\d{2}-\\d{2}",
+  `${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?(?:\\s+\\d{4})?`,
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:\\s+\\d{4})?`,
+  "\\d{1,2}\\/\\d{1,2}(?:\\/\\d{2,4})?",
+  "(?:the\\s+)?\\d{1,2}(?:st|nd|rd|th)\\b",
+  "today|tomorrow",
+  `(?:this|next|coming)\\s+${DAY}\\b`,
+].join("|");
+const POINT = "(?:\\d{1,2}(?::\\d{2})?\\s*(?:am|pm|a|p)?(?![a-z])|noon|midday|midnight)";
+
+const NEGATIVE =
+  /\b(?:not|never|no|busy|unavailable|blocked|booked|cannot|can't|cant|won't|wont|don't|dont|doesn't|doesnt|isn't|aren't|have plans|away|out of town|at work|i work|i'm working|working)\b/;
+const POSITIVE = /\b(?:free|available|can|could|works?|open|good|fine|ok|okay|play)\b/;
+const REPLACE =
+  /\b(?:my (?:availability|schedule) is|(?:i'm|i am) only (?:available|free)|only (?:available|free)|set my (?:availability|schedule)|clear my (?:availability|schedule))\b/;
+
+function toDateString(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * The next date (today included) falling on a day of week
+ */
+function upcomingDate(today: string, dayOfWeek: number): string {
+  const start = parseISO(today);
+  return toDateString(addDays(start, (dayOfWeek - getDay(start) + 7) % 7));
+}
+
+function dayIndex(word: string): number {
+  return DAY_INDEX[word] ?? DAY_INDEX[word.replace(/s$/, "")];
+}
+
+function monthIndex(word: string): number {
+  return [
+    "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec",
+  ].indexOf(word.slice(0, 3));
+}
+
+/**
+ * Build a date, or null if the day doesn't exist in that month
+ */
+function makeDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+/**
+ * Resolve a month and day without a year to its next occurrence
+ */
+function nextMonthDay(today: string, month: number, day: number): string | null {
+  const now = parseISO(today);
+  for (const year of [now.getFullYear(), now.getFullYear() + 1]) {
+    const date = makeDate(year, month, day);
+    if (date && toDateString(date) >= today) return toDateString(date);
+  }
+  return null;
+}
+
+/**
+ * Resolve a date expression (see DATE) to YYYY-MM-DD
+ */
+function resolveDate(expr: string, today: string): string | null {
+  const text = expr.trim();
+  let m: RegExpMatchArray | null;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  if (text === "today") return today;
+  if (text === "tomorrow") return toDateString(addDays(parseISO(today), 1));
+
+  if ((m = text.match(new RegExp(`^(this|next|coming)\\s+(${DAY})$`)))) {
+    const date = upcomingDate(today, dayIndex(m[2]));
+    return m[1] === "next" && date === today ? toDateString(addDays(parseISO(today), 7)) : date;
+  }
+
+  const withYear = (year: string | undefined, month: number, day: number) => {
+    if (!year) return nextMonthDay(today, month, day);
+    const date = makeDate(Number(year), month, day);
+    return date ? toDateString(date) : null;
+  };
+  if ((m = text.match(new RegExp(`^(${MONTH})\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+(\\d{4}))?$`)))) {
+    return withYear(m[3], monthIndex(m[1]), Number(m[2]));
+  }
+  if ((m = text.match(new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})(?:\\s+(\\d{4}))?$`)))) {
+    return withYear(m[3], monthIndex(m[2]), Number(m[1]));
+  }
+  if ((m = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?$/))) {
+    const year = m[3] && m[3].length === 2 ? `20${m[3]}` : m[3];
+    return withYear(year, Number(m[1]) - 1, Number(m[2]));
+  }
+
+  // "the 15th": this month if it hasn't passed, otherwise the next month that has one
+  if ((m = text.match(/^(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)$/))) {
+    const day = Number(m[1]);
+    const monthStart = startOfMonth(parseISO(today));
+    for (let i = 0; i < 3; i++) {
+      const month = addMonths(monthStart, i);
+      const date = makeDate(month.getFullYear(), month.getMonth(), day);
+      if (date && toDateString(date) >= today) return toDateString(date);
+    }
+  }
+
+  return null;
+}
+
+interface TimePoint {
+  hour: number;
+  minute: number;
+  meridiem: "am" | "pm" | null;
+  // Written as 24-hour time ("18:00", "09:30") or a named time ("noon")
+  fixed: boolean;
+}
+
+function parsePoint(text: string): TimePoint {
+  const value = text.trim();
+  if (value === "noon" || value === "midday") return { hour: 12, minute: 0, meridiem: "pm", fixed: true };
+  if (value === "midnight") return { hour: 0, minute: 0, meridiem: null, fixed: true };
+
+  const m = value.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a|p)?$/)!;
+  const hour = Number(m[1]);
+  const meridiem = m[3] ? (m[3].startsWith("a") ? "am" : "pm") : null;
+  return {
+    hour,
+    minute: m[2] ? Number(m[2]) : 0,
+    meridiem,
+    fixed: !meridiem && (hour === 0 || hour > 12 || m[1].startsWith("0")),
+  };
+}
+
+function pointMinutes(point: TimePoint, meridiem: "am" | "pm" | null): number {
+  let hour = point.hour;
+  if (meridiem === "am") hour %= 12;
+  if (meridiem === "pm") hour = (hour % 12) + 12;
+  return hour * 60 + point.minute;
+}
+
+function isResolved(point: TimePoint): boolean {
+  return point.fixed || point.meridiem !== null;
+}
+
+// A bare hour could be either half of the day; bare 12 means noon first
+function candidates(point: TimePoint): number[] {
+  return point.hour === 12
+    ? [pointMinutes(point, "pm"), 24 * 60 + point.minute]
+    : [pointMinutes(point, "am"), pointMinutes(point, "pm")];
+}
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.min(Math.round(minutes / 30) * 30, 24 * 60);
+  return `${String(Math.floor(rounded / 60)).padStart(2, "0")}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Turn a start and end into a range, filling in missing am/pm
+ *
+ * "6-10pm" -> 18:00-22:00, "10-2pm" -> 10:00-14:00, "9-5" -> 09:00-17:00,
+ * "6-10" -> 18:00-22:00 (bare early hours mean evening), "10pm-2" -> 22:00-02:00
+ */
+function resolveRange(startPoint: TimePoint, endPoint: TimePoint): TimeRange | null {
+  let start: number;
+  let end: number;
+
+  if (isResolved(startPoint)) {
+    start = pointMinutes(startPoint, startPoint.meridiem);
+  } else if (isResolved(endPoint)) {
+    // Latest reading of the start that is still before the end, else overnight
+    const fixedEnd = pointMinutes(endPoint, endPoint.meridiem) || 24 * 60;
+    const before = candidates(startPoint).filter((c) => c < fixedEnd);
+    start = before.length > 0 ? before[before.length - 1] : pointMinutes(startPoint, "pm");
+  } else {
+    start = pointMinutes(startPoint, startPoint.hour >= 1 && startPoint.hour <= 7 ? "pm" : null);
+  }
+
+  if (isResolved(endPoint)) {
+    end = pointMinutes(endPoint, endPoint.meridiem);
+  } else {
+    // Earliest reading of the end after the start, else overnight
+    const options = candidates(endPoint);
+    end = options.find((c) => c > start) ?? options[0];
+  }
+
+  if (end === 0) end = 24 * 60;
+  const range = { startTime: formatMinutes(start), endTime: formatMinutes(end) };
+  return range.startTime === range.endTime ? null : range;
+}
+
+/**
+ * Time for "after 7" / "before 5" when am/pm is left out
+ */
+function resolveOpenPoint(point: TimePoint, isStart: boolean): number {
+  if (isResolved(point)) return pointMinutes(point, point.meridiem);
+  if (point.hour === 12) return 12 * 60 + point.minute;
+  // "after 9" is an evening; "before 9" is a morning unless it's an early hour
+  const pm = isStart ? point.hour <= 11 : point.hour <= 7;
+  return pointMinutes(point, pm ? "pm" : "am");
+}
+
+/**
+ * Find every match of a pattern, record its tokens and blank it out so
+ * later (looser) patterns can't match the same text
+ */
+function extract(scan: Scan, pattern: RegExp, build: (match: RegExpMatchArray) => TokenBody[] | null): void {
+  for (const match of [...scan.text.matchAll(pattern)]) {
+    const tokens = build(match);
+    if (!tokens) continue;
+    const index = match.index!;
+    scan.tokens.push(...tokens.map((token) => ({ ...token, index })));
+    scan.text = scan.text.slice(0, index) + " ".repeat(match[0].length) + scan.text.slice(index + match[0].length);
+  }
+}
+
+function daysToken(days: number[], recurrence: Recurrence = {}): TokenBody {
+  return { kind: "days", days, recurrence };
+}
+
+/**
+ * Pull days, dates, times and date bounds out of one clause
+ */
+function scanClause(clause: string, today: string): Scan {
+  const scan: Scan = { text: clause, tokens: [], bounds: {} };
+
+  // Recurrence: "every other saturday", "1st and 3rd fridays of the month"
+  extract(scan, new RegExp(`\\b(?:every\\s+(other|second|2nd|third|3rd|fourth|4th)|biweekly|fortnightly|alternate)\\s+(?:on\\s+)?(${DAY})\\b`, "g"), (m) => {
+    const dayOfWeek = dayIndex(m[2]);
+    const weekInterval = !m[1] || /other|second|2nd/.test(m[1]) ? 2 : /third|3rd/.test(m[1]) ? 3 : 4;
+    return [daysToken([dayOfWeek], { weekInterval, anchorDate: upcomingDate(today, dayOfWeek) })];
+  });
+  extract(scan, new RegExp(`\\b(?:the\\s+)?(${ORDINAL}(?:\\s*(?:,|and|&)\\s*${ORDINAL})*)\\s+(${DAY})(?:\\s+(?:of|in)\\s+(?:the|each|every)\\s+month)?\\b`, "g"), (m) => {
+    const weeksOfMonth = m[1].match(new RegExp(ORDINAL, "g"))!.map((word) =>
+      word === "last" ? -1 : ["first", "second", "third", "fourth", "fifth"].indexOf(word) + 1 || Number(word[0])
+    );
+    return [daysToken([dayIndex(m[2])], { weeksOfMonth: [...new Set(weeksOfMonth)] })];
+  });
+
+  // Date bounds: "until march 1st", "starting next month", "before the 20th"
+  // A bound is a single date, or a month ("starting april", "until next month")
+  const BOUND_DATE = `${DATE}|next month|(?:the )?end of (?:the |this )?month|${MONTH}\\b`;
+  const resolveBound = (expr: string): { first: string; last: string; isMonth: boolean } | null => {
+    const now = parseISO(today);
+    if (expr.includes("end of")) {
+      const last = toDateString(addDays(startOfMonth(addMonths(now, 1)), -1));
+      return { first: last, last, isMonth: false };
+    }
+    if (expr === "next month" || new RegExp(`^${MONTH}$`).test(expr)) {
+      let first =
+        expr === "next month"
+          ? startOfMonth(addMonths(now, 1))
+          : new Date(now.getFullYear(), monthIndex(expr), 1);
+      // A month that has already passed means next year's
+      if (first < startOfMonth(now)) first = addMonths(first, 12);
+      return { first: toDateString(first), last: toDateString(addDays(addMonths(first, 1), -1)), isMonth: true };
+    }
+    const date = resolveDate(expr, today);
+    return date ? { first: date, last: date, isMonth: false } : null;
+  };
+  extract(scan, new RegExp(`\\b(until|till|til|through|thru|up to|before)\\s+(${BOUND_DATE})`, "g"), (m) => {
+    const bound = resolveBound(m[2]);
+    if (!bound) return null;
+    // "until march" ends as march starts; "through march" includes it
+    const inclusive = /through|thru/.test(m[1]) || (m[1] !== "before" && !bound.isMonth);
+    scan.bounds.validUntil = inclusive ? bound.last : toDateString(addDays(parseISO(bound.first), -1));
+    return [];
+  });
+  extract(scan, new RegExp(`\\b(starting(?:\\s+(?:on|from|in))?|beginning|from|after|as of)\\s+(${BOUND_DATE})(?:\\s+on(?:wards?)?)?`, "g"), (m) => {
+    const bound = resolveBound(m[2]);
+    if (!bound) return null;
+    scan.bounds.validFrom = m[1] === "after" ? toDateString(addDays(parseISO(bound.last), 1)) : bound.first;
+    return [];
+  });
+
+  // Specific dates
+  extract(scan, /\btonight\b/g, () => [
+    { kind: "dates", dates: [today] },
+    { kind: "time", range: PERIODS.evening, vague: true },
+  ]);
+  extract(scan, new RegExp(`\\b(?:on\\s+)?(${DATE})`, "g"), (m) => {
+    const date = resolveDate(m[1], today);
+    return date ? [{ kind: "dates", dates: [date] }] : null;
+  });
+
+  // Time ranges: "6-10pm", "from 10pm to 2am", "between 9 and 5"
+  const range = (m: RegExpMatchArray): TokenBody[] | null => {
+    const resolved = resolveRange(parsePoint(m[1]), parsePoint(m[2]));
+    return resolved ? [{ kind: "time", range: resolved }] : null;
+  };
+  extract(scan, new RegExp(`\\bbetween\\s+(${POINT})\\s*(?:and|-)\\s*(${POINT})`, "g"), range);
+  extract(scan, new RegExp(`(?:\\bfrom\\s+)?\\b(${POINT})\\s*(?:-|to|until|till|til|thru|through)\\s*(${POINT})`, "g"), range);
+
+  // Open-ended times: "after 7pm", "before noon"
+  extract(scan, new RegExp(`\\b(?:after|from|past|since)\\s+(${POINT})`, "g"), (m) => {
+    const start = resolveOpenPoint(parsePoint(m[1]), true);
+    return start < 24 * 60 ? [{ kind: "time", range: { startTime: formatMinutes(start), endTime: "24:00" } }] : null;
+  });
+  extract(scan, new RegExp(`\\b(?:before|until|till|til|by)\\s+(${POINT})`, "g"), (m) => {
+    const end = resolveOpenPoint(parsePoint(m[1]), false) || 24 * 60;
+    return [{ kind: "time", range: { startTime: "00:00", endTime: formatMinutes(end) } }];
+  });
+
+  // Parts of the day
+  extract(scan, /\bweeknights?\b/g, () => [daysToken(WEEKDAYS), { kind: "time", range: PERIODS.night, vague: true }]);
+  extract(scan, /\b(?:all[\s-]day|the whole day|whole day|all the time)\b/g, () => [
+    { kind: "time", range: ALL_DAY },
+  ]);
+  extract(scan, /\bany\s*time\b/g, () => [{ kind: "time", range: ALL_DAY, anytime: true }]);
+  extract(scan, /\b(morning|afternoon|evening|night)s?\b/g, (m) => [
+    { kind: "time", range: PERIODS[m[1]], vague: true },
+  ]);
+
+  // Days of the week
+  extract(scan, new RegExp(`\\b(${DAY})\\s*(?:-|to|through|thru)\\s*(${DAY})\\b`, "g"), (m) => {
+    const days: number[] = [];
+    for (let day = dayIndex(m[1]); ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === dayIndex(m[2])) break;
+    }
+    return [daysToken(days)];
+  });
+  extract(scan, /\bweekdays?\b/g, () => [daysToken(WEEKDAYS)]);
+  extract(scan, /\bweekends?\b/g, () => [daysToken(WEEKEND)]);
+  extract(scan, /\b(?:every\s*day|daily|each day|all week)\b/g, () => [daysToken(EVERY_DAY)]);
+  extract(scan, new RegExp(`\\b(${DAY})\\b`, "g"), (m) => [daysToken([dayIndex(m[1])])]);
+
+  scan.tokens.sort((a, b) => a.index - b.index);
+  return scan;
+}
+
+/**
+ * Time ranges from a run of time tokens: explicit times over named parts of
+ * the day ("friday night 10pm-2am" is 22:00-02:00), and anything over
+ * "anytime", without duplicates
+ */
+function pickTimes(tokens: Token[]): TimeRange[] {
+  const allTimes = tokens.flatMap((t) => (t.kind === "time" ? [t] : []));
+  const times = allTimes.some((t) => !t.anytime) ? allTimes.filter((t) => !t.anytime) : allTimes;
+  const chosen = times.some((t) => !t.vague) ? times.filter((t) => !t.vague) : times;
+  const unique = new Map(chosen.map((t) => [`${t.range.startTime}-${t.range.endTime}`, t.range]));
+  return [...unique.values()];
+}
+
+interface Group {
+  where: Token[];
+  times: TimeRange[];
+}
+
+/**
+ * Pair days/dates with the times next to them
+ *
+ * "mondays 6-10pm and saturdays all day" pairs each day with the time after
+ * it; "after 7pm on fridays" pairs the other way round, depending on which
+ * comes first in the clause.
+ */
+function groupTokens(tokens: Token[]): Group[] {
+  const runs: { isTime: boolean; tokens: Token[] }[] = [];
+  for (const token of tokens) {
+    const isTime = token.kind === "time";
+    const last = runs[runs.length - 1];
+    if (last && last.isTime === isTime) last.tokens.push(token);
+    else runs.push({ isTime, tokens: [token] });
+  }
+
+  const groups: Group[] = [];
+  const timesFirst = runs[0]?.isTime ?? false;
+  for (let i = 0; i < runs.length; i += 2) {
+    const first = runs[i];
+    const second = runs[i + 1];
+    const whereRun = timesFirst ? second : first;
+    const timeRun = timesFirst ? first : second;
+    groups.push({
+      where: whereRun?.tokens ?? [],
+      times: pickTimes(timeRun?.tokens ?? []),
+    });
+  }
+  return groups;
+}
+
+function describeTimes(times: TimeRange[]): string {
+  return times.length === 0 ? "all day" : times.map((t) => `${t.startTime}-${t.endTime}`).join(", ");
+}
+
+/**
+ * Parse availability text without calling Claude
+ *
+ * @param text - The user's description
+ * @param currentDate - Today as YYYY-MM-DD, for relative dates
+ * @throws If nothing in the text could be understood
+ */
+export function parseAvailabilityTextLocally(text: string, currentDate?: string): ParseResult {
+  const today = currentDate || new Date().toISOString().split("T")[0];
+  const normalized = text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[–—]/g, "-")
+    .replace(/\b([ap])\.m\.?/g, "$1m")
+    .replace(new RegExp(`\\b(${MONTH})\\.`, "g"), "$1")
+    // Keep "january 15, 2026" in one clause
+    .replace(/(\d)(st|nd|rd|th)?,\s*(\d{4})\b/g, "$1$2 $3")
+    .replace(/\s+/g, " ");
+
+  const result: ParseResult = {
+    patterns: [],
+    additions: [],
+    exclusions: [],
+    routineRemovals: [],
+    interpretation: "",
+    mode: REPLACE.test(normalized) ? "replace" : "adjust",
+  };
+  const understood: string[] = [];
+  const skipped: string[] = [];
+
+  // Split into clauses, keeping the word that separated them
+  const parts = normalized.split(
+    /([.;!?\n]+|,|\bbut\b|\bexcept(?:\s+for)?\b|\bhowever\b|\balso\b|\band\b(?=\s+(?:i'm\s+|i\s+)?(?:not|busy|free|available|unavailable|can|can't|cannot|never)\b))/
+  );
+  let separator = "";
+  let previousNegative = false;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const clause = parts[i].trim();
+    const before = separator;
+    separator = (parts[i + 1] ?? "").trim();
+    if (!clause) continue;
+
+    const isNegative: boolean = before.startsWith("except")
+      ? true
+      : NEGATIVE.test(clause)
+        ? true
+        : POSITIVE.test(clause)
+          ? false
+          : before === ","
+            ? previousNegative
+            : false;
+    previousNegative = isNegative;
+
+    const scan = scanClause(clause, today);
+    if (scan.tokens.length === 0) {
+      skipped.push(clause);
+      continue;
+    }
+
+    for (const group of groupTokens(scan.tokens)) {
+      const dayTokens = group.where.flatMap((t) => (t.kind === "days" ? [t] : []));
+      const dates = group.where.flatMap((t) => (t.kind === "dates" ? t.dates : []));
+      // Times on their own apply to every day
+      if (group.where.length === 0) dayTokens.push({ kind: "days", days: EVERY_DAY, recurrence: {}, index: 0 });
+
+      for (const token of dayTokens) {
+        const recurrence: Recurrence = { ...token.recurrence };
+        // "every other saturday starting the 14th" counts from the 14th
+        if (recurrence.weekInterval && scan.bounds.validFrom) recurrence.anchorDate = scan.bounds.validFrom;
+        const extra = { ...scan.bounds, ...recurrence };
+
+        for (const dayOfWeek of token.days) {
+          if (isNegative) {
+            const removals: RoutineRemoval[] =
+              group.times.length === 0
+                ? [{ dayOfWeek, ...extra }]
+                : group.times.map((t) => ({ dayOfWeek, ...t, ...extra }));
+            result.routineRemovals.push(...removals);
+          } else {
+            const patterns: ParsedPattern[] = (group.times.length === 0 ? [ALL_DAY] : group.times).map(
+              (t) => ({ dayOfWeek, ...t, ...extra })
+            );
+            result.patterns.push(...patterns);
+          }
+        }
+        const days = token.days.length === 7 ? "every day" : token.days.map((d) => DAY_LABELS[d]).join(", ");
+        understood.push(`${isNegative ? "Not available" : "Available"} ${days} ${describeTimes(group.times)}`);
+      }
+
+      for (const date of dates) {
+        if (isNegative) {
+          const exclusions: ParsedExclusion[] =
+            group.times.length === 0 ? [{ date }] : group.times.map((t) => ({ date, ...t }));
+          result.exclusions.push(...exclusions);
+        } else {
+          const additions: ParsedSpecificSlot[] = (group.times.length === 0 ? [ALL_DAY] : group.times).map(
+            (t) => ({ date, ...t })
+          );
+          result.additions.push(...additions);
+        }
+        understood.push(`${isNegative ? "Not available" : "Available"} ${date} ${describeTimes(group.times)}`);
+      }
+    }
+  }
+
+  if (understood.length === 0) {
+    throw new Error(
+      'Couldn\'t understand that availability. Try something like "weekday evenings", "not mondays" or "busy the 15th".'
+    );
+  }
+
+  result.interpretation = [
+    understood.join("; "),
+    ...(skipped.length > 0 ? [`Ignored: "${skipped.join('", "')}"`] : []),
+  ].join(". ");
+  return result;
+}
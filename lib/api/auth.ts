@@ -0,0 +1,184 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { unauthorized, forbidden, notFound, type ApiError } from "./response";
+import { ADMIN_TOKEN_HEADER } from "@/lib/utils/admin-token";
+import { PARTICIPANT_TOKEN_HEADER } from "@/lib/utils/participant-token";
+import { PROFILE_TOKEN_HEADER } from "@/lib/utils/profile-token";
+import type { RevisionActor } from "@/lib/types/availability";
+
+/**
+ * Generate a new secret token (GM admin, participant edit or profile token, shown once)
+ */
+export function generateToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Hash a token for storage - only the hash is kept in the database
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function tokenMatches(token: string, expectedHash: string): boolean {
+  const actual = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(expectedHash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Whether a token grants GM access: the campaign admin token, or the edit
+ * token of any of its GMs (so co-GMs don't need the admin link)
+ */
+async function isGmToken(
+  token: string,
+  event: { id: string; adminTokenHash: string | null }
+): Promise<boolean> {
+  if (event.adminTokenHash && tokenMatches(token, event.adminTokenHash)) return true;
+
+  const gm = await prisma.participant.findFirst({
+    where: { eventId: event.id, isGm: true, editTokenHash: hashToken(token) },
+    select: { id: true },
+  });
+  return !!gm;
+}
+
+/**
+ * Check for GM access on a request (X-Admin-Token)
+ *
+ * Campaigns created before admin tokens existed have no hash and stay open.
+ *
+ * @returns An error response to return, or null if the request may proceed
+ */
+export async function requireAdminToken(
+  request: NextRequest,
+  event: { id: string; adminTokenHash: string | null }
+): Promise<NextResponse<ApiError> | null> {
+  if (!event.adminTokenHash) return null;
+
+  const token = request.headers.get(ADMIN_TOKEN_HEADER);
+  if (!token) {
+    return unauthorized("GM admin token required");
+  }
+  if (!(await isGmToken(token, event))) {
+    return forbidden("Invalid GM admin token");
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the campaign named by ?campaign=<slug> and check its GM admin token
+ * For routes that aren't scoped under /api/events/[slug] (e.g. game systems)
+ *
+ * @returns The campaign ID, or an error response to return
+ */
+export async function requireCampaignAdmin(
+  request: NextRequest
+): Promise<{ eventId: string; error?: never } | { eventId?: never; error: NextResponse<ApiError> }> {
+  const slug = request.nextUrl.searchParams.get("campaign");
+  if (!slug) {
+    return { error: unauthorized("GM admin access to a campaign is required") };
+  }
+
+  const event = await prisma.event.findUnique({
+    where: { slug },
+    select: { id: true, adminTokenHash: true },
+  });
+  if (!event) {
+    return { error: notFound("Campaign") };
+  }
+
+  const authError = await requireAdminToken(request, event);
+  if (authError) {
+    return { error: authError };
+  }
+
+  return { eventId: event.id };
+}
+
+/**
+ * Check that a request may edit a participant's availability or profile
+ *
+ * Accepts the participant's own edit token or GM access (admin token or any GM's token).
+ * Players without a token hash (unclaimed or legacy) stay open; GM participants
+ * are covered by the admin token instead.
+ *
+ * @returns An error response to return, or null if the request may proceed
+ */
+export async function requireParticipantAccess(
+  request: NextRequest,
+  participantId: string
+): Promise<NextResponse<ApiError> | null> {
+  const participant = await prisma.participant.findUnique({
+    where: { id: participantId },
+    select: {
+      isGm: true,
+      editTokenHash: true,
+      event: { select: { id: true, adminTokenHash: true } },
+    },
+  });
+  if (!participant) {
+    return notFound("Participant");
+  }
+
+  const adminToken = request.headers.get(ADMIN_TOKEN_HEADER);
+  if (adminToken && participant.event.adminTokenHash && (await isGmToken(adminToken, participant.event))) {
+    return null;
+  }
+
+  if (!participant.editTokenHash) {
+    return participant.isGm ? requireAdminToken(request, participant.event) : null;
+  }
+
+  const token = request.headers.get(PARTICIPANT_TOKEN_HEADER);
+  if (!token) {
+    return unauthorized("Participant edit token required");
+  }
+  if (!tokenMatches(token, participant.editTokenHash)) {
+    return forbidden("Invalid participant edit token");
+  }
+
+  return null;
+}
+
+/**
+ * Who is making an authorized participant request, for audit records
+ * Run requireParticipantAccess first; this only tells the GM apart from the player.
+ */
+export async function getParticipantActor(
+  request: NextRequest,
+  participantId: string
+): Promise<RevisionActor> {
+  const adminToken = request.headers.get(ADMIN_TOKEN_HEADER);
+  if (!adminToken) return "participant";
+
+  const participant = await prisma.participant.findUnique({
+    where: { id: participantId },
+    select: { event: { select: { id: true, adminTokenHash: true } } },
+  });
+  if (!participant?.event.adminTokenHash) return "participant";
+  return (await isGmToken(adminToken, participant.event)) ? "gm" : "participant";
+}
+
+/**
+ * Check for the player profile token on a request (X-Profile-Token)
+ * Unlike campaigns, every profile has a token.
+ *
+ * @returns An error response to return, or null if the request may proceed
+ */
+export function requireProfileToken(
+  request: NextRequest,
+  profile: { tokenHash: string }
+): NextResponse<ApiError> | null {
+  const token = request.headers.get(PROFILE_TOKEN_HEADER);
+  if (!token) {
+    return unauthorized("Profile token required");
+  }
+  if (!tokenMatches(token, profile.tokenHash)) {
+    return forbidden("Invalid profile token");
+  }
+
+  return null;
+}
@@ -7,6 +7,8 @@
  * 3. available_override - One-off availability additions
  * 4. available_pattern - Recurring weekly availability
  *
+ * "If needed" time (rule.preference) is reported as a subset of the available ranges.
+ *
  * Algorithm operates on TIME RANGES for efficiency.
  * Slot expansion only happens at UI render time.
  */
@@ -24,7 +26,12 @@ import {
   addRanges,
   timeToMinutes,
 } from "./range-math";
-import { getUTCDayOfWeek, getDateRange } from "./timezone";
+import {
+  getUTCDayOfWeek,
+  getDateRange,
+  expandLocalPatternForDate,
+} from "./timezone";
+import { patternOccursOn } from "./recurrence";
 
 /**
  * Filter rules by type
@@ -74,24 +81,82 @@ function rulesToRanges(rules: AvailabilityRule[]): TimeRange[] {
   return rules.map((rule) => createRange(rule.startTime, rule.endTime, rule.crossesMidnight));
 }
 
+/**
+ * Check whether a pattern carries its wall-clock times (DST-stable)
+ * Legacy rows only have the UTC dayOfWeek/startTime/endTime
+ */
+function hasLocalPatternTimes(rule: AvailabilityRule): boolean {
+  return (
+    rule.originalDayOfWeek !== null &&
+    !!rule.originalStartTime &&
+    !!rule.originalEndTime &&
+    !!rule.originalTimezone
+  );
+}
+
+/**
+ * Resolve pattern rules of the given type to UTC ranges for a specific date
+ *
+ * Patterns with local times are expanded against the offset in effect on that
+ * date; legacy UTC-only patterns match on their stored UTC dayOfWeek.
+ * Date bounds and recurrence (every N weeks, nth weekday) are checked against
+ * the local date of each occurrence (the UTC date for legacy patterns, which
+ * have no local times).
+ */
+function patternRangesForDate(
+  rules: AvailabilityRule[],
+  type: "available_pattern" | "blocked_pattern",
+  utcDate: string
+): TimeRange[] {
+  const utcDayOfWeek = getUTCDayOfWeek(utcDate);
+  const ranges: TimeRange[] = [];
+
+  for (const rule of filterByType(rules, type)) {
+    if (hasLocalPatternTimes(rule)) {
+      ranges.push(
+        ...expandLocalPatternForDate(
+          rule.originalDayOfWeek!,
+          rule.originalStartTime!,
+          rule.originalEndTime!,
+          rule.originalTimezone,
+          utcDate,
+          (localDate) => patternOccursOn(rule, localDate)
+        )
+      );
+    } else if (rule.dayOfWeek === utcDayOfWeek && patternOccursOn(rule, utcDate)) {
+      ranges.push(createRange(rule.startTime, rule.endTime, rule.crossesMidnight));
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Check whether an available rule is marked "if needed"
+ * Legacy rows without a preference count as preferred
+ */
+function isIfNeeded(rule: AvailabilityRule): boolean {
+  return rule.preference === "if_needed";
+}
+
 /**
  * Compute effective availability for a single UTC date
  *
+ * Available time is split into preferred and "if needed". Wherever both
+ * apply, "if needed" wins: the participant has told us they'd rather not.
+ *
  * @param rules - All rules for the participant
  * @param utcDate - The date in UTC (YYYY-MM-DD)
- * @returns Effective availability with available and blocked ranges
+ * @returns Effective availability with available, if-needed and blocked ranges
  */
 export function computeEffectiveForDate(
   rules: AvailabilityRule[],
   utcDate: string
 ): DayAvailability {
-  const utcDayOfWeek = getUTCDayOfWeek(utcDate);
-
   // Step 1: Get base availability from patterns
-  const availablePatterns = filterByType(rules, "available_pattern").filter(
-    (r) => r.dayOfWeek === utcDayOfWeek
+  let availableRanges = mergeRanges(
+    patternRangesForDate(rules, "available_pattern", utcDate)
   );
-  let availableRanges = mergeRanges(rulesToRanges(availablePatterns));
 
   // Step 2: Add available overrides for this date
   const availableOverrides = filterByType(rules, "available_override").filter(
@@ -104,15 +169,18 @@ export function computeEffectiveForDate(
     );
   }
 
+  // Step 2b: Collect the "if needed" part of it
+  const ifNeededRanges = mergeRanges([
+    ...patternRangesForDate(rules.filter(isIfNeeded), "available_pattern", utcDate),
+    ...rulesToRanges(availableOverrides.filter(isIfNeeded)),
+  ]);
+
   // Step 3: Collect blocked ranges (patterns for this day + overrides for this date)
-  const blockedPatterns = filterByType(rules, "blocked_pattern").filter(
-    (r) => r.dayOfWeek === utcDayOfWeek
-  );
   const blockedOverrides = filterByType(rules, "blocked_override").filter(
     (r) => r.specificDate === utcDate
   );
   const blockedRanges = mergeRanges([
-    ...rulesToRanges(blockedPatterns),
+    ...patternRangesForDate(rules, "blocked_pattern", utcDate),
     ...rulesToRanges(blockedOverrides),
   ]);
 
@@ -122,6 +190,7 @@ export function computeEffectiveForDate(
   return {
     date: utcDate,
     availableRanges: effectiveAvailable,
+    ifNeededRanges: subtractRanges(ifNeededRanges, blockedRanges),
     blockedRanges,
   };
 }
@@ -233,12 +302,14 @@ export function computeHeatmap(
  * @param participantRules - Map of participantId -> rules
  * @param range - Date range to search
  * @param minParticipants - Minimum number of participants required (default: all)
+ * @param requiredParticipantIds - Participants every slot must include
  * @returns Array of { date, time, participantIds } for qualifying slots
  */
 export function findOverlappingSlots(
   participantRules: Map<string, AvailabilityRule[]>,
   range: DateRange,
-  minParticipants?: number
+  minParticipants?: number,
+  requiredParticipantIds: string[] = []
 ): { date: string; time: string; participantIds: string[] }[] {
   const heatmap = computeHeatmap(participantRules, range);
   const totalParticipants = participantRules.size;
@@ -247,7 +318,10 @@ export function findOverlappingSlots(
   const result: { date: string; time: string; participantIds: string[] }[] = [];
 
   for (const [key, data] of heatmap) {
-    if (data.count >= threshold) {
+    if (
+      data.count >= threshold &&
+      requiredParticipantIds.every((id) => data.participantIds.includes(id))
+    ) {
       const [date, time] = key.split("|");
       result.push({ date, time, participantIds: data.participantIds });
     }
@@ -270,15 +344,22 @@ export function findOverlappingSlots(
  * @param range - Date range to search
  * @param sessionMinutes - Required session length in minutes
  * @param minParticipants - Minimum participants required
+ * @param requiredParticipantIds - Participants who must be available for the whole session
  * @returns Array of session start slots that have enough consecutive availability
  */
 export function findSessionSlots(
   participantRules: Map<string, AvailabilityRule[]>,
   range: DateRange,
   sessionMinutes: number,
-  minParticipants?: number
+  minParticipants?: number,
+  requiredParticipantIds: string[] = []
 ): { date: string; startTime: string; endTime: string; participantIds: string[] }[] {
-  const overlapping = findOverlappingSlots(participantRules, range, minParticipants);
+  const overlapping = findOverlappingSlots(
+    participantRules,
+    range,
+    minParticipants,
+    requiredParticipantIds
+  );
   const slotsNeeded = Math.ceil(sessionMinutes / 30);
 
   // Group by date for easier processing
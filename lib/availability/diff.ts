@@ -0,0 +1,200 @@
+/**
+ * Availability diffs
+ *
+ * Compares a participant's current rules with a proposed change so it can be
+ * previewed before anything is saved: which rules are added and removed, and
+ * which slots each day gains or loses. Days and times are in the viewer's
+ * timezone, matching what the editor grid shows.
+ */
+
+import { format, parseISO } from "date-fns";
+import type {
+  AvailabilityDayDiff,
+  AvailabilityDiff,
+  AvailabilityRule,
+  CreateAvailabilityRuleInput,
+  DateRange,
+  TimeRange,
+} from "../types/availability";
+import { computeEffectiveRanges } from "./compute-effective";
+import { rangesToSlots, slotsToRanges, subtractRanges } from "./range-math";
+import { DAY_NAMES, convertRuleForDisplay, getDateRange, utcToLocal } from "./timezone";
+import { describeRecurrence } from "./recurrence";
+
+type RuleLike = AvailabilityRule | CreateAvailabilityRuleInput;
+
+/**
+ * Identity of a rule for matching: everything that affects availability
+ */
+function ruleKey(rule: RuleLike): string {
+  return JSON.stringify([
+    rule.ruleType,
+    rule.dayOfWeek,
+    rule.specificDate,
+    rule.startTime,
+    rule.endTime,
+    rule.crossesMidnight ?? null,
+    rule.preference ?? "preferred",
+    rule.validFrom ?? null,
+    rule.validUntil ?? null,
+    (rule.weekInterval ?? 1) > 1 ? rule.weekInterval : null,
+    (rule.weekInterval ?? 1) > 1 ? rule.anchorDate : null,
+    rule.weeksOfMonth?.length ? rule.weeksOfMonth : null,
+  ]);
+}
+
+function inputToRule(input: CreateAvailabilityRuleInput, index: number): AvailabilityRule {
+  return {
+    ...input,
+    id: `proposed-${index}`,
+    reason: input.reason ?? null,
+    source: input.source ?? "manual",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(date + "T12:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Available ranges per local date in the viewer's timezone
+ */
+function localAvailability(
+  rules: AvailabilityRule[],
+  range: DateRange,
+  timezone: string
+): Map<string, TimeRange[]> {
+  // A local day can need UTC data from the day before or after
+  const effective = computeEffectiveRanges(rules, {
+    startDate: shiftDate(range.startDate, -1),
+    endDate: shiftDate(range.endDate, 1),
+  });
+
+  const keys = new Set<string>();
+  for (const [date, day] of effective) {
+    for (const slot of rangesToSlots(day.availableRanges, date)) {
+      const local = utcToLocal(slot.time, slot.date, timezone);
+      if (local.date >= range.startDate && local.date <= range.endDate) {
+        keys.add(`${local.date}|${local.time}`);
+      }
+    }
+  }
+
+  return slotsToRanges(
+    [...keys].map((key) => {
+      const [date, time] = key.split("|");
+      return { date, time };
+    })
+  );
+}
+
+function formatTimes(startTime: string, endTime: string): string {
+  return startTime === endTime || (startTime === "00:00" && endTime === "24:00")
+    ? "all day"
+    : `${startTime}-${endTime}`;
+}
+
+/**
+ * One-line description of a rule in the viewer's timezone,
+ * e.g. "Available Mondays 18:00-22:00 (every other week)"
+ */
+export function describeRule(rule: RuleLike, timezone: string): string {
+  const label =
+    rule.ruleType === "blocked_pattern" || rule.ruleType === "blocked_override"
+      ? "Busy"
+      : rule.preference === "if_needed"
+        ? "If needed"
+        : "Available";
+
+  // Patterns keep their local times; use them when the viewer is in that timezone
+  const local =
+    rule.specificDate === null &&
+    rule.originalTimezone === timezone &&
+    rule.originalDayOfWeek !== null &&
+    rule.originalStartTime &&
+    rule.originalEndTime
+      ? { dayOfWeek: rule.originalDayOfWeek, specificDate: null, startTime: rule.originalStartTime, endTime: rule.originalEndTime }
+      : convertRuleForDisplay(inputToRule(rule, 0), timezone);
+
+  if (local.specificDate) {
+    return `${label} ${format(parseISO(local.specificDate), "EEE, MMM d")} ${formatTimes(local.startTime, local.endTime)}`;
+  }
+
+  const details = [
+    describeRecurrence(rule),
+    rule.validFrom ? `from ${rule.validFrom}` : null,
+    rule.validUntil ? `until ${rule.validUntil}` : null,
+  ].filter(Boolean);
+  return (
+    `${label} ${DAY_NAMES[local.dayOfWeek ?? 0]}s ${formatTimes(local.startTime, local.endTime)}` +
+    (details.length > 0 ? ` (${details.join(", ")})` : "")
+  );
+}
+
+/**
+ * Diff a proposed change against a participant's current rules
+ *
+ * In "replace" mode every current rule goes except calendar imports (which
+ * the editor never touches) and rules the proposal would recreate as-is; in
+ * "adjust" mode nothing is removed. Proposed rules identical to a kept rule
+ * are dropped so accepting twice doesn't duplicate them.
+ *
+ * @param current - The participant's saved rules
+ * @param proposed - Rules from the parser, ready to store
+ * @param mode - Whether the proposal replaces or adds to the schedule
+ * @param range - Local dates to compare (the campaign's dates)
+ * @param timezone - The viewer's timezone
+ */
+export function diffAvailabilityRules(
+  current: AvailabilityRule[],
+  proposed: CreateAvailabilityRuleInput[],
+  mode: "replace" | "adjust",
+  range: DateRange,
+  timezone: string
+): AvailabilityDiff {
+  const proposedKeys = new Set(proposed.map(ruleKey));
+  const removed =
+    mode === "replace"
+      ? current.filter((r) => r.source !== "import" && !proposedKeys.has(ruleKey(r)))
+      : [];
+  const removedIds = new Set(removed.map((r) => r.id));
+  const kept = current.filter((r) => !removedIds.has(r.id));
+
+  const keptKeys = new Set(kept.map(ruleKey));
+  const added: CreateAvailabilityRuleInput[] = [];
+  for (const rule of proposed) {
+    const key = ruleKey(rule);
+    if (!keptKeys.has(key)) {
+      added.push(rule);
+      keptKeys.add(key);
+    }
+  }
+
+  const before = localAvailability(current, range, timezone);
+  const after = localAvailability([...kept, ...added.map(inputToRule)], range, timezone);
+
+  const days: AvailabilityDayDiff[] = [];
+  for (const date of getDateRange(range.startDate, range.endDate)) {
+    const beforeRanges = before.get(date) ?? [];
+    const afterRanges = after.get(date) ?? [];
+    const gained = subtractRanges(afterRanges, beforeRanges);
+    const lost = subtractRanges(beforeRanges, afterRanges);
+    if (gained.length > 0 || lost.length > 0) {
+      days.push({ date, before: beforeRanges, after: afterRanges, gained, lost });
+    }
+  }
+
+  return {
+    add: added,
+    remove: removed.map((r) => r.id),
+    summary: {
+      added: added.map((r) => describeRule(r, timezone)),
+      removed: removed.map((r) => describeRule(r, timezone)),
+    },
+    days,
+  };
+}
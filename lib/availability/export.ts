@@ -0,0 +1,214 @@
+/**
+ * Availability exports (CSV and JSON)
+ *
+ * Effective ranges are computed per UTC date; an export re-buckets them into
+ * 30-minute slots on the dates and times of the timezone the GM picked, so a
+ * spreadsheet lines up with what they see on the heatmap.
+ */
+
+import type { DayAvailability, TimeRange } from "../types/availability";
+import { MINUTES_PER_DAY, SLOT_DURATION_MINUTES } from "../types/availability";
+import { timeToMinutes, minutesToTime } from "./range-math";
+import { utcToLocal } from "./timezone";
+import { buildLocalHeatmap } from "./heatmap-window";
+
+/**
+ * A 30-minute slot on a local date
+ */
+export interface LocalSlot {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM, start of the slot
+  ifNeeded: boolean;
+}
+
+/**
+ * A contiguous stretch of availability on a local date
+ */
+export interface ExportRange {
+  date: string;
+  startTime: string;
+  endTime: string; // "24:00" when it runs to midnight
+  ifNeeded: boolean;
+}
+
+/**
+ * A participant's availability as slots in the export timezone
+ */
+export interface ExportParticipant {
+  id: string;
+  name: string;
+  isGm: boolean;
+  slots: LocalSlot[];
+}
+
+/**
+ * One CSV row: a slot and the players free then
+ */
+export interface SlotExportRow {
+  date: string;
+  time: string;
+  count: number;
+  participants: string[];
+  gmAvailable: boolean;
+}
+
+export const SLOT_CSV_HEADER = ["date", "time", "count", "participants", "gm_available"];
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(date + "T12:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function addRangeSlots(
+  slots: Map<string, LocalSlot>,
+  utcDate: string,
+  range: TimeRange,
+  ifNeeded: boolean,
+  timezone: string
+): void {
+  for (let mins = range.startMinutes; mins < range.endMinutes; mins += SLOT_DURATION_MINUTES) {
+    // Ranges past midnight continue on the next UTC date
+    const dayOffset = Math.floor(mins / MINUTES_PER_DAY);
+    const local = utcToLocal(minutesToTime(mins), shiftDate(utcDate, dayOffset), timezone);
+    const key = `${local.date}-${local.time}`;
+    // Once a slot is "if needed" it stays that way
+    if (ifNeeded || !slots.has(key)) {
+      slots.set(key, { date: local.date, time: local.time, ifNeeded });
+    }
+  }
+}
+
+/**
+ * Expand effective ranges (UTC) into 30-minute slots in a timezone
+ *
+ * @param effective - Result of computeEffectiveRanges
+ * @param timezone - Timezone the slots' dates and times are in
+ * @returns Slots sorted by date and time
+ */
+export function toLocalSlots(
+  effective: Map<string, DayAvailability>,
+  timezone: string
+): LocalSlot[] {
+  const slots = new Map<string, LocalSlot>();
+
+  for (const [date, day] of effective) {
+    for (const range of day.availableRanges) {
+      addRangeSlots(slots, date, range, false, timezone);
+    }
+  }
+  for (const [date, day] of effective) {
+    for (const range of day.ifNeededRanges) {
+      addRangeSlots(slots, date, range, true, timezone);
+    }
+  }
+
+  return [...slots.values()].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time)
+  );
+}
+
+function slotEnd(start: number): string {
+  const end = start + SLOT_DURATION_MINUTES;
+  return end === MINUTES_PER_DAY ? "24:00" : minutesToTime(end);
+}
+
+/**
+ * Merge sorted slots back into ranges, split where "if needed" changes
+ */
+export function localSlotsToRanges(slots: LocalSlot[]): ExportRange[] {
+  const ranges: ExportRange[] = [];
+
+  for (const slot of slots) {
+    const start = timeToMinutes(slot.time);
+    const last = ranges[ranges.length - 1];
+    if (
+      last &&
+      last.date === slot.date &&
+      last.ifNeeded === slot.ifNeeded &&
+      timeToMinutes(last.endTime) === start
+    ) {
+      last.endTime = slotEnd(start);
+    } else {
+      ranges.push({
+        date: slot.date,
+        startTime: slot.time,
+        endTime: slotEnd(start),
+        ifNeeded: slot.ifNeeded,
+      });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * One row per slot where at least one player is free, on the given dates
+ *
+ * GMs aren't counted, matching the heatmap; gmAvailable says whether any GM is free.
+ * Players who are only free "if needed" are listed with "(if needed)".
+ */
+export function buildSlotExportRows(
+  participants: ExportParticipant[],
+  dates: string[]
+): SlotExportRow[] {
+  const names = new Map(participants.map((p) => [p.id, p.name]));
+
+  return buildLocalHeatmap(participants, dates, 1).map((cell) => ({
+    date: cell.date,
+    time: cell.time,
+    count: cell.count,
+    participants: cell.participantIds.map((id) =>
+      cell.ifNeededIds.includes(id) ? `${names.get(id)} (if needed)` : names.get(id)!
+    ),
+    gmAvailable: cell.gmAvailable,
+  }));
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field when it holds a comma, quote or newline (RFC 4180)
+ * Fields that would open as a formula (e.g. a player named "=HYPERLINK(...)")
+ * get a leading ' so spreadsheets show them as text.
+ */
+export function escapeCsvField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Render slot rows as CSV, names separated by "; "
+ */
+export function slotRowsToCsv(rows: SlotExportRow[]): string {
+  const lines = [SLOT_CSV_HEADER.join(",")];
+  for (const row of rows) {
+    lines.push(
+      [
+        row.date,
+        row.time,
+        String(row.count),
+        row.participants.join("; "),
+        row.gmAvailable ? "yes" : "no",
+      ]
+        .map(escapeCsvField)
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Download URL for a campaign's heatmap export, in the timezone it's shown in
+ */
+export function heatmapExportUrl(
+  slug: string,
+  exportFormat: "csv" | "json",
+  timezone: string,
+  includeWaitlist = false
+): string {
+  const params = new URLSearchParams({ format: exportFormat, timezone });
+  if (includeWaitlist) params.set("includeWaitlist", "true");
+  return `/api/events/${slug}/heatmap/export?${params}`;
+}
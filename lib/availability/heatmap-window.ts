@@ -0,0 +1,208 @@
+/**
+ * Heatmap windows and localized heatmap cells
+ *
+ * The heatmap API can compute one window of a campaign (a week, a page of
+ * days or an explicit date range) instead of the whole campaign, and return
+ * cells already bucketed on the dates and times of the viewer's timezone.
+ * Window dates are dates in that display timezone.
+ */
+
+import type { DateRange } from "../types/availability";
+import type { LocalSlot } from "./export";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_HEATMAP_PAGE_DAYS = 7;
+export const MAX_HEATMAP_PAGE_DAYS = 62;
+
+/**
+ * Window query parameters, as strings from the URL (all optional)
+ * - week: first day of a 7-day window
+ * - start, end: explicit window (end defaults to the campaign's last day)
+ * - page, pageSize: 0-based page of pageSize days from the campaign's first day
+ */
+export interface HeatmapWindowQuery {
+  week?: string | null;
+  start?: string | null;
+  end?: string | null;
+  page?: string | null;
+  pageSize?: string | null;
+}
+
+/**
+ * The part of the campaign a heatmap response covers
+ * startDate > endDate when the window is outside the campaign.
+ */
+export interface HeatmapWindow extends DateRange {
+  page: number | null; // Set when paging
+  pageCount: number | null;
+  hasPrev: boolean;
+  hasNext: boolean;
+}
+
+/**
+ * A 30-minute heatmap cell in the display timezone
+ * GMs aren't counted, matching the heatmap grid; gmAvailable says whether any GM is free.
+ */
+export interface LocalHeatmapCell {
+  date: string;
+  time: string;
+  count: number;
+  participantIds: string[];
+  ifNeededIds: string[]; // Subset of participantIds who would rather not play then
+  gmAvailable: boolean;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + "T12:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (new Date(end + "T12:00:00Z").getTime() - new Date(start + "T12:00:00Z").getTime()) /
+      (24 * 60 * 60 * 1000)
+  );
+}
+
+function isWholeNumber(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+/**
+ * Check window query parameters
+ *
+ * @returns An error message, or null if the query is valid
+ */
+export function validateHeatmapWindowQuery(query: HeatmapWindowQuery): string | null {
+  const { week, start, end, page, pageSize } = query;
+
+  if ([week, start, end].some((d) => d && !DATE_PATTERN.test(d))) {
+    return "week, start and end must be YYYY-MM-DD dates";
+  }
+  if (week && (start || end || page)) {
+    return "Use week, start/end or page, not several";
+  }
+  if ((start || end) && page) {
+    return "Use week, start/end or page, not several";
+  }
+  if (start && end && start > end) {
+    return "start must be on or before end";
+  }
+  if (page && !isWholeNumber(page)) {
+    return "page must be a whole number from 0";
+  }
+  if (pageSize && (!isWholeNumber(pageSize) || Number(pageSize) < 1 || Number(pageSize) > MAX_HEATMAP_PAGE_DAYS)) {
+    return `pageSize must be from 1 to ${MAX_HEATMAP_PAGE_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * Check the minCount parameter
+ * Cells are only filtered on the timezone-local heatmap, so it needs a timezone.
+ *
+ * @returns An error message, or null if the parameter is valid
+ */
+export function validateMinCount(minCount: string | null, timezone: string | null): string | null {
+  if (!minCount) return null;
+  if (!isWholeNumber(minCount)) {
+    return "minCount must be a whole number from 0";
+  }
+  if (!timezone) {
+    return "minCount needs a timezone";
+  }
+  return null;
+}
+
+/**
+ * Resolve a validated window query against the campaign's dates
+ * Without window parameters the window is the whole campaign.
+ */
+export function resolveHeatmapWindow(campaign: DateRange, query: HeatmapWindowQuery): HeatmapWindow {
+  let startDate = campaign.startDate;
+  let endDate = campaign.endDate;
+  let page: number | null = null;
+  let pageCount: number | null = null;
+
+  if (query.week) {
+    startDate = query.week;
+    endDate = addDays(query.week, 6);
+  } else if (query.start || query.end) {
+    startDate = query.start || campaign.startDate;
+    endDate = query.end || campaign.endDate;
+  } else if (query.page || query.pageSize) {
+    const pageSize = Number(query.pageSize || DEFAULT_HEATMAP_PAGE_DAYS);
+    page = Number(query.page || 0);
+    pageCount = Math.max(1, Math.ceil((daysBetween(campaign.startDate, campaign.endDate) + 1) / pageSize));
+    startDate = addDays(campaign.startDate, page * pageSize);
+    endDate = addDays(startDate, pageSize - 1);
+  }
+
+  // Never compute outside the campaign
+  if (startDate < campaign.startDate) startDate = campaign.startDate;
+  if (endDate > campaign.endDate) endDate = campaign.endDate;
+
+  return {
+    startDate,
+    endDate,
+    page,
+    pageCount,
+    hasPrev: startDate > campaign.startDate,
+    hasNext: endDate < campaign.endDate,
+  };
+}
+
+/**
+ * Dates of a window (empty when it's outside the campaign)
+ */
+export function heatmapWindowDates(window: DateRange): string[] {
+  const dates: string[] = [];
+  for (let date = window.startDate; date <= window.endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Count who is free in each slot on the given dates
+ *
+ * @param participants - Slots per participant, in the display timezone
+ * @param dates - Dates to keep
+ * @param minCount - Drop cells with fewer players than this
+ * @returns Cells sorted by date and time
+ */
+export function buildLocalHeatmap(
+  participants: { id: string; isGm: boolean; slots: LocalSlot[] }[],
+  dates: string[],
+  minCount = 0
+): LocalHeatmapCell[] {
+  const dateSet = new Set(dates);
+  const cells = new Map<string, LocalHeatmapCell>();
+
+  for (const participant of participants) {
+    for (const slot of participant.slots) {
+      if (!dateSet.has(slot.date)) continue;
+
+      const key = `${slot.date}-${slot.time}`;
+      let cell = cells.get(key);
+      if (!cell) {
+        cell = { date: slot.date, time: slot.time, count: 0, participantIds: [], ifNeededIds: [], gmAvailable: false };
+        cells.set(key, cell);
+      }
+
+      if (participant.isGm) {
+        cell.gmAvailable = true;
+      } else {
+        cell.count++;
+        cell.participantIds.push(participant.id);
+        if (slot.ifNeeded) cell.ifNeededIds.push(participant.id);
+      }
+    }
+  }
+
+  return [...cells.values()]
+    .filter((cell) => cell.count >= minCount)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+}
@@ -0,0 +1,117 @@
+/**
+ * Player profile home schedules
+ *
+ * A profile's home schedule is a set of weekly patterns shared by every
+ * campaign the player links to it. The campaign's own rules are layered on
+ * top by the usual priority order (see compute-effective.ts): campaign blocks
+ * and one-off changes win over the home schedule, campaign patterns add to it.
+ */
+
+import type {
+  AvailabilityRule,
+  CreateAvailabilityRuleInput,
+  HomeScheduleRule,
+  HomeScheduleRuleInput,
+} from "../types/availability";
+import { hasCustomRecurrence } from "./recurrence";
+import { inputToRule } from "./rules";
+
+const TIME_PATTERN = /^(([01][0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
+
+/**
+ * A home schedule rule as a campaign rule input for a participant
+ */
+export function homeRuleToInput(participantId: string, rule: HomeScheduleRuleInput): CreateAvailabilityRuleInput {
+  return {
+    participantId,
+    ruleType: rule.ruleType,
+    dayOfWeek: rule.dayOfWeek,
+    specificDate: null,
+    startTime: rule.startTime,
+    endTime: rule.endTime,
+    originalTimezone: rule.originalTimezone,
+    originalDayOfWeek: rule.originalDayOfWeek,
+    originalStartTime: rule.originalStartTime,
+    originalEndTime: rule.originalEndTime,
+    crossesMidnight: rule.crossesMidnight ?? undefined,
+    preference: rule.preference,
+    source: "manual",
+  };
+}
+
+/**
+ * A participant's rules with their home schedule underneath
+ *
+ * @param participantId - Participant the inherited rules are attributed to
+ * @param campaignRules - The participant's own rules in this campaign
+ * @param homeRules - Home schedule of the linked profile (empty when not linked)
+ */
+export function applyHomeSchedule(
+  participantId: string,
+  campaignRules: AvailabilityRule[],
+  homeRules: HomeScheduleRule[]
+): AvailabilityRule[] {
+  if (homeRules.length === 0) return campaignRules;
+
+  const inherited: AvailabilityRule[] = homeRules.map((rule) => ({
+    ...inputToRule(homeRuleToInput(participantId, rule), `home-${rule.id}`),
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  }));
+
+  return [...inherited, ...campaignRules];
+}
+
+/**
+ * Weekly patterns of a campaign's rules, as home schedule rules
+ * Overrides and patterns with date bounds or custom recurrence stay campaign-specific.
+ */
+export function toHomeScheduleRules(
+  rules: (AvailabilityRule | CreateAvailabilityRuleInput)[]
+): HomeScheduleRuleInput[] {
+  return rules
+    .filter(
+      (r) =>
+        (r.ruleType === "available_pattern" || r.ruleType === "blocked_pattern") &&
+        r.dayOfWeek !== null &&
+        !hasCustomRecurrence(r)
+    )
+    .map((r) => ({
+      ruleType: r.ruleType as HomeScheduleRule["ruleType"],
+      dayOfWeek: r.dayOfWeek!,
+      startTime: r.startTime,
+      endTime: r.endTime,
+      originalTimezone: r.originalTimezone,
+      originalDayOfWeek: r.originalDayOfWeek,
+      originalStartTime: r.originalStartTime ?? null,
+      originalEndTime: r.originalEndTime ?? null,
+      crossesMidnight: r.crossesMidnight ?? null,
+      preference: r.preference ?? "preferred",
+    }));
+}
+
+/**
+ * Check incoming home schedule rules
+ *
+ * @returns An error message, or null if every rule is valid
+ */
+export function validateHomeScheduleRules(rules: HomeScheduleRuleInput[]): string | null {
+  for (const rule of rules) {
+    if (rule.ruleType !== "available_pattern" && rule.ruleType !== "blocked_pattern") {
+      return "A home schedule only holds weekly patterns";
+    }
+    if (!Number.isInteger(rule.dayOfWeek) || rule.dayOfWeek < 0 || rule.dayOfWeek > 6) {
+      return "dayOfWeek must be 0-6";
+    }
+    if (!TIME_PATTERN.test(rule.startTime) || !TIME_PATTERN.test(rule.endTime)) {
+      return "Invalid time format. Use HH:MM";
+    }
+    if (!rule.originalTimezone) {
+      return "originalTimezone is required";
+    }
+    if (rule.preference && rule.preference !== "preferred" && rule.preference !== "if_needed") {
+      return "preference must be preferred or if_needed";
+    }
+  }
+  return null;
+}
@@ -0,0 +1,658 @@
+/**
+ * Import busy times from an iCalendar (.ics) file
+ *
+ * VEVENTs are parsed, recurring events are expanded (RRULE/EXDATE/RECURRENCE-ID)
+ * within a window, and the resulting busy intervals become blocked_override rules
+ * with source "import".
+ *
+ * Recurrence is expanded on wall-clock dates in the event's TZID and each
+ * occurrence is converted to UTC separately, so a weekly 7pm meeting stays at
+ * 7pm local across DST changes.
+ */
+
+import type { CreateAvailabilityRuleInput } from "../types/availability";
+import { MINUTES_PER_DAY, SLOT_DURATION_MINUTES } from "../types/availability";
+import { localToUTC } from "./timezone";
+import { minutesToTime } from "./range-math";
+import { isValidTimezone } from "../utils/timezones";
+
+/**
+ * A DATE or DATE-TIME value as written in the file
+ * time is null for all-day (VALUE=DATE) values
+ */
+export interface IcsDateTime {
+  date: string; // YYYY-MM-DD (wall-clock date in timezone)
+  time: string | null; // HH:MM
+  timezone: string; // IANA timezone, "UTC" for Z-suffixed values
+}
+
+export type IcsFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface IcsRecurrenceRule {
+  freq: IcsFrequency;
+  interval: number;
+  count: number | null;
+  until: IcsDateTime | null;
+  byDay: { weekday: number; ordinal: number | null }[]; // weekday 0=Sunday
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  weekStart: number; // 0=Sunday
+}
+
+export interface IcsEvent {
+  uid: string | null;
+  summary: string | null;
+  start: IcsDateTime;
+  end: IcsDateTime | null;
+  durationMinutes: number | null;
+  rrule: IcsRecurrenceRule | null;
+  exdates: IcsDateTime[];
+  recurrenceId: IcsDateTime | null;
+  cancelled: boolean;
+  transparent: boolean; // TRANSP:TRANSPARENT - shown as free, doesn't block
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Upper bound on recurrence periods walked per event from where the walk starts
+// (DTSTART, or just before the import window when there's no COUNT)
+const MAX_RECURRENCE_PERIODS = 2000;
+
+const IMPORT_REASON = "Imported from calendar";
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Unfold continuation lines (lines starting with a space or tab)
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Parse "NAME;PARAM=VALUE;PARAM="QUOTED":value"
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, "\n").replace(/\\([\\;,])/g, "$1");
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ * TZIDs that aren't IANA names (e.g. Outlook's "Pacific Standard Time") fall back to defaultTimezone.
+ */
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  defaultTimezone: string
+): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (!hours || params.VALUE === "DATE") {
+    return { date, time: null, timezone: defaultTimezone };
+  }
+
+  let timezone = defaultTimezone;
+  if (utc) {
+    timezone = "UTC";
+  } else if (params.TZID && isValidTimezone(params.TZID)) {
+    timezone = params.TZID;
+  }
+
+  return { date, time: `${hours}:${minutes}`, timezone };
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D, P1W) to minutes
+ */
+function parseDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * MINUTES_PER_DAY +
+    Number(days ?? 0) * MINUTES_PER_DAY +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0);
+
+  return sign === "-" ? -total : total;
+}
+
+/**
+ * Parse an RRULE value
+ * Unsupported parts (BYSETPOS, BYHOUR, ...) are ignored.
+ */
+export function parseRecurrenceRule(
+  value: string,
+  defaultTimezone: string
+): IcsRecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, partValue] = part.split("=");
+    if (key && partValue) parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  const freq = parts.FREQ as IcsFrequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+
+  const byDay = (parts.BYDAY ?? "")
+    .split(",")
+    .map((code) => code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map((m) => ({
+      weekday: WEEKDAY_CODES.indexOf(m[2]),
+      ordinal: m[1] ? Number(m[1]) : null,
+    }));
+
+  const toNumbers = (list: string | undefined) =>
+    (list ?? "")
+      .split(",")
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n !== 0);
+
+  const interval = Number(parts.INTERVAL ?? 1);
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    count: count !== null && Number.isInteger(count) && count > 0 ? count : null,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL, {}, defaultTimezone) : null,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH).filter((m) => m >= 1 && m <= 12),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAY_CODES.indexOf(parts.WKST)) : 1,
+  };
+}
+
+/**
+ * Parse all VEVENTs from an .ics file
+ *
+ * @param defaultTimezone - Used for floating times, all-day events and unknown TZIDs
+ */
+export function parseIcsEvents(text: string, defaultTimezone: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  // Depth of components nested inside the VEVENT (e.g. VALARM)
+  let nestedDepth = 0;
+
+  for (const rawLine of unfoldLines(text)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+
+    if (line.name === "BEGIN") {
+      if (line.value.toUpperCase() === "VEVENT" && !current) {
+        current = { exdates: [], cancelled: false, transparent: false };
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+
+    if (line.name === "END") {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && line.value.toUpperCase() === "VEVENT") {
+        if (current.start) {
+          events.push({
+            uid: current.uid ?? null,
+            summary: current.summary ?? null,
+            start: current.start,
+            end: current.end ?? null,
+            durationMinutes: current.durationMinutes ?? null,
+            rrule: current.rrule ?? null,
+            exdates: current.exdates ?? [],
+            recurrenceId: current.recurrenceId ?? null,
+            cancelled: current.cancelled ?? false,
+            transparent: current.transparent ?? false,
+          });
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (!current || nestedDepth > 0) continue;
+
+    switch (line.name) {
+      case "UID":
+        current.uid = line.value.trim();
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(line.value);
+        break;
+      case "DTSTART":
+        current.start = parseDateValue(line.value, line.params, defaultTimezone) ?? undefined;
+        break;
+      case "DTEND":
+        current.end = parseDateValue(line.value, line.params, defaultTimezone);
+        break;
+      case "DURATION":
+        current.durationMinutes = parseDuration(line.value);
+        break;
+      case "RRULE":
+        current.rrule = parseRecurrenceRule(line.value, defaultTimezone);
+        break;
+      case "EXDATE":
+        for (const value of line.value.split(",")) {
+          const exdate = parseDateValue(value, line.params, defaultTimezone);
+          if (exdate) current.exdates!.push(exdate);
+        }
+        break;
+      case "RECURRENCE-ID":
+        current.recurrenceId = parseDateValue(line.value, line.params, defaultTimezone);
+        break;
+      case "STATUS":
+        current.cancelled = line.value.trim().toUpperCase() === "CANCELLED";
+        break;
+      case "TRANSP":
+        current.transparent = line.value.trim().toUpperCase() === "TRANSPARENT";
+        break;
+    }
+  }
+
+  return events;
+}
+
+// =============================================================================
+// Recurrence expansion
+// =============================================================================
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (new Date(`${to}T12:00:00Z`).getTime() - new Date(`${from}T12:00:00Z`).getTime()) / 86400000
+  );
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Candidate dates within one month for MONTHLY/YEARLY rules
+ */
+function monthCandidates(
+  year: number,
+  month: number,
+  rule: IcsRecurrenceRule,
+  startDay: number
+): string[] {
+  const dim = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byDay.length > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    days = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= dim; day += 7) {
+        matching.push(day);
+      }
+      if (ordinal === null) {
+        days.push(...matching);
+      } else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked !== undefined) days.push(picked);
+      }
+    }
+    if (rule.byMonthDay.length > 0) {
+      const monthDays = rule.byMonthDay.map((d) => (d < 0 ? dim + 1 + d : d));
+      days = days.filter((d) => monthDays.includes(d));
+    }
+  } else if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map((d) => (d < 0 ? dim + 1 + d : d));
+  } else {
+    days = [startDay];
+  }
+
+  return [...new Set(days)]
+    .filter((d) => d >= 1 && d <= dim)
+    .sort((a, b) => a - b)
+    .map((d) => formatDate(year, month, d));
+}
+
+/**
+ * Expand a recurrence rule to wall-clock occurrence dates
+ *
+ * DTSTART always counts as the first occurrence. COUNT is applied here;
+ * UNTIL and EXDATE are applied by the caller on the resulting instants.
+ *
+ * @param startDate - DTSTART date (YYYY-MM-DD)
+ * @param lastDate - Stop generating after this date
+ * @param firstDate - Skip periods that end before this date, so old series
+ *   reach the window; ignored with COUNT, which counts from DTSTART
+ */
+export function expandRecurrenceDates(
+  startDate: string,
+  rule: IcsRecurrenceRule,
+  lastDate: string,
+  firstDate?: string
+): string[] {
+  const dates = [startDate];
+  const [startYear, startMonth, startDay] = startDate.split("-").map(Number);
+  const startWeekday = weekdayOf(startDate);
+  const weekAnchor = shiftDate(startDate, -((startWeekday - rule.weekStart + 7) % 7));
+
+  // Start one period before the one holding firstDate
+  let firstPeriod = 0;
+  if (firstDate && firstDate > startDate && rule.count === null) {
+    const [firstYear, firstMonth] = firstDate.split("-").map(Number);
+    const units = {
+      DAILY: daysBetween(startDate, firstDate),
+      WEEKLY: Math.floor(daysBetween(weekAnchor, firstDate) / 7),
+      MONTHLY: (firstYear - startYear) * 12 + (firstMonth - startMonth),
+      YEARLY: firstYear - startYear,
+    }[rule.freq];
+    firstPeriod = Math.max(0, Math.floor(units / rule.interval) - 1);
+  }
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_RECURRENCE_PERIODS; period++) {
+    const step = period * rule.interval;
+    let periodStart: string;
+    let candidates: string[];
+
+    switch (rule.freq) {
+      case "DAILY": {
+        periodStart = shiftDate(startDate, step);
+        const weekdays = rule.byDay.map((d) => d.weekday);
+        candidates =
+          weekdays.length === 0 || weekdays.includes(weekdayOf(periodStart)) ? [periodStart] : [];
+        break;
+      }
+      case "WEEKLY": {
+        periodStart = shiftDate(weekAnchor, step * 7);
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [startWeekday];
+        candidates = [...new Set(weekdays)]
+          .map((weekday) => shiftDate(periodStart, (weekday - rule.weekStart + 7) % 7))
+          .sort();
+        break;
+      }
+      case "MONTHLY": {
+        const monthIndex = startMonth - 1 + step;
+        const year = startYear + Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        periodStart = formatDate(year, month, 1);
+        candidates = monthCandidates(year, month, rule, startDay);
+        break;
+      }
+      case "YEARLY": {
+        const year = startYear + step;
+        periodStart = formatDate(year, 1, 1);
+        const months = rule.byMonth.length > 0 ? rule.byMonth : [startMonth];
+        candidates = months
+          .sort((a, b) => a - b)
+          .flatMap((month) => monthCandidates(year, month, rule, startDay));
+        break;
+      }
+    }
+
+    if (periodStart > lastDate) break;
+
+    for (const candidate of candidates) {
+      if (candidate <= startDate) continue;
+      if (candidate > lastDate) return dates;
+      dates.push(candidate);
+      if (rule.count !== null && dates.length >= rule.count) return dates;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Convert a wall-clock value to a UTC instant via the shared timezone helpers
+ */
+function toInstant(value: IcsDateTime): Date {
+  const utc = localToUTC(value.time ?? "00:00", value.date, value.timezone);
+  return new Date(`${utc.date}T${utc.time}:00Z`);
+}
+
+/**
+ * Get the end instant of an occurrence starting on the given wall-clock date
+ */
+function occurrenceEnd(event: IcsEvent, occurrenceDate: string, start: Date): Date {
+  if (event.end) {
+    if (event.start.time === null) {
+      // All-day: keep the same number of calendar days
+      const days = daysBetween(event.start.date, event.end.date);
+      return toInstant({ ...event.start, date: shiftDate(occurrenceDate, days) });
+    }
+    return new Date(start.getTime() + (toInstant(event.end).getTime() - toInstant(event.start).getTime()));
+  }
+
+  if (event.durationMinutes !== null) {
+    return new Date(start.getTime() + event.durationMinutes * 60000);
+  }
+
+  // No DTEND/DURATION: all-day events last one day, timed events are instantaneous
+  return event.start.time === null
+    ? toInstant({ ...event.start, date: shiftDate(occurrenceDate, 1) })
+    : start;
+}
+
+/**
+ * Whole days one occurrence can span, rounded up
+ */
+function occurrenceDays(event: IcsEvent): number {
+  const start = toInstant(event.start);
+  return Math.max(0, Math.ceil((occurrenceEnd(event, event.start.date, start).getTime() - start.getTime()) / 86400000));
+}
+
+/**
+ * Expand parsed events to busy intervals that overlap a window
+ * Cancelled and transparent (free) events are skipped; intervals are clipped to the window.
+ */
+export function expandIcsBusyIntervals(
+  events: IcsEvent[],
+  window: BusyInterval
+): BusyInterval[] {
+  // Occurrences replaced by a RECURRENCE-ID instance (or cancelled through one)
+  const overridden = new Set(
+    events
+      .filter((e) => e.uid && e.recurrenceId)
+      .map((e) => `${e.uid}|${toInstant(e.recurrenceId!).getTime()}`)
+  );
+
+  // Recurrence is walked on wall-clock dates; a day of margin covers any offset
+  const firstDate = shiftDate(window.start.toISOString().slice(0, 10), -1);
+  const lastDate = shiftDate(window.end.toISOString().slice(0, 10), 1);
+  const intervals: BusyInterval[] = [];
+
+  for (const event of events) {
+    if (event.cancelled || event.transparent) continue;
+
+    const dates =
+      event.rrule && !event.recurrenceId
+        ? expandRecurrenceDates(
+            event.start.date,
+            event.rrule,
+            lastDate,
+            // Occurrences that started earlier can still run into the window
+            shiftDate(firstDate, -occurrenceDays(event))
+          )
+        : [event.start.date];
+
+    const until = event.rrule?.until
+      ? event.rrule.until.time === null
+        ? toInstant({ ...event.rrule.until, date: shiftDate(event.rrule.until.date, 1) })
+        : new Date(toInstant(event.rrule.until).getTime() + 1)
+      : null;
+    const exdates = new Set(event.exdates.map((d) => toInstant(d).getTime()));
+    const exdateDays = new Set(event.exdates.filter((d) => d.time === null).map((d) => d.date));
+
+    for (const date of dates) {
+      const start = toInstant({ ...event.start, date });
+      if (until && start >= until) break;
+      if (exdates.has(start.getTime()) || exdateDays.has(date)) continue;
+      if (!event.recurrenceId && event.uid && overridden.has(`${event.uid}|${start.getTime()}`)) {
+        continue;
+      }
+
+      const end = occurrenceEnd(event, date, start);
+      if (end <= window.start || start >= window.end || end <= start) continue;
+
+      intervals.push({
+        start: start < window.start ? window.start : start,
+        end: end > window.end ? window.end : end,
+      });
+    }
+  }
+
+  return intervals;
+}
+
+// =============================================================================
+// Rule generation
+// =============================================================================
+
+/**
+ * Convert busy intervals to blocked_override rules
+ *
+ * Intervals are widened to whole slots (a 7:10-7:40 meeting blocks 7:00-8:00),
+ * merged, and split at UTC midnight so each rule covers a single UTC date.
+ *
+ * @param timezone - Recorded as originalTimezone for display
+ */
+export function busyIntervalsToRules(
+  intervals: BusyInterval[],
+  participantId: string,
+  timezone: string
+): CreateAvailabilityRuleInput[] {
+  const slotMs = SLOT_DURATION_MINUTES * 60000;
+  const snapped = intervals
+    .map((i) => ({
+      start: Math.floor(i.start.getTime() / slotMs) * slotMs,
+      end: Math.ceil(i.end.getTime() / slotMs) * slotMs,
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of snapped) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  const rules: CreateAvailabilityRuleInput[] = [];
+  const dayMs = MINUTES_PER_DAY * 60000;
+
+  for (const interval of merged) {
+    let cursor = interval.start;
+    while (cursor < interval.end) {
+      const dayStart = Math.floor(cursor / dayMs) * dayMs;
+      const chunkEnd = Math.min(interval.end, dayStart + dayMs);
+      const startMinutes = (cursor - dayStart) / 60000;
+      const endMinutes = (chunkEnd - dayStart) / 60000;
+
+      rules.push({
+        participantId,
+        ruleType: "blocked_override",
+        dayOfWeek: null,
+        specificDate: new Date(dayStart).toISOString().slice(0, 10),
+        startTime: minutesToTime(startMinutes),
+        endTime: endMinutes === MINUTES_PER_DAY ? "24:00" : minutesToTime(endMinutes),
+        originalTimezone: timezone,
+        originalDayOfWeek: null,
+        crossesMidnight: false,
+        reason: IMPORT_REASON,
+        source: "import",
+      });
+
+      cursor = chunkEnd;
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Parse an .ics file and build blocked_override rules for a date window
+ *
+ * @param startDate - First date of the window (YYYY-MM-DD)
+ * @param endDate - Last date of the window (YYYY-MM-DD, inclusive)
+ * @param timezone - Participant timezone, used for floating and all-day times
+ * @returns The rules and the number of VEVENTs found in the file
+ */
+export function importIcsAsBlockedRules(
+  text: string,
+  participantId: string,
+  startDate: string,
+  endDate: string,
+  timezone: string
+): { rules: CreateAvailabilityRuleInput[]; eventCount: number } {
+  const events = parseIcsEvents(text, timezone);
+
+  // Widen by a day on each side, like the heatmap, so local days at the edges are covered
+  const window: BusyInterval = {
+    start: new Date(`${shiftDate(startDate, -1)}T00:00:00Z`),
+    end: new Date(`${shiftDate(endDate, 2)}T00:00:00Z`),
+  };
+
+  const intervals = expandIcsBusyIntervals(events, window);
+
+  return {
+    rules: busyIntervalsToRules(intervals, participantId, timezone),
+    eventCount: events.length,
+  };
+}
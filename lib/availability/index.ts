@@ -25,6 +25,15 @@ export type {
   ReplaceRulesRequest,
   PatchRulesRequest,
   HeatmapResponse,
+  AvailabilityDiff,
+  AvailabilityDayDiff,
+  RevisionAction,
+  RevisionActor,
+  RuleSnapshot,
+  AvailabilityRevision,
+  HomeScheduleRule,
+  HomeScheduleRuleInput,
+  PlayerProfile,
 } from "../types/availability";
 
 export {
@@ -90,3 +99,113 @@ export {
   findOverlappingSlots,
   findSessionSlots,
 } from "./compute-effective";
+
+// Pattern recurrence (date bounds, every N weeks, nth weekday)
+export type { PatternRecurrence } from "./recurrence";
+
+export {
+  MAX_WEEK_INTERVAL,
+  WEEK_OF_MONTH_VALUES,
+  isDateWithinBounds,
+  patternOccursOn,
+  hasCustomRecurrence,
+  validatePatternRecurrence,
+  describeRecurrence,
+} from "./recurrence";
+
+// Calendar (.ics) import
+export type {
+  IcsDateTime,
+  IcsRecurrenceRule,
+  IcsEvent,
+  BusyInterval,
+} from "./ics-import";
+
+export {
+  parseIcsEvents,
+  parseRecurrenceRule,
+  expandRecurrenceDates,
+  expandIcsBusyIntervals,
+  busyIntervalsToRules,
+  importIcsAsBlockedRules,
+} from "./ics-import";
+
+// Session recommendations
+export type {
+  RecommendationParticipant,
+  ScoringWeights,
+  ScoringModel,
+  RecommendationOptions,
+  SessionRecommendation,
+} from "./recommendations";
+
+export {
+  DEFAULT_SCORING_MODEL,
+  recommendSessions,
+  parseScoringModel,
+} from "./recommendations";
+
+// Session series (recurring slot planning)
+export type {
+  SeriesCadence,
+  SeriesOptions,
+  SeriesOccurrence,
+  SessionSeriesPlan,
+} from "./series";
+
+export { SERIES_CADENCES, planSessionSeries } from "./series";
+
+// Change previews
+export { diffAvailabilityRules, describeRule } from "./diff";
+
+// Rule revisions (undo history)
+export {
+  MAX_REVISIONS,
+  toRuleSnapshot,
+  fromRuleSnapshot,
+  inferRevisionSource,
+} from "./revisions";
+
+// Rule input conversion
+export { ruleToInput, inputToRule } from "./rules";
+
+// Player profile home schedules
+export {
+  applyHomeSchedule,
+  homeRuleToInput,
+  toHomeScheduleRules,
+  validateHomeScheduleRules,
+} from "./home-schedule";
+
+// CSV / JSON exports
+export type {
+  LocalSlot,
+  ExportRange,
+  ExportParticipant,
+  SlotExportRow,
+} from "./export";
+
+export {
+  toLocalSlots,
+  localSlotsToRanges,
+  buildSlotExportRows,
+  slotRowsToCsv,
+  heatmapExportUrl,
+} from "./export";
+
+// Heatmap windows (paging and display timezone)
+export type {
+  HeatmapWindowQuery,
+  HeatmapWindow,
+  LocalHeatmapCell,
+} from "./heatmap-window";
+
+export {
+  DEFAULT_HEATMAP_PAGE_DAYS,
+  MAX_HEATMAP_PAGE_DAYS,
+  validateHeatmapWindowQuery,
+  validateMinCount,
+  resolveHeatmapWindow,
+  heatmapWindowDates,
+  buildLocalHeatmap,
+} from "./heatmap-window";
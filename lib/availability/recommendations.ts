@@ -0,0 +1,416 @@
+/**
+ * Ranked session recommendations
+ *
+ * Scores every candidate session start in a campaign's date range so the GM
+ * can pick from the best options instead of scanning the heatmap.
+ *
+ * A score is the sum of weighted factors:
+ * - GM can attend the whole session
+ * - Attendance measured against minPlayers / maxPlayers
+ * - Penalty for players who have to leave early (partial attendance)
+ * - Penalty for attendees who marked the time "if needed"
+ * - Penalty for time spent outside each attendee's preferred local hours
+ *
+ * Every factor that moves the score adds a human-readable reason.
+ */
+
+import { getTimezoneOffset } from "date-fns-tz";
+import type { AvailabilityRule, DateRange } from "../types/availability";
+import { MINUTES_PER_DAY, SLOT_DURATION_MINUTES } from "../types/availability";
+import { timeToMinutes, minutesToTime } from "./range-math";
+import { computeEffectiveRanges } from "./compute-effective";
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * A participant and their stored (UTC) rules
+ */
+export interface RecommendationParticipant {
+  id: string;
+  name: string;
+  isGm: boolean;
+  /** Sessions they can't attend in full are never recommended */
+  isRequired?: boolean;
+  timezone: string;
+  rules: AvailabilityRule[];
+}
+
+export interface ScoringWeights {
+  /** Points when a GM can attend the whole session */
+  gm: number;
+  /** Points at full attendance, scaled by how close the group gets to maxPlayers */
+  attendance: number;
+  /** Points lost per player who has to leave early, scaled by the time they miss */
+  partialPenalty: number;
+  /** Points lost per attendee who marked the session "if needed", scaled by how much of it */
+  ifNeededPenalty: number;
+  /** Points lost when the session falls outside attendees' preferred local hours */
+  localTimePenalty: number;
+}
+
+export interface ScoringModel {
+  weights: ScoringWeights;
+  /** Drop candidates no GM can attend in full */
+  requireGm: boolean;
+  /** Preferred local play window in minutes from midnight (may wrap past midnight) */
+  preferredStartMinutes: number;
+  preferredEndMinutes: number;
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  weights: {
+    gm: 30,
+    attendance: 50,
+    partialPenalty: 10,
+    ifNeededPenalty: 10,
+    localTimePenalty: 20,
+  },
+  requireGm: true,
+  preferredStartMinutes: 9 * 60,
+  preferredEndMinutes: 23 * 60,
+};
+
+export interface RecommendationOptions {
+  /** Session length in minutes */
+  sessionMinutes: number;
+  minPlayers: number | null;
+  maxPlayers: number | null;
+  /** Maximum number of recommendations to return */
+  limit: number;
+  model: ScoringModel;
+  /** Candidates starting before this instant are skipped */
+  notBefore?: Date;
+}
+
+export interface SessionRecommendation {
+  startsAt: string;
+  endsAt: string;
+  score: number;
+  /** Participants (including the GM) available for the whole session */
+  attendeeIds: string[];
+  /** Players available at the start who have to leave early */
+  partialIds: string[];
+  /** Attendees who can make it but would rather not */
+  ifNeededIds: string[];
+  gmAvailable: boolean;
+  reasons: string[];
+  breakdown: {
+    gm: number;
+    attendance: number;
+    partial: number;
+    ifNeeded: number;
+    localTime: number;
+  };
+}
+
+/**
+ * Absolute 30-minute slot indices (since the Unix epoch) a participant is available for,
+ * and the subset they marked "if needed"
+ */
+export function availableSlotIndices(
+  rules: AvailabilityRule[],
+  range: DateRange
+): { available: Set<number>; ifNeeded: Set<number> } {
+  const available = new Set<number>();
+  const ifNeeded = new Set<number>();
+  for (const [date, day] of computeEffectiveRanges(rules, range)) {
+    const dayStartMinutes = Date.parse(`${date}T00:00:00Z`) / MS_PER_MINUTE;
+    for (const [ranges, slots] of [
+      [day.availableRanges, available],
+      [day.ifNeededRanges, ifNeeded],
+    ] as const) {
+      for (const r of ranges) {
+        for (let m = r.startMinutes; m < r.endMinutes; m += SLOT_DURATION_MINUTES) {
+          slots.add((dayStartMinutes + m) / SLOT_DURATION_MINUTES);
+        }
+      }
+    }
+  }
+  return { available, ifNeeded };
+}
+
+function isInLocalWindow(localMinutes: number, model: ScoringModel): boolean {
+  const { preferredStartMinutes: start, preferredEndMinutes: end } = model;
+  // Equal bounds mean any time of day is fine
+  if (start === end) return true;
+  return start < end
+    ? localMinutes >= start && localMinutes < end
+    : localMinutes >= start || localMinutes < end;
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Rank candidate sessions within a time window
+ *
+ * Candidates start on every 30-minute boundary. The returned sessions never
+ * overlap each other, so the list offers distinct options rather than the
+ * same evening shifted by half an hour. Candidates a required participant
+ * can't attend in full are dropped.
+ *
+ * @param participants - Everyone in the campaign, with their UTC rules
+ * @param window - Candidate sessions must fit inside [start, end)
+ * @returns Up to options.limit recommendations, best first
+ */
+export function recommendSessions(
+  participants: RecommendationParticipant[],
+  window: { start: Date; end: Date },
+  options: RecommendationOptions
+): SessionRecommendation[] {
+  const { model, sessionMinutes } = options;
+  const { weights } = model;
+  const slotsNeeded = Math.ceil(sessionMinutes / SLOT_DURATION_MINUTES);
+  const slotMs = SLOT_DURATION_MINUTES * MS_PER_MINUTE;
+
+  const earliest = Math.max(window.start.getTime(), options.notBefore?.getTime() ?? -Infinity);
+  const firstSlot = Math.ceil(earliest / slotMs);
+  const lastSlot = Math.floor(window.end.getTime() / slotMs) - slotsNeeded;
+  if (slotsNeeded <= 0 || lastSlot < firstSlot) return [];
+
+  // Ranges are attributed to the UTC date they start on, so include the day before
+  const range: DateRange = {
+    startDate: new Date(window.start.getTime() - MINUTES_PER_DAY * MS_PER_MINUTE)
+      .toISOString()
+      .split("T")[0],
+    endDate: window.end.toISOString().split("T")[0],
+  };
+  const availability = new Map(
+    participants.map((p) => [p.id, availableSlotIndices(p.rules, range)])
+  );
+
+  // Any one GM (primary or co-GM) can run a session
+  const gms = participants.filter((p) => p.isGm);
+  const players = participants.filter((p) => !p.isGm);
+  const required = participants.filter((p) => p.isRequired);
+  const minPlayers = options.minPlayers ?? 1;
+  const seats = Math.max(options.maxPlayers ?? players.length, 1);
+
+  // Offsets only change at DST transitions, so cache them per timezone and hour
+  const offsetCache = new Map<string, number>();
+  const localStartMinutes = (timezone: string, startMs: number): number => {
+    const key = `${timezone}|${Math.floor(startMs / (60 * MS_PER_MINUTE))}`;
+    let offset = offsetCache.get(key);
+    if (offset === undefined) {
+      const ms = getTimezoneOffset(timezone, new Date(startMs));
+      offset = isNaN(ms) ? 0 : ms / MS_PER_MINUTE;
+      offsetCache.set(key, offset);
+    }
+    const minutes = (startMs / MS_PER_MINUTE + offset) % MINUTES_PER_DAY;
+    return minutes < 0 ? minutes + MINUTES_PER_DAY : minutes;
+  };
+
+  const candidates: { startSlot: number; recommendation: SessionRecommendation }[] = [];
+
+  for (let startSlot = firstSlot; startSlot <= lastSlot; startSlot++) {
+    // Consecutive slots covered from the start (0 = not available at the start)
+    const coverage = new Map<string, number>();
+    for (const p of participants) {
+      const slots = availability.get(p.id)!.available;
+      let covered = 0;
+      while (covered < slotsNeeded && slots.has(startSlot + covered)) covered++;
+      coverage.set(p.id, covered);
+    }
+
+    const availableGms = gms.filter((gm) => coverage.get(gm.id) === slotsNeeded);
+    const gmAvailable = availableGms.length > 0;
+    if (gms.length > 0 && model.requireGm && !gmAvailable) continue;
+    if (required.some((p) => coverage.get(p.id) !== slotsNeeded)) continue;
+
+    const fullPlayers = players.filter((p) => coverage.get(p.id) === slotsNeeded);
+    const partialPlayers = players.filter((p) => {
+      const covered = coverage.get(p.id)!;
+      return covered > 0 && covered < slotsNeeded;
+    });
+    if (fullPlayers.length === 0) continue;
+
+    const reasons: string[] = [];
+
+    // GM
+    let gmScore = 0;
+    if (gms.length === 1) {
+      gmScore = gmAvailable ? weights.gm : 0;
+      reasons.push(gmAvailable ? "GM is available" : "GM can't make the full session");
+    } else if (gms.length > 1) {
+      gmScore = gmAvailable ? weights.gm : 0;
+      reasons.push(
+        gmAvailable
+          ? `${availableGms.map((gm) => gm.name).join(", ")} can GM`
+          : "No GM can make the full session"
+      );
+    }
+
+    // Attendance against min/max players
+    const attending = fullPlayers.length;
+    let attendanceRatio = Math.min(attending, seats) / seats;
+    if (attending < minPlayers) {
+      attendanceRatio /= 2;
+      reasons.push(`Only ${attending} of the ${minPlayers} players needed`);
+    } else if (attending > seats) {
+      reasons.push(`${attending} players available for ${seats} seats`);
+    } else {
+      reasons.push(`${attending} of ${players.length} players can make it`);
+    }
+    const attendanceScore = weights.attendance * attendanceRatio;
+
+    // Partial attendance
+    let missedFraction = 0;
+    for (const p of partialPlayers) {
+      const covered = coverage.get(p.id)!;
+      missedFraction += 1 - covered / slotsNeeded;
+      const leaveEarly = (slotsNeeded - covered) * SLOT_DURATION_MINUTES;
+      reasons.push(`${p.name} would leave ${formatDuration(leaveEarly)} early`);
+    }
+    const partialScore = weights.partialPenalty * missedFraction;
+
+    const attendees = [
+      ...availableGms,
+      ...fullPlayers,
+      ...partialPlayers,
+    ];
+
+    // "If needed" time for everyone attending, over the part they attend
+    let ifNeededFraction = 0;
+    const ifNeededAttendees: RecommendationParticipant[] = [];
+    for (const p of attendees) {
+      const ifNeededSlots = availability.get(p.id)!.ifNeeded;
+      const covered = coverage.get(p.id)!;
+      let tentative = 0;
+      for (let i = 0; i < covered; i++) {
+        if (ifNeededSlots.has(startSlot + i)) tentative++;
+      }
+      if (tentative === 0) continue;
+      ifNeededAttendees.push(p);
+      ifNeededFraction += tentative / slotsNeeded;
+      reasons.push(
+        tentative === covered
+          ? `${p.name} can make it if needed`
+          : `${p.name} can make ${formatDuration(tentative * SLOT_DURATION_MINUTES)} of it if needed`
+      );
+    }
+    const ifNeededScore = weights.ifNeededPenalty * ifNeededFraction;
+
+    // Local time of day for everyone attending
+    const startMs = startSlot * slotMs;
+    let outsideTotal = 0;
+    for (const p of attendees) {
+      const localStart = localStartMinutes(p.timezone, startMs);
+      let outside = 0;
+      for (let i = 0; i < slotsNeeded; i++) {
+        const local = (localStart + i * SLOT_DURATION_MINUTES) % MINUTES_PER_DAY;
+        if (!isInLocalWindow(local, model)) outside++;
+      }
+      if (outside > 0) {
+        const localEnd = (localStart + sessionMinutes) % MINUTES_PER_DAY;
+        reasons.push(
+          `${minutesToTime(localStart)}–${minutesToTime(localEnd)} is outside preferred hours for ${p.name}`
+        );
+      }
+      outsideTotal += outside / slotsNeeded;
+    }
+    const localTimeScore =
+      attendees.length > 0 ? weights.localTimePenalty * (outsideTotal / attendees.length) : 0;
+
+    candidates.push({
+      startSlot,
+      recommendation: {
+        startsAt: new Date(startMs).toISOString(),
+        endsAt: new Date(startMs + sessionMinutes * MS_PER_MINUTE).toISOString(),
+        score: round(gmScore + attendanceScore - partialScore - ifNeededScore - localTimeScore),
+        attendeeIds: [...availableGms.map((gm) => gm.id), ...fullPlayers.map((p) => p.id)],
+        partialIds: partialPlayers.map((p) => p.id),
+        ifNeededIds: ifNeededAttendees.map((p) => p.id),
+        gmAvailable,
+        reasons,
+        breakdown: {
+          gm: round(gmScore),
+          attendance: round(attendanceScore),
+          partial: round(-partialScore),
+          ifNeeded: round(-ifNeededScore),
+          localTime: round(-localTimeScore),
+        },
+      },
+    });
+  }
+
+  // Best first, earlier start breaks ties
+  candidates.sort(
+    (a, b) => b.recommendation.score - a.recommendation.score || a.startSlot - b.startSlot
+  );
+
+  const picked: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (picked.length >= options.limit) break;
+    const overlaps = picked.some(
+      (p) => Math.abs(p.startSlot - candidate.startSlot) < slotsNeeded
+    );
+    if (!overlaps) picked.push(candidate);
+  }
+
+  return picked.map((p) => p.recommendation);
+}
+
+/**
+ * Build a scoring model from query parameters, falling back to the defaults
+ *
+ * Supported: requireGm (true/false), gmWeight, attendanceWeight, partialWeight,
+ * ifNeededWeight, localTimeWeight (non-negative numbers), preferredStart,
+ * preferredEnd (HH:MM)
+ *
+ * @returns The model, or an error message for invalid values
+ */
+export function parseScoringModel(
+  params: URLSearchParams
+): { model: ScoringModel; error?: never } | { model?: never; error: string } {
+  const weights = { ...DEFAULT_SCORING_MODEL.weights };
+  const weightParams: [string, keyof ScoringWeights][] = [
+    ["gmWeight", "gm"],
+    ["attendanceWeight", "attendance"],
+    ["partialWeight", "partialPenalty"],
+    ["ifNeededWeight", "ifNeededPenalty"],
+    ["localTimeWeight", "localTimePenalty"],
+  ];
+  for (const [param, key] of weightParams) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (raw.trim() === "" || !isFinite(value) || value < 0) {
+      return { error: `${param} must be a non-negative number` };
+    }
+    weights[key] = value;
+  }
+
+  const requireGmParam = params.get("requireGm");
+  if (requireGmParam !== null && requireGmParam !== "true" && requireGmParam !== "false") {
+    return { error: "requireGm must be true or false" };
+  }
+
+  const windowMinutes = (param: string, fallback: number): number | null => {
+    const raw = params.get(param);
+    if (raw === null) return fallback;
+    if (!/^([01]\d|2[0-3]):[03]0$/.test(raw) && raw !== "24:00") return null;
+    return timeToMinutes(raw) % MINUTES_PER_DAY;
+  };
+  const preferredStartMinutes = windowMinutes("preferredStart", DEFAULT_SCORING_MODEL.preferredStartMinutes);
+  const preferredEndMinutes = windowMinutes("preferredEnd", DEFAULT_SCORING_MODEL.preferredEndMinutes);
+  if (preferredStartMinutes === null || preferredEndMinutes === null) {
+    return { error: "preferredStart and preferredEnd must be HH:MM on a 30-minute boundary" };
+  }
+
+  return {
+    model: {
+      weights,
+      requireGm: requireGmParam === null ? DEFAULT_SCORING_MODEL.requireGm : requireGmParam === "true",
+      preferredStartMinutes,
+      preferredEndMinutes,
+    },
+  };
+}
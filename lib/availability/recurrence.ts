@@ -0,0 +1,158 @@
+/**
+ * Recurrence rules for availability patterns
+ *
+ * A pattern applies on its day of week, optionally narrowed by:
+ * - validFrom / validUntil: inclusive date bounds
+ * - weekInterval + anchorDate: every N weeks ("every other Saturday")
+ * - weeksOfMonth: nth weekday of the month ("first and third Friday")
+ *
+ * Everything here works on local dates (YYYY-MM-DD in the pattern's
+ * originalTimezone), so "every other Saturday" means the user's Saturday.
+ */
+
+import type { AvailabilityRule } from "../types/availability";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest supported gap between occurrences, in weeks */
+export const MAX_WEEK_INTERVAL = 8;
+
+/** Valid weeksOfMonth values: 1st-5th, or -1 for the last */
+export const WEEK_OF_MONTH_VALUES = [1, 2, 3, 4, 5, -1] as const;
+
+export type PatternRecurrence = Pick<
+  AvailabilityRule,
+  "validFrom" | "validUntil" | "weekInterval" | "anchorDate" | "weeksOfMonth"
+>;
+
+/**
+ * Check whether a YYYY-MM-DD date falls inside optional inclusive bounds
+ */
+export function isDateWithinBounds(
+  date: string,
+  validFrom?: string | null,
+  validUntil?: string | null
+): boolean {
+  return (!validFrom || date >= validFrom) && (!validUntil || date <= validUntil);
+}
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY);
+}
+
+/**
+ * Day number of the Sunday starting the week that contains date
+ */
+function weekStart(date: string): number {
+  return dayNumber(date) - new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+/**
+ * Which occurrences of its weekday a date is within its month
+ * @returns nth (1-5) and whether it is the last one
+ */
+function weekdayOccurrence(date: string): { nth: number; isLast: boolean } {
+  const d = new Date(`${date}T12:00:00Z`);
+  const day = d.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  return { nth: Math.ceil(day / 7), isLast: day + 7 > daysInMonth };
+}
+
+/**
+ * Check whether a pattern's recurrence includes a local date
+ * The caller has already matched the day of week.
+ */
+export function patternOccursOn(rule: PatternRecurrence, localDate: string): boolean {
+  if (!isDateWithinBounds(localDate, rule.validFrom, rule.validUntil)) return false;
+
+  const interval = rule.weekInterval ?? 1;
+  if (interval > 1 && rule.anchorDate) {
+    const weeks = (weekStart(localDate) - weekStart(rule.anchorDate)) / 7;
+    if (((weeks % interval) + interval) % interval !== 0) return false;
+  }
+
+  if (rule.weeksOfMonth && rule.weeksOfMonth.length > 0) {
+    const { nth, isLast } = weekdayOccurrence(localDate);
+    if (!rule.weeksOfMonth.includes(nth) && !(isLast && rule.weeksOfMonth.includes(-1))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a pattern has date bounds or repeats other than weekly
+ */
+export function hasCustomRecurrence(rule: PatternRecurrence): boolean {
+  return (
+    !!rule.validFrom ||
+    !!rule.validUntil ||
+    (rule.weekInterval ?? 1) > 1 ||
+    (rule.weeksOfMonth?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Validate the bounds and recurrence fields of an incoming rule
+ *
+ * @returns An error message, or null if the rule is valid
+ */
+export function validatePatternRecurrence(
+  rule: PatternRecurrence & { ruleType: AvailabilityRule["ruleType"] }
+): string | null {
+  const { validFrom, validUntil, weekInterval, anchorDate, weeksOfMonth } = rule;
+  const isPattern = rule.ruleType === "available_pattern" || rule.ruleType === "blocked_pattern";
+
+  if (!isPattern) {
+    return hasCustomRecurrence(rule) || anchorDate
+      ? "Date bounds and recurrence are only supported on pattern rules"
+      : null;
+  }
+
+  if ((validFrom && !DATE_PATTERN.test(validFrom)) || (validUntil && !DATE_PATTERN.test(validUntil))) {
+    return "validFrom and validUntil must be YYYY-MM-DD dates";
+  }
+  if (validFrom && validUntil && validFrom > validUntil) {
+    return "validFrom must be on or before validUntil";
+  }
+
+  if (weekInterval !== null && weekInterval !== undefined) {
+    if (!Number.isInteger(weekInterval) || weekInterval < 1 || weekInterval > MAX_WEEK_INTERVAL) {
+      return `weekInterval must be a whole number from 1 to ${MAX_WEEK_INTERVAL}`;
+    }
+    if (weekInterval > 1 && (!anchorDate || !DATE_PATTERN.test(anchorDate))) {
+      return "anchorDate (YYYY-MM-DD) is required when weekInterval is more than 1";
+    }
+  }
+
+  if (weeksOfMonth && weeksOfMonth.length > 0) {
+    if (!weeksOfMonth.every((w) => (WEEK_OF_MONTH_VALUES as readonly number[]).includes(w))) {
+      return "weeksOfMonth values must be 1-5, or -1 for the last week";
+    }
+    if ((weekInterval ?? 1) > 1) {
+      return "Use either weekInterval or weeksOfMonth, not both";
+    }
+  }
+
+  return null;
+}
+
+const ORDINALS: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", 5: "5th", [-1]: "last" };
+
+/**
+ * Describe a pattern's recurrence for display, e.g. "every 2 weeks" or "1st & 3rd of the month"
+ * @returns null for plain weekly patterns
+ */
+export function describeRecurrence(rule: PatternRecurrence): string | null {
+  if ((rule.weekInterval ?? 1) > 1) {
+    return rule.weekInterval === 2 ? "every other week" : `every ${rule.weekInterval} weeks`;
+  }
+  if (rule.weeksOfMonth && rule.weeksOfMonth.length > 0) {
+    // Last goes last: "1st & last"
+    const sorted = [...rule.weeksOfMonth].sort((a, b) => (a === -1 ? 1 : b === -1 ? -1 : a - b));
+    return `${sorted.map((w) => ORDINALS[w]).join(" & ")} of the month`;
+  }
+  return null;
+}
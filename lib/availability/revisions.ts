@@ -0,0 +1,63 @@
+/**
+ * Rule revisions
+ *
+ * Every change to a participant's rules keeps the rule set as it was before
+ * the change, so any change can be reverted (undo) and the history audited.
+ * Snapshots are plain rule inputs: no ids, dates as YYYY-MM-DD.
+ */
+
+import type {
+  AvailabilityRule,
+  CreateAvailabilityRuleInput,
+  RuleSnapshot,
+  RuleSource,
+} from "../types/availability";
+
+/** Revisions kept per participant; older ones are pruned */
+export const MAX_REVISIONS = 50;
+
+/**
+ * Strip a stored rule down to what's needed to recreate it
+ */
+export function toRuleSnapshot(rule: AvailabilityRule): RuleSnapshot {
+  return {
+    ruleType: rule.ruleType,
+    dayOfWeek: rule.dayOfWeek,
+    specificDate: rule.specificDate,
+    startTime: rule.startTime,
+    endTime: rule.endTime,
+    originalTimezone: rule.originalTimezone,
+    originalDayOfWeek: rule.originalDayOfWeek,
+    originalStartTime: rule.originalStartTime ?? null,
+    originalEndTime: rule.originalEndTime ?? null,
+    validFrom: rule.validFrom ?? null,
+    validUntil: rule.validUntil ?? null,
+    weekInterval: rule.weekInterval ?? null,
+    anchorDate: rule.anchorDate ?? null,
+    weeksOfMonth: rule.weeksOfMonth ?? [],
+    crossesMidnight: rule.crossesMidnight,
+    preference: rule.preference ?? "preferred",
+    reason: rule.reason,
+    source: rule.source,
+  };
+}
+
+/**
+ * Rebuild rule inputs from a snapshot for a participant
+ */
+export function fromRuleSnapshot(
+  snapshot: RuleSnapshot[],
+  participantId: string
+): CreateAvailabilityRuleInput[] {
+  return snapshot.map((rule) => ({ ...rule, participantId }));
+}
+
+/**
+ * Where a set of saved rules came from, for labelling a revision
+ *
+ * The editor re-sends imported rules on every save, so they don't make a
+ * change an import; any AI rule makes it an AI change.
+ */
+export function inferRevisionSource(rules: CreateAvailabilityRuleInput[]): RuleSource {
+  return rules.some((r) => r.source === "ai") ? "ai" : "manual";
+}
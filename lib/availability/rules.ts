@@ -0,0 +1,69 @@
+/**
+ * Converting between stored rules and rule inputs
+ *
+ * Client-side counterpart of lib/db/rules.ts: the editor computes with
+ * unsaved inputs as if they were stored rules, and re-sends stored rules as
+ * inputs on a full replace.
+ */
+
+import type { AvailabilityRule, CreateAvailabilityRuleInput } from "../types/availability";
+
+/**
+ * A rule as input form, to send back in a replace
+ */
+export function ruleToInput(rule: AvailabilityRule): CreateAvailabilityRuleInput {
+  return {
+    participantId: rule.participantId,
+    ruleType: rule.ruleType,
+    dayOfWeek: rule.dayOfWeek,
+    specificDate: rule.specificDate,
+    startTime: rule.startTime,
+    endTime: rule.endTime,
+    originalTimezone: rule.originalTimezone,
+    originalDayOfWeek: rule.originalDayOfWeek,
+    originalStartTime: rule.originalStartTime,
+    originalEndTime: rule.originalEndTime,
+    validFrom: rule.validFrom,
+    validUntil: rule.validUntil,
+    weekInterval: rule.weekInterval,
+    anchorDate: rule.anchorDate,
+    weeksOfMonth: rule.weeksOfMonth,
+    crossesMidnight: rule.crossesMidnight,
+    preference: rule.preference,
+    reason: rule.reason,
+    source: rule.source,
+  };
+}
+
+/**
+ * An unsaved rule input as a rule, for computing effective availability
+ *
+ * @param id - Placeholder ID
+ */
+export function inputToRule(input: CreateAvailabilityRuleInput, id: string): AvailabilityRule {
+  const now = new Date();
+  return {
+    id,
+    participantId: input.participantId,
+    ruleType: input.ruleType,
+    dayOfWeek: input.dayOfWeek,
+    specificDate: input.specificDate,
+    startTime: input.startTime,
+    endTime: input.endTime,
+    originalTimezone: input.originalTimezone,
+    originalDayOfWeek: input.originalDayOfWeek,
+    originalStartTime: input.originalStartTime,
+    originalEndTime: input.originalEndTime,
+    validFrom: input.validFrom,
+    validUntil: input.validUntil,
+    weekInterval: input.weekInterval,
+    anchorDate: input.anchorDate,
+    weeksOfMonth: input.weeksOfMonth,
+    crossesMidnight: input.crossesMidnight,
+    preference: input.preference,
+    reason: input.reason ?? null,
+    source: input.source || "manual",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Session series planning
+ *
+ * Ongoing campaigns want "the same slot every week", not the single best
+ * session. This scores every recurring slot (day of week + start time at a
+ * cadence) by attendance across the whole campaign window, and reports which
+ * dates each participant would miss.
+ *
+ * Days and start times are wall-clock in the campaign timezone, so a series
+ * keeps its local time across DST changes.
+ */
+
+import { fromZonedTime } from "date-fns-tz";
+import type { DateRange } from "../types/availability";
+import { MINUTES_PER_DAY, SLOT_DURATION_MINUTES } from "../types/availability";
+import { minutesToTime } from "./range-math";
+import { getDateRange } from "./timezone";
+import type { PatternRecurrence } from "./recurrence";
+import { availableSlotIndices, type RecommendationParticipant } from "./recommendations";
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export type SeriesCadence = "weekly" | "biweekly" | "monthly";
+
+export const SERIES_CADENCES: SeriesCadence[] = ["weekly", "biweekly", "monthly"];
+
+// Monthly series fall on the nth weekday: 1st-4th or last
+const MONTHLY_WEEKS = [1, 2, 3, 4, -1];
+
+export interface SeriesOptions {
+  cadence: SeriesCadence;
+  /** Session length in minutes */
+  sessionMinutes: number;
+  /** Campaign timezone - days and start times are local to it */
+  timezone: string;
+  /** Inclusive local date range of the campaign */
+  startDate: string;
+  endDate: string;
+  minPlayers: number | null;
+  /** Sessions no GM can attend don't count as playable */
+  requireGm: boolean;
+  /** Maximum number of plans to return */
+  limit: number;
+  /** Sessions starting before this instant are left out */
+  notBefore?: Date;
+}
+
+export interface SeriesOccurrence {
+  /** Local date in the campaign timezone */
+  date: string;
+  startsAt: string;
+  endsAt: string;
+  /** Participants (including GMs) available for the whole session */
+  attendeeIds: string[];
+  /** Enough players, every required player, and a GM if required */
+  playable: boolean;
+}
+
+export interface SessionSeriesPlan {
+  cadence: SeriesCadence;
+  /** Local day of week (0 = Sunday) and start time (HH:MM) in the campaign timezone */
+  dayOfWeek: number;
+  startTime: string;
+  /** Which weeks the series falls on, as on availability patterns */
+  recurrence: PatternRecurrence;
+  occurrences: SeriesOccurrence[];
+  playableCount: number;
+  /** Share of player-sessions attended, 0-1 */
+  attendanceRate: number;
+  /** Everyone who misses at least one session, most misses first */
+  absences: { participantId: string; dates: string[] }[];
+}
+
+interface SeriesPattern {
+  key: string;
+  dayOfWeek: number;
+  recurrence: PatternRecurrence;
+  dates: string[];
+}
+
+function dayOfWeekOf(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Whether a date is the nth weekday of its month (-1 = the last one)
+ */
+function isNthWeekday(date: string, n: number): boolean {
+  const day = Number(date.slice(8, 10));
+  if (n === -1) {
+    return shiftDate(date, 7).slice(0, 7) !== date.slice(0, 7);
+  }
+  return Math.ceil(day / 7) === n;
+}
+
+/**
+ * Every recurring pattern the cadence allows, with its dates in the window
+ */
+function seriesPatterns(cadence: SeriesCadence, dates: string[]): SeriesPattern[] {
+  const patterns: SeriesPattern[] = [];
+
+  for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+    const days = dates.filter((d) => dayOfWeekOf(d) === dayOfWeek);
+    if (days.length === 0) continue;
+
+    if (cadence === "weekly") {
+      patterns.push({ key: `${dayOfWeek}`, dayOfWeek, recurrence: {}, dates: days });
+    } else if (cadence === "biweekly") {
+      // Two series per weekday: starting the first week or the second
+      for (const phase of [0, 1]) {
+        if (days.length <= phase) continue;
+        patterns.push({
+          key: `${dayOfWeek}-${phase}`,
+          dayOfWeek,
+          recurrence: { weekInterval: 2, anchorDate: days[phase] },
+          dates: days.filter((_, i) => i % 2 === phase),
+        });
+      }
+    } else {
+      for (const week of MONTHLY_WEEKS) {
+        const monthly = days.filter((d) => isNthWeekday(d, week));
+        if (monthly.length === 0) continue;
+        patterns.push({
+          key: `${dayOfWeek}-${week}`,
+          dayOfWeek,
+          recurrence: { weeksOfMonth: [week] },
+          dates: monthly,
+        });
+      }
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Rank recurring session slots by attendance across the campaign window
+ *
+ * Plans are ordered by playable sessions, then total player attendance,
+ * then the earliest first session. Plans on the same days never overlap,
+ * so the list offers distinct options.
+ *
+ * @param participants - Everyone in the campaign, with their UTC rules
+ * @returns Up to options.limit plans, best first
+ */
+export function planSessionSeries(
+  participants: RecommendationParticipant[],
+  options: SeriesOptions
+): SessionSeriesPlan[] {
+  const { sessionMinutes, timezone } = options;
+  const dates = getDateRange(options.startDate, options.endDate);
+  if (sessionMinutes <= 0 || dates.length === 0) return [];
+
+  const slotMs = SLOT_DURATION_MINUTES * MS_PER_MINUTE;
+  const notBefore = options.notBefore?.getTime() ?? -Infinity;
+
+  // Local days can start on the UTC day before or end on the day after
+  const range: DateRange = {
+    startDate: shiftDate(options.startDate, -1),
+    endDate: shiftDate(options.endDate, 1),
+  };
+  const availability = new Map(
+    participants.map((p) => [p.id, availableSlotIndices(p.rules, range).available])
+  );
+
+  // Any one GM (primary or co-GM) can run a session
+  const gmIds = new Set(participants.filter((p) => p.isGm).map((p) => p.id));
+  const players = participants.filter((p) => !p.isGm);
+  const required = participants.filter((p) => p.isRequired).map((p) => p.id);
+  const minPlayers = options.minPlayers ?? 1;
+
+  const candidates: { key: string; minutes: number; attended: number; plan: SessionSeriesPlan }[] = [];
+
+  for (const pattern of seriesPatterns(options.cadence, dates)) {
+    for (let minutes = 0; minutes < MINUTES_PER_DAY; minutes += SLOT_DURATION_MINUTES) {
+      const startTime = minutesToTime(minutes);
+      const occurrences: SeriesOccurrence[] = [];
+      let attended = 0;
+
+      for (const date of pattern.dates) {
+        const startMs = fromZonedTime(`${date}T${startTime}:00`, timezone).getTime();
+        if (startMs < notBefore) continue;
+        const endMs = startMs + sessionMinutes * MS_PER_MINUTE;
+
+        const attendeeIds = participants
+          .filter((p) => {
+            const slots = availability.get(p.id)!;
+            for (let slot = Math.floor(startMs / slotMs); slot < Math.ceil(endMs / slotMs); slot++) {
+              if (!slots.has(slot)) return false;
+            }
+            return true;
+          })
+          .map((p) => p.id);
+
+        const gmCount = attendeeIds.filter((id) => gmIds.has(id)).length;
+        const playerCount = attendeeIds.length - gmCount;
+        attended += playerCount;
+
+        occurrences.push({
+          date,
+          startsAt: new Date(startMs).toISOString(),
+          endsAt: new Date(endMs).toISOString(),
+          attendeeIds,
+          playable:
+            (gmIds.size === 0 || gmCount > 0 || !options.requireGm) &&
+            playerCount >= minPlayers &&
+            required.every((id) => attendeeIds.includes(id)),
+        });
+      }
+
+      if (occurrences.length === 0 || attended === 0) continue;
+
+      const absences = participants
+        .map((p) => ({
+          participantId: p.id,
+          dates: occurrences.filter((o) => !o.attendeeIds.includes(p.id)).map((o) => o.date),
+        }))
+        .filter((a) => a.dates.length > 0)
+        .sort((a, b) => b.dates.length - a.dates.length);
+
+      candidates.push({
+        key: pattern.key,
+        minutes,
+        attended,
+        plan: {
+          cadence: options.cadence,
+          dayOfWeek: pattern.dayOfWeek,
+          startTime,
+          recurrence: pattern.recurrence,
+          occurrences,
+          playableCount: occurrences.filter((o) => o.playable).length,
+          attendanceRate:
+            players.length > 0
+              ? Math.round((attended / (players.length * occurrences.length)) * 100) / 100
+              : 0,
+          absences,
+        },
+      });
+    }
+  }
+
+  candidates.sort(
+    (a, b) =>
+      b.plan.playableCount - a.plan.playableCount ||
+      b.attended - a.attended ||
+      a.plan.occurrences[0].startsAt.localeCompare(b.plan.occurrences[0].startsAt)
+  );
+
+  const picked: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (picked.length >= options.limit) break;
+    const overlaps = picked.some(
+      (p) => p.key === candidate.key && Math.abs(p.minutes - candidate.minutes) < sessionMinutes
+    );
+    if (!overlaps) picked.push(candidate);
+  }
+
+  return picked.map((p) => p.plan);
+}
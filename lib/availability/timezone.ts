@@ -7,6 +7,8 @@
  * Key principles:
  * - Database stores everything in UTC (dayOfWeek, startTime, endTime)
  * - Original timezone and day are preserved for cross-timezone clarity
+ * - Patterns also keep their wall-clock times and are expanded per date, so they
+ *   don't drift by an hour across DST changes
  * - Conversion happens on read (for display) and write (for storage)
  */
 
@@ -17,7 +19,8 @@ import type {
   CreateAvailabilityRuleInput,
   TimeRange,
 } from "../types/availability";
-import { timeToMinutes, minutesToTime } from "./range-math";
+import { MINUTES_PER_DAY } from "../types/availability";
+import { timeToMinutes, minutesToTime, createRange } from "./range-math";
 
 // Re-export common utilities from the existing timezone module
 export {
@@ -370,6 +373,8 @@ export function prepareRuleForStorage(
   endTime: string;
   originalTimezone: string;
   originalDayOfWeek: number | null;
+  originalStartTime: string | null;
+  originalEndTime: string | null;
   crossesMidnight: boolean;
 } {
   const isPattern =
@@ -390,6 +395,8 @@ export function prepareRuleForStorage(
       endTime: converted.endTime,
       originalTimezone: userTimezone,
       originalDayOfWeek: input.dayOfWeek,
+      originalStartTime: input.startTime,
+      originalEndTime: input.endTime,
       crossesMidnight: converted.crossesMidnight,
     };
   } else if (input.specificDate) {
@@ -406,6 +413,8 @@ export function prepareRuleForStorage(
       endTime: converted.endTime,
       originalTimezone: userTimezone,
       originalDayOfWeek: null,
+      originalStartTime: null,
+      originalEndTime: null,
       crossesMidnight: converted.crossesMidnight,
     };
   }
@@ -423,6 +432,8 @@ export function prepareRuleForStorage(
     endTime: input.endTime,
     originalTimezone: userTimezone,
     originalDayOfWeek: null,
+    originalStartTime: null,
+    originalEndTime: null,
     crossesMidnight,
   };
 }
@@ -445,6 +456,79 @@ export function getLocalDayOfWeek(date: string, timezone: string): number {
   return isoDay === 7 ? 0 : isoDay; // Convert to 0=Sunday format
 }
 
+/**
+ * Shift a YYYY-MM-DD date string by a number of days
+ */
+function shiftDateString(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Get the UTC instant (epoch ms) of a wall-clock time on a local date.
+ * Minutes may exceed 1440 to address the following day(s).
+ */
+function zonedMinutesToInstant(localDate: string, minutes: number, timezone: string): number {
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+  const date = shiftDateString(localDate, dayOffset);
+  const time = minutesToTime(minutes - dayOffset * MINUTES_PER_DAY);
+  return fromZonedTime(`${date}T${time}:00`, timezone).getTime();
+}
+
+/**
+ * Expand a wall-clock weekly pattern into UTC ranges for one UTC date
+ *
+ * Unlike the stored UTC dayOfWeek/startTime, this resolves the offset for the
+ * concrete date, so "Thursdays 7pm New York" stays at 7pm local before and after
+ * a DST change. Ranges are attributed to the UTC date they start on, and may
+ * extend past 1440 minutes like any other overnight range.
+ *
+ * @param localDayOfWeek - Day of week in the pattern's timezone (0-6)
+ * @param startTime - Local start time (HH:MM)
+ * @param endTime - Local end time (HH:MM, "24:00" allowed)
+ * @param timezone - IANA timezone the pattern was entered in
+ * @param utcDate - UTC date to expand for (YYYY-MM-DD)
+ * @param occursOn - Optional filter on the local date of each occurrence
+ *   (date bounds, every-N-weeks, nth weekday)
+ *
+ * @example
+ * // Thursday 19:00-22:00 New York is 00:00-03:00 UTC Friday in winter, 23:00-02:00 UTC Thursday in summer
+ * expandLocalPatternForDate(4, "19:00", "22:00", "America/New_York", "2024-07-11")
+ * // Returns [{ startMinutes: 1380, endMinutes: 1560 }]
+ */
+export function expandLocalPatternForDate(
+  localDayOfWeek: number,
+  startTime: string,
+  endTime: string,
+  timezone: string,
+  utcDate: string,
+  occursOn: (localDate: string) => boolean = () => true
+): TimeRange[] {
+  const local = createRange(startTime, endTime);
+  const utcMidnight = Date.parse(`${utcDate}T00:00:00Z`);
+  const ranges: TimeRange[] = [];
+
+  // A local date can start at most one calendar day either side of a UTC date
+  for (const offset of [-1, 0, 1]) {
+    const localDate = shiftDateString(utcDate, offset);
+    if (getUTCDayOfWeek(localDate) !== localDayOfWeek) continue;
+    if (!occursOn(localDate)) continue;
+
+    const start = zonedMinutesToInstant(localDate, local.startMinutes, timezone);
+    const end = zonedMinutesToInstant(localDate, local.endMinutes, timezone);
+    const startMinutes = Math.round((start - utcMidnight) / 60000);
+    if (startMinutes < 0 || startMinutes >= MINUTES_PER_DAY) continue;
+
+    ranges.push({
+      startMinutes,
+      endMinutes: startMinutes + Math.round((end - start) / 60000),
+    });
+  }
+
+  return ranges;
+}
+
 /**
  * Generate an array of dates for a given date range
  */
@@ -0,0 +1,218 @@
+/**
+ * Campaign backup export and import (server only)
+ *
+ * See lib/utils/campaign-archive.ts for the file format and validation.
+ */
+
+import { prisma } from "./prisma";
+import { HOME_SCHEDULE_INCLUDE, withHomeSchedule } from "./home-schedule";
+import { rowToSnapshot } from "./revisions";
+import { toCreateData } from "./rules";
+import { fromRuleSnapshot, toRuleSnapshot } from "@/lib/availability/revisions";
+import { generateSlug } from "@/lib/utils/slug";
+import { generateToken, hashToken } from "@/lib/api/auth";
+import { CAMPAIGN_ARCHIVE_FORMAT, CAMPAIGN_ARCHIVE_VERSION } from "@/lib/utils/campaign-archive";
+import type { CampaignArchive, CampaignType, GmRole, MeetingType, PrepUrl } from "@/lib/types";
+
+function day(date: Date | null): string | null {
+  return date ? date.toISOString().split("T")[0] : null;
+}
+
+/**
+ * Build a backup of a campaign, or null if it doesn't exist
+ *
+ * Players using a home schedule get it written out as their own patterns,
+ * since profiles stay on this instance.
+ */
+export async function exportCampaignArchive(eventId: string): Promise<CampaignArchive | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: {
+      gameSystem: true,
+      participants: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          availabilityRules: { orderBy: { createdAt: "asc" } },
+          ...HOME_SCHEDULE_INCLUDE,
+        },
+      },
+    },
+  });
+  if (!event) return null;
+
+  return {
+    format: CAMPAIGN_ARCHIVE_FORMAT,
+    version: CAMPAIGN_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    event: {
+      slug: event.slug,
+      title: event.title,
+      description: event.description,
+      timezone: event.timezone,
+      campaignType: event.campaignType as CampaignType,
+      campaignImageBase64: event.campaignImageBase64,
+      sessionLengthMinutes: event.sessionLengthMinutes,
+      customPreSessionInstructions: event.customPreSessionInstructions,
+      playerPrepUrls: (event.playerPrepUrls as PrepUrl[] | null) ?? null,
+      requireCharacterCreation: event.requireCharacterCreation,
+      requireApproval: event.requireApproval,
+      startDate: day(event.startDate),
+      endDate: day(event.endDate),
+      earliestTime: event.earliestTime,
+      latestTime: event.latestTime,
+      meetingType: event.meetingType as MeetingType | null,
+      meetingLocation: event.meetingLocation,
+      meetingRoom: event.meetingRoom,
+      minPlayers: event.minPlayers,
+      maxPlayers: event.maxPlayers,
+      createdAt: event.createdAt.toISOString(),
+    },
+    gameSystem: event.gameSystem
+      ? {
+          name: event.gameSystem.name,
+          description: event.gameSystem.description,
+          imageBase64: event.gameSystem.imageBase64,
+          defaultInstructions: event.gameSystem.defaultInstructions,
+          defaultUrls: (event.gameSystem.defaultUrls as PrepUrl[] | null) ?? null,
+          isBuiltIn: event.gameSystem.isBuiltIn,
+        }
+      : null,
+    participants: event.participants.map((p) => ({
+      displayName: p.displayName,
+      isGm: p.isGm,
+      gmRole: p.gmRole as GmRole | null,
+      isRequired: p.isRequired,
+      waitlistedAt: p.waitlistedAt?.toISOString() ?? null,
+      pendingApproval: p.pendingApproval,
+      applicationPitch: p.applicationPitch,
+      timezone: p.timezone,
+      characterName: p.characterName,
+      characterClass: p.characterClass,
+      characterSheetUrl: p.characterSheetUrl,
+      characterTokenBase64: p.characterTokenBase64,
+      notes: p.notes,
+      createdAt: p.createdAt.toISOString(),
+      rules: [
+        ...withHomeSchedule(p, []).map(toRuleSnapshot),
+        ...p.availabilityRules.map(rowToSnapshot),
+      ],
+    })),
+  };
+}
+
+/**
+ * Create a campaign from a validated backup
+ *
+ * The campaign keeps its slug unless another campaign has it. The game system
+ * is matched by name, or created as this campaign's custom system. Nobody's
+ * edit token comes along: players claim their names again, and the importer
+ * gets a new GM admin token.
+ */
+export async function importCampaignArchive(archive: CampaignArchive) {
+  const source = archive.event;
+  const slugTaken = await prisma.event.findUnique({
+    where: { slug: source.slug },
+    select: { id: true },
+  });
+  const slug = slugTaken ? await generateSlug(source.title) : source.slug;
+  const adminToken = generateToken();
+
+  const result = await prisma.$transaction(async (tx) => {
+    const existingSystem = archive.gameSystem
+      ? await tx.gameSystem.findUnique({ where: { name: archive.gameSystem.name } })
+      : null;
+
+    let event = await tx.event.create({
+      data: {
+        slug,
+        adminTokenHash: hashToken(adminToken),
+        title: source.title,
+        description: source.description,
+        timezone: source.timezone,
+        campaignType: source.campaignType,
+        gameSystemId: existingSystem?.id ?? null,
+        campaignImageBase64: source.campaignImageBase64,
+        sessionLengthMinutes: source.sessionLengthMinutes,
+        customPreSessionInstructions: source.customPreSessionInstructions,
+        playerPrepUrls: source.playerPrepUrls ?? undefined,
+        requireCharacterCreation: source.requireCharacterCreation ?? false,
+        requireApproval: source.requireApproval ?? false,
+        startDate: source.startDate ? new Date(source.startDate) : null,
+        endDate: source.endDate ? new Date(source.endDate) : null,
+        earliestTime: source.earliestTime,
+        latestTime: source.latestTime,
+        meetingType: source.meetingType,
+        meetingLocation: source.meetingLocation,
+        meetingRoom: source.meetingRoom,
+        minPlayers: source.minPlayers,
+        maxPlayers: source.maxPlayers,
+      },
+      include: { gameSystem: true },
+    });
+
+    // A system this instance doesn't know becomes the imported campaign's custom system
+    if (archive.gameSystem && !existingSystem) {
+      const system = await tx.gameSystem.create({
+        data: {
+          name: archive.gameSystem.name,
+          description: archive.gameSystem.description,
+          imageBase64: archive.gameSystem.imageBase64,
+          defaultInstructions: archive.gameSystem.defaultInstructions,
+          defaultUrls: archive.gameSystem.defaultUrls ?? undefined,
+          isBuiltIn: false,
+          ownerEventId: event.id,
+        },
+      });
+      event = await tx.event.update({
+        where: { id: event.id },
+        data: { gameSystemId: system.id },
+        include: { gameSystem: true },
+      });
+    }
+
+    const participants = [];
+    for (const p of archive.participants) {
+      const participant = await tx.participant.create({
+        data: {
+          eventId: event.id,
+          displayName: p.displayName,
+          isGm: p.isGm,
+          gmRole: p.isGm ? p.gmRole : null,
+          isRequired: p.isRequired ?? false,
+          waitlistedAt: p.waitlistedAt ? new Date(p.waitlistedAt) : null,
+          pendingApproval: p.pendingApproval ?? false,
+          applicationPitch: p.applicationPitch,
+          timezone: p.timezone,
+          characterName: p.characterName,
+          characterClass: p.characterClass,
+          characterSheetUrl: p.characterSheetUrl,
+          characterTokenBase64: p.characterTokenBase64,
+          notes: p.notes,
+          createdAt: p.createdAt ? new Date(p.createdAt) : undefined,
+        },
+      });
+      if (p.rules.length > 0) {
+        await tx.availabilityRule.createMany({
+          data: fromRuleSnapshot(p.rules, participant.id).map(toCreateData),
+        });
+      }
+      participants.push(participant);
+    }
+
+    const gmParticipant = participants.find((p) => p.gmRole === "primary")
+      ?? participants.find((p) => p.isGm)
+      ?? await tx.participant.create({
+        data: {
+          eventId: event.id,
+          displayName: "Game Master",
+          isGm: true,
+          gmRole: "primary",
+          timezone: source.timezone,
+        },
+      });
+
+    return { event, gmParticipant };
+  });
+
+  return { ...result, adminToken };
+}
@@ -0,0 +1,113 @@
+/**
+ * Home schedule inheritance (server only)
+ *
+ * Routes that compute availability include HOME_SCHEDULE_INCLUDE on the
+ * participants they load and pass each participant's rules through
+ * withHomeSchedule. See lib/availability/home-schedule.ts.
+ */
+
+import { prisma } from "./prisma";
+import { recordRuleRevision } from "./revisions";
+import { toCreateData } from "./rules";
+import { applyHomeSchedule, homeRuleToInput } from "@/lib/availability/home-schedule";
+import type { Prisma } from "@/lib/generated/prisma";
+import type {
+  AvailabilityRule,
+  HomeScheduleRule,
+  PlayerProfile,
+  RevisionActor,
+} from "@/lib/types/availability";
+
+type HomeScheduleRow = Awaited<ReturnType<typeof prisma.homeScheduleRule.findMany>>[number];
+
+// Prisma include for a participant's linked profile and its home schedule
+export const HOME_SCHEDULE_INCLUDE = {
+  profile: { select: { homeRules: true } },
+} as const;
+
+/**
+ * Map a stored home schedule row to HomeScheduleRule
+ */
+export function toHomeScheduleRule(row: HomeScheduleRow): HomeScheduleRule {
+  return {
+    id: row.id,
+    ruleType: row.ruleType as HomeScheduleRule["ruleType"],
+    dayOfWeek: row.dayOfWeek,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    originalTimezone: row.originalTimezone,
+    originalDayOfWeek: row.originalDayOfWeek,
+    originalStartTime: row.originalStartTime,
+    originalEndTime: row.originalEndTime,
+    crossesMidnight: row.crossesMidnight,
+    preference: row.preference as HomeScheduleRule["preference"],
+  };
+}
+
+/**
+ * A participant's campaign rules with their inherited home schedule underneath
+ */
+export function withHomeSchedule(
+  participant: { id: string; profile?: { homeRules: HomeScheduleRow[] } | null },
+  rules: AvailabilityRule[]
+): AvailabilityRule[] {
+  return applyHomeSchedule(
+    participant.id,
+    rules,
+    (participant.profile?.homeRules ?? []).map(toHomeScheduleRule)
+  );
+}
+
+/**
+ * Load a profile as returned to its owner, with its home schedule and campaigns
+ */
+export async function getPlayerProfile(profileId: string): Promise<PlayerProfile | null> {
+  const profile = await prisma.playerProfile.findUnique({
+    where: { id: profileId },
+    include: {
+      homeRules: { orderBy: [{ dayOfWeek: "asc" }, { startTime: "asc" }] },
+      participants: {
+        select: { id: true, event: { select: { slug: true, title: true } } },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+  if (!profile) return null;
+
+  return {
+    id: profile.id,
+    displayName: profile.displayName,
+    timezone: profile.timezone,
+    homeRules: profile.homeRules.map(toHomeScheduleRule),
+    campaigns: profile.participants.map((p) => ({
+      participantId: p.id,
+      eventSlug: p.event.slug,
+      eventTitle: p.event.title,
+    })),
+  };
+}
+
+/**
+ * Stop a participant inheriting a home schedule, keeping a copy of it as
+ * campaign patterns so their availability doesn't change
+ *
+ * Call inside a transaction.
+ */
+export async function detachFromProfile(
+  tx: Prisma.TransactionClient,
+  participantId: string,
+  homeRules: HomeScheduleRow[],
+  actor: RevisionActor
+): Promise<void> {
+  if (homeRules.length > 0) {
+    await recordRuleRevision(tx, participantId, { action: "replace", source: "manual", actor });
+    await tx.availabilityRule.createMany({
+      data: homeRules.map((row) => toCreateData(homeRuleToInput(participantId, toHomeScheduleRule(row)))),
+    });
+  }
+
+  await tx.participant.update({
+    where: { id: participantId },
+    data: { profileId: null },
+  });
+}
@@ -4,6 +4,14 @@ const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
 };
 
-export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+// Secrets are never returned unless a query selects them explicitly
+export const prisma =
+  globalForPrisma.prisma ??
+  new PrismaClient({
+    omit: {
+      event: { adminTokenHash: true },
+      participant: { editTokenHash: true },
+    },
+  });
 
 if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
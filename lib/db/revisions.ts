@@ -0,0 +1,102 @@
+/**
+ * Availability rule revisions (server only)
+ *
+ * Routes that change a participant's rules call recordRuleRevision inside
+ * their transaction, before changing anything, so the revision holds the
+ * previous rule set. See lib/availability/revisions.ts.
+ */
+
+import { prisma } from "./prisma";
+import { toAvailabilityRule, toCreateData, type AvailabilityRuleRow } from "./rules";
+import { MAX_REVISIONS, fromRuleSnapshot, toRuleSnapshot } from "@/lib/availability/revisions";
+import type { Prisma } from "@/lib/generated/prisma";
+import type {
+  RevisionAction,
+  RevisionActor,
+  RuleSnapshot,
+  RuleSource,
+} from "@/lib/types/availability";
+
+/**
+ * Snapshot of a stored rule row
+ */
+export function rowToSnapshot(r: AvailabilityRuleRow): RuleSnapshot {
+  return toRuleSnapshot(toAvailabilityRule(r));
+}
+
+/**
+ * Record the participant's current rules as a revision, pruning old ones
+ *
+ * Call inside the transaction that changes the rules, before the change.
+ *
+ * @returns The new revision's ID
+ */
+export async function recordRuleRevision(
+  tx: Prisma.TransactionClient,
+  participantId: string,
+  change: { action: RevisionAction; source: RuleSource; actor: RevisionActor }
+): Promise<string> {
+  const rules = await tx.availabilityRule.findMany({
+    where: { participantId },
+    orderBy: { createdAt: "asc" },
+  });
+  const snapshot = rules.map(rowToSnapshot);
+
+  const revision = await tx.availabilityRevision.create({
+    data: {
+      participantId,
+      ...change,
+      rules: snapshot as unknown as Prisma.InputJsonValue,
+      ruleCount: snapshot.length,
+    },
+    select: { id: true },
+  });
+
+  const stale = await tx.availabilityRevision.findMany({
+    where: { participantId },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_REVISIONS,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await tx.availabilityRevision.deleteMany({
+      where: { id: { in: stale.map((r) => r.id) } },
+    });
+  }
+
+  return revision.id;
+}
+
+/**
+ * Put a participant's rules back to how they were before a revision
+ *
+ * The restore is itself recorded, so it can be undone too.
+ *
+ * @returns The restore's revision ID and rule count, or null if the revision doesn't exist
+ */
+export async function restoreRuleRevision(
+  participantId: string,
+  revisionId: string,
+  actor: RevisionActor
+): Promise<{ revisionId: string; count: number } | null> {
+  return prisma.$transaction(async (tx) => {
+    const revision = await tx.availabilityRevision.findFirst({
+      where: { id: revisionId, participantId },
+    });
+    if (!revision) return null;
+
+    const rules = fromRuleSnapshot(revision.rules as unknown as RuleSnapshot[], participantId);
+    const newRevisionId = await recordRuleRevision(tx, participantId, {
+      action: "restore",
+      source: "manual",
+      actor,
+    });
+
+    await tx.availabilityRule.deleteMany({ where: { participantId } });
+    if (rules.length > 0) {
+      await tx.availabilityRule.createMany({ data: rules.map(toCreateData) });
+    }
+
+    return { revisionId: newRevisionId, count: rules.length };
+  });
+}
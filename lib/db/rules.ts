@@ -0,0 +1,78 @@
+/**
+ * Availability rule rows (server only)
+ *
+ * The one place stored rule rows are mapped to and from AvailabilityRule.
+ * A new rule column only needs adding here (and in lib/availability/rules.ts
+ * for the client-side input form).
+ */
+
+import { prisma } from "./prisma";
+import type {
+  AvailabilityPreference,
+  AvailabilityRuleType,
+  RuleSource as PrismaRuleSource,
+} from "@/lib/generated/prisma";
+import type { AvailabilityRule, CreateAvailabilityRuleInput } from "@/lib/types/availability";
+
+export type AvailabilityRuleRow = Awaited<ReturnType<typeof prisma.availabilityRule.findMany>>[number];
+
+function day(date: Date | null): string | null {
+  return date ? date.toISOString().split("T")[0] : null;
+}
+
+/**
+ * Map a stored rule row to AvailabilityRule (dates as YYYY-MM-DD)
+ */
+export function toAvailabilityRule(r: AvailabilityRuleRow): AvailabilityRule {
+  return {
+    id: r.id,
+    participantId: r.participantId,
+    ruleType: r.ruleType as AvailabilityRule["ruleType"],
+    dayOfWeek: r.dayOfWeek,
+    specificDate: day(r.specificDate),
+    startTime: r.startTime,
+    endTime: r.endTime,
+    originalTimezone: r.originalTimezone,
+    originalDayOfWeek: r.originalDayOfWeek,
+    originalStartTime: r.originalStartTime,
+    originalEndTime: r.originalEndTime,
+    validFrom: day(r.validFrom),
+    validUntil: day(r.validUntil),
+    weekInterval: r.weekInterval,
+    anchorDate: day(r.anchorDate),
+    weeksOfMonth: r.weeksOfMonth,
+    crossesMidnight: r.crossesMidnight ?? undefined,
+    preference: r.preference as AvailabilityRule["preference"],
+    reason: r.reason,
+    source: r.source as AvailabilityRule["source"],
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  };
+}
+
+/**
+ * Prisma create data for a rule input
+ */
+export function toCreateData(rule: CreateAvailabilityRuleInput) {
+  return {
+    participantId: rule.participantId,
+    ruleType: rule.ruleType as AvailabilityRuleType,
+    dayOfWeek: rule.dayOfWeek,
+    specificDate: rule.specificDate ? new Date(rule.specificDate) : null,
+    startTime: rule.startTime,
+    endTime: rule.endTime,
+    originalTimezone: rule.originalTimezone,
+    originalDayOfWeek: rule.originalDayOfWeek,
+    originalStartTime: rule.originalStartTime ?? null,
+    originalEndTime: rule.originalEndTime ?? null,
+    validFrom: rule.validFrom ? new Date(rule.validFrom) : null,
+    validUntil: rule.validUntil ? new Date(rule.validUntil) : null,
+    weekInterval: rule.weekInterval ?? null,
+    anchorDate: rule.anchorDate ? new Date(rule.anchorDate) : null,
+    weeksOfMonth: rule.weeksOfMonth ?? [],
+    crossesMidnight: rule.crossesMidnight ?? null,
+    preference: (rule.preference || "preferred") as AvailabilityPreference,
+    reason: rule.reason || null,
+    source: (rule.source || "manual") as PrismaRuleSource,
+  };
+}
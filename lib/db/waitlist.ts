@@ -0,0 +1,33 @@
+/**
+ * Waitlist promotion (server only)
+ *
+ * Routes that can open a seat (a player leaving, the GM raising maxPlayers)
+ * call fillOpenSeats afterwards. See lib/utils/waitlist.ts.
+ */
+
+import { prisma } from "./prisma";
+import { selectPromotions } from "@/lib/utils/waitlist";
+
+/**
+ * Seat waitlisted players while the campaign has room
+ *
+ * @returns IDs of the promoted players, longest-waiting first
+ */
+export async function fillOpenSeats(eventId: string, maxPlayers: number | null): Promise<string[]> {
+  return prisma.$transaction(async (tx) => {
+    const participants = await tx.participant.findMany({
+      where: { eventId },
+      select: { id: true, isGm: true, waitlistedAt: true, pendingApproval: true },
+    });
+
+    const promoted = selectPromotions(participants, maxPlayers).map((p) => p.id);
+    if (promoted.length > 0) {
+      await tx.participant.updateMany({
+        where: { id: { in: promoted } },
+        data: { waitlistedAt: null },
+      });
+    }
+
+    return promoted;
+  });
+}
@@ -1,15 +1,18 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import type {
   AvailabilityRule,
   CreateAvailabilityRuleInput,
   GetRulesResponse,
 } from "@/lib/types/availability";
+import { participantHeaders } from "@/lib/utils/auth-headers";
 
 interface UseAvailabilityRulesOptions {
   /** Participant ID to fetch rules for */
   participantId: string;
+  /** Campaign ID, lets the GM admin token authorize edits */
+  eventId?: string;
   /** Whether to fetch on mount */
   fetchOnMount?: boolean;
 }
@@ -29,12 +32,19 @@ interface UseAvailabilityRulesReturn {
   addRules: (rules: CreateAvailabilityRuleInput[]) => Promise<boolean>;
   /** Remove rules by ID */
   removeRules: (ruleIds: string[]) => Promise<boolean>;
+  /** Add and remove rules in one atomic change */
+  updateRules: (add: CreateAvailabilityRuleInput[], remove: string[]) => Promise<boolean>;
+  /** Revert the most recent save made through this hook (repeatable) */
+  undo: () => Promise<boolean>;
+  /** Whether there is a save to undo */
+  canUndo: boolean;
   /** Optimistically update local state */
   setLocalRules: (rules: AvailabilityRule[]) => void;
 }
 
 export function useAvailabilityRules({
   participantId,
+  eventId,
   fetchOnMount = true,
 }: UseAvailabilityRulesOptions): UseAvailabilityRulesReturn {
   const [rules, setRules] = useState<AvailabilityRule[]>([]);
@@ -43,6 +53,18 @@ export function useAvailabilityRules({
   const [isLoading, setIsLoading] = useState(fetchOnMount);
   const [error, setError] = useState<string | null>(null);
 
+  // Revisions recorded by this session's saves, newest last
+  const undoStackRef = useRef<string[]>([]);
+  const [canUndo, setCanUndo] = useState(false);
+
+  const pushRevision = useCallback(async (response: Response) => {
+    const data: { revisionId?: string } = await response.json();
+    if (data.revisionId) {
+      undoStackRef.current = [...undoStackRef.current, data.revisionId];
+      setCanUndo(true);
+    }
+  }, []);
+
   const refetch = useCallback(async () => {
     if (!participantId) return;
 
@@ -82,7 +104,10 @@ export function useAvailabilityRules({
           `/api/availability/${participantId}/rules`,
           {
             method: "PUT",
-            headers: { "Content-Type": "application/json" },
+            headers: {
+              "Content-Type": "application/json",
+              ...participantHeaders(participantId, eventId),
+            },
             body: JSON.stringify({ rules: newRules }),
           }
         );
@@ -90,6 +115,7 @@ export function useAvailabilityRules({
         if (!response.ok) {
           throw new Error("Failed to update availability rules");
         }
+        await pushRevision(response);
 
         // Only refetch if not skipping (for pattern saves we need IDs, for grid saves we don't)
         if (!skipRefetch) {
@@ -105,7 +131,7 @@ export function useAvailabilityRules({
         }
       }
     },
-    [participantId, refetch]
+    [participantId, eventId, refetch, pushRevision]
   );
 
   const addRules = useCallback(
@@ -120,7 +146,10 @@ export function useAvailabilityRules({
           `/api/availability/${participantId}/rules`,
           {
             method: "PATCH",
-            headers: { "Content-Type": "application/json" },
+            headers: {
+              "Content-Type": "application/json",
+              ...participantHeaders(participantId, eventId),
+            },
             body: JSON.stringify({ add: newRules }),
           }
         );
@@ -128,6 +157,7 @@ export function useAvailabilityRules({
         if (!response.ok) {
           throw new Error("Failed to add availability rules");
         }
+        await pushRevision(response);
 
         // Refetch to get updated rules
         await refetch();
@@ -139,7 +169,7 @@ export function useAvailabilityRules({
         setIsLoading(false);
       }
     },
-    [participantId, refetch]
+    [participantId, eventId, refetch, pushRevision]
   );
 
   const removeRules = useCallback(
@@ -154,7 +184,10 @@ export function useAvailabilityRules({
           `/api/availability/${participantId}/rules`,
           {
             method: "PATCH",
-            headers: { "Content-Type": "application/json" },
+            headers: {
+              "Content-Type": "application/json",
+              ...participantHeaders(participantId, eventId),
+            },
             body: JSON.stringify({ remove: ruleIds }),
           }
         );
@@ -162,6 +195,7 @@ export function useAvailabilityRules({
         if (!response.ok) {
           throw new Error("Failed to remove availability rules");
         }
+        await pushRevision(response);
 
         // Update local state optimistically
         setRules((prev) => prev.filter((r) => !ruleIds.includes(r.id)));
@@ -175,9 +209,82 @@ export function useAvailabilityRules({
         setIsLoading(false);
       }
     },
-    [participantId, refetch]
+    [participantId, eventId, refetch, pushRevision]
+  );
+
+  const updateRules = useCallback(
+    async (add: CreateAvailabilityRuleInput[], remove: string[]): Promise<boolean> => {
+      if (!participantId) return false;
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/availability/${participantId}/rules`,
+          {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+              ...participantHeaders(participantId, eventId),
+            },
+            body: JSON.stringify({ add, remove }),
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error("Failed to update availability rules");
+        }
+        await pushRevision(response);
+
+        // Refetch to get updated rules
+        await refetch();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+        return false;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [participantId, eventId, refetch, pushRevision]
   );
 
+  const undo = useCallback(async (): Promise<boolean> => {
+    const revisionId = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!participantId || !revisionId) return false;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/availability/${participantId}/revisions/${revisionId}/restore`,
+        {
+          method: "POST",
+          headers: participantHeaders(participantId, eventId),
+        }
+      );
+
+      // A pruned revision can't be restored; drop it either way
+      if (response.ok || response.status === 404) {
+        undoStackRef.current = undoStackRef.current.slice(0, -1);
+        setCanUndo(undoStackRef.current.length > 0);
+      }
+      if (!response.ok) {
+        throw new Error("Failed to undo the last change");
+      }
+
+      await refetch();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [participantId, eventId, refetch]);
+
   const setLocalRules = useCallback((newRules: AvailabilityRule[]) => {
     setRules(newRules);
   }, []);
@@ -197,6 +304,9 @@ export function useAvailabilityRules({
     replaceRules,
     addRules,
     removeRules,
+    updateRules,
+    undo,
+    canUndo,
     setLocalRules,
   };
 }
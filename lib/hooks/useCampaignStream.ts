@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { CampaignChange, CampaignChangeListener } from "@/lib/realtime/campaign-events";
+
+interface SharedStream {
+  source: EventSource;
+  listeners: Set<CampaignChangeListener>;
+}
+
+// One connection per campaign, shared by every component on the page
+const streams = new Map<string, SharedStream>();
+
+function subscribe(slug: string, listener: CampaignChangeListener): () => void {
+  let stream = streams.get(slug);
+  if (!stream) {
+    const source = new EventSource(`/api/events/${slug}/stream`);
+    const created: SharedStream = { source, listeners: new Set() };
+    source.onmessage = (message) => {
+      let change: CampaignChange;
+      try {
+        change = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      for (const l of [...created.listeners]) l(change);
+    };
+    streams.set(slug, created);
+    stream = created;
+  }
+
+  const shared = stream;
+  shared.listeners.add(listener);
+
+  return () => {
+    shared.listeners.delete(listener);
+    if (shared.listeners.size === 0) {
+      shared.source.close();
+      streams.delete(slug);
+    }
+  };
+}
+
+/**
+ * Subscribe to live changes for a campaign (players joining, availability saves, settings)
+ * Pass an undefined slug to stay disconnected.
+ */
+export function useCampaignStream(
+  slug: string | undefined,
+  onChange: CampaignChangeListener
+): void {
+  // Latest callback without reconnecting on every render
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!slug || typeof EventSource === "undefined") return;
+    return subscribe(slug, (change) => onChangeRef.current(change));
+  }, [slug]);
+}
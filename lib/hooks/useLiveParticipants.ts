@@ -0,0 +1,65 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { applyParticipantChanges, type CampaignChange } from "@/lib/realtime/campaign-events";
+import { useCampaignStream } from "./useCampaignStream";
+
+interface UseLiveParticipantsOptions<T> {
+  /** Campaign slug to subscribe to; undefined keeps the list static */
+  slug: string | undefined;
+  /** Players as last fetched by the parent (should be referentially stable) */
+  participants: T[];
+  /** Load one player's latest state, or null if they no longer exist */
+  fetchParticipant: (participantId: string) => Promise<T | null>;
+  /** Also refetch a player when their availability changes */
+  refetchOnRulesUpdate?: boolean;
+}
+
+/**
+ * Keep a list of players current from the campaign stream, one player at a time.
+ * Live changes are dropped whenever the parent passes a new list.
+ */
+export function useLiveParticipants<T extends { id: string }>({
+  slug,
+  participants,
+  fetchParticipant,
+  refetchOnRulesUpdate = false,
+}: UseLiveParticipantsOptions<T>): T[] {
+  const [live, setLive] = useState<{ base: T[]; changes: Record<string, T | null> }>({
+    base: participants,
+    changes: {},
+  });
+
+  const setChange = useCallback(
+    (participantId: string, value: T | null) => {
+      setLive((prev) => ({
+        base: participants,
+        changes: { ...(prev.base === participants ? prev.changes : {}), [participantId]: value },
+      }));
+    },
+    [participants]
+  );
+
+  const handleChange = useCallback(
+    (change: CampaignChange) => {
+      if (change.type === "campaign_updated") return;
+      if (change.type === "participant_removed") {
+        setChange(change.participantId, null);
+        return;
+      }
+      if (change.type === "rules_updated" && !refetchOnRulesUpdate) return;
+
+      fetchParticipant(change.participantId)
+        .then((participant) => setChange(change.participantId, participant))
+        .catch((error) => console.error("Failed to refresh player:", error));
+    },
+    [fetchParticipant, refetchOnRulesUpdate, setChange]
+  );
+
+  useCampaignStream(slug, handleChange);
+
+  return useMemo(
+    () => applyParticipantChanges(participants, live.base === participants ? live.changes : {}),
+    [participants, live]
+  );
+}
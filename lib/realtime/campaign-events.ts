@@ -0,0 +1,104 @@
+/**
+ * In-process change notifications for campaigns
+ *
+ * API routes publish a change after they write; GET /api/events/[slug]/stream
+ * forwards changes to browsers as Server-Sent Events. Subscribers only hear
+ * changes made by the same server process, which covers local development and
+ * single-instance deployments.
+ */
+
+export type CampaignChange =
+  | { type: "participant_joined"; participantId: string }
+  | { type: "participant_updated"; participantId: string }
+  | { type: "participant_removed"; participantId: string }
+  | { type: "rules_updated"; participantId: string }
+  | { type: "campaign_updated" };
+
+export type CampaignChangeListener = (change: CampaignChange) => void;
+
+// Survive module reloads in development, like the Prisma client
+const globalForCampaignEvents = globalThis as unknown as {
+  campaignListeners: Map<string, Set<CampaignChangeListener>> | undefined;
+};
+
+const listeners =
+  globalForCampaignEvents.campaignListeners ?? new Map<string, Set<CampaignChangeListener>>();
+globalForCampaignEvents.campaignListeners = listeners;
+
+/**
+ * Listen for changes to one campaign
+ * @returns A function that stops listening
+ */
+export function subscribeToCampaign(
+  eventId: string,
+  listener: CampaignChangeListener
+): () => void {
+  let campaignListeners = listeners.get(eventId);
+  if (!campaignListeners) {
+    campaignListeners = new Set();
+    listeners.set(eventId, campaignListeners);
+  }
+  campaignListeners.add(listener);
+
+  return () => {
+    campaignListeners.delete(listener);
+    if (campaignListeners.size === 0 && listeners.get(eventId) === campaignListeners) {
+      listeners.delete(eventId);
+    }
+  };
+}
+
+/**
+ * Notify everyone listening to a campaign
+ * A failing listener never breaks the request that published the change.
+ */
+export function publishCampaignChange(eventId: string, change: CampaignChange): void {
+  const campaignListeners = listeners.get(eventId);
+  if (!campaignListeners) return;
+
+  for (const listener of [...campaignListeners]) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error("Campaign change listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Number of open subscriptions for a campaign
+ */
+export function getSubscriberCount(eventId: string): number {
+  return listeners.get(eventId)?.size ?? 0;
+}
+
+/**
+ * Encode a change as a Server-Sent Events message
+ */
+export function formatSseMessage(change: CampaignChange): string {
+  return `data: ${JSON.stringify(change)}\n\n`;
+}
+
+/**
+ * Apply live per-player changes on top of a fetched list
+ * A null change removes the player; changes for unknown players are appended.
+ */
+export function applyParticipantChanges<T extends { id: string }>(
+  participants: T[],
+  changes: Record<string, T | null>
+): T[] {
+  const merged: T[] = [];
+  for (const participant of participants) {
+    if (!(participant.id in changes)) {
+      merged.push(participant);
+    } else if (changes[participant.id]) {
+      merged.push(changes[participant.id]!);
+    }
+  }
+  for (const [id, change] of Object.entries(changes)) {
+    if (change && !participants.some((p) => p.id === id)) {
+      merged.push(change);
+    }
+  }
+  return merged;
+}
@@ -18,6 +18,11 @@ export type AvailabilityRuleType =
 // Source of how the rule was created
 export type RuleSource = "manual" | "ai" | "import";
 
+// How keen the participant is on an available time (blocked rules ignore it)
+export type AvailabilityPreference =
+  | "preferred" // Happy to play
+  | "if_needed"; // Can make it, but would rather not
+
 /**
  * Database record for availability rules (always stored in UTC)
  */
@@ -42,6 +47,27 @@ export interface AvailabilityRule {
   originalTimezone: string; // IANA timezone (e.g., "Asia/Tokyo")
   originalDayOfWeek: number | null; // What day the user selected in their timezone
 
+  // Wall-clock times the user entered in originalTimezone (patterns only).
+  // When present, patterns are expanded per concrete date so they keep the same
+  // local time across DST changes. Null for overrides and legacy UTC-only rows.
+  originalStartTime?: string | null;
+  originalEndTime?: string | null;
+
+  // Inclusive date bounds for patterns (YYYY-MM-DD in originalTimezone)
+  // e.g. "Tuesdays until March 1st" or "weekends starting next month".
+  // Null means unbounded on that side; always null for overrides.
+  validFrom?: string | null;
+  validUntil?: string | null;
+
+  // Recurrence for patterns (weekly when unset). Evaluated on local dates in originalTimezone.
+  // - weekInterval + anchorDate: every N weeks, counting from the week containing anchorDate
+  //   (e.g. "every other Saturday" = 2 + a date in an "on" week)
+  // - weeksOfMonth: nth weekday of the month, 1-5 or -1 for the last
+  //   (e.g. "first and third Friday" = [1, 3])
+  weekInterval?: number | null;
+  anchorDate?: string | null;
+  weeksOfMonth?: number[] | null;
+
   // Midnight crossing flag - indicates whether the ORIGINAL (pre-UTC-conversion) time range
   // crossed midnight. This is critical for correct timezone conversion display.
   // - true: User specified overnight range (e.g., "10pm-2am")
@@ -49,6 +75,10 @@ export interface AvailabilityRule {
   // - undefined: Legacy data, use inference
   crossesMidnight?: boolean;
 
+  // Preference for available_* rules
+  // - undefined: Legacy data, treated as preferred
+  preference?: AvailabilityPreference;
+
   // Metadata
   reason: string | null;
   source: RuleSource;
@@ -70,7 +100,15 @@ export interface CreateAvailabilityRuleInput {
   endTime: string;
   originalTimezone: string;
   originalDayOfWeek: number | null;
+  originalStartTime?: string | null; // Local pattern start in originalTimezone
+  originalEndTime?: string | null; // Local pattern end in originalTimezone
+  validFrom?: string | null; // First local date a pattern applies (inclusive)
+  validUntil?: string | null; // Last local date a pattern applies (inclusive)
+  weekInterval?: number | null; // Repeat every N weeks (patterns only)
+  anchorDate?: string | null; // A local date in an "on" week for weekInterval > 1
+  weeksOfMonth?: number[] | null; // Nth weekday of the month (1-5, -1 = last)
   crossesMidnight?: boolean; // Whether original time range crossed midnight
+  preference?: AvailabilityPreference; // Defaults to preferred
   reason?: string | null;
   source?: RuleSource;
 }
@@ -89,6 +127,7 @@ export interface TimeRange {
 export interface DayAvailability {
   date: string; // YYYY-MM-DD
   availableRanges: TimeRange[];
+  ifNeededRanges: TimeRange[]; // Subset of availableRanges the participant would rather avoid
   blockedRanges: TimeRange[];
 }
 
@@ -160,6 +199,93 @@ export interface PatchRulesRequest {
   remove?: string[]; // Rule IDs to remove
 }
 
+// What kind of change a revision records
+export type RevisionAction = "replace" | "patch" | "import" | "restore";
+
+// Whose token made a change
+export type RevisionActor = "participant" | "gm";
+
+/**
+ * A rule as kept in a revision snapshot (no id or participant)
+ */
+export type RuleSnapshot = Omit<CreateAvailabilityRuleInput, "participantId">;
+
+/**
+ * One recorded change to a participant's rules
+ * Restoring it puts the rules back as they were before the change.
+ */
+export interface AvailabilityRevision {
+  id: string;
+  action: RevisionAction;
+  source: RuleSource;
+  actor: RevisionActor;
+  ruleCount: number; // Rules before the change
+  createdAt: string;
+}
+
+// GET /api/availability/[participantId]/revisions
+export interface GetRevisionsResponse {
+  revisions: AvailabilityRevision[]; // Newest first
+}
+
+/**
+ * A weekly pattern in a player profile's home schedule
+ * Stored like a pattern rule (UTC plus the local times entered), but always
+ * weekly: no date bounds or recurrence
+ */
+export interface HomeScheduleRule {
+  id: string;
+  ruleType: "available_pattern" | "blocked_pattern";
+  dayOfWeek: number; // UTC day of week
+  startTime: string; // UTC HH:MM
+  endTime: string;
+  originalTimezone: string;
+  originalDayOfWeek: number | null;
+  originalStartTime: string | null;
+  originalEndTime: string | null;
+  crossesMidnight: boolean | null;
+  preference: AvailabilityPreference;
+}
+
+export type HomeScheduleRuleInput = Omit<HomeScheduleRule, "id">;
+
+/**
+ * Player profile as returned to its owner (GET /api/profiles/[id])
+ */
+export interface PlayerProfile {
+  id: string;
+  displayName: string;
+  timezone: string;
+  homeRules: HomeScheduleRule[];
+  // Campaign participations inheriting the home schedule
+  campaigns: { participantId: string; eventSlug: string; eventTitle: string }[];
+}
+
+/**
+ * Preview of a change to a participant's rules (e.g. from the availability parser)
+ * Ranges and descriptions are in the viewer's timezone.
+ */
+export interface AvailabilityDiff {
+  add: CreateAvailabilityRuleInput[];
+  remove: string[]; // Rule IDs to remove
+  summary: {
+    added: string[]; // One line per added rule
+    removed: string[]; // One line per removed rule
+  };
+  days: AvailabilityDayDiff[]; // Only days whose availability changes
+}
+
+/**
+ * One local date's availability before and after a change
+ */
+export interface AvailabilityDayDiff {
+  date: string; // YYYY-MM-DD in the viewer's timezone
+  before: TimeRange[];
+  after: TimeRange[];
+  gained: TimeRange[];
+  lost: TimeRange[];
+}
+
 // GET /api/events/[slug]/heatmap
 export interface HeatmapResponse {
   cells: HeatmapCellData[];
@@ -1,10 +1,13 @@
 // Utility types for overlap calculation and other shared logic
 // Prisma generates the main model types in lib/generated/prisma
 
+import type { RuleSnapshot } from "./availability";
+
 export interface TimeSlot {
   date: string; // YYYY-MM-DD
   startTime: string; // HH:MM
   endTime: string; // HH:MM
+  ifNeeded?: boolean; // Heatmap only: available, but would rather not
 }
 
 export interface GeneralAvailability {
@@ -52,6 +55,9 @@ export type MeetingType =
 // Campaign type enum (matches Prisma enum)
 export type CampaignType = "ONESHOT" | "CAMPAIGN";
 
+// A campaign has one primary GM and any number of co-GMs
+export type GmRole = "primary" | "co_gm";
+
 // Player prep URL type
 export interface PrepUrl {
   label: string;
@@ -87,6 +93,79 @@ export interface CreateCampaignPayload {
   meetingType?: MeetingType;
   meetingLocation?: string;
   meetingRoom?: string;
+  campaignType?: CampaignType;
+  minPlayers?: number;
+  maxPlayers?: number;
+  requireCharacterCreation?: boolean;
+  requireApproval?: boolean;
+}
+
+// Reusable campaign setup - everything but the name, scheduling window and timezone of a new campaign
+export type CampaignTemplateSettings = Omit<
+  CreateCampaignPayload,
+  "title" | "timezone" | "startDate" | "endDate" | "earliestTime" | "latestTime"
+>;
+
+export interface CampaignTemplate {
+  id: string;
+  name: string;
+  settings: CampaignTemplateSettings;
+  createdAt: string;
+}
+
+// Campaign backup file (GET /api/events/[slug]/archive, POST /api/events/import)
+// Dates are YYYY-MM-DD, timestamps ISO 8601. Tokens are never included.
+export interface CampaignArchive {
+  format: "when2play-campaign";
+  version: number;
+  exportedAt: string;
+  event: CampaignArchiveEvent;
+  gameSystem: CampaignArchiveGameSystem | null; // Matched by name on import
+  participants: CampaignArchiveParticipant[];
+}
+
+export interface CampaignArchiveEvent {
+  slug: string; // Kept on import unless taken
+  title: string;
+  description: string | null;
+  timezone: string;
+  campaignType: CampaignType;
+  campaignImageBase64: string | null;
+  sessionLengthMinutes: number;
+  customPreSessionInstructions: string | null;
+  playerPrepUrls: PrepUrl[] | null;
+  requireCharacterCreation: boolean;
+  requireApproval: boolean;
+  startDate: string | null;
+  endDate: string | null;
+  earliestTime: string;
+  latestTime: string;
+  meetingType: MeetingType | null;
+  meetingLocation: string | null;
+  meetingRoom: string | null;
+  minPlayers: number | null;
+  maxPlayers: number | null;
+  createdAt: string;
+}
+
+export type CampaignArchiveGameSystem = Omit<GameSystem, "id" | "createdAt">;
+
+export interface CampaignArchiveParticipant {
+  displayName: string;
+  isGm: boolean;
+  gmRole: GmRole | null;
+  isRequired: boolean;
+  waitlistedAt: string | null;
+  pendingApproval: boolean;
+  applicationPitch: string | null;
+  timezone: string;
+  characterName: string | null;
+  characterClass: string | null;
+  characterSheetUrl: string | null;
+  characterTokenBase64: string | null;
+  notes: string | null;
+  createdAt: string;
+  rules: RuleSnapshot[]; // Includes any inherited home schedule
 }
 
 // Campaign response (full event with game system)
@@ -222,6 +301,11 @@ export interface Participant {
   id: string;
   displayName: string;
   isGm: boolean;
+  gmRole: GmRole | null; // null for players
+  isRequired: boolean; // The group can't play without them
+  waitlistedAt: string | null; // Waiting for a seat since (ISO 8601); null = seated
+  pendingApproval: boolean; // Applied and waiting for the GM to approve
+  applicationPitch: string | null; // Optional message sent with the application
   characterName: string | null;
   characterClass: string | null;
   characterSheetUrl: string | null;
@@ -229,6 +313,13 @@ export interface Participant {
   notes: string | null;
 }
 
+// Participant text limits (applicationPitch and notes match their columns)
+export const MAX_PITCH_LENGTH = 500;
+export const MAX_NOTES_LENGTH = 255;
+
+// Uploaded images as base64 (base64 is ~33% larger than the 1MB file)
+export const MAX_IMAGE_BASE64_LENGTH = Math.floor(1.4 * 1024 * 1024);
+
 // Minimal participant for lists/summaries
 export interface ParticipantSummary {
   id: string;
@@ -265,3 +356,73 @@ export interface UpdateCampaignPayload {
   minPlayers?: number | null;
   maxPlayers?: number | null;
 }
+
+// Session status (matches Prisma enum)
+export type SessionStatus = "proposed" | "confirmed" | "cancelled";
+
+// A scheduled play session for a campaign
+export interface CampaignSession {
+  id: string;
+  eventId: string;
+  startsAt: string; // ISO 8601, UTC
+  durationMinutes: number;
+  status: SessionStatus;
+  title: string | null;
+  notes: string | null;
+  seriesId: string | null; // Shared by sessions confirmed together as a series
+  participantIds: string[]; // Participants expected to attend
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Session creation payload
+export interface CreateSessionPayload {
+  startsAt: string; // ISO 8601, UTC
+  durationMinutes?: number; // Defaults to the event's sessionLengthMinutes
+  status?: SessionStatus;
+  title?: string;
+  notes?: string;
+  participantIds?: string[];
+}
+
+// Series confirmation payload: one confirmed session per planned date
+export interface CreateSessionSeriesPayload {
+  sessions: { startsAt: string; participantIds?: string[] }[];
+  durationMinutes?: number; // Defaults to the event's sessionLengthMinutes
+  title?: string;
+}
+
+// Session update payload
+export interface UpdateSessionPayload {
+  startsAt?: string;
+  durationMinutes?: number;
+  status?: SessionStatus;
+  title?: string | null;
+  notes?: string | null;
+  participantIds?: string[];
+}
+
+// Outbound webhook as shown to the GM
+export interface CampaignWebhook {
+  id: string;
+  url: string;
+  format: "json" | "discord";
+  secret: string; // Signing key for X-Webhook-Signature
+  eventTypes: string[]; // Empty = all event types
+  active: boolean;
+  createdAt: string;
+  deliveries: WebhookDeliveryLog[]; // Most recent first
+}
+
+// One entry in a webhook's delivery log
+export interface WebhookDeliveryLog {
+  id: string;
+  eventType: string;
+  summary: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
@@ -0,0 +1,52 @@
+/**
+ * GM admin token storage (client side)
+ *
+ * The token is returned once when a campaign is created and kept in the GM's
+ * browser. It is sent with GM-only requests in the X-Admin-Token header.
+ * Co-GMs send their own edit token in the same header instead (see auth-headers.ts).
+ */
+
+export const ADMIN_TOKEN_HEADER = "X-Admin-Token";
+
+// Query param used by the shareable GM admin link
+export const ADMIN_TOKEN_PARAM = "admin";
+
+function storageKey(eventId: string): string {
+  return `admin_token_${eventId}`;
+}
+
+export function getAdminToken(eventId: string): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(storageKey(eventId));
+}
+
+export function storeAdminToken(eventId: string, token: string): void {
+  localStorage.setItem(storageKey(eventId), token);
+}
+
+export function clearAdminToken(eventId: string): void {
+  localStorage.removeItem(storageKey(eventId));
+}
+
+/**
+ * Build the GM admin link for opening the campaign on another device
+ */
+export function buildAdminLink(origin: string, slug: string, token: string): string {
+  return `${origin}/${slug}/settings?${ADMIN_TOKEN_PARAM}=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Extract a token from a pasted admin link or a bare token
+ */
+export function parseAdminToken(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(trimmed);
+    return url.searchParams.get(ADMIN_TOKEN_PARAM);
+  } catch {
+    // Not a URL - treat as a bare token
+    return /^[A-Za-z0-9_-]+$/.test(trimmed) ? trimmed : null;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Auth headers for API requests (client side)
+ *
+ * Combines the stored GM admin token and participant edit tokens; see
+ * admin-token.ts and participant-token.ts for how each is stored.
+ */
+
+import { ADMIN_TOKEN_HEADER, getAdminToken } from "./admin-token";
+import { PARTICIPANT_TOKEN_HEADER, getParticipantToken } from "./participant-token";
+
+/**
+ * Edit token of the GM this browser joined the campaign as, if any
+ */
+function getGmParticipantToken(eventId: string): string | null {
+  if (typeof window === "undefined") return null;
+  if (localStorage.getItem(`participant_${eventId}_isGm`) !== "true") return null;
+  const participantId = localStorage.getItem(`participant_${eventId}`);
+  return participantId ? getParticipantToken(participantId) : null;
+}
+
+/**
+ * Headers for GM-only requests (empty if no token is stored)
+ * Falls back to a co-GM's own edit token when the admin token isn't stored
+ */
+export function adminHeaders(eventId: string): Record<string, string> {
+  const token = getAdminToken(eventId) ?? getGmParticipantToken(eventId);
+  return token ? { [ADMIN_TOKEN_HEADER]: token } : {};
+}
+
+/**
+ * Headers for requests that edit a participant
+ * Includes the GM admin token when eventId is given, so the GM can edit anyone
+ */
+export function participantHeaders(
+  participantId: string,
+  eventId?: string
+): Record<string, string> {
+  const token = getParticipantToken(participantId);
+  return {
+    ...(eventId ? adminHeaders(eventId) : {}),
+    ...(token ? { [PARTICIPANT_TOKEN_HEADER]: token } : {}),
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Campaign backup files
+ *
+ * A backup holds everything needed to recreate a campaign on another
+ * instance: its settings, game system, party and every availability rule.
+ * Files carry a format marker and a version so older backups keep importing
+ * after the format changes; bump CAMPAIGN_ARCHIVE_VERSION for breaking changes.
+ */
+
+import type {
+  CampaignArchive,
+  CampaignArchiveParticipant,
+  CampaignType,
+  GmRole,
+  MeetingType,
+} from "@/lib/types";
+import { MAX_IMAGE_BASE64_LENGTH, MAX_NOTES_LENGTH, MAX_PITCH_LENGTH, MEETING_TYPE_CONFIG } from "@/lib/types";
+import type { AvailabilityPreference, AvailabilityRuleType, RuleSnapshot, RuleSource } from "@/lib/types/availability";
+import { validatePatternRecurrence } from "@/lib/availability/recurrence";
+import { isValidTimezone } from "@/lib/utils/timezones";
+
+export const CAMPAIGN_ARCHIVE_FORMAT = "when2play-campaign";
+export const CAMPAIGN_ARCHIVE_VERSION = 1;
+
+const TIME_PATTERN = /^(([01][0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SLUG_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,79}$/;
+
+const CAMPAIGN_TYPES: CampaignType[] = ["ONESHOT", "CAMPAIGN"];
+const GM_ROLES: GmRole[] = ["primary", "co_gm"];
+const MEETING_TYPES: MeetingType[] = MEETING_TYPE_CONFIG.map((m) => m.value);
+const RULE_TYPES: AvailabilityRuleType[] = [
+  "available_pattern",
+  "available_override",
+  "blocked_pattern",
+  "blocked_override",
+];
+const PREFERENCES: AvailabilityPreference[] = ["preferred", "if_needed"];
+const RULE_SOURCES: RuleSource[] = ["manual", "ai", "import"];
+
+// Checks one field's value; returns what's wrong with it, or null
+type FieldCheck = (value: unknown) => string | null;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+const text: FieldCheck = (v) => (typeof v === "string" && v.trim().length > 0 ? null : "is required");
+const time: FieldCheck = (v) => (typeof v === "string" && TIME_PATTERN.test(v) ? null : "must be a time (HH:MM)");
+const optionalTime: FieldCheck = (v) => (isMissing(v) ? null : time(v));
+const optionalDate: FieldCheck = (v) =>
+  isMissing(v) || (typeof v === "string" && DATE_PATTERN.test(v)) ? null : "must be a date (YYYY-MM-DD) or null";
+const optionalTimestamp: FieldCheck = (v) =>
+  isMissing(v) || (typeof v === "string" && !isNaN(Date.parse(v))) ? null : "must be a timestamp or null";
+const timezone: FieldCheck = (v) => (typeof v === "string" && isValidTimezone(v) ? null : "must be a timezone");
+const boolean: FieldCheck = (v) => (typeof v === "boolean" ? null : "must be true or false");
+const optionalBoolean: FieldCheck = (v) => (isMissing(v) ? null : boolean(v));
+
+// Bounded by the column or upload limit where there is one
+function optionalText(max = Infinity): FieldCheck {
+  return (v) => {
+    if (isMissing(v)) return null;
+    if (typeof v !== "string") return "must be text or null";
+    return v.length > max ? `must be at most ${max} characters` : null;
+  };
+}
+
+function oneOf<T extends string>(values: T[], optional = false): FieldCheck {
+  return (v) => ((optional && isMissing(v)) || values.includes(v as T) ? null : `must be one of: ${values.join(", ")}`);
+}
+
+function integer(min: number, max = Infinity, optional = false): FieldCheck {
+  return (v) =>
+    (optional && isMissing(v)) || (Number.isInteger(v) && (v as number) >= min && (v as number) <= max)
+      ? null
+      : max === Infinity
+        ? `must be a whole number from ${min}`
+        : `must be a whole number from ${min} to ${max}`;
+}
+
+const optionalIntegerList: FieldCheck = (v) =>
+  isMissing(v) || (Array.isArray(v) && v.every((n) => Number.isInteger(n))) ? null : "must be a list of whole numbers";
+
+const optionalPrepUrls: FieldCheck = (v) =>
+  isMissing(v) ||
+  (Array.isArray(v) && v.every((u) => isObject(u) && typeof u.label === "string" && typeof u.url === "string"))
+    ? null
+    : "must be a list of { label, url }";
+
+const EVENT_FIELDS: Record<string, FieldCheck> = {
+  slug: (v) => (typeof v === "string" && SLUG_PATTERN.test(v) ? null : "must be letters, numbers, - and _"),
+  title: text,
+  description: optionalText(),
+  timezone,
+  campaignType: oneOf(CAMPAIGN_TYPES),
+  campaignImageBase64: optionalText(),
+  sessionLengthMinutes: integer(1),
+  customPreSessionInstructions: optionalText(),
+  playerPrepUrls: optionalPrepUrls,
+  requireCharacterCreation: optionalBoolean,
+  requireApproval: optionalBoolean,
+  startDate: optionalDate,
+  endDate: optionalDate,
+  earliestTime: time,
+  latestTime: time,
+  meetingType: oneOf(MEETING_TYPES, true),
+  meetingLocation: optionalText(),
+  meetingRoom: optionalText(),
+  minPlayers: integer(0, Infinity, true),
+  maxPlayers: integer(0, Infinity, true),
+};
+
+const GAME_SYSTEM_FIELDS: Record<string, FieldCheck> = {
+  name: text,
+  description: optionalText(),
+  imageBase64: optionalText(MAX_IMAGE_BASE64_LENGTH),
+  defaultInstructions: optionalText(),
+  defaultUrls: optionalPrepUrls,
+};
+
+const PARTICIPANT_FIELDS: Record<string, FieldCheck> = {
+  displayName: text,
+  isGm: boolean,
+  gmRole: oneOf(GM_ROLES, true),
+  isRequired: optionalBoolean,
+  waitlistedAt: optionalTimestamp,
+  pendingApproval: optionalBoolean,
+  applicationPitch: optionalText(MAX_PITCH_LENGTH),
+  timezone,
+  characterName: optionalText(),
+  characterClass: optionalText(),
+  characterSheetUrl: optionalText(),
+  characterTokenBase64: optionalText(MAX_IMAGE_BASE64_LENGTH),
+  notes: optionalText(MAX_NOTES_LENGTH),
+  createdAt: optionalTimestamp,
+};
+
+const RULE_FIELDS: Record<string, FieldCheck> = {
+  ruleType: oneOf(RULE_TYPES),
+  dayOfWeek: integer(0, 6, true),
+  specificDate: optionalDate,
+  startTime: time,
+  endTime: time,
+  originalTimezone: timezone,
+  originalDayOfWeek: integer(0, 6, true),
+  originalStartTime: optionalTime,
+  originalEndTime: optionalTime,
+  validFrom: optionalDate,
+  validUntil: optionalDate,
+  weekInterval: integer(1, Infinity, true),
+  anchorDate: optionalDate,
+  weeksOfMonth: optionalIntegerList,
+  crossesMidnight: optionalBoolean,
+  preference: oneOf(PREFERENCES, true),
+  reason: optionalText(),
+  source: oneOf(RULE_SOURCES, true),
+};
+
+/**
+ * Check an object's fields
+ *
+ * @returns "<path>.<field> <problem>" for the first bad field, or null
+ */
+function validateFields(value: unknown, fields: Record<string, FieldCheck>, path: string): string | null {
+  if (!isObject(value)) return `${path} must be an object`;
+  for (const [field, check] of Object.entries(fields)) {
+    const problem = check(value[field]);
+    if (problem) return `${path}.${field} ${problem}`;
+  }
+  return null;
+}
+
+function validateRule(rule: unknown, path: string): string | null {
+  const fieldError = validateFields(rule, RULE_FIELDS, path);
+  if (fieldError) return fieldError;
+
+  const snapshot = rule as RuleSnapshot;
+  const isPattern = snapshot.ruleType === "available_pattern" || snapshot.ruleType === "blocked_pattern";
+  if (isPattern && snapshot.dayOfWeek === null) {
+    return `${path}.dayOfWeek is required for pattern rules`;
+  }
+  if (!isPattern && !snapshot.specificDate) {
+    return `${path}.specificDate is required for override rules`;
+  }
+
+  const recurrenceError = validatePatternRecurrence(snapshot);
+  return recurrenceError ? `${path}: ${recurrenceError}` : null;
+}
+
+function validateParticipant(participant: unknown, path: string): string | null {
+  const fieldError = validateFields(participant, PARTICIPANT_FIELDS, path);
+  if (fieldError) return fieldError;
+
+  const { rules } = participant as Record<string, unknown>;
+  if (!Array.isArray(rules)) {
+    return `${path}.rules must be a list`;
+  }
+  for (let i = 0; i < rules.length; i++) {
+    const error = validateRule(rules[i], `${path}.rules[${i}]`);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Check an uploaded backup before importing it
+ * Every field that gets written is checked, so a bad file fails here rather
+ * than part way through the import.
+ *
+ * @returns An error message naming the bad field, or null if the file can be imported
+ */
+export function validateCampaignArchive(data: unknown): string | null {
+  if (!isObject(data) || data.format !== CAMPAIGN_ARCHIVE_FORMAT) {
+    return "Not a When2Play campaign backup";
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    return "Invalid backup version";
+  }
+  if ((data.version as number) > CAMPAIGN_ARCHIVE_VERSION) {
+    return `This backup is version ${data.version}; this server reads up to version ${CAMPAIGN_ARCHIVE_VERSION}. Update When2Play and try again.`;
+  }
+
+  const eventError = validateFields(data.event, EVENT_FIELDS, "event");
+  if (eventError) return eventError;
+
+  if (!isMissing(data.gameSystem)) {
+    const systemError = validateFields(data.gameSystem, GAME_SYSTEM_FIELDS, "gameSystem");
+    if (systemError) return systemError;
+  }
+
+  if (!Array.isArray(data.participants)) {
+    return "participants must be a list";
+  }
+  const names = new Set<string>();
+  for (let i = 0; i < data.participants.length; i++) {
+    const error = validateParticipant(data.participants[i], `participants[${i}]`);
+    if (error) return error;
+
+    const { displayName } = data.participants[i] as CampaignArchiveParticipant;
+    if (names.has(displayName)) {
+      return `${displayName} appears more than once`;
+    }
+    names.add(displayName);
+  }
+
+  const primaryGms = (data.participants as CampaignArchiveParticipant[]).filter((p) => p.gmRole === "primary");
+  if (primaryGms.length > 1) {
+    return "A campaign can only have one primary GM";
+  }
+
+  return null;
+}
+
+/**
+ * File name for a campaign's backup download
+ */
+export function campaignArchiveFilename(archive: Pick<CampaignArchive, "event" | "exportedAt">): string {
+  return `${archive.event.slug}-backup-${archive.exportedAt.slice(0, 10)}.json`;
+}
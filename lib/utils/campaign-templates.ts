@@ -0,0 +1,111 @@
+/**
+ * Campaign templates (client side)
+ *
+ * A template keeps the setup a GM re-enters for every new arc or one-shot:
+ * game system, session length, meeting details, prep links and instructions.
+ * Templates live in the GM's browser and prefill new campaigns.
+ */
+
+import type {
+  CampaignTemplate,
+  CampaignTemplateSettings,
+  CampaignType,
+  CreateCampaignPayload,
+  MeetingType,
+  PrepUrl,
+} from "@/lib/types";
+
+const STORAGE_KEY = "campaign_templates";
+
+/**
+ * Campaign fields a template is built from (the settings page's event)
+ */
+export interface TemplateSource {
+  description?: string | null;
+  campaignType?: string;
+  gameSystem?: { id: string } | null;
+  campaignImageBase64?: string | null;
+  sessionLengthMinutes: number;
+  customPreSessionInstructions?: string | null;
+  playerPrepUrls?: PrepUrl[] | null;
+  meetingType?: MeetingType | null;
+  meetingLocation?: string | null;
+  meetingRoom?: string | null;
+  minPlayers?: number | null;
+  maxPlayers?: number | null;
+  requireCharacterCreation?: boolean;
+  requireApproval?: boolean;
+}
+
+export function listCampaignTemplates(): CampaignTemplate[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a template, replacing any existing template with the same name
+ */
+export function saveCampaignTemplate(name: string, settings: CampaignTemplateSettings): CampaignTemplate {
+  const template: CampaignTemplate = {
+    id: `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    settings,
+    createdAt: new Date().toISOString(),
+  };
+  const others = listCampaignTemplates().filter(
+    (t) => t.name.toLowerCase() !== template.name.toLowerCase()
+  );
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...others, template]));
+  return template;
+}
+
+export function deleteCampaignTemplate(id: string): void {
+  const remaining = listCampaignTemplates().filter((t) => t.id !== id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+}
+
+/**
+ * Template settings from an existing campaign (empty fields are left out)
+ */
+export function templateSettingsFromCampaign(source: TemplateSource): CampaignTemplateSettings {
+  const settings: CampaignTemplateSettings = {
+    sessionLengthMinutes: source.sessionLengthMinutes,
+  };
+
+  if (source.description) settings.description = source.description;
+  if (source.campaignType) settings.campaignType = source.campaignType as CampaignType;
+  if (source.gameSystem) settings.gameSystemId = source.gameSystem.id;
+  if (source.campaignImageBase64) settings.campaignImageBase64 = source.campaignImageBase64;
+  if (source.customPreSessionInstructions) {
+    settings.customPreSessionInstructions = source.customPreSessionInstructions;
+  }
+  if (source.playerPrepUrls?.length) settings.playerPrepUrls = source.playerPrepUrls;
+  if (source.meetingType) settings.meetingType = source.meetingType;
+  if (source.meetingLocation) settings.meetingLocation = source.meetingLocation;
+  if (source.meetingRoom) settings.meetingRoom = source.meetingRoom;
+  if (source.minPlayers) settings.minPlayers = source.minPlayers;
+  if (source.maxPlayers) settings.maxPlayers = source.maxPlayers;
+  if (source.requireCharacterCreation) settings.requireCharacterCreation = true;
+  if (source.requireApproval) settings.requireApproval = true;
+
+  return settings;
+}
+
+/**
+ * Prefill a new campaign from a template
+ * Fields already set on the payload (name, dates, anything the GM typed) win.
+ */
+export function applyCampaignTemplate(
+  payload: CreateCampaignPayload,
+  template: CampaignTemplate
+): CreateCampaignPayload {
+  const entered = Object.fromEntries(
+    Object.entries(payload).filter(([, value]) => value !== undefined)
+  ) as CreateCampaignPayload;
+  return { ...template.settings, ...entered };
+}
@@ -0,0 +1,195 @@
+/**
+ * iCalendar (RFC 5545) feed generation for campaign sessions
+ *
+ * Feeds are subscribed to by Google/Apple/Outlook calendars, so every session
+ * keeps a stable UID and an increasing SEQUENCE. Cancelled sessions stay in the
+ * feed with STATUS:CANCELLED so subscribers remove them instead of keeping stale copies.
+ */
+
+import type { CampaignSession, MeetingType } from "@/lib/types";
+import { MEETING_TYPE_CONFIG } from "@/lib/types";
+import { getSessionEnd } from "./sessions";
+
+const PRODUCT_ID = "-//When2Play//Campaign Sessions//EN";
+const UID_DOMAIN = "when2play";
+
+/**
+ * Campaign details shown on every session in a feed
+ */
+export interface IcsCampaignInfo {
+  title: string;
+  slug: string;
+  meetingType: MeetingType | null;
+  meetingLocation: string | null;
+  meetingRoom: string | null;
+  customPreSessionInstructions: string | null;
+}
+
+/**
+ * Format a Date as an iCalendar UTC date-time (e.g. 20260305T190000Z)
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * UTF-8 octet length of a single code point
+ */
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line to 75 octets, continuation lines start with a space
+ */
+export function foldIcsLine(line: string): string {
+  const octets = Array.from(line).reduce((sum, char) => sum + utf8Length(char), 0);
+  if (octets <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // Continuation lines lose one octet to the leading space
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = utf8Length(char);
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Build the meeting description line, e.g. "Discord: https://discord.gg/abc · #voice"
+ */
+export function describeMeeting(campaign: IcsCampaignInfo): string | null {
+  if (!campaign.meetingType) return null;
+  const label =
+    MEETING_TYPE_CONFIG.find((c) => c.value === campaign.meetingType)?.label ??
+    campaign.meetingType;
+  const details = [campaign.meetingLocation, campaign.meetingRoom].filter(Boolean).join(" · ");
+  return details ? `${label}: ${details}` : label;
+}
+
+function isUrl(value: string | null): value is string {
+  return !!value && /^https?:\/\//i.test(value);
+}
+
+/**
+ * Stable UID for a session - never changes across updates or cancellation
+ */
+export function sessionUid(sessionId: string): string {
+  return `session-${sessionId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Build the VEVENT lines for one session
+ *
+ * @param campaignUrl - Public campaign page URL, linked from the description
+ */
+export function sessionToVEvent(
+  session: CampaignSession,
+  campaign: IcsCampaignInfo,
+  campaignUrl: string
+): string[] {
+  const updatedAt = new Date(session.updatedAt);
+  const statusMap = {
+    proposed: "TENTATIVE",
+    confirmed: "CONFIRMED",
+    cancelled: "CANCELLED",
+  } as const;
+
+  const descriptionParts = [
+    session.notes,
+    describeMeeting(campaign),
+    campaign.customPreSessionInstructions
+      ? `Before you play:\n${campaign.customPreSessionInstructions}`
+      : null,
+    `Campaign page: ${campaignUrl}`,
+  ].filter(Boolean) as string[];
+
+  const summary = session.title
+    ? `${campaign.title}: ${session.title}`
+    : campaign.title;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${sessionUid(session.id)}`,
+    // SEQUENCE must increase on every change for subscribers to pick it up
+    `SEQUENCE:${Math.floor(updatedAt.getTime() / 1000)}`,
+    `DTSTAMP:${formatIcsDate(updatedAt)}`,
+    `LAST-MODIFIED:${formatIcsDate(updatedAt)}`,
+    `CREATED:${formatIcsDate(new Date(session.createdAt))}`,
+    `DTSTART:${formatIcsDate(new Date(session.startsAt))}`,
+    `DTEND:${formatIcsDate(getSessionEnd(session))}`,
+    `SUMMARY:${escapeIcsText(session.status === "proposed" ? `${summary} (proposed)` : summary)}`,
+    `DESCRIPTION:${escapeIcsText(descriptionParts.join("\n\n"))}`,
+    `STATUS:${statusMap[session.status]}`,
+  ];
+
+  const location =
+    campaign.meetingType === "IN_PERSON"
+      ? campaign.meetingLocation
+      : [campaign.meetingLocation, campaign.meetingRoom].filter(Boolean).join(" · ") || null;
+  if (location) {
+    lines.push(`LOCATION:${escapeIcsText(location)}`);
+  }
+
+  lines.push(`URL:${isUrl(campaign.meetingLocation) ? campaign.meetingLocation : campaignUrl}`);
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+/**
+ * Build a complete VCALENDAR document
+ *
+ * @param name - Calendar name shown by subscribing clients
+ * @param sessions - Sessions to include (cancelled ones are emitted as STATUS:CANCELLED)
+ */
+export function buildSessionCalendar(
+  name: string,
+  sessions: CampaignSession[],
+  campaign: IcsCampaignInfo,
+  campaignUrl: string
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    // Suggest an hourly refresh to subscribing clients
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...sessions.flatMap((session) => sessionToVEvent(session, campaign, campaignUrl)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,57 @@
+/**
+ * Participant edit token storage (client side)
+ *
+ * Issued when a player joins a campaign and sent with requests that change
+ * their availability or profile. A recovery link carries the token to a new device.
+ */
+
+export const PARTICIPANT_TOKEN_HEADER = "X-Participant-Token";
+
+// Query param used by recovery links (?claim=<participantId>.<token>)
+export const CLAIM_PARAM = "claim";
+
+function storageKey(participantId: string): string {
+  return `participant_token_${participantId}`;
+}
+
+export function getParticipantToken(participantId: string): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(storageKey(participantId));
+}
+
+export function storeParticipantToken(participantId: string, token: string): void {
+  localStorage.setItem(storageKey(participantId), token);
+}
+
+export function clearParticipantToken(participantId: string): void {
+  localStorage.removeItem(storageKey(participantId));
+}
+
+/**
+ * Build a recovery link that claims a participant on another device
+ */
+export function buildRecoveryLink(
+  origin: string,
+  slug: string,
+  participantId: string,
+  token: string
+): string {
+  return `${origin}/${slug}?${CLAIM_PARAM}=${encodeURIComponent(`${participantId}.${token}`)}`;
+}
+
+/**
+ * Extract the participant ID and token from a recovery link or its claim value
+ */
+export function parseRecoveryLink(
+  input: string
+): { participantId: string; token: string } | null {
+  let value = input.trim();
+  try {
+    value = new URL(value).searchParams.get(CLAIM_PARAM) ?? "";
+  } catch {
+    // Not a URL - treat as a bare claim value
+  }
+
+  const match = value.match(/^([A-Za-z0-9-]+)\.([A-Za-z0-9_-]+)$/);
+  return match ? { participantId: match[1], token: match[2] } : null;
+}
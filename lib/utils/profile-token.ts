@@ -0,0 +1,42 @@
+/**
+ * Player profile storage (client side)
+ *
+ * A player profile carries a home schedule across campaigns. Its token is
+ * returned once when the profile is created and kept in the player's browser;
+ * it's sent in the X-Profile-Token header to edit or link the profile.
+ */
+
+export const PROFILE_TOKEN_HEADER = "X-Profile-Token";
+
+const STORAGE_KEY = "player_profile";
+
+export interface StoredProfile {
+  id: string;
+  token: string;
+}
+
+export function getStoredProfile(): StoredProfile | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return stored?.id && stored?.token ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeProfile(profile: StoredProfile): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+}
+
+export function clearStoredProfile(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Headers for requests that edit or link the stored profile (empty if none)
+ */
+export function profileHeaders(): Record<string, string> {
+  const profile = getStoredProfile();
+  return profile ? { [PROFILE_TOKEN_HEADER]: profile.token } : {};
+}
@@ -0,0 +1,125 @@
+import type { CampaignSession, SessionStatus } from "@/lib/types";
+
+export const SESSION_STATUSES: SessionStatus[] = ["proposed", "confirmed", "cancelled"];
+
+// Session length bounds (minutes)
+export const MIN_SESSION_MINUTES = 30;
+export const MAX_SESSION_MINUTES = 12 * 60;
+
+/**
+ * Shape of a session row loaded with its attendees
+ */
+interface SessionRecord {
+  id: string;
+  eventId: string;
+  startsAt: Date;
+  durationMinutes: number;
+  status: string;
+  title: string | null;
+  notes: string | null;
+  seriesId: string | null;
+  attendees: { participantId: string }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Serialize a session row for API responses
+ */
+export function serializeSession(session: SessionRecord): CampaignSession {
+  return {
+    id: session.id,
+    eventId: session.eventId,
+    startsAt: session.startsAt.toISOString(),
+    durationMinutes: session.durationMinutes,
+    status: session.status as SessionStatus,
+    title: session.title,
+    notes: session.notes,
+    seriesId: session.seriesId,
+    participantIds: session.attendees.map((a) => a.participantId),
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Validate session fields from a create/update request body
+ * Only fields that are present are checked.
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateSessionFields(body: {
+  startsAt?: unknown;
+  durationMinutes?: unknown;
+  status?: unknown;
+  participantIds?: unknown;
+  title?: unknown;
+  notes?: unknown;
+}): string | null {
+  if (body.startsAt !== undefined) {
+    if (typeof body.startsAt !== "string" || isNaN(new Date(body.startsAt).getTime())) {
+      return "Invalid session start. Use an ISO 8601 date-time";
+    }
+  }
+
+  if (body.durationMinutes !== undefined) {
+    const duration = body.durationMinutes;
+    if (
+      typeof duration !== "number" ||
+      !Number.isInteger(duration) ||
+      duration < MIN_SESSION_MINUTES ||
+      duration > MAX_SESSION_MINUTES
+    ) {
+      return `Session length must be between ${MIN_SESSION_MINUTES} minutes and ${MAX_SESSION_MINUTES / 60} hours`;
+    }
+  }
+
+  if (body.status !== undefined) {
+    if (!SESSION_STATUSES.includes(body.status as SessionStatus)) {
+      return "Invalid session status";
+    }
+  }
+
+  if (body.participantIds !== undefined) {
+    if (
+      !Array.isArray(body.participantIds) ||
+      !body.participantIds.every((id) => typeof id === "string")
+    ) {
+      return "participantIds must be an array of participant IDs";
+    }
+  }
+
+  for (const field of ["title", "notes"] as const) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return `${field} must be text`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the end instant of a session
+ */
+export function getSessionEnd(
+  session: Pick<CampaignSession, "startsAt" | "durationMinutes">
+): Date {
+  return new Date(new Date(session.startsAt).getTime() + session.durationMinutes * 60000);
+}
+
+/**
+ * Pick the session to feature at the top of the campaign page:
+ * the next non-cancelled session that hasn't ended yet, preferring confirmed ones
+ */
+export function findUpcomingSession(
+  sessions: CampaignSession[],
+  now: Date = new Date()
+): CampaignSession | null {
+  const upcoming = sessions
+    .filter((s) => s.status !== "cancelled")
+    .filter((s) => getSessionEnd(s) > now)
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+
+  return upcoming.find((s) => s.status === "confirmed") ?? upcoming[0] ?? null;
+}
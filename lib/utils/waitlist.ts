@@ -0,0 +1,45 @@
+/**
+ * Seat management
+ *
+ * Once a campaign has maxPlayers seated players, new players join a waitlist.
+ * The GM never takes a seat. When a seat opens, the longest-waiting player
+ * gets it.
+ */
+
+interface SeatHolder {
+  isGm: boolean;
+  waitlistedAt: Date | string | null;
+  pendingApproval?: boolean;
+}
+
+/**
+ * Players holding a seat (the GM, applicants and waitlisted players don't count)
+ */
+export function countSeatedPlayers(participants: SeatHolder[]): number {
+  return participants.filter((p) => !p.isGm && !p.pendingApproval && p.waitlistedAt === null).length;
+}
+
+/**
+ * Seats left before new players are waitlisted
+ * @returns Infinity when the campaign has no player limit
+ */
+export function openSeats(seatedPlayers: number, maxPlayers: number | null): number {
+  if (maxPlayers === null) return Infinity;
+  return Math.max(maxPlayers - seatedPlayers, 0);
+}
+
+/**
+ * Waitlisted players who get the open seats, longest-waiting first
+ */
+export function selectPromotions<T extends SeatHolder>(
+  participants: T[],
+  maxPlayers: number | null
+): T[] {
+  const seats = openSeats(countSeatedPlayers(participants), maxPlayers);
+  if (seats === 0) return [];
+
+  return participants
+    .filter((p) => !p.isGm && p.waitlistedAt !== null)
+    .sort((a, b) => new Date(a.waitlistedAt!).getTime() - new Date(b.waitlistedAt!).getTime())
+    .slice(0, seats);
+}
@@ -0,0 +1,352 @@
+/**
+ * Webhook delivery
+ *
+ * Routes queue events with the queue* helpers; delivery runs after the
+ * response is sent (next/server `after`), so a slow receiver never delays
+ * a save. Each send is logged as a WebhookDelivery for the settings page.
+ */
+
+import { after } from "next/server";
+import { fetch } from "undici";
+import { fromZonedTime } from "date-fns-tz";
+import { prisma } from "@/lib/db/prisma";
+import { HOME_SCHEDULE_INCLUDE, withHomeSchedule } from "@/lib/db/home-schedule";
+import { toAvailabilityRule } from "@/lib/db/rules";
+import {
+  recommendSessions,
+  DEFAULT_SCORING_MODEL,
+  type RecommendationParticipant,
+} from "@/lib/availability";
+import type { CampaignSession } from "@/lib/types";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  describeWebhookEvent,
+  getRetryDelay,
+  isRetryableStatus,
+  serializeWebhookBody,
+  type WebhookEventData,
+  type WebhookFormat,
+  type WebhookPayload,
+} from "./payload";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhookBody } from "./signature";
+import { checkWebhookHost, webhookDispatcher } from "./host";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const LOG_RETENTION_DAYS = 30;
+// Editors autosave; announce each player's changes at most this often
+const AVAILABILITY_NOTICE_INTERVAL_MS = 10 * 60 * 1000;
+// Candidate sessions checked for quorum
+const QUORUM_CANDIDATES = 20;
+// Autosaves come in bursts; one quorum check per campaign covers every save in this window
+const QUORUM_CHECK_DELAY_MS = 5000;
+
+const lastAvailabilityNotice = new Map<string, number>();
+// Quorum checks waiting to start, by campaign
+const scheduledQuorumChecks = new Map<string, Promise<void>>();
+
+interface WebhookTarget {
+  id: string;
+  url: string;
+  format: string;
+  secret: string;
+}
+
+async function send(
+  webhook: WebhookTarget,
+  body: string
+): Promise<{ status: number | null; error: string | null }> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "When2Play-Webhooks",
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhookBody(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      dispatcher: webhookDispatcher,
+    });
+    return { status: res.status, error: res.ok ? null : `HTTP ${res.status}` };
+  } catch (error) {
+    // fetch reports connection failures (including a refused host) as its cause
+    const reason = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    return { status: null, error: reason instanceof Error ? reason.message : String(reason) };
+  }
+}
+
+/**
+ * Deliver a payload to one webhook, retrying with backoff, and log the outcome
+ *
+ * @returns Whether the receiver accepted it
+ */
+export async function deliverWebhook(webhook: WebhookTarget, payload: WebhookPayload): Promise<boolean> {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: webhook.id,
+      eventType: payload.type,
+      summary: describeWebhookEvent(payload.data),
+    },
+  });
+  const body = serializeWebhookBody(payload, webhook.format as WebhookFormat);
+
+  // The host may resolve somewhere else than when the webhook was saved
+  const hostError = await checkWebhookHost(webhook.url);
+  if (hostError) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: "failed", error: hostError, completedAt: new Date() },
+    });
+    return false;
+  }
+
+  for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+    const { status, error } = await send(webhook, body);
+    const succeeded = status !== null && status >= 200 && status < 300;
+    const finished = succeeded || attempt === MAX_DELIVERY_ATTEMPTS || !isRetryableStatus(status);
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts: attempt,
+        responseStatus: status,
+        error,
+        ...(finished && { status: succeeded ? "succeeded" : "failed", completedAt: new Date() }),
+      },
+    });
+
+    if (finished) return succeeded;
+    await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt)));
+  }
+
+  return false;
+}
+
+/**
+ * Send an event to every active webhook of a campaign that subscribes to it
+ */
+async function dispatchWebhookEvent(eventId: string, origin: string, data: WebhookEventData): Promise<void> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      webhooks: { where: { active: true } },
+    },
+  });
+  if (!event) return;
+
+  const targets = event.webhooks.filter(
+    (w) => w.eventTypes.length === 0 || w.eventTypes.includes(data.type)
+  );
+  if (targets.length === 0) return;
+
+  const payload: WebhookPayload = {
+    type: data.type,
+    createdAt: new Date().toISOString(),
+    campaign: { id: event.id, slug: event.slug, title: event.title, url: `${origin}/${event.slug}` },
+    data,
+  };
+
+  await Promise.all(targets.map((webhook) => deliverWebhook(webhook, payload)));
+
+  await prisma.webhookDelivery.deleteMany({
+    where: {
+      webhookId: { in: targets.map((w) => w.id) },
+      createdAt: { lt: new Date(Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+}
+
+function runAfterResponse(task: () => Promise<void>, context: string): void {
+  after(() =>
+    task().catch((error) => {
+      console.error(`Webhook error (${context}):`, error);
+    })
+  );
+}
+
+/**
+ * Recompute whether any upcoming slot has minPlayers (and the GM) available,
+ * and send quorum_reached when one appears where there was none
+ */
+async function checkQuorum(eventId: string, origin: string): Promise<void> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: {
+      participants: {
+        where: { waitlistedAt: null, pendingApproval: false },
+        include: { availabilityRules: true, ...HOME_SCHEDULE_INCLUDE },
+      },
+      webhooks: { where: { active: true }, select: { eventTypes: true } },
+    },
+  });
+  if (!event || !event.minPlayers || !event.startDate || !event.endDate) return;
+
+  // Skip the computation when nobody would hear about it
+  const wantsQuorum = event.webhooks.some(
+    (w) => w.eventTypes.length === 0 || w.eventTypes.includes("quorum_reached")
+  );
+  if (!wantsQuorum) return;
+
+  // Same window as the recommendations API: whole campaign days in its timezone
+  const timezone = event.timezone || "UTC";
+  const startDate = event.startDate.toISOString().split("T")[0];
+  const dayAfterEnd = new Date(event.endDate.getTime() + 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+  const participants: RecommendationParticipant[] = event.participants.map((p) => ({
+    id: p.id,
+    name: p.displayName,
+    isGm: p.isGm,
+    timezone: p.timezone,
+    isRequired: p.isRequired,
+    rules: withHomeSchedule(p, p.availabilityRules.map(toAvailabilityRule)),
+  }));
+  const gmIds = new Set(participants.filter((p) => p.isGm).map((p) => p.id));
+
+  const candidates = recommendSessions(
+    participants,
+    {
+      start: fromZonedTime(`${startDate}T00:00:00`, timezone),
+      end: fromZonedTime(`${dayAfterEnd}T00:00:00`, timezone),
+    },
+    {
+      sessionMinutes: event.sessionLengthMinutes,
+      minPlayers: event.minPlayers,
+      maxPlayers: event.maxPlayers,
+      limit: QUORUM_CANDIDATES,
+      model: { ...DEFAULT_SCORING_MODEL, requireGm: gmIds.size > 0 },
+      notBefore: new Date(),
+    }
+  );
+  const minPlayers = event.minPlayers;
+  const slot = candidates.find(
+    (c) => c.attendeeIds.filter((id) => !gmIds.has(id)).length >= minPlayers
+  );
+
+  if (!!slot === event.hasQuorumSlot) return;
+  await prisma.event.update({ where: { id: eventId }, data: { hasQuorumSlot: !!slot } });
+  if (!slot) return;
+
+  const names = new Map(participants.map((p) => [p.id, p.name]));
+  await dispatchWebhookEvent(eventId, origin, {
+    type: "quorum_reached",
+    slot: { startsAt: slot.startsAt, endsAt: slot.endsAt },
+    attendees: slot.attendeeIds.map((id) => names.get(id) ?? "Unknown"),
+    minPlayers,
+  });
+}
+
+/**
+ * Run checkQuorum once the campaign's saves settle
+ * Saves while a check is waiting share it; it reads availability when it starts.
+ */
+function scheduleQuorumCheck(eventId: string, origin: string): Promise<void> {
+  const scheduled = scheduledQuorumChecks.get(eventId);
+  if (scheduled) return scheduled;
+
+  const check = new Promise((resolve) => setTimeout(resolve, QUORUM_CHECK_DELAY_MS)).then(() => {
+    scheduledQuorumChecks.delete(eventId);
+    return checkQuorum(eventId, origin);
+  });
+  scheduledQuorumChecks.set(eventId, check);
+  return check;
+}
+
+/**
+ * Queue participant_joined
+ */
+export function queueParticipantJoinedWebhook(
+  eventId: string,
+  origin: string,
+  participant: { id: string; displayName: string }
+): void {
+  runAfterResponse(
+    () => dispatchWebhookEvent(eventId, origin, { type: "participant_joined", participant }),
+    "participant joined"
+  );
+}
+
+/**
+ * Queue availability_changed (throttled per player) and a quorum check
+ */
+export function queueAvailabilityWebhooks(
+  eventId: string,
+  origin: string,
+  participant: { id: string; displayName: string }
+): void {
+  runAfterResponse(async () => {
+    const key = `${eventId}:${participant.id}`;
+    const now = Date.now();
+    if (now - (lastAvailabilityNotice.get(key) ?? 0) >= AVAILABILITY_NOTICE_INTERVAL_MS) {
+      lastAvailabilityNotice.set(key, now);
+      await dispatchWebhookEvent(eventId, origin, { type: "availability_changed", participant });
+    }
+    await scheduleQuorumCheck(eventId, origin);
+  }, "availability changed");
+}
+
+/**
+ * Queue session_confirmed
+ */
+export function queueSessionConfirmedWebhook(
+  eventId: string,
+  origin: string,
+  session: CampaignSession
+): void {
+  runAfterResponse(async () => {
+    const attendees = await prisma.participant.findMany({
+      where: { id: { in: session.participantIds } },
+      select: { displayName: true },
+      orderBy: { createdAt: "asc" },
+    });
+    await dispatchWebhookEvent(eventId, origin, {
+      type: "session_confirmed",
+      session: {
+        id: session.id,
+        startsAt: session.startsAt,
+        durationMinutes: session.durationMinutes,
+        title: session.title,
+      },
+      attendees: attendees.map((a) => a.displayName),
+    });
+  }, "session confirmed");
+}
+
+/**
+ * Queue one session_confirmed for a confirmed series, rather than one per session
+ */
+export function queueSeriesConfirmedWebhook(
+  eventId: string,
+  origin: string,
+  seriesId: string,
+  sessions: CampaignSession[]
+): void {
+  runAfterResponse(async () => {
+    const ordered = [...sessions].sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+    const [first] = ordered;
+    const attendees = await prisma.participant.findMany({
+      where: { id: { in: [...new Set(ordered.flatMap((s) => s.participantIds))] } },
+      select: { displayName: true },
+      orderBy: { createdAt: "asc" },
+    });
+    await dispatchWebhookEvent(eventId, origin, {
+      type: "session_confirmed",
+      session: {
+        id: first.id,
+        startsAt: first.startsAt,
+        durationMinutes: first.durationMinutes,
+        title: first.title,
+      },
+      attendees: attendees.map((a) => a.displayName),
+      series: {
+        id: seriesId,
+        sessions: ordered.map((s) => ({ id: s.id, startsAt: s.startsAt })),
+      },
+    });
+  }, "series confirmed");
+}
@@ -0,0 +1,79 @@
+/**
+ * Webhook host checks (server only)
+ *
+ * A webhook URL must not reach into the server's own network. The host name
+ * is resolved and every address it points to must be public, both when the
+ * webhook is saved and before each delivery (DNS can change in between).
+ * Deliveries go through webhookDispatcher, which runs the same check on the
+ * addresses it actually connects to, so a host that re-resolves to a private
+ * address after the check is still refused.
+ */
+
+import { lookup as dnsLookup, type LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import type { LookupFunction } from "net";
+import { Agent } from "undici";
+import { PRIVATE_HOST_ERROR, isPrivateAddress, validateWebhookUrl } from "./payload";
+
+/** Outside production, webhooks may point at local receivers */
+export const ALLOW_LOCAL_WEBHOOKS = process.env.NODE_ENV !== "production";
+
+function hasPrivateAddress(addresses: { address: string }[]): boolean {
+  return addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address));
+}
+
+/**
+ * Validate a webhook URL and resolve its host
+ *
+ * @returns An error message, or null if the URL only reaches public addresses
+ */
+export async function checkWebhookHost(url: string, allowLocal = ALLOW_LOCAL_WEBHOOKS): Promise<string | null> {
+  const urlError = validateWebhookUrl(url, allowLocal);
+  if (urlError || allowLocal) return urlError;
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return "Webhook host could not be found";
+  }
+
+  return hasPrivateAddress(addresses) ? PRIVATE_HOST_ERROR : null;
+}
+
+type Resolve = (
+  hostname: string,
+  callback: (error: NodeJS.ErrnoException | null, addresses: LookupAddress[]) => void
+) => void;
+
+function resolveAll(hostname: string, callback: Parameters<Resolve>[1]): void {
+  dnsLookup(hostname, { all: true, verbatim: true }, callback);
+}
+
+/**
+ * Socket lookup that refuses private addresses
+ * The socket connects to the addresses checked here, not to a second lookup.
+ *
+ * @param resolve - DNS resolver (replaced in tests)
+ */
+export function createWebhookLookup(allowLocal: boolean, resolve: Resolve = resolveAll): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname, (error, addresses) => {
+      if (error) return callback(error, "", 0);
+      if (!allowLocal && hasPrivateAddress(addresses)) {
+        return callback(new Error(PRIVATE_HOST_ERROR), "", 0);
+      }
+      if (options.all) {
+        (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/** Dispatcher for webhook deliveries (pass to undici's fetch) */
+export const webhookDispatcher = new Agent({
+  connect: { lookup: createWebhookLookup(ALLOW_LOCAL_WEBHOOKS) },
+});
@@ -0,0 +1,376 @@
+/**
+ * Outbound webhook payloads
+ *
+ * Every webhook receives the same JSON envelope, signed with the webhook's
+ * secret. Webhooks in "discord" format get a Discord embed instead, so a
+ * Discord channel webhook URL works without a bot in between.
+ */
+
+import type { CampaignWebhook, WebhookDeliveryLog } from "../types";
+
+export type WebhookEventType =
+  | "participant_joined"
+  | "availability_changed"
+  | "session_confirmed"
+  | "quorum_reached";
+
+export type WebhookFormat = "json" | "discord";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  "participant_joined",
+  "availability_changed",
+  "session_confirmed",
+  "quorum_reached",
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  participant_joined: "Player joins",
+  availability_changed: "Availability changes",
+  session_confirmed: "Session confirmed",
+  quorum_reached: "Enough players for a session",
+};
+
+/** Attempts per delivery, including the first */
+export const MAX_DELIVERY_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+
+export interface WebhookCampaign {
+  id: string;
+  slug: string;
+  title: string;
+  url: string;
+}
+
+export type WebhookEventData =
+  | { type: "participant_joined"; participant: { id: string; displayName: string } }
+  | { type: "availability_changed"; participant: { id: string; displayName: string } }
+  | {
+      type: "session_confirmed";
+      session: { id: string; startsAt: string; durationMinutes: number; title: string | null };
+      attendees: string[];
+      // Set when a whole series is confirmed at once: session is its first
+      // session and attendees covers every session
+      series?: { id: string; sessions: { id: string; startsAt: string }[] };
+    }
+  | {
+      type: "quorum_reached";
+      slot: { startsAt: string; endsAt: string };
+      attendees: string[];
+      minPlayers: number;
+    };
+
+export interface WebhookPayload {
+  type: WebhookEventType;
+  createdAt: string;
+  campaign: WebhookCampaign;
+  data: WebhookEventData;
+}
+
+export const PRIVATE_HOST_ERROR = "Webhook URL can't point to a private or local address";
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)) {
+    return null;
+  }
+  return parts.map(Number);
+}
+
+// Eight 16-bit groups, or null if it isn't an IPv6 address
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().split("%")[0];
+  // Trailing dotted IPv4 (::ffff:127.0.0.1) becomes two groups
+  const lastColon = text.lastIndexOf(":");
+  const v4 = lastColon >= 0 ? parseIPv4(text.slice(lastColon + 1)) : null;
+  if (v4) {
+    text = `${text.slice(0, lastColon + 1)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "This" network
+    a === 10 || // RFC 1918
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata
+    (a === 172 && b >= 16 && b <= 31) || // RFC 1918
+    (a === 192 && b === 168) || // RFC 1918
+    (a === 192 && b === 0) || // IETF protocol assignments
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast, reserved and broadcast
+  );
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, CGNAT or otherwise
+ * not a public internet host. Anything that isn't an IP address counts as public.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4) return isPrivateIPv4(v4);
+
+  const v6 = parseIPv6(address.replace(/^\[|\]$/g, ""));
+  if (!v6) return false;
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  if (v6.slice(0, 5).every((g) => g === 0) && (v6[5] === 0xffff || v6[5] === 0)) {
+    if (v6[5] === 0 && v6[6] === 0 && v6[7] <= 1) return true; // :: and ::1
+    return isPrivateIPv4([v6[6] >> 8, v6[6] & 0xff, v6[7] >> 8, v6[7] & 0xff]);
+  }
+  return (
+    (v6[0] & 0xfe00) === 0xfc00 || // Unique local
+    (v6[0] & 0xffc0) === 0xfe80 || // Link-local
+    (v6[0] & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+/**
+ * Check a webhook URL registered by a GM
+ * Outside production, plain http and local hosts are allowed for local receivers.
+ * Host names are only checked here when they are IP addresses or localhost;
+ * see checkWebhookHost for the DNS check done on the server.
+ *
+ * @returns An error message, or null if the URL is acceptable
+ */
+export function validateWebhookUrl(url: string, allowLocal = false): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Enter a valid webhook URL";
+  }
+  if (parsed.protocol !== "https:" && !(allowLocal && parsed.protocol === "http:")) {
+    return "Webhook URL must use https";
+  }
+  const hostname = parsed.hostname.toLowerCase();
+  if (!allowLocal && (hostname === "localhost" || hostname.endsWith(".localhost") || isPrivateAddress(hostname))) {
+    return PRIVATE_HOST_ERROR;
+  }
+  return null;
+}
+
+/**
+ * Check whether a URL is a Discord channel webhook
+ */
+export function isDiscordWebhookUrl(url: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return /(^|\.)discord(app)?\.com$/.test(hostname) && pathname.startsWith("/api/webhooks/");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * One-line description of an event, used for the delivery log
+ */
+export function describeWebhookEvent(data: WebhookEventData): string {
+  switch (data.type) {
+    case "participant_joined":
+      return `${data.participant.displayName} joined`;
+    case "availability_changed":
+      return `${data.participant.displayName} updated their availability`;
+    case "session_confirmed":
+      return data.series
+        ? `${data.series.sessions.length} sessions confirmed from ${data.session.startsAt}`
+        : `Session confirmed for ${data.session.startsAt}`;
+    case "quorum_reached":
+      return `${data.attendees.length} players can make ${data.slot.startsAt}`;
+  }
+}
+
+// Discord renders <t:unix:F> in each reader's own timezone
+function discordTimestamp(iso: string, style: "F" | "t" | "R" = "F"): string {
+  return `<t:${Math.floor(new Date(iso).getTime() / 1000)}:${style}>`;
+}
+
+// Dates listed in a series embed before "…and N more"
+const MAX_DISCORD_SERIES_DATES = 10;
+
+const DISCORD_COLORS: Record<WebhookEventType, number> = {
+  participant_joined: 0x2563eb,
+  availability_changed: 0x71717a,
+  session_confirmed: 0x16a34a,
+  quorum_reached: 0xd97706,
+};
+
+/**
+ * Format a payload as a Discord webhook message with one embed
+ */
+export function formatDiscordPayload(payload: WebhookPayload): Record<string, unknown> {
+  const { data, campaign } = payload;
+  let title: string;
+  let description: string;
+  const fields: { name: string; value: string; inline?: boolean }[] = [];
+
+  switch (data.type) {
+    case "participant_joined":
+      title = "New player";
+      description = `**${data.participant.displayName}** joined ${campaign.title}`;
+      break;
+    case "availability_changed":
+      title = "Availability updated";
+      description = `**${data.participant.displayName}** updated their availability`;
+      break;
+    case "session_confirmed": {
+      if (data.series) {
+        const { sessions } = data.series;
+        title = data.session.title ? `Series confirmed: ${data.session.title}` : "Series confirmed";
+        description = [
+          `${sessions.length} sessions of ${data.session.durationMinutes / 60} hours:`,
+          ...sessions.slice(0, MAX_DISCORD_SERIES_DATES).map((s) => discordTimestamp(s.startsAt)),
+          ...(sessions.length > MAX_DISCORD_SERIES_DATES
+            ? [`…and ${sessions.length - MAX_DISCORD_SERIES_DATES} more`]
+            : []),
+        ].join("\n");
+        if (data.attendees.length > 0) {
+          fields.push({ name: "Players", value: data.attendees.join(", ") });
+        }
+        break;
+      }
+      const end = new Date(
+        new Date(data.session.startsAt).getTime() + data.session.durationMinutes * 60 * 1000
+      ).toISOString();
+      title = data.session.title ? `Session confirmed: ${data.session.title}` : "Session confirmed";
+      description = `${discordTimestamp(data.session.startsAt)} – ${discordTimestamp(end, "t")} (${discordTimestamp(data.session.startsAt, "R")})`;
+      if (data.attendees.length > 0) {
+        fields.push({ name: "Players", value: data.attendees.join(", ") });
+      }
+      break;
+    }
+    case "quorum_reached":
+      title = "Enough players for a session";
+      description = `${data.attendees.length} players (min ${data.minPlayers}) can make ${discordTimestamp(data.slot.startsAt)} – ${discordTimestamp(data.slot.endsAt, "t")}`;
+      fields.push({ name: "Players", value: data.attendees.join(", ") });
+      break;
+  }
+
+  return {
+    username: "When2Play",
+    embeds: [
+      {
+        title,
+        description,
+        url: campaign.url,
+        color: DISCORD_COLORS[payload.type],
+        timestamp: payload.createdAt,
+        footer: { text: campaign.title },
+        ...(fields.length > 0 && { fields }),
+      },
+    ],
+  };
+}
+
+/**
+ * Serialize the request body for a webhook's format
+ */
+export function serializeWebhookBody(payload: WebhookPayload, format: WebhookFormat): string {
+  return JSON.stringify(format === "discord" ? formatDiscordPayload(payload) : payload);
+}
+
+/**
+ * Delay before retry number `attempt` (1 = the first retry): 1s, 4s, 16s, ...
+ */
+export function getRetryDelay(attempt: number): number {
+  return BASE_RETRY_DELAY_MS * 4 ** (attempt - 1);
+}
+
+/**
+ * Whether a failed response is worth retrying (server errors, rate limits, timeouts)
+ */
+export function isRetryableStatus(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Shape of a webhook row loaded with its recent deliveries
+ */
+interface WebhookRecord {
+  id: string;
+  url: string;
+  format: string;
+  secret: string;
+  eventTypes: string[];
+  active: boolean;
+  createdAt: Date;
+  deliveries?: {
+    id: string;
+    eventType: string;
+    summary: string;
+    status: string;
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    createdAt: Date;
+    completedAt: Date | null;
+  }[];
+}
+
+/**
+ * Serialize a webhook row for API responses
+ */
+export function serializeWebhook(webhook: WebhookRecord): CampaignWebhook {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    format: webhook.format as WebhookFormat,
+    secret: webhook.secret,
+    eventTypes: webhook.eventTypes,
+    active: webhook.active,
+    createdAt: webhook.createdAt.toISOString(),
+    deliveries: (webhook.deliveries ?? []).map((d) => ({
+      id: d.id,
+      eventType: d.eventType,
+      summary: d.summary,
+      status: d.status as WebhookDeliveryLog["status"],
+      attempts: d.attempts,
+      responseStatus: d.responseStatus,
+      error: d.error,
+      createdAt: d.createdAt.toISOString(),
+      completedAt: d.completedAt?.toISOString() ?? null,
+    })),
+  };
+}
+
+/**
+ * Validate webhook fields from a create/update request body
+ * Only fields that are present are checked.
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateWebhookFields(
+  body: { url?: unknown; format?: unknown; eventTypes?: unknown; active?: unknown },
+  allowLocal = false
+): string | null {
+  if (body.url !== undefined) {
+    if (typeof body.url !== "string") return "Enter a valid webhook URL";
+    const urlError = validateWebhookUrl(body.url, allowLocal);
+    if (urlError) return urlError;
+  }
+  if (body.format !== undefined && body.format !== "json" && body.format !== "discord") {
+    return "Webhook format must be json or discord";
+  }
+  if (body.eventTypes !== undefined) {
+    if (
+      !Array.isArray(body.eventTypes) ||
+      !body.eventTypes.every((t) => WEBHOOK_EVENT_TYPES.includes(t as WebhookEventType))
+    ) {
+      return `eventTypes must be a list of: ${WEBHOOK_EVENT_TYPES.join(", ")}`;
+    }
+  }
+  if (body.active !== undefined && typeof body.active !== "boolean") {
+    return "active must be true or false";
+  }
+  return null;
+}
@@ -0,0 +1,39 @@
+/**
+ * Webhook request signatures
+ *
+ * Each POST carries X-Webhook-Timestamp (Unix seconds) and
+ * X-Webhook-Signature: "sha256=" + hex HMAC-SHA256 of "<timestamp>.<body>",
+ * keyed with the webhook's secret. Receivers recompute it to check the sender,
+ * and reject old timestamps to stop replays.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/** Signatures older than this are rejected by verifyWebhookSignature */
+const MAX_SIGNATURE_AGE_SECONDS = 5 * 60;
+
+/**
+ * Sign a request body
+ */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Check a received signature (reference implementation for receivers)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  if (Math.abs(now - timestamp) > MAX_SIGNATURE_AGE_SECONDS) return false;
+  const expected = Buffer.from(signWebhookBody(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}